@@ -1,6 +1,6 @@
 import { Button } from "@heroui/button";
 import { motion } from "framer-motion";
-import { Download, Scan } from "lucide-react";
+import { Download, Files, Scan } from "lucide-react";
 import { createPortal } from "react-dom";
 
 interface BottomDockProps {
@@ -9,9 +9,13 @@ interface BottomDockProps {
   statusText?: string;
   // Actions
   onDetectPII?: () => void | Promise<void>;
+  onDetectAllPages?: () => void | Promise<void>;
   onExport?: () => void | Promise<void>;
   hasRedactions?: boolean;
   hasRunDetection?: boolean;
+  // Whole-document detection (multi-page PDFs only)
+  isMultiPage?: boolean;
+  hasRunDetectionAllPages?: boolean;
 }
 
 export const BottomDock = ({
@@ -19,9 +23,12 @@ export const BottomDock = ({
   isProcessing = false,
   statusText,
   onDetectPII,
+  onDetectAllPages,
   onExport,
   hasRedactions = false,
   hasRunDetection = false,
+  isMultiPage = false,
+  hasRunDetectionAllPages = false,
 }: BottomDockProps) => {
   return createPortal(
     <motion.div
@@ -67,6 +74,23 @@ export const BottomDock = ({
               </span>
             </Button>
 
+            {/* Detect All Pages Button */}
+            {isMultiPage && (
+              <Button
+                size="lg"
+                variant="flat"
+                color="secondary"
+                onPress={() => onDetectAllPages?.()}
+                isDisabled={
+                  !hasDocument || isProcessing || hasRunDetectionAllPages
+                }
+                className="font-semibold"
+                startContent={<Files className="w-5 h-5" />}
+              >
+                <span className="hidden sm:inline">Detect All Pages</span>
+              </Button>
+            )}
+
             {/* Export Button */}
             <Button
               size="lg"
@@ -0,0 +1,359 @@
+import { Button } from "@heroui/button";
+import { Card, CardBody } from "@heroui/card";
+import { Input, Textarea } from "@heroui/input";
+import { Switch } from "@heroui/switch";
+import { Download, Pencil, Plus, Trash2, Upload } from "lucide-react";
+import { useId, useMemo, useState } from "react";
+import type { CustomRule } from "@/types/redaction";
+import { createCustomRule, testCustomRule } from "@/utils/customRules";
+
+interface CustomRulesEditorProps {
+  rules: CustomRule[];
+  onSaveRule: (rule: CustomRule) => void;
+  onRemoveRule: (ruleId: string) => void;
+  onToggleRule: (ruleId: string, enabled: boolean) => void;
+  onImportRules: (file: File) => void;
+  onExportRules: () => void;
+  // Page whose text the live test runs against
+  testPage: number;
+  onLoadTestText: () => Promise<string>;
+}
+
+const RULE_COLORS = [
+  "#6366f1",
+  "#0ea5e9",
+  "#14b8a6",
+  "#22c55e",
+  "#eab308",
+  "#f97316",
+  "#ef4444",
+  "#ec4899",
+];
+
+const CONFIDENCE_OPTIONS = [
+  { confidence: 0.6, label: "Low" },
+  { confidence: 0.8, label: "Medium" },
+  { confidence: 0.95, label: "High" },
+];
+
+const KIND_OPTIONS: Array<{ kind: CustomRule["kind"]; label: string }> = [
+  { kind: "words", label: "Word List" },
+  { kind: "regex", label: "Regex" },
+];
+
+export const CustomRulesEditor = ({
+  rules,
+  onSaveRule,
+  onRemoveRule,
+  onToggleRule,
+  onImportRules,
+  onExportRules,
+  testPage,
+  onLoadTestText,
+}: CustomRulesEditorProps) => {
+  const fileInputId = useId();
+  const [draft, setDraft] = useState<CustomRule | null>(null);
+  const [testText, setTestText] = useState<{
+    page: number;
+    text: string;
+  } | null>(null);
+  const [isLoadingText, setIsLoadingText] = useState(false);
+
+  // Test text is only valid for the page it was read from
+  const pageText =
+    testText && testText.page === testPage ? testText.text : null;
+
+  const testResult = useMemo(
+    () => (draft && pageText !== null ? testCustomRule(draft, pageText) : null),
+    [draft, pageText],
+  );
+  const compileError = useMemo(
+    () => (draft ? testCustomRule(draft, "").error : null),
+    [draft],
+  );
+
+  const updateDraft = (changes: Partial<CustomRule>) => {
+    setDraft((prev) => (prev ? { ...prev, ...changes } : prev));
+  };
+
+  const handleLoadTestText = async () => {
+    setIsLoadingText(true);
+    try {
+      setTestText({ page: testPage, text: await onLoadTestText() });
+    } catch (error) {
+      console.warn("Failed to read page text for rule test:", error);
+    } finally {
+      setIsLoadingText(false);
+    }
+  };
+
+  const handleSave = () => {
+    if (!draft) return;
+    onSaveRule({ ...draft, label: draft.label.trim() });
+    setDraft(null);
+  };
+
+  return (
+    <div className="space-y-3">
+      {rules.length === 0 && !draft && (
+        <p className="text-xs text-default-500">
+          Add rules for identifiers the built-in detectors do not know, such as
+          employee IDs, case numbers or project codenames.
+        </p>
+      )}
+
+      {rules.map((rule) => (
+        <Card
+          key={rule.id}
+          className="bg-content2/50 backdrop-blur-sm border border-divider/50"
+        >
+          <CardBody className="p-3">
+            <div className="flex items-center gap-3">
+              <span
+                className="shrink-0 w-3 h-3 rounded-full"
+                style={{ backgroundColor: rule.color }}
+              />
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-semibold truncate">{rule.label}</p>
+                <p className="text-xs font-mono text-default-500 truncate">
+                  {rule.kind === "regex"
+                    ? `/${rule.pattern}/`
+                    : rule.pattern.split("\n").filter(Boolean).join(", ")}
+                </p>
+              </div>
+              <Switch
+                size="sm"
+                isSelected={rule.enabled}
+                onValueChange={(enabled) => onToggleRule(rule.id, enabled)}
+                aria-label={`${rule.enabled ? "Disable" : "Enable"} rule ${rule.label}`}
+              />
+              <Button
+                isIconOnly
+                size="sm"
+                variant="light"
+                onPress={() => setDraft({ ...rule })}
+                aria-label={`Edit rule ${rule.label}`}
+              >
+                <Pencil className="w-4 h-4" />
+              </Button>
+              <Button
+                isIconOnly
+                size="sm"
+                variant="light"
+                color="danger"
+                onPress={() => onRemoveRule(rule.id)}
+                aria-label={`Delete rule ${rule.label}`}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          </CardBody>
+        </Card>
+      ))}
+
+      {draft && (
+        <Card className="bg-content2/50 backdrop-blur-sm border border-primary/50">
+          <CardBody className="p-4 space-y-3">
+            <Input
+              size="sm"
+              label="Label"
+              placeholder="Employee ID"
+              value={draft.label}
+              onValueChange={(label) => updateDraft({ label })}
+            />
+            <div className="flex gap-2">
+              {KIND_OPTIONS.map(({ kind, label }) => (
+                <Button
+                  key={kind}
+                  size="sm"
+                  variant={draft.kind === kind ? "solid" : "flat"}
+                  color={draft.kind === kind ? "primary" : "default"}
+                  onPress={() => updateDraft({ kind })}
+                  className="flex-1 font-semibold"
+                >
+                  {label}
+                </Button>
+              ))}
+            </div>
+            <Textarea
+              size="sm"
+              label={draft.kind === "regex" ? "Regular expression" : "Words"}
+              description={
+                draft.kind === "regex"
+                  ? undefined
+                  : "One word or phrase per line; whole words only"
+              }
+              placeholder={
+                draft.kind === "regex" ? "EMP-\\d{6}" : "Project Falcon"
+              }
+              value={draft.pattern}
+              onValueChange={(pattern) => updateDraft({ pattern })}
+              isInvalid={draft.pattern.length > 0 && compileError !== null}
+              errorMessage={compileError ?? undefined}
+              classNames={{ input: "font-mono" }}
+              minRows={2}
+            />
+            <div className="flex items-center justify-between gap-3">
+              <p className="text-sm">Case sensitive</p>
+              <Switch
+                size="sm"
+                isSelected={draft.caseSensitive}
+                onValueChange={(caseSensitive) =>
+                  updateDraft({ caseSensitive })
+                }
+                aria-label="Toggle case sensitive matching"
+              />
+            </div>
+            <div>
+              <p className="text-sm mb-2">Color</p>
+              <div className="flex gap-2">
+                {RULE_COLORS.map((color) => (
+                  <button
+                    key={color}
+                    type="button"
+                    onClick={() => updateDraft({ color })}
+                    className={`w-6 h-6 rounded-full transition-transform ${
+                      draft.color === color
+                        ? "ring-2 ring-offset-2 ring-primary scale-110"
+                        : ""
+                    }`}
+                    style={{ backgroundColor: color }}
+                    aria-label={`Use color ${color}`}
+                  />
+                ))}
+              </div>
+            </div>
+            <div>
+              <p className="text-sm mb-2">Confidence</p>
+              <div className="flex gap-2">
+                {CONFIDENCE_OPTIONS.map(({ confidence, label }) => (
+                  <Button
+                    key={confidence}
+                    size="sm"
+                    variant={draft.confidence === confidence ? "solid" : "flat"}
+                    color={
+                      draft.confidence === confidence ? "primary" : "default"
+                    }
+                    onPress={() => updateDraft({ confidence })}
+                    className="flex-1 font-semibold"
+                  >
+                    {label}
+                  </Button>
+                ))}
+              </div>
+            </div>
+
+            {/* Live test against the current page */}
+            <div className="rounded-xl bg-content3/50 p-3">
+              {pageText === null ? (
+                <Button
+                  size="sm"
+                  variant="flat"
+                  onPress={handleLoadTestText}
+                  isLoading={isLoadingText}
+                  className="w-full font-semibold"
+                >
+                  Test on page {testPage}
+                </Button>
+              ) : testResult?.error ? (
+                <p className="text-xs text-default-500">
+                  Fix the rule to see matches on page {testPage}
+                </p>
+              ) : (
+                <>
+                  <p className="text-xs font-semibold mb-2">
+                    {testResult?.total ?? 0} match
+                    {testResult?.total !== 1 ? "es" : ""} on page {testPage}
+                  </p>
+                  <div className="flex flex-wrap gap-1.5 max-h-32 overflow-y-auto">
+                    {testResult?.matches.map((match) => (
+                      <span
+                        key={match.index}
+                        className="px-2 py-0.5 rounded-md text-xs font-mono"
+                        style={{
+                          backgroundColor: `${draft.color}33`,
+                          color: draft.color,
+                        }}
+                      >
+                        {match.text}
+                      </span>
+                    ))}
+                  </div>
+                </>
+              )}
+            </div>
+
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                color="primary"
+                onPress={handleSave}
+                isDisabled={
+                  draft.label.trim().length === 0 || compileError !== null
+                }
+                className="flex-1 font-semibold"
+              >
+                Save Rule
+              </Button>
+              <Button
+                size="sm"
+                variant="flat"
+                onPress={() => setDraft(null)}
+                className="flex-1 font-semibold"
+              >
+                Cancel
+              </Button>
+            </div>
+          </CardBody>
+        </Card>
+      )}
+
+      <input
+        type="file"
+        id={fileInputId}
+        className="hidden"
+        accept=".json,application/json"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) onImportRules(file);
+          // Allow importing the same file again
+          e.target.value = "";
+        }}
+        aria-label="Import rules file"
+      />
+      <div className="flex gap-2">
+        <Button
+          size="sm"
+          variant="flat"
+          color="primary"
+          startContent={<Plus className="w-4 h-4" />}
+          onPress={() => setDraft(createCustomRule())}
+          isDisabled={draft !== null}
+          className="flex-1 font-semibold"
+        >
+          Add Rule
+        </Button>
+        <Button
+          as="label"
+          htmlFor={fileInputId}
+          size="sm"
+          variant="flat"
+          startContent={<Upload className="w-4 h-4" />}
+          className="font-semibold"
+        >
+          Import
+        </Button>
+        <Button
+          size="sm"
+          variant="flat"
+          startContent={<Download className="w-4 h-4" />}
+          onPress={onExportRules}
+          isDisabled={rules.length === 0}
+          className="font-semibold"
+        >
+          Export
+        </Button>
+      </div>
+    </div>
+  );
+};
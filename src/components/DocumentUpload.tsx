@@ -3,10 +3,11 @@ import { AnimatePresence, motion } from "framer-motion";
 import { FileText, Image as ImageIcon, Upload } from "lucide-react";
 import { useCallback, useMemo, useState } from "react";
 import { DocumentManager } from "@/services/DocumentManager";
-import type { Document } from "@/types/redaction";
+import { ProjectService } from "@/services/ProjectService";
+import type { Document, RedactionProject } from "@/types/redaction";
 
 interface DocumentUploadProps {
-  onDocumentLoad: (document: Document) => void;
+  onDocumentLoad: (document: Document, project?: RedactionProject) => void;
   onError: (error: string) => void;
 }
 
@@ -25,6 +26,7 @@ export const DocumentUpload = ({
   const [isDragging, setIsDragging] = useState(false);
   const [isUploading, setIsUploading] = useState(false);
   const documentManager = useMemo(() => new DocumentManager(), []);
+  const projectService = useMemo(() => new ProjectService(), []);
 
   const validateFile = useCallback((file: File): string | null => {
     if (!ACCEPTED_FORMATS.includes(file.type)) {
@@ -36,8 +38,21 @@ export const DocumentUpload = ({
     return null;
   }, []);
 
-  const handleFile = useCallback(
-    async (file: File) => {
+  const handleFiles = useCallback(
+    async (files: File[]) => {
+      // A saved project may be selected together with its source document
+      const projectFile = files.find((f) => projectService.isProjectFile(f));
+      const file = files.find((f) => !projectService.isProjectFile(f));
+
+      if (!file) {
+        onError(
+          projectFile
+            ? "Select the original document together with the project file."
+            : "No document selected.",
+        );
+        return;
+      }
+
       const error = validateFile(file);
       if (error) {
         onError(error);
@@ -46,16 +61,20 @@ export const DocumentUpload = ({
 
       setIsUploading(true);
       try {
+        const project = projectFile
+          ? await projectService.readProjectFile(projectFile)
+          : undefined;
+
         // Use DocumentManager to properly handle both PDFs and images
         const document = await documentManager.loadDocument(file);
-        onDocumentLoad(document);
+        onDocumentLoad(document, project);
       } catch (err) {
         onError(err instanceof Error ? err.message : "Failed to load document");
       } finally {
         setIsUploading(false);
       }
     },
-    [onDocumentLoad, onError, validateFile, documentManager],
+    [onDocumentLoad, onError, validateFile, documentManager, projectService],
   );
 
   const handleDragOver = useCallback((e: React.DragEvent) => {
@@ -75,20 +94,20 @@ export const DocumentUpload = ({
 
       const files = Array.from(e.dataTransfer.files);
       if (files.length > 0) {
-        handleFile(files[0]);
+        handleFiles(files);
       }
     },
-    [handleFile],
+    [handleFiles],
   );
 
   const handleFileInput = useCallback(
     (e: React.ChangeEvent<HTMLInputElement>) => {
       const files = e.target.files;
       if (files && files.length > 0) {
-        handleFile(files[0]);
+        handleFiles(Array.from(files));
       }
     },
-    [handleFile],
+    [handleFiles],
   );
 
   return (
@@ -186,16 +205,21 @@ export const DocumentUpload = ({
                     ? "Drop it here!"
                     : "Drop your document here"}
               </p>
-              <p className="text-sm sm:text-base text-default-500 mb-6">
+              <p className="text-sm sm:text-base text-default-500 mb-2">
                 or click to browse files
               </p>
+              <p className="text-xs text-default-400 mb-6">
+                To resume, select a saved .redact.json project together with its
+                document
+              </p>
             </div>
 
             <input
               type="file"
               id="file-input"
               className="hidden"
-              accept=".pdf,.png,.jpg,.jpeg"
+              accept=".pdf,.png,.jpg,.jpeg,.json"
+              multiple
               onChange={handleFileInput}
               disabled={isUploading}
               aria-label="Upload document file"
@@ -2,13 +2,20 @@ import { Button } from "@heroui/button";
 import { Card, CardBody } from "@heroui/card";
 import { motion } from "framer-motion";
 import {
+  CopyPlus,
   Download,
   Eye,
   FileText,
+  FolderOpen,
+  Move,
   Pencil,
+  Redo2,
   RotateCcw,
+  Save,
   Search,
+  TextSearch,
   Trash2,
+  Undo2,
   Upload,
 } from "lucide-react";
 import { useMemo } from "react";
@@ -18,6 +25,12 @@ import { HistoryActionType, type HistoryEntry } from "@/types/redaction";
 interface HistoryPanelProps {
   history: HistoryEntry[];
   onClearHistory: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  revertibleEntryIds: Set<string>; // entries whose edit can be reverted to
+  onRevertTo: (entryId: string) => void;
 }
 
 const getActionIcon = (action: HistoryActionType) => {
@@ -30,6 +43,8 @@ const getActionIcon = (action: HistoryActionType) => {
       return <Pencil className="w-4 h-4" />;
     case HistoryActionType.REDACTION_REMOVED:
       return <Trash2 className="w-4 h-4" />;
+    case HistoryActionType.REDACTION_EDITED:
+      return <Move className="w-4 h-4" />;
     case HistoryActionType.DETECTION_TOGGLED:
       return <RotateCcw className="w-4 h-4" />;
     case HistoryActionType.EXPORT_COMPLETED:
@@ -39,6 +54,14 @@ const getActionIcon = (action: HistoryActionType) => {
     case HistoryActionType.PAGE_CLEARED:
     case HistoryActionType.ALL_CLEARED:
       return <Trash2 className="w-4 h-4" />;
+    case HistoryActionType.PROJECT_SAVED:
+      return <Save className="w-4 h-4" />;
+    case HistoryActionType.PROJECT_OPENED:
+      return <FolderOpen className="w-4 h-4" />;
+    case HistoryActionType.SEARCH_REDACTED:
+      return <TextSearch className="w-4 h-4" />;
+    case HistoryActionType.OCCURRENCES_REDACTED:
+      return <CopyPlus className="w-4 h-4" />;
     default:
       return <FileText className="w-4 h-4" />;
   }
@@ -51,6 +74,8 @@ const getActionColor = (action: HistoryActionType): string => {
     case HistoryActionType.PII_DETECTION_RUN:
       return "text-secondary";
     case HistoryActionType.MANUAL_REDACTION_ADDED:
+    case HistoryActionType.SEARCH_REDACTED:
+    case HistoryActionType.OCCURRENCES_REDACTED:
       return "text-success";
     case HistoryActionType.REDACTION_REMOVED:
     case HistoryActionType.PAGE_CLEARED:
@@ -59,9 +84,13 @@ const getActionColor = (action: HistoryActionType): string => {
     case HistoryActionType.EXPORT_COMPLETED:
       return "text-primary";
     case HistoryActionType.DETECTION_TOGGLED:
+    case HistoryActionType.REDACTION_EDITED:
       return "text-warning";
     case HistoryActionType.MODE_CHANGED:
       return "text-default-500";
+    case HistoryActionType.PROJECT_SAVED:
+    case HistoryActionType.PROJECT_OPENED:
+      return "text-primary";
     default:
       return "text-default-500";
   }
@@ -94,6 +123,12 @@ const formatTimestamp = (date: Date): string => {
 export const HistoryPanel = ({
   history,
   onClearHistory,
+  canUndo,
+  canRedo,
+  onUndo,
+  onRedo,
+  revertibleEntryIds,
+  onRevertTo,
 }: HistoryPanelProps) => {
   const sortedHistory = useMemo(() => {
     return [...history].sort(
@@ -120,15 +155,39 @@ export const HistoryPanel = ({
     <div className="h-full flex flex-col">
       <div className="flex items-center justify-between mb-4">
         <h3 className="text-lg font-bold">History</h3>
-        <Button
-          size="sm"
-          variant="flat"
-          color="danger"
-          onPress={onClearHistory}
-          className="text-xs"
-        >
-          Clear All
-        </Button>
+        <div className="flex items-center gap-1">
+          <Button
+            isIconOnly
+            size="sm"
+            variant="light"
+            onPress={onUndo}
+            isDisabled={!canUndo}
+            aria-label="Undo (Ctrl+Z)"
+            title="Undo (Ctrl+Z)"
+          >
+            <Undo2 className="w-4 h-4" />
+          </Button>
+          <Button
+            isIconOnly
+            size="sm"
+            variant="light"
+            onPress={onRedo}
+            isDisabled={!canRedo}
+            aria-label="Redo (Ctrl+Shift+Z)"
+            title="Redo (Ctrl+Shift+Z)"
+          >
+            <Redo2 className="w-4 h-4" />
+          </Button>
+          <Button
+            size="sm"
+            variant="flat"
+            color="danger"
+            onPress={onClearHistory}
+            className="text-xs"
+          >
+            Clear All
+          </Button>
+        </div>
       </div>
 
       <div className="space-y-2 flex-1 overflow-y-auto">
@@ -139,7 +198,11 @@ export const HistoryPanel = ({
             animate={{ opacity: 1, y: 0 }}
             transition={{ delay: index * 0.03 }}
           >
-            <Card className="bg-content2/50 backdrop-blur-sm border border-divider/50 hover:border-primary/30 transition-colors">
+            <Card
+              className={`bg-content2/50 backdrop-blur-sm border border-divider/50 hover:border-primary/30 transition-colors ${
+                entry.undone ? "opacity-50" : ""
+              }`}
+            >
               <CardBody className="p-3">
                 <div className="flex items-start gap-3">
                   <div
@@ -151,7 +214,11 @@ export const HistoryPanel = ({
                   </div>
                   <div className="flex-1 min-w-0">
                     <div className="flex items-start justify-between gap-2">
-                      <p className="text-sm font-medium text-foreground">
+                      <p
+                        className={`text-sm font-medium text-foreground ${
+                          entry.undone ? "line-through" : ""
+                        }`}
+                      >
                         {entry.description}
                       </p>
                       <span className="text-xs text-default-400 whitespace-nowrap">
@@ -187,8 +254,29 @@ export const HistoryPanel = ({
                               {entry.metadata.piiType.replace("_", " ")}
                             </span>
                           )}
+                          {entry.metadata.sanitization && (
+                            <span className="text-xs px-2 py-0.5 rounded-full bg-default-100 text-default-600">
+                              {entry.metadata.sanitization}
+                            </span>
+                          )}
+                          {entry.metadata.verification && (
+                            <span className="text-xs px-2 py-0.5 rounded-full bg-default-100 text-default-600">
+                              {entry.metadata.verification}
+                            </span>
+                          )}
                         </div>
                       )}
+                    {revertibleEntryIds.has(entry.id) && (
+                      <Button
+                        size="sm"
+                        variant="light"
+                        color="primary"
+                        onPress={() => onRevertTo(entry.id)}
+                        className="mt-1 h-6 min-w-0 px-2 text-xs"
+                      >
+                        Revert to here
+                      </Button>
+                    )}
                   </div>
                 </div>
               </CardBody>
@@ -1,11 +1,16 @@
 import { Button } from "@heroui/button";
-import { InteractionMode } from "@/types/redaction";
+import { Lasso, type LucideIcon, Pentagon, Square } from "lucide-react";
+import { DrawTool, InteractionMode } from "@/types/redaction";
 
 interface LeftRailProps {
   mode: InteractionMode;
   onModeChange: (mode: InteractionMode) => void;
+  drawTool: DrawTool;
+  onDrawToolChange: (tool: DrawTool) => void;
+  onClearPage: () => void;
   onClearAll: () => void;
   onUploadNew?: () => void;
+  onSaveProject?: () => void;
   isProcessing?: boolean;
   hasDocument?: boolean;
   manualOnlyMode?: boolean;
@@ -19,6 +24,16 @@ interface RailButtonProps {
   disabled?: boolean;
 }
 
+export const DRAW_TOOL_OPTIONS: Array<{
+  tool: DrawTool;
+  label: string;
+  icon: LucideIcon;
+}> = [
+  { tool: DrawTool.RECTANGLE, label: "Box", icon: Square },
+  { tool: DrawTool.POLYGON, label: "Polygon", icon: Pentagon },
+  { tool: DrawTool.LASSO, label: "Lasso", icon: Lasso },
+];
+
 const RailButton = ({
   active,
   onPress,
@@ -45,8 +60,12 @@ const RailButton = ({
 export const LeftRail = ({
   mode,
   onModeChange,
+  drawTool,
+  onDrawToolChange,
+  onClearPage,
   onClearAll,
   onUploadNew,
+  onSaveProject,
   isProcessing = false,
   hasDocument = false,
   manualOnlyMode = false,
@@ -142,12 +161,55 @@ export const LeftRail = ({
         </div>
       </div>
 
+      {/* Drawing tools, while drawing by hand */}
+      {mode === InteractionMode.MANUAL_REDACT && (
+        <div className="mt-1">
+          <p className="text-[11px] uppercase tracking-wide text-default-500 mb-2">
+            Draw
+          </p>
+          <div className="flex flex-col gap-2">
+            {DRAW_TOOL_OPTIONS.map(({ tool, label, icon: Icon }) => (
+              <RailButton
+                key={tool}
+                active={drawTool === tool}
+                onPress={() => onDrawToolChange(tool)}
+                label={label}
+                icon={<Icon className="w-4 h-4" />}
+              />
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Actions */}
       <div className="mt-2">
         <p className="text-[11px] uppercase tracking-wide text-default-500 mb-2">
           Actions
         </p>
         <div className="flex flex-col gap-2">
+          <Button
+            size="sm"
+            variant="flat"
+            color="danger"
+            onPress={onClearPage}
+            isDisabled={!hasDocument}
+          >
+            <svg
+              className="w-4 h-4 mr-2"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+              aria-hidden
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"
+              />
+            </svg>
+            Clear Page
+          </Button>
           <Button
             size="sm"
             variant="flat"
@@ -169,8 +231,32 @@ export const LeftRail = ({
                 d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"
               />
             </svg>
-            Clear All
+            Clear All Pages
           </Button>
+          {onSaveProject && (
+            <Button
+              size="sm"
+              variant="flat"
+              onPress={onSaveProject}
+              isDisabled={!hasDocument || isProcessing}
+            >
+              <svg
+                className="w-4 h-4 mr-2"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+                aria-hidden
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M8 7H5a2 2 0 00-2 2v9a2 2 0 002 2h14a2 2 0 002-2V9a2 2 0 00-2-2h-3m-1 4l-3 3m0 0l-3-3m3 3V4"
+                />
+              </svg>
+              Save Project
+            </Button>
+          )}
           {manualOnlyMode && (
             <div className="text-xs text-warning-700 bg-warning-50 border border-warning-200 rounded-md p-2">
               Auto-detection unavailable — use Manual Redact
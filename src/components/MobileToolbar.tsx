@@ -1,13 +1,18 @@
 import { Button } from "@heroui/button";
 import { ChevronDown, ChevronUp } from "lucide-react";
 import { useState } from "react";
-import { InteractionMode } from "@/types/redaction";
+import { DRAW_TOOL_OPTIONS } from "@/components/LeftRail";
+import { type DrawTool, InteractionMode } from "@/types/redaction";
 
 interface MobileToolbarProps {
   mode: InteractionMode;
   onModeChange: (mode: InteractionMode) => void;
+  drawTool: DrawTool;
+  onDrawToolChange: (tool: DrawTool) => void;
+  onClearPage: () => void;
   onClearAll: () => void;
   onUploadNew: () => void;
+  onSaveProject?: () => void;
   isProcessing?: boolean;
   hasDocument?: boolean;
   manualOnlyMode?: boolean;
@@ -16,8 +21,12 @@ interface MobileToolbarProps {
 export const MobileToolbar = ({
   mode,
   onModeChange,
+  drawTool,
+  onDrawToolChange,
+  onClearPage,
   onClearAll,
   onUploadNew,
+  onSaveProject,
   isProcessing = false,
   hasDocument = false,
   manualOnlyMode = false,
@@ -168,6 +177,31 @@ export const MobileToolbar = ({
             </div>
           </div>
 
+          {/* Drawing tools, while drawing by hand */}
+          {mode === InteractionMode.MANUAL_REDACT && (
+            <div>
+              <h3 className="text-xs uppercase tracking-wide text-default-500 mb-2">
+                Draw
+              </h3>
+              <div className="grid grid-cols-3 gap-2">
+                {DRAW_TOOL_OPTIONS.map(({ tool, label, icon: Icon }) => (
+                  <Button
+                    key={tool}
+                    size="sm"
+                    variant={drawTool === tool ? "solid" : "flat"}
+                    color={drawTool === tool ? "primary" : "default"}
+                    onPress={() => onDrawToolChange(tool)}
+                    className="flex-col h-auto py-2"
+                    aria-pressed={drawTool === tool}
+                  >
+                    <Icon className="w-5 h-5 mb-1" />
+                    <span className="text-xs">{label}</span>
+                  </Button>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Actions */}
           <div>
             <h3 className="text-xs uppercase tracking-wide text-default-500 mb-2">
@@ -177,9 +211,32 @@ export const MobileToolbar = ({
               size="sm"
               color="danger"
               variant="flat"
-              onPress={onClearAll}
+              onPress={onClearPage}
               isDisabled={!hasDocument}
               className="w-full"
+            >
+              <svg
+                className="w-4 h-4 mr-2"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"
+                />
+              </svg>
+              Clear Page Redactions
+            </Button>
+            <Button
+              size="sm"
+              color="danger"
+              variant="flat"
+              onPress={onClearAll}
+              isDisabled={!hasDocument}
+              className="w-full mt-2"
             >
               <svg
                 className="w-4 h-4 mr-2"
@@ -196,6 +253,30 @@ export const MobileToolbar = ({
               </svg>
               Clear All Redactions
             </Button>
+            {onSaveProject && (
+              <Button
+                size="sm"
+                variant="flat"
+                onPress={onSaveProject}
+                isDisabled={!hasDocument || isProcessing}
+                className="w-full mt-2"
+              >
+                <svg
+                  className="w-4 h-4 mr-2"
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M8 7H5a2 2 0 00-2 2v9a2 2 0 002 2h14a2 2 0 002-2V9a2 2 0 00-2-2h-3m-1 4l-3 3m0 0l-3-3m3 3V4"
+                  />
+                </svg>
+                Save Project
+              </Button>
+            )}
           </div>
 
           {/* Warning message */}
@@ -1,27 +1,60 @@
+import { Button } from "@heroui/button";
 import { Card, CardBody } from "@heroui/card";
 import { Switch } from "@heroui/switch";
 import { AnimatePresence, motion } from "framer-motion";
 import {
+  Bitcoin,
   Calendar,
+  CalendarClock,
+  Check,
+  CopyPlus,
   CreditCard,
   FileText,
+  IdCard,
+  KeyRound,
+  Landmark,
+  ListChecks,
   type LucideIcon,
   Mail,
   MapPin,
   Phone,
   Shield,
+  Tag,
   User,
+  X,
 } from "lucide-react";
 import { EmptyState } from "@/components/EmptyState";
-import { type PIIDetection, PIIType } from "@/types/redaction";
+import {
+  type LinkedRegionGroup,
+  type PIIDetection,
+  PIIType,
+} from "@/types/redaction";
 
 interface PIIListPanelProps {
   detections: PIIDetection[];
   enabledDetections: Set<string>;
   onToggleDetection: (detectionId: string, enabled: boolean) => void;
   onHighlightDetection: (detectionId: string | null) => void;
+  // Detections whose regions on the page are selected
+  selectedDetectionIds: Set<string>;
+  onSelectDetection: (detectionId: string, additive: boolean) => void;
+  onSelectAllDetections: () => void;
+  // Occurrences of manually boxed phrases awaiting review, on any page
+  linkedGroups: Array<
+    LinkedRegionGroup & { regionCount: number; pageCount: number }
+  >;
+  onAcceptLinkedGroup: (groupId: string) => void;
+  onRejectLinkedGroup: (groupId: string) => void;
 }
 
+// Bank and card details share the credit card's orange
+const FINANCIAL_COLOR =
+  "bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-200";
+
+// National identifiers share the SSN's red
+const NATIONAL_ID_COLOR =
+  "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200";
+
 const PII_TYPE_COLORS: Record<PIIType, string> = {
   [PIIType.NAME]:
     "bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200",
@@ -36,11 +69,30 @@ const PII_TYPE_COLORS: Record<PIIType, string> = {
     "bg-pink-100 text-pink-800 dark:bg-pink-900 dark:text-pink-200",
   [PIIType.CREDIT_CARD]:
     "bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-200",
+  [PIIType.UK_NINO]: NATIONAL_ID_COLOR,
+  [PIIType.UK_NHS]: NATIONAL_ID_COLOR,
+  [PIIType.DE_TAX_ID]: NATIONAL_ID_COLOR,
+  [PIIType.FR_INSEE]: NATIONAL_ID_COLOR,
+  [PIIType.ES_DNI]: NATIONAL_ID_COLOR,
+  [PIIType.ES_NIE]: NATIONAL_ID_COLOR,
+  [PIIType.IN_AADHAAR]: NATIONAL_ID_COLOR,
+  [PIIType.IN_PAN]: NATIONAL_ID_COLOR,
+  [PIIType.CA_SIN]: NATIONAL_ID_COLOR,
+  [PIIType.AU_TFN]: NATIONAL_ID_COLOR,
+  [PIIType.IBAN]: FINANCIAL_COLOR,
+  [PIIType.SWIFT_BIC]: FINANCIAL_COLOR,
+  [PIIType.ABA_ROUTING]: FINANCIAL_COLOR,
+  [PIIType.BANK_ACCOUNT]: FINANCIAL_COLOR,
+  [PIIType.CRYPTO_ADDRESS]: FINANCIAL_COLOR,
+  [PIIType.CARD_CVV]: FINANCIAL_COLOR,
+  [PIIType.CARD_EXPIRY]: FINANCIAL_COLOR,
+  [PIIType.CUSTOM]:
+    "bg-indigo-100 text-indigo-800 dark:bg-indigo-900 dark:text-indigo-200",
   [PIIType.OTHER]:
     "bg-gray-100 text-gray-800 dark:bg-gray-900 dark:text-gray-200",
 };
 
-const PII_TYPE_LABELS: Record<PIIType, string> = {
+export const PII_TYPE_LABELS: Record<PIIType, string> = {
   [PIIType.NAME]: "Name",
   [PIIType.EMAIL]: "Email",
   [PIIType.PHONE]: "Phone",
@@ -48,6 +100,24 @@ const PII_TYPE_LABELS: Record<PIIType, string> = {
   [PIIType.ADDRESS]: "Address",
   [PIIType.DATE_OF_BIRTH]: "Date of Birth",
   [PIIType.CREDIT_CARD]: "Credit Card",
+  [PIIType.UK_NINO]: "UK NI Number",
+  [PIIType.UK_NHS]: "NHS Number",
+  [PIIType.DE_TAX_ID]: "Steuer-ID",
+  [PIIType.FR_INSEE]: "INSEE Number",
+  [PIIType.ES_DNI]: "DNI",
+  [PIIType.ES_NIE]: "NIE",
+  [PIIType.IN_AADHAAR]: "Aadhaar",
+  [PIIType.IN_PAN]: "PAN",
+  [PIIType.CA_SIN]: "SIN",
+  [PIIType.AU_TFN]: "TFN",
+  [PIIType.IBAN]: "IBAN",
+  [PIIType.SWIFT_BIC]: "SWIFT/BIC",
+  [PIIType.ABA_ROUTING]: "Routing Number",
+  [PIIType.BANK_ACCOUNT]: "Bank Account",
+  [PIIType.CRYPTO_ADDRESS]: "Crypto Wallet",
+  [PIIType.CARD_CVV]: "Card CVV",
+  [PIIType.CARD_EXPIRY]: "Card Expiry",
+  [PIIType.CUSTOM]: "Custom",
   [PIIType.OTHER]: "Other",
 };
 
@@ -59,6 +129,24 @@ const PII_TYPE_ICONS: Record<PIIType, LucideIcon> = {
   [PIIType.ADDRESS]: MapPin,
   [PIIType.DATE_OF_BIRTH]: Calendar,
   [PIIType.CREDIT_CARD]: CreditCard,
+  [PIIType.UK_NINO]: IdCard,
+  [PIIType.UK_NHS]: IdCard,
+  [PIIType.DE_TAX_ID]: IdCard,
+  [PIIType.FR_INSEE]: IdCard,
+  [PIIType.ES_DNI]: IdCard,
+  [PIIType.ES_NIE]: IdCard,
+  [PIIType.IN_AADHAAR]: IdCard,
+  [PIIType.IN_PAN]: IdCard,
+  [PIIType.CA_SIN]: IdCard,
+  [PIIType.AU_TFN]: IdCard,
+  [PIIType.IBAN]: Landmark,
+  [PIIType.SWIFT_BIC]: Landmark,
+  [PIIType.ABA_ROUTING]: Landmark,
+  [PIIType.BANK_ACCOUNT]: Landmark,
+  [PIIType.CRYPTO_ADDRESS]: Bitcoin,
+  [PIIType.CARD_CVV]: KeyRound,
+  [PIIType.CARD_EXPIRY]: CalendarClock,
+  [PIIType.CUSTOM]: Tag,
   [PIIType.OTHER]: FileText,
 };
 
@@ -67,11 +155,13 @@ export const PIIListPanel = ({
   enabledDetections,
   onToggleDetection,
   onHighlightDetection,
+  selectedDetectionIds,
+  onSelectDetection,
+  onSelectAllDetections,
+  linkedGroups,
+  onAcceptLinkedGroup,
+  onRejectLinkedGroup,
 }: PIIListPanelProps) => {
-  const getDetectionId = (detection: PIIDetection, index: number): string => {
-    return `${detection.type}-${detection.startIndex}-${index}`;
-  };
-
   const getConfidenceColor = (confidence: number): string => {
     if (confidence >= 0.8) return "text-success";
     if (confidence >= 0.5) return "text-warning";
@@ -95,12 +185,73 @@ export const PIIListPanel = ({
       <div className="flex items-center justify-between mb-4">
         <h3 className="text-lg font-bold">Detected PII</h3>
         {safeDetections.length > 0 && (
-          <div className="flex items-center gap-2 px-3 py-1 rounded-full bg-primary/10 text-xs font-medium text-primary">
-            {safeDetections.length} item{safeDetections.length !== 1 ? "s" : ""}
+          <div className="flex items-center gap-2">
+            <Button
+              isIconOnly
+              size="sm"
+              variant="light"
+              onPress={onSelectAllDetections}
+              aria-label="Select all detections"
+              title="Select all"
+            >
+              <ListChecks className="w-4 h-4" />
+            </Button>
+            <div className="flex items-center gap-2 px-3 py-1 rounded-full bg-primary/10 text-xs font-medium text-primary">
+              {safeDetections.length} item
+              {safeDetections.length !== 1 ? "s" : ""}
+            </div>
           </div>
         )}
       </div>
 
+      {/* Linked occurrences */}
+      {linkedGroups.length > 0 && (
+        <div className="space-y-2 mb-4">
+          {linkedGroups.map((group) => (
+            <Card
+              key={group.id}
+              className="bg-content2/50 backdrop-blur-sm border border-primary/50"
+            >
+              <CardBody className="p-3">
+                <div className="flex items-center gap-3">
+                  <div className="shrink-0 w-10 h-10 rounded-xl bg-primary/20 text-primary flex items-center justify-center">
+                    <CopyPlus className="w-5 h-5" />
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-bold truncate">"{group.text}"</p>
+                    <p className="text-xs text-default-500">
+                      {group.regionCount} linked box
+                      {group.regionCount !== 1 ? "es" : ""} on {group.pageCount}{" "}
+                      page{group.pageCount !== 1 ? "s" : ""}
+                    </p>
+                  </div>
+                  <Button
+                    isIconOnly
+                    size="sm"
+                    variant="flat"
+                    color="success"
+                    onPress={() => onAcceptLinkedGroup(group.id)}
+                    aria-label={`Keep all occurrences of ${group.text}`}
+                  >
+                    <Check className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    isIconOnly
+                    size="sm"
+                    variant="flat"
+                    color="danger"
+                    onPress={() => onRejectLinkedGroup(group.id)}
+                    aria-label={`Remove all occurrences of ${group.text}`}
+                  >
+                    <X className="w-4 h-4" />
+                  </Button>
+                </div>
+              </CardBody>
+            </Card>
+          ))}
+        </div>
+      )}
+
       {/* List */}
       <div className="flex-1 overflow-y-auto">
         {safeDetections.length === 0 ? (
@@ -113,9 +264,16 @@ export const PIIListPanel = ({
           <div className="space-y-2 pr-1">
             <AnimatePresence initial={false}>
               {safeDetections.map((detection, index) => {
-                const detectionId = getDetectionId(detection, index);
+                const detectionId = detection.id;
                 const isEnabled = enabledDetections.has(detectionId);
+                const isSelected = selectedDetectionIds.has(detectionId);
                 const Icon = PII_TYPE_ICONS[detection.type] || FileText;
+                // Custom rules carry their own label and color
+                const label =
+                  detection.customRule?.label ||
+                  PII_TYPE_LABELS[detection.type] ||
+                  "Unknown";
+                const customColor = detection.customRule?.color;
 
                 return (
                   <motion.div
@@ -125,25 +283,43 @@ export const PIIListPanel = ({
                     animate={{ opacity: 1, y: 0 }}
                     exit={{ opacity: 0, scale: 0.95 }}
                     transition={{ duration: 0.2, delay: index * 0.03 }}
+                    onMouseEnter={() => onHighlightDetection(detectionId)}
+                    onMouseLeave={() => onHighlightDetection(null)}
                   >
+                    {/* Shift/Ctrl/Cmd-click adds to the selection */}
                     <Card
                       isPressable
                       isHoverable
-                      onPress={() => onHighlightDetection(detectionId)}
+                      onPress={(e) =>
+                        onSelectDetection(
+                          detectionId,
+                          e.shiftKey || e.ctrlKey || e.metaKey,
+                        )
+                      }
                       className={`bg-content2/50 backdrop-blur-sm border transition-all duration-200 w-full ${
                         isEnabled
                           ? "border-primary/50 shadow-md"
                           : "border-divider/50 opacity-60"
-                      }`}
+                      } ${isSelected ? "ring-2 ring-primary" : ""}`}
                     >
                       <CardBody className="p-3">
                         <div className="flex items-center gap-3">
                           {/* Icon */}
                           <div
                             className={`shrink-0 w-12 h-12 rounded-2xl flex items-center justify-center ${
-                              PII_TYPE_COLORS[detection.type] ||
-                              PII_TYPE_COLORS[PIIType.OTHER]
+                              customColor
+                                ? ""
+                                : PII_TYPE_COLORS[detection.type] ||
+                                  PII_TYPE_COLORS[PIIType.OTHER]
                             }`}
+                            style={
+                              customColor
+                                ? {
+                                    backgroundColor: `${customColor}33`,
+                                    color: customColor,
+                                  }
+                                : undefined
+                            }
                           >
                             <Icon className="w-6 h-6" />
                           </div>
@@ -153,7 +329,7 @@ export const PIIListPanel = ({
                             {/* Type Label and Switch */}
                             <div className="flex items-center justify-between gap-2 mb-1.5">
                               <span className="text-sm font-bold text-foreground">
-                                {PII_TYPE_LABELS[detection.type] || "Unknown"}
+                                {label}
                               </span>
                               <Switch
                                 size="sm"
@@ -162,7 +338,7 @@ export const PIIListPanel = ({
                                   onToggleDetection(detectionId, enabled)
                                 }
                                 onClick={(e) => e.stopPropagation()}
-                                aria-label={`${isEnabled ? "Disable" : "Enable"} redaction for this ${PII_TYPE_LABELS[detection.type]}`}
+                                aria-label={`${isEnabled ? "Disable" : "Enable"} redaction for this ${label}`}
                               />
                             </div>
 
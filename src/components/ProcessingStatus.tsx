@@ -1,7 +1,9 @@
+import { Button } from "@heroui/button";
 import type { ProcessingStatus as ProcessingStatusType } from "@/types/redaction";
 
 interface ProcessingStatusProps {
   status: ProcessingStatusType;
+  onCancel?: () => void;
 }
 
 const STAGE_LABELS: Record<ProcessingStatusType["stage"], string> = {
@@ -90,8 +92,12 @@ const STAGE_ICONS: Record<ProcessingStatusType["stage"], React.ReactNode> = {
   ),
 };
 
-export const ProcessingStatus = ({ status }: ProcessingStatusProps) => {
-  const { stage, progress, message } = status;
+export const ProcessingStatus = ({
+  status,
+  onCancel,
+}: ProcessingStatusProps) => {
+  const { stage, progress, message, currentPage, totalPages, cancellable } =
+    status;
 
   if (stage === "complete") {
     return null; // Don't show anything when complete
@@ -129,6 +135,13 @@ export const ProcessingStatus = ({ status }: ProcessingStatusProps) => {
         {/* Message */}
         <p className="text-sm text-default-600 text-center mb-6">{message}</p>
 
+        {/* Page counter for multi-page jobs */}
+        {isProcessing && totalPages !== undefined && totalPages > 1 && (
+          <p className="text-xs font-medium text-primary text-center -mt-4 mb-6">
+            Page {currentPage ?? 1} of {totalPages}
+          </p>
+        )}
+
         {/* Progress Bar */}
         {isProcessing && (
           <div className="mb-4">
@@ -245,6 +258,15 @@ export const ProcessingStatus = ({ status }: ProcessingStatusProps) => {
             </div>
           </div>
         )}
+
+        {/* Cancel button for cancellable jobs */}
+        {isProcessing && cancellable && onCancel && (
+          <div className="mt-6 flex justify-center">
+            <Button size="sm" variant="flat" color="danger" onPress={onCancel}>
+              Cancel
+            </Button>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,84 @@
+import { Button } from "@heroui/button";
+import { Input } from "@heroui/input";
+import { History, Lock } from "lucide-react";
+import { useState } from "react";
+import { EmptyState } from "@/components/EmptyState";
+import type { AutosaveSummary } from "@/types/redaction";
+
+interface ResumeSessionPromptProps {
+  session: AutosaveSummary;
+  onResume: (passphrase?: string) => void;
+  onDiscard: () => void;
+  isResuming?: boolean;
+}
+
+export const ResumeSessionPrompt = ({
+  session,
+  onResume,
+  onDiscard,
+  isResuming = false,
+}: ResumeSessionPromptProps) => {
+  const [passphrase, setPassphrase] = useState("");
+
+  const savedAt = session.savedAt.toLocaleString("en-US", {
+    dateStyle: "medium",
+    timeStyle: "short",
+  });
+  const description = session.encrypted
+    ? `An encrypted session was saved on ${savedAt}. Enter its passphrase to continue where you left off.`
+    : `${session.documentName ?? "A document"} was saved on ${savedAt}. Continue where you left off?`;
+
+  return (
+    <EmptyState
+      icon={
+        session.encrypted ? (
+          <Lock className="w-8 h-8 text-default-400" />
+        ) : (
+          <History className="w-8 h-8 text-default-400" />
+        )
+      }
+      title="Resume previous session?"
+      description={description}
+      action={
+        <form
+          className="flex flex-col gap-3 w-72"
+          onSubmit={(e) => {
+            e.preventDefault();
+            onResume(session.encrypted ? passphrase : undefined);
+          }}
+        >
+          {session.encrypted && (
+            <Input
+              type="password"
+              size="sm"
+              label="Passphrase"
+              value={passphrase}
+              onValueChange={setPassphrase}
+              autoComplete="current-password"
+            />
+          )}
+          <div className="flex gap-2">
+            <Button
+              type="submit"
+              color="primary"
+              className="flex-1 font-semibold"
+              isLoading={isResuming}
+              isDisabled={session.encrypted && passphrase.length === 0}
+            >
+              Resume
+            </Button>
+            <Button
+              variant="flat"
+              color="danger"
+              className="flex-1 font-semibold"
+              onPress={onDiscard}
+              isDisabled={isResuming}
+            >
+              Discard
+            </Button>
+          </div>
+        </form>
+      }
+    />
+  );
+};
@@ -1,16 +1,38 @@
 import { Button } from "@heroui/button";
 import { Card, CardBody } from "@heroui/card";
+import { Input } from "@heroui/input";
+import { Switch } from "@heroui/switch";
 import { Tab, Tabs } from "@heroui/tabs";
 import { AnimatePresence, motion } from "framer-motion";
-import { Eye, History, Layers, Settings as SettingsIcon } from "lucide-react";
+import {
+  CopyPlus,
+  Eye,
+  History,
+  Layers,
+  ListChecks,
+  Search,
+  Settings as SettingsIcon,
+} from "lucide-react";
 import { useMemo, useState } from "react";
+import { CustomRulesEditor } from "@/components/CustomRulesEditor";
 import { EmptyState } from "@/components/EmptyState";
 import { HistoryPanel } from "@/components/HistoryPanel";
 import { PIIListPanel } from "@/components/PIIListPanel";
+import { SearchPanel } from "@/components/SearchPanel";
+import { PII_PATTERN_PACKS } from "@/config/piiPatterns";
 import type {
+  CustomRule,
+  DetectorInfo,
+  DetectorRunStats,
   HistoryEntry,
+  LinkedRegionGroup,
+  OCRResult,
+  PDFExportMode,
   PIIDetection,
+  PIILocale,
   RedactionRegion,
+  SearchHit,
+  VerificationMode,
 } from "@/types/redaction";
 
 interface RightPanelProps {
@@ -18,38 +40,204 @@ interface RightPanelProps {
   enabledDetections: Set<string>;
   onToggleDetection: (detectionId: string, enabled: boolean) => void;
   onHighlightDetection: (detectionId: string | null) => void;
+  onHighlightRegion: (regionId: string | null) => void;
   getRegionsForPage: (page: number) => RedactionRegion[];
   currentPage: number;
+  // Selection on the current page; additive selections add to or take from it
+  selectedRegionIds: string[];
+  onSelectRegion: (regionId: string, additive: boolean) => void;
+  onSelectRegions: (regionIds: string[]) => void;
+  onSelectDetection: (detectionId: string, additive: boolean) => void;
   onRemoveRegion: (page: number, regionId: string) => void;
+  onRedactAllOccurrences: (page: number, regionId: string) => void;
+  linkedGroups: Array<
+    LinkedRegionGroup & { regionCount: number; pageCount: number }
+  >;
+  onAcceptLinkedGroup: (groupId: string) => void;
+  onRejectLinkedGroup: (groupId: string) => void;
+  // Search
+  documentId: string;
+  pageCount: number;
+  onGetPageText: (page: number) => Promise<OCRResult>;
+  onRenderThumbnail: (page: number) => Promise<string>;
+  onGoToPage: (page: number) => void;
+  onRedactSearchHits: (hits: SearchHit[]) => void;
   // History
   history: HistoryEntry[];
   onClearHistory: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  revertibleEntryIds: Set<string>;
+  onRevertTo: (entryId: string) => void;
   // Settings
   exportFormat: "pdf" | "png";
   onChangeExportFormat: (fmt: "pdf" | "png") => void;
+  exportDpi: number;
+  onChangeExportDpi: (dpi: number) => void;
+  pdfExportMode: PDFExportMode;
+  onChangePdfExportMode: (mode: PDFExportMode) => void;
+  canPreserveText: boolean; // only PDF sources have text to preserve
+  verificationMode: VerificationMode;
+  onChangeVerificationMode: (mode: VerificationMode) => void;
+  // Detection
+  piiLocales: PIILocale[];
+  onChangePiiLocales: (locales: PIILocale[]) => void;
+  detectors: DetectorInfo[];
+  detectorStats: DetectorRunStats[]; // from the last detection run
+  onToggleDetector: (detectorId: string, enabled: boolean) => void;
+  customRules: CustomRule[];
+  onSaveCustomRule: (rule: CustomRule) => void;
+  onRemoveCustomRule: (ruleId: string) => void;
+  onToggleCustomRule: (ruleId: string, enabled: boolean) => void;
+  onImportCustomRules: (file: File) => void;
+  onExportCustomRules: () => void;
+  onLoadRuleTestText: () => Promise<string>;
+  // Autosave
+  autosaveEnabled: boolean;
+  onChangeAutosaveEnabled: (enabled: boolean) => void;
+  autosavePassphrase: string;
+  onChangeAutosavePassphrase: (passphrase: string) => void;
+  lastAutosavedAt: Date | null;
+  onPurgeSession: () => void;
 }
 
+// Region coordinates are page fractions; show them as percentages
+const formatPercent = (value: number): string => `${(value * 100).toFixed(1)}%`;
+
+const PDF_EXPORT_MODE_OPTIONS: Array<{
+  mode: PDFExportMode;
+  label: string;
+  description: string;
+}> = [
+  {
+    mode: "flatten",
+    label: "Flatten",
+    description: "Every page becomes an image; no text remains",
+  },
+  {
+    mode: "preserve-text",
+    label: "Keep Text",
+    description:
+      "Removes only redacted content; other text stays sharp and searchable",
+  },
+];
+
+const VERIFICATION_MODE_OPTIONS: Array<{
+  mode: VerificationMode;
+  label: string;
+  description: string;
+}> = [
+  {
+    mode: "off",
+    label: "Off",
+    description: "Exports download without being checked",
+  },
+  {
+    mode: "warn",
+    label: "Warn",
+    description:
+      "Re-reads each export and warns if text is left under or near a redaction",
+  },
+  {
+    mode: "block",
+    label: "Block",
+    description:
+      "Re-reads each export and stops the download if text is left under or near a redaction",
+  },
+];
+
+const PII_LOCALE_OPTIONS = Object.entries(PII_PATTERN_PACKS).map(
+  ([locale, pack]) => ({ locale: locale as PIILocale, label: pack.label }),
+);
+
+const EXPORT_DPI_OPTIONS = [
+  { dpi: 72, label: "Draft" },
+  { dpi: 150, label: "Standard" },
+  { dpi: 300, label: "High" },
+];
+
 export const RightPanel = ({
   detections,
   enabledDetections,
   onToggleDetection,
   onHighlightDetection,
+  onHighlightRegion,
   getRegionsForPage,
   currentPage,
+  selectedRegionIds,
+  onSelectRegion,
+  onSelectRegions,
+  onSelectDetection,
   onRemoveRegion,
+  onRedactAllOccurrences,
+  linkedGroups,
+  onAcceptLinkedGroup,
+  onRejectLinkedGroup,
+  documentId,
+  pageCount,
+  onGetPageText,
+  onRenderThumbnail,
+  onGoToPage,
+  onRedactSearchHits,
   history,
   onClearHistory,
+  canUndo,
+  canRedo,
+  onUndo,
+  onRedo,
+  revertibleEntryIds,
+  onRevertTo,
   exportFormat,
   onChangeExportFormat,
+  exportDpi,
+  onChangeExportDpi,
+  pdfExportMode,
+  onChangePdfExportMode,
+  canPreserveText,
+  verificationMode,
+  onChangeVerificationMode,
+  piiLocales,
+  onChangePiiLocales,
+  detectors,
+  detectorStats,
+  onToggleDetector,
+  customRules,
+  onSaveCustomRule,
+  onRemoveCustomRule,
+  onToggleCustomRule,
+  onImportCustomRules,
+  onExportCustomRules,
+  onLoadRuleTestText,
+  autosaveEnabled,
+  onChangeAutosaveEnabled,
+  autosavePassphrase,
+  onChangeAutosavePassphrase,
+  lastAutosavedAt,
+  onPurgeSession,
 }: RightPanelProps) => {
   const [tab, setTab] = useState<
-    "detections" | "layers" | "history" | "settings"
+    "detections" | "search" | "layers" | "history" | "settings"
   >("detections");
 
   const regions = useMemo(
     () => getRegionsForPage(currentPage),
     [getRegionsForPage, currentPage],
   );
+  const selectedIds = useMemo(
+    () => new Set(selectedRegionIds),
+    [selectedRegionIds],
+  );
+  const selectedDetectionIds = useMemo(
+    () =>
+      new Set(
+        regions.flatMap((r) =>
+          r.detectionId && selectedIds.has(r.id) ? [r.detectionId] : [],
+        ),
+      ),
+    [regions, selectedIds],
+  );
 
   return (
     <aside className="h-full border-l border-divider/50 bg-gradient-to-b from-content1/50 to-content1/80 backdrop-blur-xl flex flex-col overflow-hidden">
@@ -77,6 +265,15 @@ export const RightPanel = ({
               </div>
             }
           />
+          <Tab
+            key="search"
+            title={
+              <div className="flex items-center gap-1.5">
+                <Search className="w-3.5 h-3.5" />
+                <span className="text-xs font-medium">Search</span>
+              </div>
+            }
+          />
           <Tab
             key="layers"
             title={
@@ -123,10 +320,43 @@ export const RightPanel = ({
                 enabledDetections={enabledDetections}
                 onToggleDetection={onToggleDetection}
                 onHighlightDetection={onHighlightDetection}
+                selectedDetectionIds={selectedDetectionIds}
+                onSelectDetection={onSelectDetection}
+                onSelectAllDetections={() =>
+                  onSelectRegions(
+                    regions.filter((r) => r.detectionId).map((r) => r.id),
+                  )
+                }
+                linkedGroups={linkedGroups}
+                onAcceptLinkedGroup={onAcceptLinkedGroup}
+                onRejectLinkedGroup={onRejectLinkedGroup}
               />
             </motion.div>
           )}
 
+          {tab === "search" && (
+            <motion.section
+              key="search"
+              initial={{ opacity: 0, x: 20 }}
+              animate={{ opacity: 1, x: 0 }}
+              exit={{ opacity: 0, x: -20 }}
+              transition={{ duration: 0.2 }}
+              aria-label="Search panel"
+              className="px-4 py-4"
+            >
+              <h3 className="text-lg font-bold mb-4">Search & Redact</h3>
+              {/* Hits belong to one document; start over when it changes */}
+              <SearchPanel
+                key={documentId}
+                pageCount={pageCount}
+                onGetPageText={onGetPageText}
+                onRenderThumbnail={onRenderThumbnail}
+                onGoToPage={onGoToPage}
+                onRedactHits={onRedactSearchHits}
+              />
+            </motion.section>
+          )}
+
           {tab === "layers" && (
             <motion.section
               key="layers"
@@ -139,12 +369,26 @@ export const RightPanel = ({
             >
               <div className="flex items-center justify-between mb-4">
                 <h3 className="text-lg font-bold">Layers</h3>
-                <div className="flex items-center gap-2 px-3 py-1 rounded-full bg-default-100 text-xs font-medium">
-                  <span className="text-default-500">Page {currentPage}</span>
-                  <div className="w-px h-3 bg-divider" />
-                  <span className="text-primary">
-                    {regions.length} region{regions.length === 1 ? "" : "s"}
-                  </span>
+                <div className="flex items-center gap-2">
+                  {regions.length > 0 && (
+                    <Button
+                      isIconOnly
+                      size="sm"
+                      variant="light"
+                      onPress={() => onSelectRegions(regions.map((r) => r.id))}
+                      aria-label="Select all regions"
+                      title="Select all"
+                    >
+                      <ListChecks className="w-4 h-4" />
+                    </Button>
+                  )}
+                  <div className="flex items-center gap-2 px-3 py-1 rounded-full bg-default-100 text-xs font-medium">
+                    <span className="text-default-500">Page {currentPage}</span>
+                    <div className="w-px h-3 bg-divider" />
+                    <span className="text-primary">
+                      {regions.length} region{regions.length === 1 ? "" : "s"}
+                    </span>
+                  </div>
                 </div>
               </div>
 
@@ -162,38 +406,70 @@ export const RightPanel = ({
                       initial={{ opacity: 0, y: 10 }}
                       animate={{ opacity: 1, y: 0 }}
                       transition={{ delay: index * 0.05 }}
-                      onMouseEnter={() => onHighlightDetection(r.id)}
-                      onMouseLeave={() => onHighlightDetection(null)}
+                      onMouseEnter={() => onHighlightRegion(r.id)}
+                      onMouseLeave={() => onHighlightRegion(null)}
                     >
-                      <Card className="bg-content2/50 backdrop-blur-sm border border-divider/50 hover:border-primary/50 transition-colors cursor-pointer">
+                      <Card
+                        className={`bg-content2/50 backdrop-blur-sm border border-divider/50 hover:border-primary/50 transition-colors cursor-pointer ${
+                          selectedIds.has(r.id) ? "ring-2 ring-primary" : ""
+                        }`}
+                      >
                         <CardBody className="p-3">
                           <div className="flex items-start justify-between gap-3">
-                            <div className="flex-1 min-w-0">
+                            {/* Shift/Ctrl/Cmd-click adds to the selection */}
+                            <button
+                              type="button"
+                              className="flex-1 min-w-0 text-left"
+                              onClick={(e) =>
+                                onSelectRegion(
+                                  r.id,
+                                  e.shiftKey || e.ctrlKey || e.metaKey,
+                                )
+                              }
+                              aria-pressed={selectedIds.has(r.id)}
+                            >
                               <div className="flex items-center gap-2 mb-2">
                                 <div className="w-2 h-2 rounded-full bg-primary" />
                                 <span className="text-sm font-semibold text-foreground capitalize">
-                                  {r.piiType ?? "manual"}
+                                  {r.piiType ??
+                                    (r.linkGroupId ? "linked" : "manual")}
                                 </span>
                               </div>
                               <div className="text-xs text-default-500 font-mono space-y-0.5">
                                 <div>
-                                  x: {Math.round(r.x)}, y: {Math.round(r.y)}
+                                  x: {formatPercent(r.x)}, y:{" "}
+                                  {formatPercent(r.y)}
                                 </div>
                                 <div>
-                                  w: {Math.round(r.width)}, h:{" "}
-                                  {Math.round(r.height)}
+                                  w: {formatPercent(r.width)}, h:{" "}
+                                  {formatPercent(r.height)}
                                 </div>
                               </div>
+                            </button>
+                            <div className="flex shrink-0 gap-2">
+                              <Button
+                                isIconOnly
+                                size="sm"
+                                variant="flat"
+                                onPress={() =>
+                                  onRedactAllOccurrences(currentPage, r.id)
+                                }
+                                aria-label="Redact all occurrences"
+                                title="Redact all occurrences"
+                              >
+                                <CopyPlus className="w-4 h-4" />
+                              </Button>
+                              <Button
+                                size="sm"
+                                variant="flat"
+                                color="danger"
+                                onPress={() =>
+                                  onRemoveRegion(currentPage, r.id)
+                                }
+                              >
+                                Remove
+                              </Button>
                             </div>
-                            <Button
-                              size="sm"
-                              variant="flat"
-                              color="danger"
-                              onPress={() => onRemoveRegion(currentPage, r.id)}
-                              className="shrink-0"
-                            >
-                              Remove
-                            </Button>
                           </div>
                         </CardBody>
                       </Card>
@@ -214,7 +490,16 @@ export const RightPanel = ({
               aria-label="History panel"
               className="px-4 py-4 h-full"
             >
-              <HistoryPanel history={history} onClearHistory={onClearHistory} />
+              <HistoryPanel
+                history={history}
+                onClearHistory={onClearHistory}
+                canUndo={canUndo}
+                canRedo={canRedo}
+                onUndo={onUndo}
+                onRedo={onRedo}
+                revertibleEntryIds={revertibleEntryIds}
+                onRevertTo={onRevertTo}
+              />
             </motion.section>
           )}
 
@@ -257,6 +542,249 @@ export const RightPanel = ({
                     </div>
                   </CardBody>
                 </Card>
+                {exportFormat === "pdf" && canPreserveText && (
+                  <Card className="mt-3 bg-content2/50 backdrop-blur-sm border border-divider/50">
+                    <CardBody className="p-4">
+                      <label className="block text-sm font-semibold mb-1">
+                        PDF Mode
+                      </label>
+                      <p className="text-xs text-default-500 mb-3">
+                        {
+                          PDF_EXPORT_MODE_OPTIONS.find(
+                            ({ mode }) => mode === pdfExportMode,
+                          )?.description
+                        }
+                      </p>
+                      <div className="flex gap-2">
+                        {PDF_EXPORT_MODE_OPTIONS.map(({ mode, label }) => (
+                          <Button
+                            key={mode}
+                            size="sm"
+                            variant={pdfExportMode === mode ? "solid" : "flat"}
+                            color={
+                              pdfExportMode === mode ? "primary" : "default"
+                            }
+                            onPress={() => onChangePdfExportMode(mode)}
+                            className="flex-1 font-semibold"
+                          >
+                            {label}
+                          </Button>
+                        ))}
+                      </div>
+                    </CardBody>
+                  </Card>
+                )}
+                {exportFormat === "pdf" && (
+                  <Card className="mt-3 bg-content2/50 backdrop-blur-sm border border-divider/50">
+                    <CardBody className="p-4">
+                      <label className="block text-sm font-semibold mb-1">
+                        PDF Resolution
+                      </label>
+                      <p className="text-xs text-default-500 mb-3">
+                        {pdfExportMode === "preserve-text" && canPreserveText
+                          ? "Used for pages that have to be flattened"
+                          : "Higher resolutions produce sharper but larger files"}
+                      </p>
+                      <div className="flex gap-2">
+                        {EXPORT_DPI_OPTIONS.map(({ dpi, label }) => (
+                          <Button
+                            key={dpi}
+                            size="sm"
+                            variant={exportDpi === dpi ? "solid" : "flat"}
+                            color={exportDpi === dpi ? "primary" : "default"}
+                            onPress={() => onChangeExportDpi(dpi)}
+                            className="flex-1 font-semibold"
+                          >
+                            {label} ({dpi} DPI)
+                          </Button>
+                        ))}
+                      </div>
+                    </CardBody>
+                  </Card>
+                )}
+                <Card className="mt-3 bg-content2/50 backdrop-blur-sm border border-divider/50">
+                  <CardBody className="p-4">
+                    <label className="block text-sm font-semibold mb-1">
+                      Verify Export
+                    </label>
+                    <p className="text-xs text-default-500 mb-3">
+                      {
+                        VERIFICATION_MODE_OPTIONS.find(
+                          ({ mode }) => mode === verificationMode,
+                        )?.description
+                      }
+                    </p>
+                    <div className="flex gap-2">
+                      {VERIFICATION_MODE_OPTIONS.map(({ mode, label }) => (
+                        <Button
+                          key={mode}
+                          size="sm"
+                          variant={verificationMode === mode ? "solid" : "flat"}
+                          color={
+                            verificationMode === mode ? "primary" : "default"
+                          }
+                          onPress={() => onChangeVerificationMode(mode)}
+                          className="flex-1 font-semibold"
+                        >
+                          {label}
+                        </Button>
+                      ))}
+                    </div>
+                  </CardBody>
+                </Card>
+              </div>
+
+              <div>
+                <h3 className="text-lg font-bold mb-4">Detection</h3>
+                <Card className="bg-content2/50 backdrop-blur-sm border border-divider/50">
+                  <CardBody className="p-4">
+                    <label className="block text-sm font-semibold mb-1">
+                      Identifier Regions
+                    </label>
+                    <p className="text-xs text-default-500 mb-3">
+                      National IDs and phone formats to look for in this
+                      document. Emails, dates, cards, IBANs and other financial
+                      details are found by the common patterns.
+                    </p>
+                    <div className="flex flex-wrap gap-2">
+                      {PII_LOCALE_OPTIONS.map(({ locale, label }) => {
+                        const isSelected = piiLocales.includes(locale);
+                        return (
+                          <Button
+                            key={locale}
+                            size="sm"
+                            variant={isSelected ? "solid" : "flat"}
+                            color={isSelected ? "primary" : "default"}
+                            onPress={() =>
+                              onChangePiiLocales(
+                                isSelected
+                                  ? piiLocales.filter((l) => l !== locale)
+                                  : [...piiLocales, locale],
+                              )
+                            }
+                            className="font-semibold"
+                          >
+                            {label}
+                          </Button>
+                        );
+                      })}
+                    </div>
+
+                    <label className="block text-sm font-semibold mt-5 mb-1">
+                      Detectors
+                    </label>
+                    <p className="text-xs text-default-500 mb-3">
+                      Run in this order. Timings and counts are from the last
+                      detection run.
+                    </p>
+                    <div className="space-y-2">
+                      {detectors.map((detector) => {
+                        const stats = detectorStats.find(
+                          ({ id }) => id === detector.id,
+                        );
+                        return (
+                          <div
+                            key={detector.id}
+                            className="flex items-center justify-between gap-3"
+                          >
+                            <div className="min-w-0">
+                              <p className="text-sm truncate">
+                                {detector.label}
+                              </p>
+                              {stats && (
+                                <p
+                                  className={`text-xs ${
+                                    stats.error
+                                      ? "text-danger"
+                                      : "text-default-500"
+                                  }`}
+                                >
+                                  {stats.error
+                                    ? `Failed: ${stats.error}`
+                                    : `${stats.found} found · ${stats.kept} kept · ${Math.round(stats.durationMs)} ms`}
+                                </p>
+                              )}
+                            </div>
+                            <Switch
+                              size="sm"
+                              isSelected={detector.enabled}
+                              onValueChange={(enabled) =>
+                                onToggleDetector(detector.id, enabled)
+                              }
+                              aria-label={`${detector.enabled ? "Disable" : "Enable"} ${detector.label}`}
+                            />
+                          </div>
+                        );
+                      })}
+                    </div>
+                  </CardBody>
+                </Card>
+              </div>
+
+              <div>
+                <h3 className="text-lg font-bold mb-4">Custom Rules</h3>
+                <CustomRulesEditor
+                  rules={customRules}
+                  onSaveRule={onSaveCustomRule}
+                  onRemoveRule={onRemoveCustomRule}
+                  onToggleRule={onToggleCustomRule}
+                  onImportRules={onImportCustomRules}
+                  onExportRules={onExportCustomRules}
+                  testPage={currentPage}
+                  onLoadTestText={onLoadRuleTestText}
+                />
+              </div>
+
+              <div>
+                <h3 className="text-lg font-bold mb-4">Autosave</h3>
+                <Card className="bg-content2/50 backdrop-blur-sm border border-divider/50">
+                  <CardBody className="p-4 space-y-4">
+                    <div className="flex items-start justify-between gap-3">
+                      <div>
+                        <p className="text-sm font-semibold">
+                          Save session in this browser
+                        </p>
+                        <p className="text-xs text-default-500 mt-1">
+                          Stored locally in IndexedDB, never uploaded. Turning
+                          this off deletes the saved session.
+                        </p>
+                      </div>
+                      <Switch
+                        size="sm"
+                        isSelected={autosaveEnabled}
+                        onValueChange={onChangeAutosaveEnabled}
+                        aria-label="Toggle autosave"
+                      />
+                    </div>
+                    {autosaveEnabled && (
+                      <Input
+                        type="password"
+                        size="sm"
+                        label="Encryption passphrase (optional)"
+                        description="Encrypts the saved session. It is not stored and cannot be recovered."
+                        value={autosavePassphrase}
+                        onValueChange={onChangeAutosavePassphrase}
+                        autoComplete="new-password"
+                      />
+                    )}
+                    <div className="flex items-center justify-between gap-3">
+                      <p className="text-xs text-default-500">
+                        {lastAutosavedAt
+                          ? `Last saved ${lastAutosavedAt.toLocaleTimeString("en-US", { hour: "2-digit", minute: "2-digit" })}`
+                          : "Not saved yet"}
+                      </p>
+                      <Button
+                        size="sm"
+                        variant="flat"
+                        color="danger"
+                        onPress={onPurgeSession}
+                        className="font-semibold"
+                      >
+                        Delete Saved Session
+                      </Button>
+                    </div>
+                  </CardBody>
+                </Card>
               </div>
             </motion.section>
           )}
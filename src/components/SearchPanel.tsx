@@ -0,0 +1,378 @@
+import { Button } from "@heroui/button";
+import { Card, CardBody } from "@heroui/card";
+import { Input } from "@heroui/input";
+import { Switch } from "@heroui/switch";
+import { motion } from "framer-motion";
+import { EyeOff, Search } from "lucide-react";
+import { useEffect, useMemo, useRef, useState } from "react";
+import { EmptyState } from "@/components/EmptyState";
+import type {
+  OCRResult,
+  SearchHit,
+  SearchMode,
+  SearchOptions,
+} from "@/types/redaction";
+import { MAX_HITS_PER_PAGE, searchPage } from "@/utils/textSearch";
+
+interface SearchPanelProps {
+  pageCount: number;
+  onGetPageText: (page: number) => Promise<OCRResult>;
+  onRenderThumbnail: (page: number) => Promise<string>;
+  onGoToPage: (page: number) => void;
+  onRedactHits: (hits: SearchHit[]) => void;
+}
+
+const MODE_OPTIONS: Array<{ mode: SearchMode; label: string }> = [
+  { mode: "text", label: "Text" },
+  { mode: "regex", label: "Regex" },
+  { mode: "fuzzy", label: "Fuzzy" },
+];
+
+// A page with no text, used to check a query compiles before searching
+const EMPTY_PAGE: OCRResult = { text: "", words: [], confidence: 0 };
+
+export const SearchPanel = ({
+  pageCount,
+  onGetPageText,
+  onRenderThumbnail,
+  onGoToPage,
+  onRedactHits,
+}: SearchPanelProps) => {
+  const [query, setQuery] = useState("");
+  const [options, setOptions] = useState<SearchOptions>({
+    mode: "text",
+    matchCase: false,
+    wholeWord: false,
+  });
+  const [hits, setHits] = useState<SearchHit[]>([]);
+  const [selectedHits, setSelectedHits] = useState<Set<string>>(new Set());
+  const [searchingPage, setSearchingPage] = useState<number | null>(null);
+  const [hasSearched, setHasSearched] = useState(false);
+  const [searchError, setSearchError] = useState<string | null>(null);
+  const [thumbnails, setThumbnails] = useState<Map<number, string>>(new Map());
+  const cancelledRef = useRef(false);
+  const requestedThumbnailsRef = useRef<Set<number>>(new Set());
+
+  const isSearching = searchingPage !== null;
+
+  const queryError = useMemo(() => {
+    try {
+      searchPage(EMPTY_PAGE, query, options, 0);
+      return null;
+    } catch (error) {
+      return error instanceof Error ? error.message : "Invalid query";
+    }
+  }, [query, options]);
+
+  const hitsByPage = useMemo(() => {
+    const groups = new Map<number, SearchHit[]>();
+    hits.forEach((hit) => {
+      groups.set(hit.pageNumber, [...(groups.get(hit.pageNumber) || []), hit]);
+    });
+    return groups;
+  }, [hits]);
+
+  // Render a thumbnail for each page with hits, once
+  useEffect(() => {
+    hitsByPage.forEach((_, page) => {
+      if (requestedThumbnailsRef.current.has(page)) return;
+      requestedThumbnailsRef.current.add(page);
+
+      onRenderThumbnail(page)
+        .then((url) => {
+          setThumbnails((prev) => new Map(prev).set(page, url));
+        })
+        .catch((error) => {
+          console.warn(`Failed to render thumbnail for page ${page}:`, error);
+        });
+    });
+  }, [hitsByPage, onRenderThumbnail]);
+
+  const updateOptions = (changes: Partial<SearchOptions>) => {
+    setOptions((prev) => ({ ...prev, ...changes }));
+  };
+
+  const handleSearch = async () => {
+    if (query.trim().length === 0 || queryError) return;
+
+    cancelledRef.current = false;
+    setHits([]);
+    setSelectedHits(new Set());
+    setSearchError(null);
+    setHasSearched(true);
+
+    try {
+      for (let page = 1; page <= pageCount; page++) {
+        if (cancelledRef.current) break;
+        setSearchingPage(page);
+
+        const pageHits = searchPage(
+          await onGetPageText(page),
+          query,
+          options,
+          page,
+        );
+        if (cancelledRef.current) break;
+
+        // Show hits as each page finishes; all hits start selected
+        setHits((prev) => [...prev, ...pageHits]);
+        setSelectedHits((prev) => {
+          const next = new Set(prev);
+          for (const hit of pageHits) next.add(hit.id);
+          return next;
+        });
+      }
+    } catch (error) {
+      setSearchError(
+        `Search failed: ${error instanceof Error ? error.message : "Unknown error"}`,
+      );
+    } finally {
+      setSearchingPage(null);
+    }
+  };
+
+  const toggleHit = (hitId: string, selected: boolean) => {
+    setSelectedHits((prev) => {
+      const next = new Set(prev);
+      if (selected) {
+        next.add(hitId);
+      } else {
+        next.delete(hitId);
+      }
+      return next;
+    });
+  };
+
+  const handleRedact = () => {
+    const toRedact = hits.filter((hit) => selectedHits.has(hit.id));
+    if (toRedact.length === 0) return;
+
+    onRedactHits(toRedact);
+    setHits((prev) => prev.filter((hit) => !selectedHits.has(hit.id)));
+    setSelectedHits(new Set());
+  };
+
+  const allSelected = hits.length > 0 && selectedHits.size === hits.length;
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-3">
+        <Input
+          size="sm"
+          placeholder="Search all pages"
+          value={query}
+          onValueChange={setQuery}
+          onKeyDown={(e) => {
+            if (e.key === "Enter" && !isSearching) handleSearch();
+          }}
+          startContent={<Search className="w-4 h-4 text-default-400" />}
+          isInvalid={query.length > 0 && queryError !== null}
+          errorMessage={queryError ?? undefined}
+          classNames={{
+            input: options.mode === "regex" ? "font-mono" : undefined,
+          }}
+          aria-label="Search query"
+        />
+        <div className="flex gap-2">
+          {MODE_OPTIONS.map(({ mode, label }) => (
+            <Button
+              key={mode}
+              size="sm"
+              variant={options.mode === mode ? "solid" : "flat"}
+              color={options.mode === mode ? "primary" : "default"}
+              onPress={() => updateOptions({ mode })}
+              className="flex-1 font-semibold"
+            >
+              {label}
+            </Button>
+          ))}
+        </div>
+        <p className="text-xs text-default-500">
+          {options.mode === "fuzzy"
+            ? "Finds whole words even when OCR misread a few characters"
+            : options.mode === "regex"
+              ? "JavaScript regular expression, matched across the page text"
+              : "Matches the text anywhere, ignoring line breaks"}
+        </p>
+        <div className="flex items-center justify-between gap-3">
+          <p className="text-sm">Match case</p>
+          <Switch
+            size="sm"
+            isSelected={options.matchCase}
+            onValueChange={(matchCase) => updateOptions({ matchCase })}
+            aria-label="Toggle match case"
+          />
+        </div>
+        {options.mode !== "fuzzy" && (
+          <div className="flex items-center justify-between gap-3">
+            <p className="text-sm">Whole words</p>
+            <Switch
+              size="sm"
+              isSelected={options.wholeWord}
+              onValueChange={(wholeWord) => updateOptions({ wholeWord })}
+              aria-label="Toggle whole word matching"
+            />
+          </div>
+        )}
+        {isSearching ? (
+          <div className="space-y-2">
+            <div className="w-full bg-default-200 rounded-full h-2 overflow-hidden">
+              <div
+                className="bg-primary h-full transition-all duration-300 ease-out"
+                style={{ width: `${(searchingPage / pageCount) * 100}%` }}
+              />
+            </div>
+            <div className="flex items-center justify-between gap-3">
+              <p className="text-xs text-default-500">
+                Searching page {searchingPage} of {pageCount}...
+              </p>
+              <Button
+                size="sm"
+                variant="flat"
+                onPress={() => {
+                  cancelledRef.current = true;
+                }}
+                className="font-semibold"
+              >
+                Cancel
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <Button
+            size="sm"
+            color="primary"
+            onPress={handleSearch}
+            isDisabled={query.trim().length === 0 || queryError !== null}
+            className="w-full font-semibold"
+          >
+            Search {pageCount} page{pageCount === 1 ? "" : "s"}
+          </Button>
+        )}
+        {searchError && <p className="text-xs text-danger">{searchError}</p>}
+      </div>
+
+      {hits.length > 0 && (
+        <div className="flex items-center justify-between gap-3 px-1">
+          <Switch
+            size="sm"
+            isSelected={allSelected}
+            onValueChange={(selected) =>
+              setSelectedHits(
+                selected ? new Set(hits.map((hit) => hit.id)) : new Set(),
+              )
+            }
+            aria-label="Select all hits"
+          >
+            <span className="text-sm">
+              {hits.length} hit{hits.length === 1 ? "" : "s"}
+            </span>
+          </Switch>
+          <Button
+            size="sm"
+            color="danger"
+            startContent={<EyeOff className="w-4 h-4" />}
+            onPress={handleRedact}
+            isDisabled={selectedHits.size === 0}
+            className="font-semibold"
+          >
+            Redact {selectedHits.size}
+          </Button>
+        </div>
+      )}
+
+      {hasSearched && !isSearching && hits.length === 0 && !searchError && (
+        <EmptyState
+          icon="search"
+          title="No matches"
+          description="Try fuzzy mode for scanned pages, or fewer words"
+        />
+      )}
+
+      <div className="space-y-3">
+        {[...hitsByPage.entries()].map(([page, pageHits], index) => (
+          <motion.div
+            key={page}
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: Math.min(index, 10) * 0.05 }}
+          >
+            <Card className="bg-content2/50 backdrop-blur-sm border border-divider/50">
+              <CardBody className="p-3">
+                <div className="flex gap-3">
+                  {/* Page thumbnail with the page's hits outlined */}
+                  <button
+                    type="button"
+                    onClick={() => onGoToPage(page)}
+                    className="relative shrink-0 w-16 self-start rounded-md overflow-hidden border border-divider bg-white"
+                    aria-label={`Go to page ${page}`}
+                  >
+                    {thumbnails.has(page) ? (
+                      <img
+                        src={thumbnails.get(page)}
+                        alt={`Page ${page}`}
+                        className="w-full"
+                      />
+                    ) : (
+                      <div className="w-full aspect-[3/4] bg-default-100 animate-pulse" />
+                    )}
+                    {pageHits.flatMap((hit) =>
+                      hit.boxes.map((box) => (
+                        <span
+                          key={`${hit.id}-${box.x0}-${box.y0}`}
+                          className={`absolute ${
+                            selectedHits.has(hit.id)
+                              ? "bg-danger/60"
+                              : "bg-warning/40"
+                          }`}
+                          style={{
+                            left: `${box.x0 * 100}%`,
+                            top: `${box.y0 * 100}%`,
+                            width: `${(box.x1 - box.x0) * 100}%`,
+                            height: `${(box.y1 - box.y0) * 100}%`,
+                          }}
+                        />
+                      )),
+                    )}
+                  </button>
+
+                  <div className="flex-1 min-w-0 space-y-2">
+                    <p className="text-xs font-semibold text-default-500">
+                      Page {page}
+                      {pageHits.length >= MAX_HITS_PER_PAGE &&
+                        ` · first ${MAX_HITS_PER_PAGE} hits`}
+                    </p>
+                    {pageHits.map((hit) => (
+                      <div key={hit.id} className="flex items-start gap-2">
+                        <Switch
+                          size="sm"
+                          isSelected={selectedHits.has(hit.id)}
+                          onValueChange={(selected) =>
+                            toggleHit(hit.id, selected)
+                          }
+                          aria-label={`Select hit ${hit.text}`}
+                        />
+                        <p className="flex-1 min-w-0 text-xs text-default-500 break-words">
+                          …{hit.before}
+                          <mark className="px-0.5 rounded bg-warning/30 text-foreground font-semibold">
+                            {hit.text}
+                          </mark>
+                          {hit.after}…
+                          {hit.edits !== undefined && hit.edits > 0 && (
+                            <span className="ml-1 text-default-400">
+                              ({hit.edits} edit{hit.edits === 1 ? "" : "s"})
+                            </span>
+                          )}
+                        </p>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              </CardBody>
+            </Card>
+          </motion.div>
+        ))}
+      </div>
+    </div>
+  );
+};
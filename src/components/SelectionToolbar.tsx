@@ -0,0 +1,168 @@
+import { Button } from "@heroui/button";
+import {
+  Dropdown,
+  DropdownItem,
+  DropdownMenu,
+  DropdownTrigger,
+} from "@heroui/dropdown";
+import { Input } from "@heroui/input";
+import { motion } from "framer-motion";
+import { Combine, Copy, Expand, Tag, Trash2, X } from "lucide-react";
+import { useState } from "react";
+import { PII_TYPE_LABELS } from "@/components/PIIListPanel";
+import { PIIType } from "@/types/redaction";
+import { parsePageRanges } from "@/utils/pageRanges";
+
+interface SelectionToolbarProps {
+  selectedCount: number;
+  currentPage: number;
+  pageCount: number;
+  onClearSelection: () => void;
+  onDelete: () => void;
+  onChangeType: (piiType: PIIType) => void;
+  onMerge: () => void;
+  // Padding in pixels of the page as rendered
+  onExpand: (padding: number) => void;
+  onCopyToPages: (pages: number[]) => void;
+}
+
+export const SelectionToolbar = ({
+  selectedCount,
+  currentPage,
+  pageCount,
+  onClearSelection,
+  onDelete,
+  onChangeType,
+  onMerge,
+  onExpand,
+  onCopyToPages,
+}: SelectionToolbarProps) => {
+  const [padding, setPadding] = useState("4");
+  const [pageList, setPageList] = useState("");
+
+  const paddingValue = Number(padding);
+  const isPaddingValid = Number.isFinite(paddingValue) && paddingValue > 0;
+  // The current page is left out, as copies there would sit on the originals
+  const targetPages =
+    parsePageRanges(pageList, pageCount)?.filter(
+      (page) => page !== currentPage,
+    ) ?? null;
+  const isPageListInvalid = pageList.trim().length > 0 && targetPages === null;
+
+  const handleCopy = () => {
+    if (!targetPages || targetPages.length === 0) return;
+
+    onCopyToPages(targetPages);
+    setPageList("");
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: -10 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="border-b border-default-200 bg-default-50/95 backdrop-blur p-2 flex flex-wrap items-center gap-2"
+      role="toolbar"
+      aria-label="Selected redactions"
+    >
+      <div className="flex items-center gap-1 px-3 py-1 rounded-full bg-primary/10 text-xs font-medium text-primary">
+        {selectedCount} selected
+        <button
+          type="button"
+          onClick={onClearSelection}
+          className="ml-1 hover:text-primary-600"
+          aria-label="Clear selection"
+        >
+          <X className="w-3 h-3" />
+        </button>
+      </div>
+
+      <Button
+        size="sm"
+        variant="flat"
+        color="danger"
+        startContent={<Trash2 className="w-4 h-4" />}
+        onPress={onDelete}
+      >
+        Delete
+      </Button>
+
+      <Dropdown>
+        <DropdownTrigger>
+          <Button
+            size="sm"
+            variant="flat"
+            startContent={<Tag className="w-4 h-4" />}
+          >
+            Change Type
+          </Button>
+        </DropdownTrigger>
+        <DropdownMenu
+          aria-label="PII type"
+          className="max-h-72 overflow-y-auto"
+          onAction={(key) => onChangeType(key as PIIType)}
+        >
+          {Object.values(PIIType).map((type) => (
+            <DropdownItem key={type}>{PII_TYPE_LABELS[type]}</DropdownItem>
+          ))}
+        </DropdownMenu>
+      </Dropdown>
+
+      <Button
+        size="sm"
+        variant="flat"
+        startContent={<Combine className="w-4 h-4" />}
+        onPress={onMerge}
+        isDisabled={selectedCount < 2}
+      >
+        Merge
+      </Button>
+
+      <div className="flex items-center gap-1">
+        <Input
+          size="sm"
+          type="number"
+          min={1}
+          value={padding}
+          onValueChange={setPadding}
+          endContent={<span className="text-xs text-default-400">px</span>}
+          isInvalid={!isPaddingValid}
+          aria-label="Padding to add"
+          className="w-20"
+        />
+        <Button
+          size="sm"
+          variant="flat"
+          startContent={<Expand className="w-4 h-4" />}
+          onPress={() => onExpand(paddingValue)}
+          isDisabled={!isPaddingValid}
+        >
+          Expand
+        </Button>
+      </div>
+
+      <div className="flex items-center gap-1">
+        <Input
+          size="sm"
+          placeholder="Pages, e.g. 2-4, 7 or all"
+          value={pageList}
+          onValueChange={setPageList}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") handleCopy();
+          }}
+          isInvalid={isPageListInvalid}
+          aria-label="Pages to copy to"
+          className="w-48"
+        />
+        <Button
+          size="sm"
+          variant="flat"
+          startContent={<Copy className="w-4 h-4" />}
+          onPress={handleCopy}
+          isDisabled={!targetPages || targetPages.length === 0}
+        >
+          Copy to Pages
+        </Button>
+      </div>
+    </motion.div>
+  );
+};
@@ -0,0 +1,18 @@
+export type NERModelConfig = typeof nerModelConfig;
+
+/**
+ * Local NER model files, served from /public so nothing leaves the device.
+ * If the files are missing, PII detection falls back to regex-only mode.
+ */
+export const nerModelConfig = {
+  modelPath: "/models/ner/model.onnx",
+  vocabPath: "/models/ner/vocab.txt",
+  // Hugging Face style config.json providing the id2label mapping; its
+  // model_type must be a WordPiece (BERT-style) model
+  configPath: "/models/ner/config.json",
+  doLowerCase: false,
+  // Maximum model input length, including [CLS] and [SEP]
+  maxSequenceLength: 512,
+  // Number of tokens shared between consecutive windows on long pages
+  stride: 128,
+};
@@ -0,0 +1,230 @@
+import { PIIType } from "../types/redaction";
+
+export interface PIIContextRule {
+  // Labels that confirm the type, e.g. "DOB" before a date
+  positive: string[];
+  // Labels that mean the match is something else, e.g. "Invoice date"
+  negative: string[];
+  // The pattern is too generic to trust without a positive label nearby
+  requiresContext?: boolean;
+}
+
+// Reference numbers are the usual false positives for any digit run
+const REFERENCE_KEYWORDS = [
+  "invoice",
+  "order",
+  "ref",
+  "reference",
+  "tracking",
+  "serial",
+  "ticket",
+  "case",
+  "po",
+  "sku",
+  "isbn",
+];
+
+const PHONE_KEYWORDS = ["tel", "phone", "fax", "mobile", "call"];
+
+/**
+ * Keyword dictionaries used to adjust detection confidence from the text
+ * around a match. Keywords are matched as whole words, case-insensitively.
+ * Types without a rule are scored on their pattern alone.
+ */
+export const PII_CONTEXT_RULES: Partial<Record<PIIType, PIIContextRule>> = {
+  [PIIType.NAME]: {
+    positive: [
+      "name",
+      "full name",
+      "surname",
+      "patient",
+      "client",
+      "customer",
+      "employee",
+      "applicant",
+      "tenant",
+      "insured",
+      "signed",
+      "signature",
+      "attn",
+      "attention",
+      "dear",
+      "contact",
+      "nom",
+      "nombre",
+    ],
+    negative: [
+      "company",
+      "inc",
+      "llc",
+      "ltd",
+      "gmbh",
+      "corp",
+      "bank",
+      "hospital",
+      "university",
+    ],
+  },
+  [PIIType.ADDRESS]: {
+    positive: [
+      "address",
+      "addr",
+      "residence",
+      "residing",
+      "lives at",
+      "ship to",
+      "bill to",
+      "mailing",
+      "home",
+      "anschrift",
+      "adresse",
+      "dirección",
+      "domicilio",
+    ],
+    negative: ["office", "headquarters", "branch", "store"],
+  },
+  [PIIType.DATE_OF_BIRTH]: {
+    positive: [
+      "dob",
+      "d.o.b",
+      "date of birth",
+      "birth date",
+      "birthdate",
+      "birthday",
+      "born",
+      "geburtsdatum",
+      "geb",
+      "date de naissance",
+      "né le",
+      "née le",
+      "fecha de nacimiento",
+    ],
+    negative: [
+      ...REFERENCE_KEYWORDS,
+      "date",
+      "dated",
+      "due",
+      "issued",
+      "issue",
+      "payment",
+      "paid",
+      "statement",
+      "period",
+      "effective",
+      "expires",
+      "expiry",
+      "valid",
+      "signed",
+      "printed",
+      "created",
+      "updated",
+      "delivery",
+      "shipped",
+      "service",
+      "transaction",
+      "posted",
+      "admission",
+      "discharge",
+    ],
+    requiresContext: true,
+  },
+  [PIIType.PHONE]: {
+    positive: [
+      ...PHONE_KEYWORDS,
+      "cell",
+      "mob",
+      "contact",
+      "whatsapp",
+      "telefon",
+      "téléphone",
+      "teléfono",
+    ],
+    negative: [...REFERENCE_KEYWORDS, "account", "acct"],
+  },
+  [PIIType.SSN]: {
+    positive: ["ssn", "social security", "soc sec", "ss#", "ss no"],
+    negative: [...REFERENCE_KEYWORDS, ...PHONE_KEYWORDS],
+  },
+  [PIIType.CREDIT_CARD]: {
+    positive: [
+      "card",
+      "credit",
+      "debit",
+      "cc",
+      "visa",
+      "mastercard",
+      "amex",
+      "discover",
+    ],
+    negative: [...REFERENCE_KEYWORDS, "account", "acct", "iban"],
+  },
+  [PIIType.UK_NINO]: {
+    positive: ["national insurance", "ni number", "ni no", "nino", "nin"],
+    negative: REFERENCE_KEYWORDS,
+  },
+  [PIIType.UK_NHS]: {
+    positive: ["nhs", "nhs number", "nhs no"],
+    negative: [...REFERENCE_KEYWORDS, ...PHONE_KEYWORDS],
+    requiresContext: true,
+  },
+  [PIIType.DE_TAX_ID]: {
+    positive: [
+      "steuer-id",
+      "steuerid",
+      "steuer-idnr",
+      "steuerliche identifikationsnummer",
+      "identifikationsnummer",
+      "idnr",
+      "tin",
+      "tax id",
+    ],
+    negative: [...REFERENCE_KEYWORDS, ...PHONE_KEYWORDS],
+    requiresContext: true,
+  },
+  [PIIType.FR_INSEE]: {
+    positive: [
+      "insee",
+      "nir",
+      "sécurité sociale",
+      "securite sociale",
+      "numéro de sécu",
+      "n° ss",
+    ],
+    negative: REFERENCE_KEYWORDS,
+  },
+  [PIIType.ES_DNI]: {
+    positive: ["dni", "nif", "documento nacional"],
+    negative: REFERENCE_KEYWORDS,
+  },
+  [PIIType.ES_NIE]: {
+    positive: ["nie", "extranjero"],
+    negative: REFERENCE_KEYWORDS,
+  },
+  [PIIType.IN_AADHAAR]: {
+    positive: ["aadhaar", "aadhar", "uid", "uidai", "enrolment"],
+    negative: [...REFERENCE_KEYWORDS, ...PHONE_KEYWORDS],
+    requiresContext: true,
+  },
+  [PIIType.IN_PAN]: {
+    positive: ["pan", "permanent account number", "income tax"],
+    negative: REFERENCE_KEYWORDS,
+  },
+  [PIIType.CA_SIN]: {
+    positive: ["sin", "social insurance", "nas", "assurance sociale"],
+    negative: [...REFERENCE_KEYWORDS, ...PHONE_KEYWORDS],
+    requiresContext: true,
+  },
+  [PIIType.AU_TFN]: {
+    positive: ["tfn", "tax file"],
+    negative: [...REFERENCE_KEYWORDS, ...PHONE_KEYWORDS],
+    requiresContext: true,
+  },
+};
+
+/**
+ * How much text around a match is searched for keywords, in characters.
+ * The search never reaches past the previous line or the end of the
+ * match's own line.
+ */
+export const CONTEXT_CHARS_BEFORE = 48;
+export const CONTEXT_CHARS_AFTER = 24;
@@ -0,0 +1,847 @@
+/**
+ * Word lists used to find names and addresses without a model.
+ * Name lists hold common given names and surnames across the regions the
+ * pattern packs cover, most frequent first. Given names that are also
+ * everyday words ("May", "Grace", "Will") are left out; they would turn
+ * headings and sentence starts into names.
+ */
+
+export const FIRST_NAMES = new Set([
+  // English
+  "james",
+  "mary",
+  "john",
+  "patricia",
+  "robert",
+  "jennifer",
+  "michael",
+  "linda",
+  "william",
+  "elizabeth",
+  "david",
+  "barbara",
+  "richard",
+  "susan",
+  "joseph",
+  "jessica",
+  "thomas",
+  "sarah",
+  "charles",
+  "karen",
+  "christopher",
+  "lisa",
+  "daniel",
+  "nancy",
+  "matthew",
+  "betty",
+  "anthony",
+  "margaret",
+  "mark",
+  "sandra",
+  "donald",
+  "ashley",
+  "steven",
+  "kimberly",
+  "paul",
+  "emily",
+  "andrew",
+  "donna",
+  "joshua",
+  "michelle",
+  "kenneth",
+  "carol",
+  "kevin",
+  "amanda",
+  "brian",
+  "dorothy",
+  "george",
+  "melissa",
+  "timothy",
+  "deborah",
+  "ronald",
+  "stephanie",
+  "edward",
+  "rebecca",
+  "jason",
+  "sharon",
+  "jeffrey",
+  "laura",
+  "ryan",
+  "cynthia",
+  "jacob",
+  "kathleen",
+  "gary",
+  "amy",
+  "nicholas",
+  "angela",
+  "eric",
+  "shirley",
+  "jonathan",
+  "anna",
+  "stephen",
+  "brenda",
+  "larry",
+  "pamela",
+  "justin",
+  "emma",
+  "scott",
+  "nicole",
+  "brandon",
+  "helen",
+  "benjamin",
+  "samantha",
+  "samuel",
+  "katherine",
+  "gregory",
+  "christine",
+  "alexander",
+  "debra",
+  "frank",
+  "rachel",
+  "patrick",
+  "carolyn",
+  "raymond",
+  "janet",
+  "jack",
+  "catherine",
+  "dennis",
+  "maria",
+  "jerry",
+  "heather",
+  "tyler",
+  "diane",
+  "aaron",
+  "julie",
+  "jose",
+  "joyce",
+  "adam",
+  "victoria",
+  "henry",
+  "kelly",
+  "nathan",
+  "christina",
+  "douglas",
+  "lauren",
+  "zachary",
+  "joan",
+  "peter",
+  "evelyn",
+  "kyle",
+  "olivia",
+  "walter",
+  "judith",
+  "ethan",
+  "megan",
+  "jeremy",
+  "cheryl",
+  "harold",
+  "martha",
+  "keith",
+  "andrea",
+  "christian",
+  "frances",
+  "roger",
+  "hannah",
+  "noah",
+  "jacqueline",
+  "gerald",
+  "ann",
+  "carl",
+  "gloria",
+  "terry",
+  "jean",
+  "sean",
+  "kathryn",
+  "austin",
+  "alice",
+  "arthur",
+  "teresa",
+  "lawrence",
+  "sara",
+  "jesse",
+  "janice",
+  "dylan",
+  "doris",
+  "bryan",
+  "madison",
+  "joe",
+  "julia",
+  "jordan",
+  "judy",
+  "billy",
+  "abigail",
+  "bruce",
+  "sophia",
+  "albert",
+  "denise",
+  "willie",
+  "amber",
+  "gabriel",
+  "marilyn",
+  "logan",
+  "danielle",
+  "alan",
+  "beverly",
+  "juan",
+  "isabella",
+  "wayne",
+  "theresa",
+  "roy",
+  "diana",
+  "ralph",
+  "natalie",
+  "randy",
+  "brittany",
+  "eugene",
+  "charlotte",
+  "vincent",
+  "marie",
+  "russell",
+  "kayla",
+  "elijah",
+  "alexis",
+  "louis",
+  "lori",
+  "oliver",
+  "chloe",
+  "harry",
+  "jane",
+  "jake",
+  "lucy",
+  "liam",
+  "mia",
+  "ben",
+  "amelia",
+  "tom",
+  "sam",
+  "kate",
+  "mike",
+  "jenny",
+  "dave",
+  "sue",
+  "chris",
+  "alex",
+  // German
+  "hans",
+  "klaus",
+  "jürgen",
+  "wolfgang",
+  "ursula",
+  "monika",
+  "petra",
+  "sabine",
+  "andreas",
+  "stefan",
+  "uwe",
+  "lukas",
+  "leon",
+  "felix",
+  "maximilian",
+  "lena",
+  "lea",
+  "anja",
+  "birgit",
+  "karin",
+  // French
+  "pierre",
+  "michel",
+  "philippe",
+  "alain",
+  "nicolas",
+  "françois",
+  "hugo",
+  "nathalie",
+  "isabelle",
+  "sylvie",
+  "camille",
+  "léa",
+  "manon",
+  "chloé",
+  // Spanish
+  "antonio",
+  "manuel",
+  "francisco",
+  "javier",
+  "carlos",
+  "miguel",
+  "alejandro",
+  "pablo",
+  "lucía",
+  "carmen",
+  "josefa",
+  "isabel",
+  "dolores",
+  "pilar",
+  "sofía",
+  "martina",
+  // Indian
+  "aarav",
+  "vivaan",
+  "arjun",
+  "rahul",
+  "amit",
+  "rajesh",
+  "suresh",
+  "ramesh",
+  "vikram",
+  "sanjay",
+  "priya",
+  "ananya",
+  "aditi",
+  "pooja",
+  "neha",
+  "sunita",
+  "anita",
+  "kavya",
+  "deepak",
+  "ravi",
+  // Other
+  "mohammed",
+  "muhammad",
+  "ahmed",
+  "ali",
+  "fatima",
+  "wei",
+  "li",
+  "ming",
+  "hiroshi",
+  "yuki",
+  "olga",
+  "ivan",
+  "sergei",
+  "anastasia",
+  "giovanni",
+  "giuseppe",
+  "marco",
+  "francesca",
+]);
+
+export const LAST_NAMES = new Set([
+  // English
+  "smith",
+  "johnson",
+  "williams",
+  "brown",
+  "jones",
+  "garcia",
+  "miller",
+  "davis",
+  "rodriguez",
+  "martinez",
+  "hernandez",
+  "lopez",
+  "gonzalez",
+  "wilson",
+  "anderson",
+  "thomas",
+  "taylor",
+  "moore",
+  "jackson",
+  "martin",
+  "lee",
+  "perez",
+  "thompson",
+  "white",
+  "harris",
+  "sanchez",
+  "clark",
+  "ramirez",
+  "lewis",
+  "robinson",
+  "walker",
+  "young",
+  "allen",
+  "king",
+  "wright",
+  "scott",
+  "torres",
+  "nguyen",
+  "hill",
+  "flores",
+  "green",
+  "adams",
+  "nelson",
+  "baker",
+  "hall",
+  "rivera",
+  "campbell",
+  "mitchell",
+  "carter",
+  "roberts",
+  "gomez",
+  "phillips",
+  "evans",
+  "turner",
+  "diaz",
+  "parker",
+  "cruz",
+  "edwards",
+  "collins",
+  "reyes",
+  "stewart",
+  "morris",
+  "morales",
+  "murphy",
+  "cook",
+  "rogers",
+  "gutierrez",
+  "ortiz",
+  "morgan",
+  "cooper",
+  "peterson",
+  "bailey",
+  "reed",
+  "kelly",
+  "howard",
+  "ramos",
+  "kim",
+  "cox",
+  "ward",
+  "richardson",
+  "watson",
+  "brooks",
+  "chavez",
+  "wood",
+  "james",
+  "bennett",
+  "gray",
+  "mendoza",
+  "ruiz",
+  "hughes",
+  "price",
+  "alvarez",
+  "castillo",
+  "sanders",
+  "patel",
+  "myers",
+  "long",
+  "ross",
+  "foster",
+  "jimenez",
+  "powell",
+  "jenkins",
+  "perry",
+  "russell",
+  "sullivan",
+  "bell",
+  "coleman",
+  "butler",
+  "henderson",
+  "barnes",
+  "gonzales",
+  "fisher",
+  "vasquez",
+  "simmons",
+  "romero",
+  "jordan",
+  "patterson",
+  "alexander",
+  "hamilton",
+  "graham",
+  "reynolds",
+  "griffin",
+  "wallace",
+  "moreno",
+  "west",
+  "cole",
+  "hayes",
+  "bryant",
+  "herrera",
+  "gibson",
+  "ellis",
+  "tran",
+  "medina",
+  "aguilar",
+  "stevens",
+  "murray",
+  "ford",
+  "castro",
+  "marshall",
+  "owens",
+  "harrison",
+  "fernandez",
+  "mcdonald",
+  "woods",
+  "washington",
+  "kennedy",
+  "wells",
+  "vargas",
+  "henry",
+  "chen",
+  "freeman",
+  "webb",
+  "tucker",
+  "guzman",
+  "burns",
+  "crawford",
+  "olson",
+  "simpson",
+  "porter",
+  "hunter",
+  "gordon",
+  "mendez",
+  "silva",
+  "shaw",
+  "snyder",
+  "mason",
+  "dixon",
+  "munoz",
+  "hunt",
+  "hicks",
+  "holmes",
+  "palmer",
+  "wagner",
+  "black",
+  "robertson",
+  "doe",
+  "roe",
+  // British
+  "wilkinson",
+  "davies",
+  "walsh",
+  "o'brien",
+  "o'connor",
+  "mcgregor",
+  // German
+  "müller",
+  "schmidt",
+  "schneider",
+  "fischer",
+  "weber",
+  "meyer",
+  "becker",
+  "schulz",
+  "hoffmann",
+  "schäfer",
+  "koch",
+  "richter",
+  "klein",
+  "wolf",
+  "schröder",
+  "neumann",
+  "schwarz",
+  "zimmermann",
+  "braun",
+  "krüger",
+  "hofmann",
+  "hartmann",
+  "mustermann",
+  // French
+  "dubois",
+  "durand",
+  "lefebvre",
+  "leroy",
+  "moreau",
+  "simon",
+  "laurent",
+  "michel",
+  "bernard",
+  "petit",
+  "richard",
+  "robert",
+  "dupont",
+  "lambert",
+  "fontaine",
+  "rousseau",
+  // Spanish
+  "fernández",
+  "gonzález",
+  "rodríguez",
+  "lópez",
+  "martínez",
+  "sánchez",
+  "pérez",
+  "gómez",
+  "martín",
+  "jiménez",
+  "hernández",
+  "díaz",
+  "álvarez",
+  "navarro",
+  // Indian
+  "sharma",
+  "singh",
+  "kumar",
+  "gupta",
+  "shah",
+  "mehta",
+  "reddy",
+  "iyer",
+  "nair",
+  "rao",
+  "joshi",
+  "verma",
+  "das",
+  "chatterjee",
+  "banerjee",
+  "mukherjee",
+  // Other
+  "wang",
+  "zhang",
+  "liu",
+  "yang",
+  "huang",
+  "zhao",
+  "wu",
+  "zhou",
+  "park",
+  "choi",
+  "tanaka",
+  "suzuki",
+  "sato",
+  "watanabe",
+  "khan",
+  "ahmed",
+  "hussain",
+  "ivanov",
+  "petrov",
+  "rossi",
+  "russo",
+  "ferrari",
+  "esposito",
+  "bianchi",
+  "santos",
+  "oliveira",
+  "pereira",
+  "costa",
+]);
+
+// Written before a name; matched case-insensitively, with or without a dot
+export const HONORIFICS = new Set([
+  "mr",
+  "mrs",
+  "ms",
+  "miss",
+  "mx",
+  "dr",
+  "prof",
+  "sir",
+  "dame",
+  "rev",
+  "fr",
+  "herr",
+  "frau",
+  "mme",
+  "mlle",
+  "sr",
+  "sra",
+  "srta",
+  "don",
+  "doña",
+  "shri",
+  "smt",
+]);
+
+/**
+ * Capitalized words that end a run of name words, e.g. "Jordan Avenue" or
+ * "Kelly Services Inc"
+ */
+export const NAME_STOPWORDS = new Set([
+  "the",
+  "and",
+  "of",
+  "for",
+  "to",
+  "in",
+  "on",
+  "at",
+  "by",
+  "inc",
+  "llc",
+  "ltd",
+  "gmbh",
+  "corp",
+  "co",
+  "company",
+  "group",
+  "services",
+  "bank",
+  "hospital",
+  "clinic",
+  "university",
+  "college",
+  "school",
+  "county",
+  "city",
+  "state",
+  "department",
+  "street",
+  "avenue",
+  "road",
+  "boulevard",
+  "lane",
+  "drive",
+  "court",
+  "place",
+  "way",
+  "square",
+  "center",
+  "centre",
+  "building",
+  "house",
+  "january",
+  "february",
+  "march",
+  "april",
+  "may",
+  "june",
+  "july",
+  "august",
+  "september",
+  "october",
+  "november",
+  "december",
+  "monday",
+  "tuesday",
+  "wednesday",
+  "thursday",
+  "friday",
+  "saturday",
+  "sunday",
+  "dear",
+  "total",
+  "invoice",
+  "page",
+  "date",
+  "account",
+  "number",
+  "name",
+  "address",
+  "phone",
+  "email",
+  "signature",
+]);
+
+// English street types, in full and abbreviated
+export const STREET_SUFFIXES = [
+  "Street",
+  "St",
+  "Avenue",
+  "Ave",
+  "Road",
+  "Rd",
+  "Boulevard",
+  "Blvd",
+  "Lane",
+  "Ln",
+  "Drive",
+  "Dr",
+  "Court",
+  "Ct",
+  "Place",
+  "Pl",
+  "Way",
+  "Terrace",
+  "Ter",
+  "Parkway",
+  "Pkwy",
+  "Highway",
+  "Hwy",
+  "Circle",
+  "Cir",
+  "Square",
+  "Sq",
+  "Crescent",
+  "Cres",
+  "Close",
+  "Grove",
+  "Gardens",
+  "Row",
+  "Mews",
+  "Trail",
+  "Walk",
+];
+
+// Street types written before the street name (French, Spanish, Italian)
+export const STREET_PREFIXES = [
+  "rue",
+  "avenue",
+  "boulevard",
+  "bd",
+  "allée",
+  "chemin",
+  "impasse",
+  "quai",
+  "place",
+  "calle",
+  "avenida",
+  "plaza",
+  "paseo",
+  "carrer",
+  "via",
+  "viale",
+  "piazza",
+  "corso",
+];
+
+// Endings of German and Dutch street names, written before the house number
+export const STREET_NAME_ENDINGS = [
+  "straße",
+  "strasse",
+  "str.",
+  "weg",
+  "gasse",
+  "platz",
+  "allee",
+  "ring",
+  "damm",
+  "ufer",
+  "straat",
+  "laan",
+  "gracht",
+];
+
+export const US_STATE_CODES = [
+  "AL",
+  "AK",
+  "AZ",
+  "AR",
+  "CA",
+  "CO",
+  "CT",
+  "DE",
+  "DC",
+  "FL",
+  "GA",
+  "HI",
+  "ID",
+  "IL",
+  "IN",
+  "IA",
+  "KS",
+  "KY",
+  "LA",
+  "ME",
+  "MD",
+  "MA",
+  "MI",
+  "MN",
+  "MS",
+  "MO",
+  "MT",
+  "NE",
+  "NV",
+  "NH",
+  "NJ",
+  "NM",
+  "NY",
+  "NC",
+  "ND",
+  "OH",
+  "OK",
+  "OR",
+  "PA",
+  "RI",
+  "SC",
+  "SD",
+  "TN",
+  "TX",
+  "UT",
+  "VT",
+  "VA",
+  "WA",
+  "WV",
+  "WI",
+  "WY",
+  "PR",
+];
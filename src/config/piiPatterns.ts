@@ -0,0 +1,302 @@
+import { type PIIDetection, type PIILocale, PIIType } from "../types/redaction";
+import {
+  isValidAadhaar,
+  isValidABA,
+  isValidBase58Check,
+  isValidBech32,
+  isValidBIC,
+  isValidDNI,
+  isValidE164,
+  isValidIBAN,
+  isValidINSEE,
+  isValidLuhn,
+  isValidNHSNumber,
+  isValidNIE,
+  isValidNINO,
+  isValidPAN,
+  isValidSIN,
+  isValidSteuerId,
+  isValidTFN,
+} from "../utils/checksums";
+
+export interface PIIPattern {
+  type: PIIType;
+  pattern: RegExp; // must be global
+  confidence: number; // base confidence before OCR quality is blended in
+  validate?: (match: string) => boolean | Promise<boolean>;
+  // When true, matches that fail validation are dropped; otherwise their
+  // confidence is halved
+  strict?: boolean;
+  // Only keep matches within this many characters of a detection of one of
+  // these types; the pattern must come after the patterns that find them
+  near?: { types: PIIType[]; distance: number };
+  // Set on patterns compiled from user-defined rules
+  customRule?: PIIDetection["customRule"];
+}
+
+// How far from a card number its CVV and expiry date may be printed
+const CARD_CONTEXT_DISTANCE = 120;
+
+export interface PIIPatternPack {
+  label: string;
+  patterns: PIIPattern[];
+}
+
+/**
+ * Patterns applied to every document, whatever its locale
+ */
+export const COMMON_PII_PATTERNS: PIIPattern[] = [
+  {
+    type: PIIType.EMAIL,
+    pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Z|a-z]{2,}\b/g,
+    confidence: 0.95,
+  },
+  {
+    // DE89 3704 0044 0532 0130 00, GB29NWBK60161331926819
+    type: PIIType.IBAN,
+    pattern: /\b[A-Z]{2}\d{2}(?:\s?[A-Z0-9]{4}){2,7}(?:\s?[A-Z0-9]{1,3})?\b/g,
+    confidence: 0.95,
+    validate: isValidIBAN,
+    strict: true,
+  },
+  {
+    // 13-19 digits with optional spaces or dashes (Visa, MasterCard, Amex,
+    // Discover); numbers failing the Luhn check are kept at lower confidence
+    type: PIIType.CREDIT_CARD,
+    pattern: /\b(?:\d{4}[-\s]?){3}\d{4}|\b\d{13,19}\b/g,
+    confidence: 0.9,
+    validate: isValidLuhn,
+  },
+  {
+    // "CVV: 123", "security code 1234"
+    type: PIIType.CARD_CVV,
+    pattern:
+      /(?<=\b(?:CVV2?|CVC2?|CID|CSC|security code)\s*[:#]?\s*)\d{3,4}\b/gi,
+    confidence: 0.9,
+    near: { types: [PIIType.CREDIT_CARD], distance: CARD_CONTEXT_DISTANCE },
+  },
+  {
+    // 09/27, 09 / 2027
+    type: PIIType.CARD_EXPIRY,
+    pattern: /\b(?:0[1-9]|1[0-2])\s?\/\s?(?:\d{4}|\d{2})\b/g,
+    confidence: 0.85,
+    near: { types: [PIIType.CREDIT_CARD], distance: CARD_CONTEXT_DISTANCE },
+  },
+  {
+    // Only after a SWIFT or BIC label; on its own a BIC is just a word.
+    // Case-sensitive on purpose: codes are printed in capitals, as
+    // isValidBIC expects, and a lowercase word after the label is prose
+    type: PIIType.SWIFT_BIC,
+    pattern:
+      /(?<=\b(?:SWIFT|Swift|BIC)(?:\s*(?:\/\s*BIC|[Cc]ode))?\s*[:#]?\s*)[A-Z0-9]{8}(?:[A-Z0-9]{3})?\b/g,
+    confidence: 0.9,
+    validate: isValidBIC,
+    strict: true,
+  },
+  {
+    // Only after an account label, e.g. "Account No: 12345678"
+    type: PIIType.BANK_ACCOUNT,
+    pattern:
+      /(?<=\b(?:account|acct|a\/c)\.?(?:\s*(?:no|number|num|nr)\.?)?\s*[:#]?\s*)\d[\d-]{4,16}\d\b/gi,
+    confidence: 0.8,
+  },
+  {
+    // Legacy (1..., 3...) Bitcoin addresses
+    type: PIIType.CRYPTO_ADDRESS,
+    pattern: /\b[13][1-9A-HJ-NP-Za-km-z]{25,34}\b/g,
+    confidence: 0.95,
+    validate: isValidBase58Check,
+    strict: true,
+  },
+  {
+    // SegWit and Taproot (bc1...) Bitcoin addresses
+    type: PIIType.CRYPTO_ADDRESS,
+    pattern: /\bbc1[02-9ac-hj-np-z]{11,71}\b/gi,
+    confidence: 0.95,
+    validate: isValidBech32,
+    strict: true,
+  },
+  {
+    // MM/DD/YYYY, DD.MM.YYYY, YYYY-MM-DD, Month DD, YYYY, DD Month YYYY
+    type: PIIType.DATE_OF_BIRTH,
+    pattern:
+      /\b(?:\d{1,2}[-/.]\d{1,2}[-/.]\d{2,4}|\d{4}-\d{2}-\d{2}|(?:Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec)[a-z]*\s+\d{1,2},?\s+\d{4}|\d{1,2}\s+(?:Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec)[a-z]*\s+\d{4})\b/gi,
+    confidence: 0.75,
+  },
+];
+
+/**
+ * Regional pattern packs, enabled per document
+ *
+ * Bare digit formats such as the NHS number, SIN and TFN also match phone
+ * numbers and each other. They need no label nearby: only numbers passing
+ * their checksum are kept, and resolveSpans labels a number matched by
+ * several patterns with the checksummed type, so it is listed once.
+ */
+export const PII_PATTERN_PACKS: Record<PIILocale, PIIPatternPack> = {
+  us: {
+    label: "United States",
+    patterns: [
+      {
+        // (123) 456-7890, 123-456-7890, 123.456.7890, 1234567890
+        type: PIIType.PHONE,
+        pattern:
+          /\b(?:\+?1[-.\s]?)?\(?([0-9]{3})\)?[-.\s]?([0-9]{3})[-.\s]?([0-9]{4})\b/g,
+        confidence: 0.85,
+      },
+      {
+        type: PIIType.SSN,
+        pattern: /\b\d{3}-\d{2}-\d{4}\b/g,
+        confidence: 0.98,
+      },
+      {
+        // Only after a routing label; bare 9 digit numbers are too common
+        type: PIIType.ABA_ROUTING,
+        pattern:
+          /(?<=\b(?:routing|ABA|RTN)(?:\s*(?:no|number|#))?\.?\s*[:#]?\s*)\d{9}\b/gi,
+        confidence: 0.95,
+        validate: isValidABA,
+        strict: true,
+      },
+    ],
+  },
+  uk: {
+    label: "United Kingdom",
+    patterns: [
+      {
+        // AB 12 34 56 C
+        type: PIIType.UK_NINO,
+        pattern: /\b[A-Z]{2}\s?\d{2}\s?\d{2}\s?\d{2}\s?[A-D]\b/gi,
+        confidence: 0.95,
+        validate: isValidNINO,
+        strict: true,
+      },
+      {
+        // 943 476 5919; also matches the US phone format
+        type: PIIType.UK_NHS,
+        pattern: /\b\d{3}[\s-]?\d{3}[\s-]?\d{4}\b/g,
+        confidence: 0.9,
+        validate: isValidNHSNumber,
+        strict: true,
+      },
+    ],
+  },
+  de: {
+    label: "Germany",
+    patterns: [
+      {
+        // 12 345 678 901
+        type: PIIType.DE_TAX_ID,
+        pattern: /\b\d{2}\s?\d{3}\s?\d{3}\s?\d{3}\b/g,
+        confidence: 0.9,
+        validate: isValidSteuerId,
+        strict: true,
+      },
+    ],
+  },
+  fr: {
+    label: "France",
+    patterns: [
+      {
+        // 1 84 12 76 451 089 46
+        type: PIIType.FR_INSEE,
+        pattern:
+          /\b[1-478]\s?\d{2}\s?\d{2}\s?(?:\d{2}|2[AB])\s?\d{3}\s?\d{3}\s?\d{2}\b/gi,
+        confidence: 0.95,
+        validate: isValidINSEE,
+        strict: true,
+      },
+    ],
+  },
+  es: {
+    label: "Spain",
+    patterns: [
+      {
+        type: PIIType.ES_DNI,
+        pattern: /\b\d{8}-?[A-Z]\b/gi,
+        confidence: 0.95,
+        validate: isValidDNI,
+        strict: true,
+      },
+      {
+        type: PIIType.ES_NIE,
+        pattern: /\b[XYZ]-?\d{7}-?[A-Z]\b/gi,
+        confidence: 0.95,
+        validate: isValidNIE,
+        strict: true,
+      },
+    ],
+  },
+  in: {
+    label: "India",
+    patterns: [
+      {
+        // 2345 6789 0123
+        type: PIIType.IN_AADHAAR,
+        pattern: /\b[2-9]\d{3}[\s-]?\d{4}[\s-]?\d{4}\b/g,
+        confidence: 0.95,
+        validate: isValidAadhaar,
+        strict: true,
+      },
+      {
+        type: PIIType.IN_PAN,
+        pattern: /\b[A-Z]{5}\d{4}[A-Z]\b/g,
+        confidence: 0.9,
+        validate: isValidPAN,
+        strict: true,
+      },
+    ],
+  },
+  ca: {
+    label: "Canada",
+    patterns: [
+      {
+        // 130 692 544; the same shape as a 9 digit TFN
+        type: PIIType.CA_SIN,
+        pattern: /\b\d{3}[\s-]?\d{3}[\s-]?\d{3}\b/g,
+        confidence: 0.9,
+        validate: isValidSIN,
+        strict: true,
+      },
+    ],
+  },
+  au: {
+    label: "Australia",
+    patterns: [
+      {
+        // 123 456 782
+        type: PIIType.AU_TFN,
+        pattern: /\b\d{3}\s?\d{3}\s?\d{2,3}\b/g,
+        confidence: 0.85,
+        validate: isValidTFN,
+        strict: true,
+      },
+    ],
+  },
+  international: {
+    label: "International phone (E.164)",
+    patterns: [
+      {
+        // +44 20 7946 0958, +91-98765-43210, +4915112345678
+        type: PIIType.PHONE,
+        pattern: /\+[1-9]\d{0,3}(?:[\s.-]?\(?\d{1,5}\)?){2,5}\b/g,
+        confidence: 0.85,
+        validate: isValidE164,
+        strict: true,
+      },
+    ],
+  },
+};
+
+/**
+ * Locales enabled for a new document
+ */
+export const DEFAULT_PII_LOCALES: PIILocale[] = ["us", "international"];
+
+/**
+ * Collect the regional patterns for a set of locales, in locale order
+ * Common patterns are not included; they run as their own detector
+ */
+export function getRegionalPIIPatterns(locales: PIILocale[]): PIIPattern[] {
+  return locales.flatMap((locale) => PII_PATTERN_PACKS[locale]?.patterns ?? []);
+}
@@ -1,3 +1,5 @@
+export { useAutosave } from "./useAutosave";
+export { useCustomRules } from "./useCustomRules";
 export { useDocument } from "./useDocument";
 export { useErrors } from "./useErrors";
 export { useHistory } from "./useHistory";
@@ -0,0 +1,96 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { SessionStore } from "@/services/SessionStore";
+import type { AutosaveSession, AutosaveSummary } from "@/types/redaction";
+
+// Wait for a pause in edits before writing to IndexedDB
+const AUTOSAVE_DEBOUNCE_MS = 500;
+
+export function useAutosave() {
+  const storeRef = useRef<SessionStore>(new SessionStore());
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // The last save the timer has started; purging waits for it, or it could
+  // write the session back after it was deleted
+  const savingRef = useRef<Promise<void> | null>(null);
+  const [savedSession, setSavedSession] = useState<AutosaveSummary | null>(
+    null,
+  );
+  const [lastSavedAt, setLastSavedAt] = useState<Date | null>(null);
+
+  // Look for a session left over from a previous visit
+  useEffect(() => {
+    const store = storeRef.current;
+    if (!store.isSupported()) return;
+
+    store
+      .getSummary()
+      .then(setSavedSession)
+      .catch(() => setSavedSession(null));
+
+    return () => {
+      if (timerRef.current) {
+        clearTimeout(timerRef.current);
+      }
+    };
+  }, []);
+
+  const cancelPendingSave = useCallback(() => {
+    if (timerRef.current) {
+      clearTimeout(timerRef.current);
+      timerRef.current = null;
+    }
+  }, []);
+
+  // The session is only built once edits pause, as serializing the project
+  // and source file on every change is costly
+  const scheduleSave = useCallback(
+    (createSession: () => AutosaveSession, passphrase?: string) => {
+      const store = storeRef.current;
+      if (!store.isSupported()) return;
+
+      cancelPendingSave();
+      timerRef.current = setTimeout(() => {
+        timerRef.current = null;
+        const session = createSession();
+        // Saves run one after another, so awaiting the last awaits them all
+        const saving = (savingRef.current ?? Promise.resolve())
+          .then(() => store.save(session, passphrase || undefined))
+          .then(() => setLastSavedAt(new Date()))
+          .catch((error) => {
+            console.warn("Autosave failed:", error);
+          })
+          .finally(() => {
+            if (savingRef.current === saving) savingRef.current = null;
+          });
+        savingRef.current = saving;
+      }, AUTOSAVE_DEBOUNCE_MS);
+    },
+    [cancelPendingSave],
+  );
+
+  const loadSession = useCallback(
+    (passphrase?: string) => storeRef.current.load(passphrase),
+    [],
+  );
+
+  const purgeSession = useCallback(async () => {
+    cancelPendingSave();
+    await savingRef.current;
+    await storeRef.current.purge();
+    setSavedSession(null);
+    setLastSavedAt(null);
+  }, [cancelPendingSave]);
+
+  const dismissSavedSession = useCallback(() => {
+    setSavedSession(null);
+  }, []);
+
+  return {
+    savedSession,
+    lastSavedAt,
+    scheduleSave,
+    cancelPendingSave,
+    loadSession,
+    purgeSession,
+    dismissSavedSession,
+  };
+}
@@ -0,0 +1,64 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { CustomRuleService } from "@/services/CustomRuleService";
+import type { CustomRule } from "@/types/redaction";
+
+export function useCustomRules() {
+  const serviceRef = useRef<CustomRuleService>(new CustomRuleService());
+  const [customRules, setCustomRules] = useState<CustomRule[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  // Load the rules saved in a previous visit
+  useEffect(() => {
+    setCustomRules(serviceRef.current.load());
+    setIsLoaded(true);
+  }, []);
+
+  // Persist every change once the saved rules have been read
+  useEffect(() => {
+    if (isLoaded) {
+      serviceRef.current.save(customRules);
+    }
+  }, [customRules, isLoaded]);
+
+  // Add a rule, or replace the rule with the same id
+  const saveRule = useCallback((rule: CustomRule) => {
+    setCustomRules((prev) =>
+      prev.some((r) => r.id === rule.id)
+        ? prev.map((r) => (r.id === rule.id ? rule : r))
+        : [...prev, rule],
+    );
+  }, []);
+
+  const removeRule = useCallback((ruleId: string) => {
+    setCustomRules((prev) => prev.filter((r) => r.id !== ruleId));
+  }, []);
+
+  const toggleRule = useCallback((ruleId: string, enabled: boolean) => {
+    setCustomRules((prev) =>
+      prev.map((r) => (r.id === ruleId ? { ...r, enabled } : r)),
+    );
+  }, []);
+
+  // Merge rules from a file; rules with a known id replace the existing ones
+  const importRules = useCallback(async (file: File) => {
+    const imported = await serviceRef.current.readRulesFile(file);
+    setCustomRules((prev) => [
+      ...prev.filter((r) => !imported.some((rule) => rule.id === r.id)),
+      ...imported,
+    ]);
+    return imported.length;
+  }, []);
+
+  const exportRules = useCallback(() => {
+    serviceRef.current.saveRulesFile(customRules);
+  }, [customRules]);
+
+  return {
+    customRules,
+    saveRule,
+    removeRule,
+    toggleRule,
+    importRules,
+    exportRules,
+  };
+}
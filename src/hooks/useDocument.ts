@@ -6,9 +6,9 @@ export function useDocument() {
   const [currentPage, setCurrentPage] = useState(1);
   const [zoom, setZoom] = useState(1);
 
-  const loadDocument = useCallback((doc: Document) => {
+  const loadDocument = useCallback((doc: Document, initialPage = 1) => {
     setDocument(doc);
-    setCurrentPage(1);
+    setCurrentPage(Math.max(1, Math.min(doc.pageCount, initialPage)));
     setZoom(1);
   }, []);
 
@@ -84,11 +84,65 @@ export function useErrors() {
     [showError],
   );
 
+  const handleSessionError = useCallback(
+    (message: string) => {
+      showError(
+        ErrorType.SESSION_RESTORE_FAILED,
+        message,
+        true,
+        "Check the passphrase, or discard the saved session and upload the document again",
+      );
+    },
+    [showError],
+  );
+
+  const handleResidualPII = useCallback(
+    (message: string, blocked: boolean) => {
+      showError(
+        ErrorType.RESIDUAL_PII_FOUND,
+        message,
+        !blocked,
+        blocked
+          ? "Enlarge or add redactions over the reported text, then export again"
+          : "Check the exported file before sharing it",
+      );
+    },
+    [showError],
+  );
+
+  const handleCustomRulesError = useCallback(
+    (message: string) => {
+      showError(
+        ErrorType.INVALID_CUSTOM_RULES,
+        message,
+        true,
+        "Choose a rules file exported from Redactor Pro",
+      );
+    },
+    [showError],
+  );
+
+  const handleRegionTextError = useCallback(
+    (message: string) => {
+      showError(
+        ErrorType.NO_TEXT_IN_REGION,
+        message,
+        true,
+        "Draw the box over whole words of text, then try again",
+      );
+    },
+    [showError],
+  );
+
   return {
     handleFileError,
     handleOCRError,
     handlePIIDetectionError,
     handleExportError,
     handleCanvasError,
+    handleSessionError,
+    handleResidualPII,
+    handleCustomRulesError,
+    handleRegionTextError,
   };
 }
@@ -1,13 +1,42 @@
-import { useCallback, useState } from "react";
+import { useCallback, useRef, useState } from "react";
 import type {
   HistoryActionType,
   HistoryEntry,
   InteractionMode,
   PIIType,
+  UndoableEdit,
 } from "@/types/redaction";
 
+// An undoable edit and the history entry that logged it
+interface EditCommand extends UndoableEdit {
+  entryId: string;
+}
+
 export function useHistory() {
   const [history, setHistory] = useState<HistoryEntry[]>([]);
+  // Applied edits, oldest first, and undone edits, most recently undone last
+  const undoStackRef = useRef<EditCommand[]>([]);
+  const redoStackRef = useRef<EditCommand[]>([]);
+  const [canUndo, setCanUndo] = useState(false);
+  const [canRedo, setCanRedo] = useState(false);
+  const [revertibleEntryIds, setRevertibleEntryIds] = useState<Set<string>>(
+    new Set(),
+  );
+
+  const syncStacks = useCallback(() => {
+    const undoStack = undoStackRef.current;
+    const redoStack = redoStackRef.current;
+    setCanUndo(undoStack.length > 0);
+    setCanRedo(redoStack.length > 0);
+    // Reverting to the latest applied edit would change nothing
+    setRevertibleEntryIds(
+      new Set(
+        [...undoStack.slice(0, -1), ...redoStack].map(
+          (command) => command.entryId,
+        ),
+      ),
+    );
+  }, []);
 
   const addEntry = useCallback(
     (
@@ -21,6 +50,7 @@ export function useHistory() {
         piiType?: PIIType;
         [key: string]: unknown;
       },
+      edit?: UndoableEdit,
     ) => {
       const entry: HistoryEntry = {
         id: `history-${Date.now()}-${Math.random()}`,
@@ -30,14 +60,113 @@ export function useHistory() {
         metadata,
       };
 
-      setHistory((prev) => [entry, ...prev]); // Most recent first
+      if (!edit) {
+        setHistory((prev) => [entry, ...prev]); // Most recent first
+        return;
+      }
+
+      // A new edit discards the undone ones, and their entries with them
+      const discarded = new Set(
+        redoStackRef.current.map((command) => command.entryId),
+      );
+      undoStackRef.current = [
+        ...undoStackRef.current,
+        { ...edit, entryId: entry.id },
+      ];
+      redoStackRef.current = [];
+      syncStacks();
+
+      setHistory((prev) => [
+        entry,
+        ...prev.filter((existing) => !discarded.has(existing.id)),
+      ]);
+    },
+    [syncStacks],
+  );
+
+  // Undo or redo edits until the given number of them are applied
+  const applyEdits = useCallback(
+    (count: number) => {
+      const undone = new Map<string, boolean>();
+
+      while (undoStackRef.current.length > count) {
+        const command = undoStackRef.current[undoStackRef.current.length - 1];
+        command.undo();
+        undoStackRef.current = undoStackRef.current.slice(0, -1);
+        redoStackRef.current = [...redoStackRef.current, command];
+        undone.set(command.entryId, true);
+      }
+
+      while (
+        undoStackRef.current.length < count &&
+        redoStackRef.current.length > 0
+      ) {
+        const command = redoStackRef.current[redoStackRef.current.length - 1];
+        command.redo();
+        redoStackRef.current = redoStackRef.current.slice(0, -1);
+        undoStackRef.current = [...undoStackRef.current, command];
+        undone.set(command.entryId, false);
+      }
+
+      if (undone.size === 0) return;
+
+      syncStacks();
+      setHistory((prev) =>
+        prev.map((entry) =>
+          undone.has(entry.id)
+            ? { ...entry, undone: undone.get(entry.id) }
+            : entry,
+        ),
+      );
+    },
+    [syncStacks],
+  );
+
+  const undo = useCallback(() => {
+    if (undoStackRef.current.length === 0) return;
+    applyEdits(undoStackRef.current.length - 1);
+  }, [applyEdits]);
+
+  const redo = useCallback(() => {
+    applyEdits(undoStackRef.current.length + 1);
+  }, [applyEdits]);
+
+  // Undo or redo edits until the entry's edit is the latest one applied
+  const revertTo = useCallback(
+    (entryId: string) => {
+      const edits = [
+        ...undoStackRef.current,
+        ...[...redoStackRef.current].reverse(),
+      ];
+      const index = edits.findIndex((command) => command.entryId === entryId);
+      if (index !== -1) {
+        applyEdits(index + 1);
+      }
     },
-    [],
+    [applyEdits],
   );
 
   const clearHistory = useCallback(() => {
     setHistory([]);
-  }, []);
+    undoStackRef.current = [];
+    redoStackRef.current = [];
+    syncStacks();
+  }, [syncStacks]);
+
+  // Restored entries cannot be undone, as their edits were not recorded
+  const restoreHistory = useCallback(
+    (entries: HistoryEntry[]) => {
+      setHistory(
+        [...entries].sort(
+          (a, b) => b.timestamp.getTime() - a.timestamp.getTime(),
+        ),
+      );
+      undoStackRef.current = [];
+      redoStackRef.current = [];
+      syncStacks();
+    },
+    [syncStacks],
+  );
 
   const getHistory = useCallback(() => {
     return history;
@@ -59,8 +188,15 @@ export function useHistory() {
 
   return {
     history,
+    canUndo,
+    canRedo,
+    revertibleEntryIds,
     addEntry,
+    undo,
+    redo,
+    revertTo,
     clearHistory,
+    restoreHistory,
     getHistory,
     getRecentEntries,
     getEntriesByAction,
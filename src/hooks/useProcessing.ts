@@ -1,4 +1,4 @@
-import { useCallback, useState } from "react";
+import { useCallback, useRef, useState } from "react";
 import type { ProcessingStatus } from "@/types/redaction";
 
 export function useProcessing() {
@@ -8,6 +8,7 @@ export function useProcessing() {
     progress: 0,
     message: "",
   });
+  const abortControllerRef = useRef<AbortController | null>(null);
 
   const startProcessing = useCallback(
     (stage: ProcessingStatus["stage"], message: string) => {
@@ -21,6 +22,44 @@ export function useProcessing() {
     [],
   );
 
+  /**
+   * Start a job that the user can cancel from the processing overlay.
+   * The returned signal is aborted when cancelProcessing is called.
+   */
+  const startCancellableProcessing = useCallback(
+    (
+      stage: ProcessingStatus["stage"],
+      message: string,
+      totalPages?: number,
+    ): AbortSignal => {
+      abortControllerRef.current?.abort();
+      const controller = new AbortController();
+      abortControllerRef.current = controller;
+
+      setIsProcessing(true);
+      setProcessingStatus({
+        stage,
+        progress: 0,
+        message,
+        totalPages,
+        cancellable: true,
+      });
+
+      return controller.signal;
+    },
+    [],
+  );
+
+  const cancelProcessing = useCallback(() => {
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
+    setProcessingStatus((prev) => ({
+      ...prev,
+      cancellable: false,
+      message: "Cancelling...",
+    }));
+  }, []);
+
   const updateProgress = useCallback((progress: number, message?: string) => {
     setProcessingStatus((prev) => ({
       ...prev,
@@ -29,6 +68,24 @@ export function useProcessing() {
     }));
   }, []);
 
+  const updatePageProgress = useCallback(
+    (
+      currentPage: number,
+      totalPages: number,
+      progress: number,
+      message?: string,
+    ) => {
+      setProcessingStatus((prev) => ({
+        ...prev,
+        currentPage,
+        totalPages,
+        progress: Math.max(0, Math.min(100, progress)),
+        message: message || prev.message,
+      }));
+    },
+    [],
+  );
+
   const updateStage = useCallback(
     (stage: ProcessingStatus["stage"], message: string) => {
       setProcessingStatus((prev) => ({
@@ -41,6 +98,7 @@ export function useProcessing() {
   );
 
   const completeProcessing = useCallback((message = "Processing complete") => {
+    abortControllerRef.current = null;
     setProcessingStatus({
       stage: "complete",
       progress: 100,
@@ -50,6 +108,7 @@ export function useProcessing() {
   }, []);
 
   const errorProcessing = useCallback((message: string) => {
+    abortControllerRef.current = null;
     setProcessingStatus({
       stage: "error",
       progress: 0,
@@ -71,7 +130,10 @@ export function useProcessing() {
     isProcessing,
     processingStatus,
     startProcessing,
+    startCancellableProcessing,
+    cancelProcessing,
     updateProgress,
+    updatePageProgress,
     updateStage,
     completeProcessing,
     errorProcessing,
@@ -1,11 +1,24 @@
 import { useCallback, useState } from "react";
-import type { PIIDetection, PIIType, RedactionRegion } from "@/types/redaction";
+import {
+  type LinkedRegionGroup,
+  type PIIDetection,
+  PIIType,
+  type ProjectPage,
+  type RedactionRegion,
+  type SearchHit,
+} from "@/types/redaction";
+import { unionRects } from "@/utils/regionEditing";
 
 export function useRedactions() {
   const [redactions, setRedactions] = useState<Map<number, RedactionRegion[]>>(
     new Map(),
   );
-  const [selectedRegionId, setSelectedRegionId] = useState<string | null>(null);
+  const [detections, setDetections] = useState<Map<number, PIIDetection[]>>(
+    new Map(),
+  );
+  // Selected regions of the page shown, in the order they were selected
+  const [selectedRegionIds, setSelectedRegionIds] = useState<string[]>([]);
+  const [linkedGroups, setLinkedGroups] = useState<LinkedRegionGroup[]>([]);
 
   const addAutoDetectedRegions = useCallback(
     (pageNumber: number, detections: PIIDetection[]) => {
@@ -24,9 +37,11 @@ export function useRedactions() {
 
           detection.words.forEach((word) => {
             const y0 = word.bbox?.y0 || 0;
+            // Coordinates are normalized, so the tolerance is relative to word height
+            const tolerance = ((word.bbox?.y1 || 0) - y0) * 0.5;
 
-            // If this is the first word or it's on the same line (within 5px tolerance)
-            if (lastY0 === -1 || Math.abs(y0 - lastY0) < 5) {
+            // If this is the first word or it's on the same line
+            if (lastY0 === -1 || Math.abs(y0 - lastY0) < tolerance) {
               currentLine.push(word);
               lastY0 = y0;
             } else {
@@ -61,6 +76,7 @@ export function useRedactions() {
                 piiType: detection.type,
                 confidence: detection.confidence,
                 isManual: false,
+                detectionId: detection.id,
               });
             }
           });
@@ -92,12 +108,100 @@ export function useRedactions() {
     [],
   );
 
-  const removeRegion = useCallback(
-    (pageNumber: number, regionId: string) => {
+  // Add a region for each line of each hit, grouped by page
+  const addSearchHitRegions = useCallback((hits: SearchHit[]) => {
+    setRedactions((prev) => {
+      const newMap = new Map(prev);
+
+      hits.forEach((hit) => {
+        const pageRegions = newMap.get(hit.pageNumber) || [];
+        const newRegions: RedactionRegion[] = hit.boxes.map((box) => ({
+          id: `search-${Date.now()}-${Math.random()}`,
+          x: box.x0,
+          y: box.y0,
+          width: box.x1 - box.x0,
+          height: box.y1 - box.y0,
+          isManual: true,
+        }));
+
+        newMap.set(hit.pageNumber, [...pageRegions, ...newRegions]);
+      });
+
+      return newMap;
+    });
+  }, []);
+
+  // Add pending regions for other occurrences of a boxed phrase
+  const addLinkedRegions = useCallback(
+    (group: LinkedRegionGroup, hits: SearchHit[]) => {
+      setLinkedGroups((prev) => [...prev, group]);
+      setRedactions((prev) => {
+        const newMap = new Map(prev);
+
+        hits.forEach((hit) => {
+          const pageRegions = newMap.get(hit.pageNumber) || [];
+          const newRegions: RedactionRegion[] = hit.boxes.map((box) => ({
+            id: `linked-${Date.now()}-${Math.random()}`,
+            x: box.x0,
+            y: box.y0,
+            width: box.x1 - box.x0,
+            height: box.y1 - box.y0,
+            isManual: true,
+            linkGroupId: group.id,
+          }));
+
+          newMap.set(hit.pageNumber, [...pageRegions, ...newRegions]);
+        });
+
+        return newMap;
+      });
+    },
+    [],
+  );
+
+  // Keep a group's regions as ordinary manual regions
+  const acceptLinkedGroup = useCallback((groupId: string) => {
+    setLinkedGroups((prev) => prev.filter((g) => g.id !== groupId));
+    setRedactions((prev) => {
+      const newMap = new Map(prev);
+      newMap.forEach((regions, page) => {
+        if (regions.some((r) => r.linkGroupId === groupId)) {
+          newMap.set(
+            page,
+            regions.map((r) =>
+              r.linkGroupId === groupId ? { ...r, linkGroupId: undefined } : r,
+            ),
+          );
+        }
+      });
+      return newMap;
+    });
+  }, []);
+
+  // Remove every region in a group, on all pages
+  const rejectLinkedGroup = useCallback((groupId: string) => {
+    setLinkedGroups((prev) => prev.filter((g) => g.id !== groupId));
+    setRedactions((prev) => {
+      const newMap = new Map(prev);
+      newMap.forEach((regions, page) => {
+        const filtered = regions.filter((r) => r.linkGroupId !== groupId);
+        if (filtered.length === 0) {
+          newMap.delete(page);
+        } else if (filtered.length !== regions.length) {
+          newMap.set(page, filtered);
+        }
+      });
+      return newMap;
+    });
+  }, []);
+
+  const removeRegions = useCallback(
+    (pageNumber: number, regionIds: string[]) => {
+      const removed = new Set(regionIds);
       setRedactions((prev) => {
         const newMap = new Map(prev);
         const pageRegions = newMap.get(pageNumber) || [];
-        const filtered = pageRegions.filter((r) => r.id !== regionId);
+        const filtered = pageRegions.filter((r) => !removed.has(r.id));
 
         if (filtered.length === 0) {
           newMap.delete(pageNumber);
@@ -105,14 +209,148 @@ export function useRedactions() {
           newMap.set(pageNumber, filtered);
         }
 
-        if (selectedRegionId === regionId) {
-          setSelectedRegionId(null);
-        }
+        return newMap;
+      });
+      setSelectedRegionIds((prev) => prev.filter((id) => !removed.has(id)));
+    },
+    [],
+  );
+
+  const removeRegion = useCallback(
+    (pageNumber: number, regionId: string) => {
+      removeRegions(pageNumber, [regionId]);
+    },
+    [removeRegions],
+  );
 
+  // Change some regions of a page, e.g. to move them or set their type
+  const updateRegions = useCallback(
+    (
+      pageNumber: number,
+      regionIds: string[],
+      update: (region: RedactionRegion) => RedactionRegion,
+    ) => {
+      const updated = new Set(regionIds);
+      setRedactions((prev) => {
+        const pageRegions = prev.get(pageNumber);
+        if (!pageRegions) return prev;
+
+        const newMap = new Map(prev);
+        newMap.set(
+          pageNumber,
+          pageRegions.map((r) => (updated.has(r.id) ? update(r) : r)),
+        );
         return newMap;
       });
     },
-    [selectedRegionId],
+    [],
+  );
+
+  // Replace some regions of a page with one manual region covering them all,
+  // and select it. Returns false, changing nothing, for fewer than two regions
+  const mergeRegions = useCallback(
+    (pageNumber: number, regionIds: string[]) => {
+      const merged = new Set(regionIds);
+      const mergedId = `manual-${Date.now()}-${Math.random()}`;
+      const memberCount = (redactions.get(pageNumber) || []).filter((r) =>
+        merged.has(r.id),
+      ).length;
+      if (memberCount < 2) return false;
+
+      setRedactions((prev) => {
+        const pageRegions = prev.get(pageNumber) || [];
+        const members = pageRegions.filter((r) => merged.has(r.id));
+        if (members.length < 2) return prev;
+
+        // Keep a type or detection only when every member shares it
+        const [first] = members;
+        const piiType = members.every((r) => r.piiType === first.piiType)
+          ? first.piiType
+          : PIIType.OTHER;
+        const detectionId = members.every(
+          (r) => r.detectionId === first.detectionId,
+        )
+          ? first.detectionId
+          : undefined;
+
+        const newMap = new Map(prev);
+        newMap.set(pageNumber, [
+          ...pageRegions.filter((r) => !merged.has(r.id)),
+          {
+            id: mergedId,
+            ...unionRects(members),
+            piiType,
+            isManual: true,
+            ...(detectionId && { detectionId }),
+          },
+        ]);
+        return newMap;
+      });
+      setSelectedRegionIds([mergedId]);
+      return true;
+    },
+    [redactions],
+  );
+
+  // Add manual copies of some regions, at the same place, to other pages
+  const copyRegionsToPages = useCallback(
+    (pageNumber: number, regionIds: string[], targetPages: number[]) => {
+      const copied = new Set(regionIds);
+      setRedactions((prev) => {
+        const sources = (prev.get(pageNumber) || []).filter((r) =>
+          copied.has(r.id),
+        );
+        const newMap = new Map(prev);
+
+        targetPages.forEach((page) => {
+          if (page === pageNumber) return;
+
+          const copies: RedactionRegion[] = sources.map((region) => ({
+            id: `manual-${Date.now()}-${Math.random()}`,
+            x: region.x,
+            y: region.y,
+            width: region.width,
+            height: region.height,
+            piiType: region.piiType,
+            isManual: true,
+            ...(region.shape && { shape: region.shape }),
+          }));
+          newMap.set(page, [...(newMap.get(page) || []), ...copies]);
+        });
+
+        return newMap;
+      });
+    },
+    [],
+  );
+
+  // Remove every region created for a detection, on whichever page it is
+  const removeDetectionRegions = useCallback(
+    (detectionId: string) => {
+      const removed = new Set(
+        Array.from(redactions.values())
+          .flat()
+          .filter((r) => r.detectionId === detectionId)
+          .map((r) => r.id),
+      );
+
+      setRedactions((prev) => {
+        const newMap = new Map(prev);
+        newMap.forEach((regions, page) => {
+          const filtered = regions.filter((r) => r.detectionId !== detectionId);
+          if (filtered.length === 0) {
+            newMap.delete(page);
+          } else if (filtered.length !== regions.length) {
+            newMap.set(page, filtered);
+          }
+        });
+        return newMap;
+      });
+      setSelectedRegionIds((selected) =>
+        selected.filter((id) => !removed.has(id)),
+      );
+    },
+    [redactions],
   );
 
   const getRegionsForPage = useCallback(
@@ -130,6 +368,24 @@ export function useRedactions() {
     [redactions],
   );
 
+  const setPageDetections = useCallback(
+    (pageNumber: number, pageDetections: PIIDetection[]) => {
+      setDetections((prev) => {
+        const newMap = new Map(prev);
+        newMap.set(pageNumber, pageDetections);
+        return newMap;
+      });
+    },
+    [],
+  );
+
+  const getDetectionsForPage = useCallback(
+    (pageNumber: number): PIIDetection[] => {
+      return detections.get(pageNumber) || [];
+    },
+    [detections],
+  );
+
   const clearAllRegions = useCallback((pageNumber?: number) => {
     if (pageNumber !== undefined) {
       setRedactions((prev) => {
@@ -137,12 +393,73 @@ export function useRedactions() {
         newMap.delete(pageNumber);
         return newMap;
       });
+      setDetections((prev) => {
+        const newMap = new Map(prev);
+        newMap.delete(pageNumber);
+        return newMap;
+      });
     } else {
       setRedactions(new Map());
+      setDetections(new Map());
+      setLinkedGroups([]);
     }
-    setSelectedRegionId(null);
+    setSelectedRegionIds([]);
   }, []);
 
+  const restoreRedactions = useCallback(
+    (
+      restoredRegions: Map<number, RedactionRegion[]>,
+      restoredDetections: Map<number, PIIDetection[]>,
+    ) => {
+      // Linked groups are not saved, so their regions come back accepted
+      const regions = new Map<number, RedactionRegion[]>();
+      restoredRegions.forEach((pageRegions, page) => {
+        regions.set(
+          page,
+          pageRegions.map(({ linkGroupId: _linkGroupId, ...region }) => region),
+        );
+      });
+
+      setRedactions(regions);
+      setDetections(new Map(restoredDetections));
+      setLinkedGroups([]);
+      setSelectedRegionIds([]);
+    },
+    [],
+  );
+
+  // Put pages, and the linked groups under review, back the way an undone or
+  // redone edit left them
+  const restorePages = useCallback(
+    (pages: ProjectPage[], groups: LinkedRegionGroup[]) => {
+      setLinkedGroups(groups);
+      setRedactions((prev) => {
+        const newMap = new Map(prev);
+        pages.forEach(({ page, regions }) => {
+          if (regions.length === 0) {
+            newMap.delete(page);
+          } else {
+            newMap.set(page, regions);
+          }
+        });
+        return newMap;
+      });
+      setDetections((prev) => {
+        const newMap = new Map(prev);
+        pages.forEach(({ page, detections }) => {
+          if (detections.length === 0) {
+            newMap.delete(page);
+          } else {
+            newMap.set(page, detections);
+          }
+        });
+        return newMap;
+      });
+      setSelectedRegionIds([]);
+    },
+    [],
+  );
+
   const getAllRegions = useCallback((): RedactionRegion[] => {
     const allRegions: RedactionRegion[] = [];
     redactions.forEach((regions) => {
@@ -152,26 +469,49 @@ export function useRedactions() {
   }, [redactions]);
 
   const selectRegion = useCallback((regionId: string | null) => {
-    setSelectedRegionId(regionId);
+    setSelectedRegionIds(regionId ? [regionId] : []);
+  }, []);
+
+  const selectRegions = useCallback((regionIds: string[]) => {
+    setSelectedRegionIds(regionIds);
   }, []);
 
-  const toggleRegion = useCallback((_pageNumber: number, regionId: string) => {
-    // This could be used to enable/disable regions without removing them
-    // For now, we'll just select/deselect
-    setSelectedRegionId((prev) => (prev === regionId ? null : regionId));
+  // Add a region to the selection, or take it out if it is already in it
+  const toggleRegion = useCallback((regionId: string) => {
+    setSelectedRegionIds((prev) =>
+      prev.includes(regionId)
+        ? prev.filter((id) => id !== regionId)
+        : [...prev, regionId],
+    );
   }, []);
 
   return {
     redactions,
-    selectedRegionId,
+    detections,
+    selectedRegionIds,
+    linkedGroups,
     addAutoDetectedRegions,
     addManualRegion,
+    addSearchHitRegions,
+    addLinkedRegions,
+    acceptLinkedGroup,
+    rejectLinkedGroup,
     removeRegion,
+    removeRegions,
+    updateRegions,
+    mergeRegions,
+    copyRegionsToPages,
+    removeDetectionRegions,
     getRegionsForPage,
     getRegionsByType,
+    setPageDetections,
+    getDetectionsForPage,
     clearAllRegions,
+    restoreRedactions,
+    restorePages,
     getAllRegions,
     selectRegion,
+    selectRegions,
     toggleRegion,
   };
 }
@@ -6,15 +6,21 @@ import {
   ModalHeader,
   useDisclosure,
 } from "@heroui/modal";
-import { useCallback, useEffect, useRef, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { BottomDock } from "@/components/BottomDock";
 import { CanvasViewer } from "@/components/CanvasViewer";
 import { DocumentUpload } from "@/components/DocumentUpload";
 import { LeftRail } from "@/components/LeftRail";
 import { MobileToolbar } from "@/components/MobileToolbar";
+import { PII_TYPE_LABELS } from "@/components/PIIListPanel";
 import { ProcessingStatus } from "@/components/ProcessingStatus";
+import { ResumeSessionPrompt } from "@/components/ResumeSessionPrompt";
 import { RightPanel } from "@/components/RightPanel";
+import { SelectionToolbar } from "@/components/SelectionToolbar";
+import { DEFAULT_PII_LOCALES } from "@/config/piiPatterns";
 import {
+  useAutosave,
+  useCustomRules,
   useDocument,
   useErrors,
   useHistory,
@@ -23,22 +29,76 @@ import {
 } from "@/hooks";
 import {
   CanvasController,
+  DocumentManager,
+  ExportBlockedError,
   ExportService,
+  ExportVerifier,
   ImageRenderer,
   OCREngineWorker,
   PDFRenderer,
   PIIDetectionEngineImpl,
+  ProjectService,
   RedactionManager,
 } from "@/services";
+import type { RegionChange } from "@/services/CanvasController";
 import {
+  type DetectorInfo,
+  type DetectorRunStats,
   type Document,
   DocumentType,
+  DrawTool,
+  type ExportPage,
   HistoryActionType,
+  type HistoryEntry,
   InteractionMode,
+  type OCRResult,
+  type PDFExportMode,
   type PIIDetection,
+  type PIILocale,
   PIIType,
+  type Point,
+  type ProjectState,
+  type RedactionProject,
+  type RedactionRegion,
+  type ReviewSnapshot,
+  type SearchHit,
+  type SearchOptions,
+  type TextSource,
+  type VerificationMode,
+  type VerificationReport,
 } from "@/types/redaction";
+import { getCanvasSize, normalizeOCRResult } from "@/utils/coordinates";
+import { expandRect } from "@/utils/regionEditing";
+import { setRegionRect } from "@/utils/regionShapes";
+import { summarizeSanitizationReport } from "@/utils/sanitizationReport";
 import { downloadCanvasAsScreenshot } from "@/utils/screenshot";
+import { mergeOCRWords } from "@/utils/textLayer";
+import { getTextInBox, searchPage } from "@/utils/textSearch";
+import { summarizeVerificationReport } from "@/utils/verificationReport";
+
+// Render scale used for off-screen OCR of PDF pages (higher = better accuracy)
+const OCR_RENDER_SCALE = 2.0;
+
+// Render scale of the page thumbnails shown next to search hits
+const THUMBNAIL_SCALE = 0.25;
+
+// Other occurrences of a boxed phrase must match it as whole words
+const OCCURRENCE_SEARCH_OPTIONS: SearchOptions = {
+  mode: "text",
+  matchCase: false,
+  wholeWord: true,
+};
+
+// PDF user space is defined at 72 units per inch
+const PDF_POINTS_PER_INCH = 72;
+
+// Directions the arrow keys nudge the selected regions in
+const NUDGE_DIRECTIONS: Record<string, Point> = {
+  ArrowLeft: { x: -1, y: 0 },
+  ArrowRight: { x: 1, y: 0 },
+  ArrowUp: { x: 0, y: -1 },
+  ArrowDown: { x: 0, y: 1 },
+};
 
 export default function IndexPage() {
   // Hooks
@@ -46,18 +106,41 @@ export default function IndexPage() {
     useDocument();
 
   const {
+    redactions,
+    detections,
+    selectedRegionIds,
+    linkedGroups,
     addAutoDetectedRegions,
-    removeRegion,
+    addManualRegion,
+    addSearchHitRegions,
+    addLinkedRegions,
+    acceptLinkedGroup,
+    rejectLinkedGroup,
+    removeRegions,
+    updateRegions,
+    mergeRegions,
+    copyRegionsToPages,
+    removeDetectionRegions,
     getRegionsForPage,
     clearAllRegions,
+    restoreRedactions,
+    restorePages,
+    getAllRegions,
     selectRegion,
+    selectRegions,
+    toggleRegion,
+    setPageDetections,
+    getDetectionsForPage,
   } = useRedactions();
 
   const {
     isProcessing,
     processingStatus,
     startProcessing,
+    startCancellableProcessing,
+    cancelProcessing,
     updateProgress,
+    updatePageProgress,
     updateStage,
     completeProcessing,
     errorProcessing,
@@ -69,20 +152,200 @@ export default function IndexPage() {
     handlePIIDetectionError,
     handleExportError,
     handleCanvasError,
+    handleSessionError,
+    handleResidualPII,
+    handleCustomRulesError,
+    handleRegionTextError,
   } = useErrors();
 
-  const { history, addEntry, clearHistory } = useHistory();
+  const {
+    customRules,
+    saveRule,
+    removeRule,
+    toggleRule,
+    importRules,
+    exportRules,
+  } = useCustomRules();
+
+  const {
+    history,
+    canUndo,
+    canRedo,
+    revertibleEntryIds,
+    addEntry,
+    undo,
+    redo,
+    revertTo,
+    clearHistory,
+    restoreHistory,
+  } = useHistory();
+
+  const {
+    savedSession,
+    lastSavedAt,
+    scheduleSave,
+    cancelPendingSave,
+    loadSession,
+    purgeSession,
+    dismissSavedSession,
+  } = useAutosave();
 
   // Local state
   const [mode, setMode] = useState<InteractionMode>(InteractionMode.VIEW);
-  const [piiDetections, setPiiDetections] = useState<PIIDetection[]>([]);
-  const [enabledDetections, setEnabledDetections] = useState<Set<string>>(
-    new Set(),
-  );
+  const [drawTool, setDrawTool] = useState<DrawTool>(DrawTool.RECTANGLE);
+  const [enabledDetectionsByPage, setEnabledDetectionsByPage] = useState<
+    Map<number, Set<string>>
+  >(new Map());
+  const [detectedPages, setDetectedPages] = useState<Set<number>>(new Set());
   const [manualOnlyMode, setManualOnlyMode] = useState(false);
   const [_renderTrigger, setRenderTrigger] = useState(0);
   const [exportFormat, setExportFormat] = useState<"pdf" | "png">("pdf");
-  const [hasRunDetection, setHasRunDetection] = useState(false);
+  const [exportDpi, setExportDpi] = useState(150);
+  const [pdfExportMode, setPdfExportMode] = useState<PDFExportMode>("flatten");
+  const [verificationMode, setVerificationMode] =
+    useState<VerificationMode>("warn");
+  const [piiLocales, setPiiLocales] =
+    useState<PIILocale[]>(DEFAULT_PII_LOCALES);
+  const [detectors, setDetectors] = useState<DetectorInfo[]>([]);
+  const [detectorStats, setDetectorStats] = useState<DetectorRunStats[]>([]);
+  // Off until the user opts in, as sessions hold the unredacted source file
+  const [autosaveEnabled, setAutosaveEnabled] = useState(false);
+  const [autosavePassphrase, setAutosavePassphrase] = useState("");
+  const [isResuming, setIsResuming] = useState(false);
+
+  // Latest review state, read when an edit is recorded, undone or redone.
+  // Restoring a snapshot writes through, so consecutive undos see each other.
+  const reviewStateRef = useRef<
+    Omit<ProjectState, "history" | "locales"> &
+      Pick<ReviewSnapshot, "linkedGroups">
+  >({
+    redactions,
+    detections,
+    enabledDetections: enabledDetectionsByPage,
+    detectedPages,
+    linkedGroups,
+  });
+  reviewStateRef.current = {
+    redactions,
+    detections,
+    enabledDetections: enabledDetectionsByPage,
+    detectedPages,
+    linkedGroups,
+  };
+
+  // Capture the review state of some pages before editing them
+  const takeSnapshot = useCallback((pages: number[]): ReviewSnapshot => {
+    const state = reviewStateRef.current;
+    return {
+      pages: pages.map((page) => ({
+        page,
+        regions: state.redactions.get(page) || [],
+        detections: state.detections.get(page) || [],
+        enabledDetections: Array.from(state.enabledDetections.get(page) || []),
+        detectionRun: state.detectedPages.has(page),
+      })),
+      linkedGroups: state.linkedGroups,
+    };
+  }, []);
+
+  const restoreSnapshot = useCallback(
+    (snapshot: ReviewSnapshot) => {
+      const state = reviewStateRef.current;
+      const nextRedactions = new Map(state.redactions);
+      const nextDetections = new Map(state.detections);
+      const nextEnabled = new Map(state.enabledDetections);
+      const nextDetected = new Set(state.detectedPages);
+
+      for (const page of snapshot.pages) {
+        if (page.regions.length > 0) {
+          nextRedactions.set(page.page, page.regions);
+        } else {
+          nextRedactions.delete(page.page);
+        }
+        if (page.detections.length > 0) {
+          nextDetections.set(page.page, page.detections);
+        } else {
+          nextDetections.delete(page.page);
+        }
+        if (page.enabledDetections.length > 0) {
+          nextEnabled.set(page.page, new Set(page.enabledDetections));
+        } else {
+          nextEnabled.delete(page.page);
+        }
+        if (page.detectionRun) {
+          nextDetected.add(page.page);
+        } else {
+          nextDetected.delete(page.page);
+        }
+      }
+
+      reviewStateRef.current = {
+        redactions: nextRedactions,
+        detections: nextDetections,
+        enabledDetections: nextEnabled,
+        detectedPages: nextDetected,
+        linkedGroups: snapshot.linkedGroups,
+      };
+      restorePages(snapshot.pages, snapshot.linkedGroups);
+      setEnabledDetectionsByPage(nextEnabled);
+      setDetectedPages(nextDetected);
+    },
+    [restorePages],
+  );
+
+  // Log an edit so it can be undone, given a snapshot of the pages it touched
+  // from before it. The state after it is captured when it is undone, as
+  // every later edit has been undone by then.
+  const addEditEntry = useCallback(
+    (
+      before: ReviewSnapshot,
+      action: HistoryActionType,
+      description: string,
+      metadata?: HistoryEntry["metadata"],
+    ) => {
+      const pages = before.pages.map(({ page }) => page);
+      let after = before;
+
+      addEntry(action, description, metadata, {
+        undo: () => {
+          after = takeSnapshot(pages);
+          restoreSnapshot(before);
+        },
+        redo: () => restoreSnapshot(after),
+      });
+    },
+    [addEntry, takeSnapshot, restoreSnapshot],
+  );
+
+  // Detections and their toggle state are tracked per page
+  const piiDetections = useMemo(
+    () => getDetectionsForPage(currentPage),
+    [getDetectionsForPage, currentPage],
+  );
+  const enabledDetections = useMemo(
+    () => enabledDetectionsByPage.get(currentPage) ?? new Set<string>(),
+    [enabledDetectionsByPage, currentPage],
+  );
+  // Linked groups still pending review, with the regions left in each
+  const linkedGroupSummaries = useMemo(
+    () =>
+      linkedGroups
+        .map((group) => {
+          let regionCount = 0;
+          let pageCount = 0;
+          redactions.forEach((regions) => {
+            const linked = regions.filter((r) => r.linkGroupId === group.id);
+            regionCount += linked.length;
+            if (linked.length > 0) pageCount++;
+          });
+          return { ...group, regionCount, pageCount };
+        })
+        .filter((group) => group.regionCount > 0),
+    [linkedGroups, redactions],
+  );
+  const hasRunDetection = detectedPages.has(currentPage);
+  const hasRunDetectionAllPages =
+    !!document && detectedPages.size >= document.pageCount;
 
   // Mobile modal control using HeroUI's useDisclosure hook (right panel only)
   const {
@@ -110,8 +373,14 @@ export default function IndexPage() {
   const piiEngineRef = useRef<PIIDetectionEngineImpl | null>(null);
   const redactionManagerRef = useRef<RedactionManager>(new RedactionManager());
   const exportServiceRef = useRef<ExportService>(new ExportService());
+  const projectServiceRef = useRef<ProjectService>(new ProjectService());
+  const documentManagerRef = useRef<DocumentManager>(new DocumentManager());
+  // Original file bytes of the open document, kept for autosave
+  const sourceFileRef = useRef<File | null>(null);
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
   const isRenderingRef = useRef(false);
+  // Page text read by the search panel, kept until another document loads
+  const searchTextCacheRef = useRef<Map<number, OCRResult>>(new Map());
 
   // Initialize service instances (lazy loading - services initialize on first use)
   useEffect(() => {
@@ -119,6 +388,7 @@ export default function IndexPage() {
     // They will initialize lazily when first used
     ocrEngineRef.current = new OCREngineWorker();
     piiEngineRef.current = new PIIDetectionEngineImpl();
+    setDetectors(piiEngineRef.current.getDetectors());
 
     // Cleanup on unmount - dispose all resources
     return () => {
@@ -145,6 +415,25 @@ export default function IndexPage() {
     };
   }, []);
 
+  // Apply the document's detection locales to the PII engine
+  useEffect(() => {
+    piiEngineRef.current?.setLocales(piiLocales);
+  }, [piiLocales]);
+
+  // Apply the user's custom rules to the PII engine
+  useEffect(() => {
+    piiEngineRef.current?.setCustomRules(customRules);
+  }, [customRules]);
+
+  const handleToggleDetector = useCallback(
+    (detectorId: string, enabled: boolean) => {
+      if (!piiEngineRef.current) return;
+      piiEngineRef.current.setDetectorEnabled(detectorId, enabled);
+      setDetectors(piiEngineRef.current.getDetectors());
+    },
+    [],
+  );
+
   // Handle mode changes - enable/disable manual drawing
   useEffect(() => {
     if (!canvasControllerRef.current) return;
@@ -152,31 +441,21 @@ export default function IndexPage() {
     if (mode === InteractionMode.MANUAL_REDACT) {
       // Enable manual drawing mode
       canvasControllerRef.current.enableManualDrawing((region) => {
+        const before = takeSnapshot([currentPage]);
+
         // Add the manually drawn region to the redaction manager
-        addAutoDetectedRegions(currentPage, [
-          {
-            text: "Manual Redaction",
-            type: PIIType.OTHER,
-            confidence: 100,
-            startIndex: 0,
-            endIndex: 0,
-            words: [
-              {
-                text: "",
-                bbox: {
-                  x0: region.x,
-                  y0: region.y,
-                  x1: region.x + region.width,
-                  y1: region.y + region.height,
-                },
-                confidence: 100,
-              },
-            ],
-          },
-        ]);
+        addManualRegion(currentPage, {
+          x: region.x,
+          y: region.y,
+          width: region.width,
+          height: region.height,
+          piiType: PIIType.OTHER,
+          ...(region.shape && { shape: region.shape }),
+        });
 
         // Track history
-        addEntry(
+        addEditEntry(
+          before,
           HistoryActionType.MANUAL_REDACTION_ADDED,
           "Added manual redaction",
           { page: currentPage },
@@ -186,15 +465,112 @@ export default function IndexPage() {
       // Disable manual drawing mode
       canvasControllerRef.current.disableManualDrawing();
     }
-  }, [mode, currentPage, addAutoDetectedRegions, addEntry]);
+  }, [mode, currentPage, addManualRegion, takeSnapshot, addEditEntry]);
+
+  useEffect(() => {
+    canvasControllerRef.current?.setDrawTool(drawTool);
+  }, [drawTool]);
+
+  // Handle regions moved or resized on the canvas
+  const handleUpdateRegions = useCallback(
+    (changes: RegionChange[]) => {
+      const rects = new Map(
+        changes.map(({ regionId, rect }) => [regionId, rect]),
+      );
+      const changed = getRegionsForPage(currentPage).filter((r) =>
+        rects.has(r.id),
+      );
+      if (changed.length === 0) return;
+
+      const before = takeSnapshot([currentPage]);
+      updateRegions(currentPage, Array.from(rects.keys()), (region) => {
+        const rect = rects.get(region.id);
+        return rect ? setRegionRect(region, rect) : region;
+      });
+
+      const [region] = changed;
+      const rect = rects.get(region.id);
+      const resized =
+        rect !== undefined &&
+        (rect.width !== region.width || rect.height !== region.height);
+      addEditEntry(
+        before,
+        HistoryActionType.REDACTION_EDITED,
+        changed.length > 1
+          ? `Moved ${changed.length} redactions`
+          : resized
+            ? "Resized redaction"
+            : "Moved redaction",
+        changed.length > 1
+          ? { page: currentPage, count: changed.length }
+          : { page: currentPage, piiType: region.piiType },
+      );
+    },
+    [currentPage, getRegionsForPage, updateRegions, takeSnapshot, addEditEntry],
+  );
+
+  // Let regions on the canvas be selected, moved and resized
+  useEffect(() => {
+    const controller = canvasControllerRef.current;
+    if (!controller || !document) return;
+
+    controller.enableRegionEditing(selectRegions, handleUpdateRegions);
+    return () => controller.disableRegionEditing();
+  }, [document, selectRegions, handleUpdateRegions]);
+
+  // Show the selection from the panels on the canvas
+  useEffect(() => {
+    canvasControllerRef.current?.setSelection(selectedRegionIds);
+  }, [selectedRegionIds]);
+
+  // The selection belongs to the page shown, so turning the page clears it
+  const selectionPageRef = useRef(currentPage);
+  useEffect(() => {
+    if (selectionPageRef.current === currentPage) return;
+
+    selectionPageRef.current = currentPage;
+    selectRegion(null);
+  }, [currentPage, selectRegion]);
+
+  // Snap moved and resized regions to the words of the page, where they are
+  // known without running OCR: the PDF text layer, or text already read for
+  // search
+  useEffect(() => {
+    if (!document) return;
+
+    let cancelled = false;
+    const loadSnapTargets = async () => {
+      let words = searchTextCacheRef.current.get(currentPage)?.words;
+      if (!words && document.type === DocumentType.PDF) {
+        try {
+          words = (await pdfRendererRef.current.getTextContent(currentPage))
+            .words;
+        } catch (err) {
+          console.warn(`Text layer unavailable for page ${currentPage}:`, err);
+        }
+      }
+
+      if (!cancelled) {
+        canvasControllerRef.current?.setSnapTargets(
+          (words ?? []).map((word) => word.bbox),
+        );
+      }
+    };
+
+    loadSnapTargets();
+    return () => {
+      cancelled = true;
+    };
+  }, [document, currentPage]);
 
   // Handle document upload
   const handleDocumentLoad = useCallback(
-    async (doc: Document) => {
+    async (doc: Document, project?: RedactionProject, initialPage?: number) => {
       startProcessing("loading", "Loading document...");
 
       try {
         // Clean up previous document resources
+        searchTextCacheRef.current.clear();
         if (canvasControllerRef.current) {
           canvasControllerRef.current.clearPageCache();
           canvasControllerRef.current.clearRegions();
@@ -216,6 +592,9 @@ export default function IndexPage() {
         // Reset rendering flag to allow new render
         isRenderingRef.current = false;
 
+        // Copy the original bytes before the renderer takes ownership of them
+        sourceFileRef.current = await documentManagerRef.current.toFile(doc);
+
         // Load document into appropriate renderer
         if (doc.type === DocumentType.PDF) {
           await pdfRendererRef.current.loadPDF(doc.data as ArrayBuffer);
@@ -228,20 +607,59 @@ export default function IndexPage() {
           );
         }
 
-        loadDocument(doc);
+        loadDocument(doc, initialPage);
+        dismissSavedSession();
         setMode(InteractionMode.VIEW);
         clearAllRegions();
-        setPiiDetections([]);
-        setEnabledDetections(new Set());
+        setEnabledDetectionsByPage(new Map());
+        setDetectedPages(new Set());
         setManualOnlyMode(false);
-        setHasRunDetection(false);
+        // A restored project brings its own locales below
+        setPiiLocales(DEFAULT_PII_LOCALES);
+
+        // Restore a saved project, but only onto its own source document
+        const projectError = project
+          ? projectServiceRef.current.verifyDocument(project, doc)
+          : null;
+
+        if (project && !projectError) {
+          const state = projectServiceRef.current.restoreState(project);
+          restoreRedactions(state.redactions, state.detections);
+          setEnabledDetectionsByPage(state.enabledDetections);
+          setDetectedPages(state.detectedPages);
+          setPiiLocales(state.locales);
+          restoreHistory(state.history);
 
-        // Track history
-        addEntry(HistoryActionType.DOCUMENT_UPLOADED, `Uploaded ${doc.name}`, {
-          count: doc.pageCount,
-        });
+          addEntry(
+            HistoryActionType.PROJECT_OPENED,
+            `Opened project for ${doc.name}`,
+            {
+              count: Array.from(state.redactions.values()).reduce(
+                (sum, regions) => sum + regions.length,
+                0,
+              ),
+            },
+          );
+        } else {
+          // Track history
+          addEntry(
+            HistoryActionType.DOCUMENT_UPLOADED,
+            `Uploaded ${doc.name}`,
+            {
+              count: doc.pageCount,
+            },
+          );
+        }
+
+        if (projectError) {
+          handleFileError(projectError);
+        }
 
-        completeProcessing("Document loaded successfully");
+        completeProcessing(
+          project && !projectError
+            ? "Project restored successfully"
+            : "Document loaded successfully",
+        );
 
         // Force a render trigger after state updates to ensure canvas renders
         // Use setTimeout to ensure all state updates have been processed
@@ -257,7 +675,10 @@ export default function IndexPage() {
     },
     [
       loadDocument,
+      dismissSavedSession,
       clearAllRegions,
+      restoreRedactions,
+      restoreHistory,
       addEntry,
       startProcessing,
       completeProcessing,
@@ -269,13 +690,15 @@ export default function IndexPage() {
   // Handle upload new document
   const handleUploadNew = useCallback(() => {
     // Reset everything
+    cancelPendingSave();
+    sourceFileRef.current = null;
+    searchTextCacheRef.current.clear();
     clearDocument();
     clearAllRegions();
-    setPiiDetections([]);
-    setEnabledDetections(new Set());
+    setEnabledDetectionsByPage(new Map());
+    setDetectedPages(new Set());
     setMode(InteractionMode.VIEW);
     setManualOnlyMode(false);
-    setHasRunDetection(false);
     clearHistory();
 
     // Clear canvas and controller
@@ -291,7 +714,125 @@ export default function IndexPage() {
         ctx.clearRect(0, 0, canvasRef.current.width, canvasRef.current.height);
       }
     }
-  }, [clearDocument, clearAllRegions, clearHistory]);
+  }, [cancelPendingSave, clearDocument, clearAllRegions, clearHistory]);
+
+  // Autosave the session locally whenever the document or review state changes
+  useEffect(() => {
+    const file = sourceFileRef.current;
+    if (!document || !file) return;
+
+    if (!autosaveEnabled) {
+      cancelPendingSave();
+      return;
+    }
+
+    scheduleSave(
+      () => ({
+        project: projectServiceRef.current.createProject(document, {
+          redactions,
+          detections,
+          enabledDetections: enabledDetectionsByPage,
+          detectedPages,
+          history,
+          locales: piiLocales,
+        }),
+        currentPage,
+        file,
+      }),
+      autosavePassphrase,
+    );
+  }, [
+    document,
+    currentPage,
+    redactions,
+    detections,
+    enabledDetectionsByPage,
+    detectedPages,
+    history,
+    piiLocales,
+    autosaveEnabled,
+    autosavePassphrase,
+    scheduleSave,
+    cancelPendingSave,
+  ]);
+
+  // Handle resuming the session saved in a previous visit
+  const handleResumeSession = useCallback(
+    async (passphrase?: string) => {
+      setIsResuming(true);
+
+      try {
+        const session = await loadSession(passphrase);
+        // Keep encrypting later saves with the passphrase the session was
+        // opened with, so they do not overwrite it in plaintext
+        setAutosavePassphrase(passphrase ?? "");
+        setAutosaveEnabled(true);
+        const doc = await documentManagerRef.current.loadDocument(session.file);
+        await handleDocumentLoad(doc, session.project, session.currentPage);
+      } catch (err) {
+        handleSessionError(
+          err instanceof Error ? err.message : "Failed to resume session",
+        );
+      } finally {
+        setIsResuming(false);
+      }
+    },
+    [loadSession, handleDocumentLoad, handleSessionError],
+  );
+
+  // Handle permanently deleting the locally saved session
+  const handlePurgeSession = useCallback(async () => {
+    try {
+      await purgeSession();
+    } catch (err) {
+      handleSessionError(
+        err instanceof Error ? err.message : "Failed to delete saved session",
+      );
+    }
+  }, [purgeSession, handleSessionError]);
+
+  // Handle turning autosave on or off; turning it off deletes what was saved
+  const handleChangeAutosaveEnabled = useCallback(
+    (enabled: boolean) => {
+      setAutosaveEnabled(enabled);
+      if (!enabled) {
+        handlePurgeSession();
+      }
+    },
+    [handlePurgeSession],
+  );
+
+  // Handle saving the review state as a project file
+  const handleSaveProject = useCallback(() => {
+    if (!document) return;
+
+    const project = projectServiceRef.current.createProject(document, {
+      redactions,
+      detections,
+      enabledDetections: enabledDetectionsByPage,
+      detectedPages,
+      history,
+      locales: piiLocales,
+    });
+    projectServiceRef.current.saveProjectFile(project);
+
+    addEntry(
+      HistoryActionType.PROJECT_SAVED,
+      `Saved project for ${document.name}`,
+      {
+        count: project.pages.length,
+      },
+    );
+  }, [
+    document,
+    redactions,
+    detections,
+    enabledDetectionsByPage,
+    detectedPages,
+    history,
+    piiLocales,
+    addEntry,
+  ]);
 
   // Handle canvas ready
   const handleCanvasReady = useCallback((canvas: HTMLCanvasElement) => {
@@ -360,6 +901,7 @@ export default function IndexPage() {
 
         // Cache the rendered page for quick navigation
         canvasControllerRef.current.cachePage(currentPage);
+        canvasControllerRef.current.setRegions(regions);
 
         // Clear distant pages to free up memory
         if (document.pageCount > 10) {
@@ -379,6 +921,333 @@ export default function IndexPage() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [document, currentPage, getRegionsForPage, handleCanvasError]);
 
+  // Store a page's detections, enable them all and add their regions
+  const commitPageDetections = useCallback(
+    (pageNumber: number, detections: PIIDetection[]) => {
+      setPageDetections(pageNumber, detections);
+
+      // Enable all detections by default
+      const detectionIds = new Set(detections.map((d) => d.id));
+      setEnabledDetectionsByPage((prev) => {
+        const newMap = new Map(prev);
+        newMap.set(pageNumber, detectionIds);
+        return newMap;
+      });
+
+      // Add redaction regions
+      addAutoDetectedRegions(pageNumber, detections);
+
+      setDetectedPages((prev) => new Set(prev).add(pageNumber));
+    },
+    [setPageDetections, addAutoDetectedRegions],
+  );
+
+  // Get a page's words from the PDF text layer when it has one, and from OCR
+  // otherwise. Images on pages with a text layer are OCR'd as well, since
+  // they may be scans or screenshots containing text.
+  const extractPageText = useCallback(
+    async (
+      pageNumber: number,
+      getImageData: () => Promise<ImageData>,
+    ): Promise<{ result: OCRResult; source: TextSource }> => {
+      const ocrEngine = ocrEngineRef.current;
+      if (!ocrEngine) throw new Error("OCR engine is not available");
+
+      const runOCR = async () => {
+        const imageData = await getImageData();
+        return normalizeOCRResult(
+          await ocrEngine.extractText(imageData),
+          imageData,
+        );
+      };
+
+      if (document?.type === DocumentType.PDF) {
+        try {
+          const renderer = pdfRendererRef.current;
+          const textLayer = await renderer.getTextContent(pageNumber);
+
+          if (textLayer.words.length > 0) {
+            const imageRegions = await renderer.getImageRegions(pageNumber);
+            if (imageRegions.length === 0) {
+              return { result: textLayer, source: "text-layer" };
+            }
+
+            return {
+              result: mergeOCRWords(textLayer, await runOCR(), imageRegions),
+              source: "mixed",
+            };
+          }
+        } catch (err) {
+          // Fall back to OCR of the whole page
+          console.warn(`Text layer unavailable for page ${pageNumber}:`, err);
+        }
+      }
+
+      return { result: await runOCR(), source: "ocr" };
+    },
+    [document],
+  );
+
+  // Read the current page's text for the custom rule editor's live test
+  const handleLoadRuleTestText = useCallback(async () => {
+    const canvas = canvasRef.current;
+    if (!document || !canvas) return "";
+
+    const { result } = await extractPageText(currentPage, async () => {
+      const ctx = canvas.getContext("2d");
+      if (!ctx) throw new Error("Failed to get canvas context");
+      return ctx.getImageData(0, 0, canvas.width, canvas.height);
+    });
+    return result.text;
+  }, [document, currentPage, extractPageText]);
+
+  // Read a page's text for the search panel, rendering it off-screen for OCR
+  const handleGetSearchPageText = useCallback(
+    async (pageNumber: number): Promise<OCRResult> => {
+      const cached = searchTextCacheRef.current.get(pageNumber);
+      if (cached) return cached;
+
+      const { result } = await extractPageText(pageNumber, async () =>
+        document?.type === DocumentType.PDF
+          ? pdfRendererRef.current.extractPageAsImage(
+              pageNumber,
+              OCR_RENDER_SCALE,
+            )
+          : imageRendererRef.current.getImageData(),
+      );
+      searchTextCacheRef.current.set(pageNumber, result);
+      return result;
+    },
+    [document, extractPageText],
+  );
+
+  // Render a small image of a page for the search panel's hit list
+  const handleRenderThumbnail = useCallback(
+    async (pageNumber: number): Promise<string> => {
+      if (document?.type !== DocumentType.PDF) {
+        // Image documents are stored as a data URL already
+        return typeof document?.data === "string" ? document.data : "";
+      }
+
+      const canvas = await pdfRendererRef.current.renderPageToCanvas(
+        pageNumber,
+        THUMBNAIL_SCALE,
+      );
+      return canvas.toDataURL("image/jpeg", 0.8);
+    },
+    [document],
+  );
+
+  // Turn the selected search hits into redaction regions
+  const handleRedactSearchHits = useCallback(
+    (hits: SearchHit[]) => {
+      const hitPages = Array.from(new Set(hits.map((hit) => hit.pageNumber)));
+      const before = takeSnapshot(hitPages);
+      addSearchHitRegions(hits);
+
+      const pages = hitPages.length;
+      addEditEntry(
+        before,
+        HistoryActionType.SEARCH_REDACTED,
+        `Redacted ${hits.length} search hit${hits.length !== 1 ? "s" : ""} on ${pages} page${pages !== 1 ? "s" : ""}`,
+        { count: hits.length, pages },
+      );
+    },
+    [addSearchHitRegions, takeSnapshot, addEditEntry],
+  );
+
+  // Read the text under a region and redact its other occurrences on every
+  // page. The new regions are linked so they can be reviewed as a group.
+  const handleRedactAllOccurrences = useCallback(
+    async (pageNumber: number, regionId: string) => {
+      const region = getRegionsForPage(pageNumber).find(
+        (r) => r.id === regionId,
+      );
+      if (!document || !region) return;
+
+      const totalPages = document.pageCount;
+      const signal = startCancellableProcessing(
+        "ocr",
+        "Reading text under the box...",
+        totalPages,
+      );
+
+      try {
+        const text = getTextInBox(await handleGetSearchPageText(pageNumber), {
+          x0: region.x,
+          y0: region.y,
+          x1: region.x + region.width,
+          y1: region.y + region.height,
+        });
+
+        if (text.length === 0) {
+          const message = "No text was found under the selected box";
+          errorProcessing(message);
+          handleRegionTextError(message);
+          return;
+        }
+
+        const hits: SearchHit[] = [];
+        for (let page = 1; page <= totalPages; page++) {
+          if (signal.aborted) break;
+
+          updatePageProgress(
+            page,
+            totalPages,
+            ((page - 1) / totalPages) * 100,
+            `Looking for "${text}" on page ${page}...`,
+          );
+
+          const pageRegions = getRegionsForPage(page);
+          const pageHits = searchPage(
+            await handleGetSearchPageText(page),
+            text,
+            OCCURRENCE_SEARCH_OPTIONS,
+            page,
+          );
+
+          // Skip occurrences that are already redacted, including the source
+          hits.push(
+            ...pageHits.filter(
+              (hit) =>
+                !hit.boxes.every((box) =>
+                  pageRegions.some((r) => {
+                    const centerX = (box.x0 + box.x1) / 2;
+                    const centerY = (box.y0 + box.y1) / 2;
+                    return (
+                      centerX >= r.x &&
+                      centerX <= r.x + r.width &&
+                      centerY >= r.y &&
+                      centerY <= r.y + r.height
+                    );
+                  }),
+                ),
+            ),
+          );
+        }
+
+        if (signal.aborted) {
+          completeProcessing("Search for other occurrences cancelled");
+          return;
+        }
+
+        if (hits.length > 0) {
+          const before = takeSnapshot(
+            Array.from(new Set(hits.map((hit) => hit.pageNumber))),
+          );
+          addLinkedRegions(
+            { id: `link-${Date.now()}`, text, sourcePage: pageNumber },
+            hits,
+          );
+          addEditEntry(
+            before,
+            HistoryActionType.OCCURRENCES_REDACTED,
+            `Redacted ${hits.length} more occurrence${hits.length !== 1 ? "s" : ""} of "${text}"`,
+            { page: pageNumber, count: hits.length },
+          );
+        }
+
+        completeProcessing(
+          hits.length > 0
+            ? `Redacted ${hits.length} more occurrence${hits.length !== 1 ? "s" : ""} of "${text}"`
+            : `No other occurrences of "${text}" found`,
+        );
+      } catch (err) {
+        const message =
+          err instanceof Error ? err.message : "Failed to find occurrences";
+        errorProcessing(message);
+        handleOCRError(message);
+      }
+    },
+    [
+      document,
+      getRegionsForPage,
+      handleGetSearchPageText,
+      addLinkedRegions,
+      takeSnapshot,
+      addEditEntry,
+      startCancellableProcessing,
+      updatePageProgress,
+      completeProcessing,
+      errorProcessing,
+      handleOCRError,
+      handleRegionTextError,
+    ],
+  );
+
+  // Pages holding regions of a linked group
+  const getLinkedGroupPages = useCallback(
+    (groupId: string): number[] =>
+      Array.from(redactions)
+        .filter(([, regions]) => regions.some((r) => r.linkGroupId === groupId))
+        .map(([page]) => page),
+    [redactions],
+  );
+
+  // Keep every region of a linked group
+  const handleAcceptLinkedGroup = useCallback(
+    (groupId: string) => {
+      const summary = linkedGroupSummaries.find((g) => g.id === groupId);
+      const before = takeSnapshot(getLinkedGroupPages(groupId));
+      acceptLinkedGroup(groupId);
+
+      if (summary) {
+        addEditEntry(
+          before,
+          HistoryActionType.OCCURRENCES_REDACTED,
+          `Accepted ${summary.regionCount} linked redaction${summary.regionCount !== 1 ? "s" : ""} of "${summary.text}"`,
+          { count: summary.regionCount },
+        );
+      }
+    },
+    [
+      linkedGroupSummaries,
+      getLinkedGroupPages,
+      acceptLinkedGroup,
+      takeSnapshot,
+      addEditEntry,
+    ],
+  );
+
+  // Drop every region of a linked group
+  const handleRejectLinkedGroup = useCallback(
+    (groupId: string) => {
+      const summary = linkedGroupSummaries.find((g) => g.id === groupId);
+      const before = takeSnapshot(getLinkedGroupPages(groupId));
+      rejectLinkedGroup(groupId);
+
+      if (summary) {
+        addEditEntry(
+          before,
+          HistoryActionType.REDACTION_REMOVED,
+          `Rejected ${summary.regionCount} linked redaction${summary.regionCount !== 1 ? "s" : ""} of "${summary.text}"`,
+          { count: summary.regionCount },
+        );
+      }
+    },
+    [
+      linkedGroupSummaries,
+      getLinkedGroupPages,
+      rejectLinkedGroup,
+      takeSnapshot,
+      addEditEntry,
+    ],
+  );
+
+  // Handle importing custom rules from a JSON file
+  const handleImportCustomRules = useCallback(
+    async (file: File) => {
+      try {
+        await importRules(file);
+      } catch (err) {
+        handleCustomRulesError(
+          err instanceof Error ? err.message : "Failed to import rules",
+        );
+      }
+    },
+    [importRules, handleCustomRulesError],
+  );
+
   // Handle PII detection
   const handleDetectPII = useCallback(async () => {
     if (
@@ -390,29 +1259,31 @@ export default function IndexPage() {
       return;
     }
 
-    startProcessing("loading", "Initializing OCR engine...");
+    const canvas = canvasRef.current;
+    startProcessing("loading", "Extracting text...");
 
     try {
-      // Get image data from canvas
-      const ctx = canvasRef.current.getContext("2d");
-      if (!ctx) throw new Error("Failed to get canvas context");
-
-      const imageData = ctx.getImageData(
-        0,
-        0,
-        canvasRef.current.width,
-        canvasRef.current.height,
-      );
-
       // Set up progress callback for OCR initialization
       ocrEngineRef.current.setProgressCallback((progress, status) => {
         updateProgress(progress * 0.3, status); // OCR init takes 30% of progress
       });
 
-      // Perform OCR (will initialize lazily if needed)
+      // Read the text layer, or OCR the canvas (OCR initializes lazily)
       updateStage("ocr", "Extracting text from document...");
-      const ocrResult = await ocrEngineRef.current.extractText(imageData);
-      updateProgress(50, "OCR complete, initializing PII detection...");
+      const { result: ocrResult, source } = await extractPageText(
+        currentPage,
+        async () => {
+          const ctx = canvas.getContext("2d");
+          if (!ctx) throw new Error("Failed to get canvas context");
+          return ctx.getImageData(0, 0, canvas.width, canvas.height);
+        },
+      );
+      updateProgress(
+        50,
+        source === "text-layer"
+          ? "Text layer read, initializing PII detection..."
+          : "OCR complete, initializing PII detection...",
+      );
 
       // Detect PII (will initialize lazily if needed)
       updateStage("pii-detection", "Analyzing text for PII...");
@@ -420,31 +1291,24 @@ export default function IndexPage() {
         ocrResult.text,
         ocrResult.words,
       );
+      setDetectorStats(piiEngineRef.current.getLastRunStats());
 
       updateProgress(90, "Processing detections...");
 
-      // Store detections
-      setPiiDetections(detections);
-
-      // Enable all detections by default
-      const detectionIds = new Set(
-        detections.map((d, i) => `${d.type}-${d.startIndex}-${i}`),
-      );
-      setEnabledDetections(detectionIds);
-
-      // Add redaction regions
-      addAutoDetectedRegions(currentPage, detections);
+      // Store detections and add redaction regions
+      const before = takeSnapshot([currentPage]);
+      commitPageDetections(currentPage, detections);
 
       // Track history
-      addEntry(
+      addEditEntry(
+        before,
         HistoryActionType.PII_DETECTION_RUN,
         `Detected ${detections.length} PII item${detections.length !== 1 ? "s" : ""}`,
-        { page: currentPage, count: detections.length },
+        { page: currentPage, count: detections.length, textSource: source },
       );
 
       completeProcessing(`Found ${detections.length} PII items`);
       setMode(InteractionMode.REVIEW);
-      setHasRunDetection(true);
 
       // Optional: Clean up resources after detection is complete
       // Note: We keep the engines alive for potential re-detection on other pages
@@ -469,8 +1333,10 @@ export default function IndexPage() {
   }, [
     document,
     currentPage,
-    addAutoDetectedRegions,
-    addEntry,
+    extractPageText,
+    commitPageDetections,
+    takeSnapshot,
+    addEditEntry,
     startProcessing,
     updateProgress,
     updateStage,
@@ -480,52 +1346,480 @@ export default function IndexPage() {
     handlePIIDetectionError,
   ]);
 
-  // Handle export
-  const handleExport = useCallback(
-    async (format: "pdf" | "png" = exportFormat) => {
-      if (!document || !canvasRef.current) return;
+  // Handle PII detection across every page of a PDF
+  const handleDetectAllPages = useCallback(async () => {
+    if (
+      !document ||
+      document.type !== DocumentType.PDF ||
+      !ocrEngineRef.current ||
+      !piiEngineRef.current
+    ) {
+      return;
+    }
 
-      startProcessing("loading", "Preparing export...");
+    // Skip pages that have already been scanned
+    const pagesToScan: number[] = [];
+    for (let page = 1; page <= document.pageCount; page++) {
+      if (!detectedPages.has(page)) {
+        pagesToScan.push(page);
+      }
+    }
 
-      try {
-        // Apply redactions to canvas
-        const regions = getRegionsForPage(currentPage);
-        redactionManagerRef.current.clearAllRegions();
-        regions.forEach((region) => {
-          redactionManagerRef.current.addManualRegion(region);
-        });
+    if (pagesToScan.length === 0) return;
 
-        if (canvasControllerRef.current) {
-          await canvasControllerRef.current.renderPage(currentPage);
-        }
+    const before = takeSnapshot(pagesToScan);
+    const ocrEngine = ocrEngineRef.current;
+    const piiEngine = piiEngineRef.current;
+    const totalPages = document.pageCount;
+    const signal = startCancellableProcessing(
+      "loading",
+      "Initializing OCR engine...",
+      totalPages,
+    );
+
+    let scannedPages = 0;
+    let totalDetections = 0;
+    // Per-detector timing and counts, summed over the scanned pages
+    let runStats: DetectorRunStats[] = [];
+
+    try {
+      for (const [index, page] of pagesToScan.entries()) {
+        if (signal.aborted) break;
+
+        const pageStart = (index / pagesToScan.length) * 100;
+        const pageSpan = 100 / pagesToScan.length;
+
+        // OCR takes the first 80% of each page's share of progress
+        ocrEngine.setProgressCallback((progress, status) => {
+          updatePageProgress(
+            page,
+            totalPages,
+            pageStart + (progress / 100) * pageSpan * 0.8,
+            status,
+          );
+        });
+
+        updateStage("ocr", `Extracting text from page ${page}...`);
+        updatePageProgress(page, totalPages, pageStart);
+
+        const { result: ocrResult } = await extractPageText(page, () =>
+          pdfRendererRef.current.extractPageAsImage(page, OCR_RENDER_SCALE),
+        );
+
+        // Discard the in-flight page if the job was cancelled meanwhile
+        if (signal.aborted) break;
+
+        updateStage("pii-detection", `Analyzing page ${page} for PII...`);
+        const detections = await piiEngine.detectPII(
+          ocrResult.text,
+          ocrResult.words,
+        );
+
+        if (signal.aborted) break;
+
+        runStats = piiEngine.getLastRunStats().map((stats) => {
+          const earlier = runStats.find(({ id }) => id === stats.id);
+          return earlier
+            ? {
+                ...stats,
+                durationMs: earlier.durationMs + stats.durationMs,
+                found: earlier.found + stats.found,
+                kept: earlier.kept + stats.kept,
+                error: stats.error ?? earlier.error,
+              }
+            : stats;
+        });
+        setDetectorStats(runStats);
+
+        commitPageDetections(page, detections);
+        scannedPages++;
+        totalDetections += detections.length;
+
+        updatePageProgress(page, totalPages, pageStart + pageSpan);
+      }
+
+      // Track history
+      if (scannedPages > 0) {
+        addEditEntry(
+          before,
+          HistoryActionType.PII_DETECTION_RUN,
+          `Detected ${totalDetections} PII item${totalDetections !== 1 ? "s" : ""} across ${scannedPages} page${scannedPages !== 1 ? "s" : ""}`,
+          { count: totalDetections, pages: scannedPages },
+        );
+      }
+
+      completeProcessing(
+        signal.aborted
+          ? `Detection cancelled after ${scannedPages} of ${pagesToScan.length} pages`
+          : `Found ${totalDetections} PII items across ${scannedPages} pages`,
+      );
+
+      if (totalDetections > 0) {
+        setMode(InteractionMode.REVIEW);
+      }
+    } catch (err) {
+      const message =
+        err instanceof Error ? err.message : "Failed to detect PII";
+      errorProcessing(message);
+
+      if (
+        message.toLowerCase().includes("ocr") ||
+        message.toLowerCase().includes("text extraction")
+      ) {
+        handleOCRError(message);
+        setManualOnlyMode(true);
+        setMode(InteractionMode.MANUAL_REDACT);
+      } else {
+        handlePIIDetectionError(message);
+      }
+    }
+  }, [
+    document,
+    detectedPages,
+    extractPageText,
+    commitPageDetections,
+    takeSnapshot,
+    addEditEntry,
+    startCancellableProcessing,
+    updatePageProgress,
+    updateStage,
+    completeProcessing,
+    errorProcessing,
+    handleOCRError,
+    handlePIIDetectionError,
+  ]);
+
+  // Re-read an exported file before it is downloaded and look for text left
+  // under or next to regions. Returns a summary for the history entry, or
+  // undefined when verification is off. Throws ExportBlockedError to stop the
+  // download in block mode.
+  const verifyExport = useCallback(
+    async (
+      file: Blob,
+      regionsByPage: Map<number, RedactionRegion[]>,
+      signal?: AbortSignal,
+    ): Promise<string | undefined> => {
+      if (verificationMode === "off") return undefined;
+
+      let report: VerificationReport;
+      try {
+        const ocrEngine = ocrEngineRef.current;
+        const piiEngine = piiEngineRef.current;
+        if (!ocrEngine || !piiEngine) {
+          throw new Error("OCR engine is not available");
+        }
+
+        updateStage("ocr", "Verifying export...");
+        ocrEngine.setProgressCallback((_progress, status) => {
+          updateProgress(100, `Verifying export: ${status}`);
+        });
+
+        report = await new ExportVerifier(ocrEngine, piiEngine).verify(
+          file,
+          regionsByPage,
+          {
+            signal,
+            onProgress: (pageNumber, pageCount) => {
+              updatePageProgress(
+                pageNumber,
+                pageCount,
+                ((pageNumber - 1) / pageCount) * 100,
+                `Verifying page ${pageNumber} of ${pageCount}...`,
+              );
+            },
+          },
+        );
+      } catch (err) {
+        if (signal?.aborted) throw err;
+
+        const message = `Could not verify export: ${err instanceof Error ? err.message : "Unknown error"}`;
+        if (verificationMode === "block") {
+          throw new ExportBlockedError(message);
+        }
+        handleResidualPII(message, false);
+        return "Not verified";
+      }
+
+      const summary = summarizeVerificationReport(report);
+      if (report.findings.length > 0) {
+        if (verificationMode === "block") {
+          throw new ExportBlockedError(`Export blocked: ${summary}`, report);
+        }
+        handleResidualPII(`Recoverable text in export: ${summary}`, false);
+      }
+
+      return summary;
+    },
+    [
+      verificationMode,
+      updateStage,
+      updateProgress,
+      updatePageProgress,
+      handleResidualPII,
+    ],
+  );
+
+  // Render a PDF page at the export resolution with its redactions burned in
+  const renderRedactedPage = useCallback(
+    async (pageNumber: number): Promise<ExportPage> => {
+      const canvas = await pdfRendererRef.current.renderPageToCanvas(
+        pageNumber,
+        exportDpi / PDF_POINTS_PER_INCH,
+      );
+      const { width, height } =
+        await pdfRendererRef.current.getPageDimensions(pageNumber);
+
+      const exportManager = new RedactionManager();
+      exportManager.setRegionsForPage(
+        pageNumber,
+        getRegionsForPage(pageNumber),
+      );
+      exportManager.applyRedactionsToPage(canvas, pageNumber);
+
+      return { canvas, width, height };
+    },
+    [exportDpi, getRegionsForPage],
+  );
+
+  const handleExportAllPages = useCallback(async () => {
+    if (!document || document.type !== DocumentType.PDF) return;
+
+    const totalPages = document.pageCount;
+    const signal = startCancellableProcessing(
+      "loading",
+      "Preparing export...",
+      totalPages,
+    );
+
+    let verification: string | undefined;
+
+    try {
+      await exportServiceRef.current.exportPagesAsPDF(
+        totalPages,
+        renderRedactedPage,
+        document.name,
+        {
+          signal,
+          onProgress: (pageNumber, pageCount) => {
+            updatePageProgress(
+              pageNumber,
+              pageCount,
+              ((pageNumber - 1) / pageCount) * 100,
+              `Rendering page ${pageNumber} of ${pageCount}...`,
+            );
+          },
+          beforeDownload: async (file) => {
+            verification = await verifyExport(file, redactions, signal);
+          },
+        },
+      );
+
+      // Track history
+      addEntry(
+        HistoryActionType.EXPORT_COMPLETED,
+        `Exported ${totalPages} page${totalPages !== 1 ? "s" : ""} as PDF`,
+        {
+          format: "pdf",
+          count: getAllRegions().length,
+          pages: totalPages,
+          verification,
+        },
+      );
+
+      completeProcessing("Export complete");
+    } catch (err) {
+      if (signal.aborted) {
+        completeProcessing("Export cancelled");
+        return;
+      }
+
+      const message = err instanceof Error ? err.message : "Failed to export";
+      errorProcessing(message);
+      if (err instanceof ExportBlockedError) {
+        handleResidualPII(message, true);
+      } else {
+        handleExportError(message);
+      }
+    }
+  }, [
+    document,
+    redactions,
+    renderRedactedPage,
+    verifyExport,
+    getAllRegions,
+    addEntry,
+    startCancellableProcessing,
+    updatePageProgress,
+    completeProcessing,
+    errorProcessing,
+    handleExportError,
+    handleResidualPII,
+  ]);
+
+  // Export the original PDF with redacted content removed, keeping the rest
+  // as vector text
+  const handleExportRedactedPDF = useCallback(async () => {
+    const sourceFile = sourceFileRef.current;
+    if (!document || document.type !== DocumentType.PDF || !sourceFile) return;
+
+    const totalPages = document.pageCount;
+    const signal = startCancellableProcessing(
+      "loading",
+      "Preparing export...",
+      totalPages,
+    );
+
+    let verification: string | undefined;
+
+    try {
+      const report = await exportServiceRef.current.exportRedactedPDF(
+        await sourceFile.arrayBuffer(),
+        redactions,
+        renderRedactedPage,
+        document.name,
+        {
+          signal,
+          onProgress: (pageNumber, pageCount) => {
+            updatePageProgress(
+              pageNumber,
+              pageCount,
+              ((pageNumber - 1) / pageCount) * 100,
+              `Redacting page ${pageNumber} of ${pageCount}...`,
+            );
+          },
+          beforeDownload: async (file) => {
+            verification = await verifyExport(file, redactions, signal);
+          },
+        },
+      );
+      const flattened = report.rasterizedPages.length;
+
+      // Track history
+      addEntry(
+        HistoryActionType.EXPORT_COMPLETED,
+        `Exported ${totalPages} page${totalPages !== 1 ? "s" : ""} as PDF with text preserved`,
+        {
+          format: "pdf",
+          count: getAllRegions().length,
+          pages: totalPages,
+          glyphsRemoved: report.glyphsRemoved,
+          flattenedPages: report.rasterizedPages,
+          sanitization: summarizeSanitizationReport(report.sanitization),
+          verification,
+        },
+      );
+
+      completeProcessing(
+        flattened > 0
+          ? `Export complete (${flattened} page${flattened !== 1 ? "s" : ""} flattened)`
+          : "Export complete",
+      );
+    } catch (err) {
+      if (signal.aborted) {
+        completeProcessing("Export cancelled");
+        return;
+      }
+
+      const message = err instanceof Error ? err.message : "Failed to export";
+      errorProcessing(message);
+      if (err instanceof ExportBlockedError) {
+        handleResidualPII(message, true);
+      } else {
+        handleExportError(message);
+      }
+    }
+  }, [
+    document,
+    redactions,
+    renderRedactedPage,
+    verifyExport,
+    getAllRegions,
+    addEntry,
+    startCancellableProcessing,
+    updatePageProgress,
+    completeProcessing,
+    errorProcessing,
+    handleExportError,
+    handleResidualPII,
+  ]);
+
+  // Handle export
+  const handleExport = useCallback(
+    async (format: "pdf" | "png" = exportFormat) => {
+      if (!document || !canvasRef.current) return;
+
+      // PDF documents are exported in full, page by page
+      if (format === "pdf" && document.type === DocumentType.PDF) {
+        if (pdfExportMode === "preserve-text") {
+          await handleExportRedactedPDF();
+        } else {
+          await handleExportAllPages();
+        }
+        return;
+      }
+
+      startProcessing("loading", "Preparing export...");
+
+      try {
+        // Apply redactions to canvas
+        const regions = getRegionsForPage(currentPage);
+        redactionManagerRef.current.clearAllRegions();
+        regions.forEach((region) => {
+          redactionManagerRef.current.addManualRegion(region);
+        });
+
+        if (canvasControllerRef.current) {
+          await canvasControllerRef.current.renderPage(currentPage);
+        }
 
         redactionManagerRef.current.applyRedactions(canvasRef.current);
 
         updateProgress(50, "Generating export file...");
 
+        // The export is a single page, so its regions are page 1
+        let sanitization: string | undefined;
+        let verification: string | undefined;
+        const options = {
+          beforeDownload: async (file: Blob) => {
+            verification = await verifyExport(file, new Map([[1, regions]]));
+          },
+        };
+
         // Export based on format
         if (format === "pdf") {
           const pages = [canvasRef.current];
-          await exportServiceRef.current.exportAsPDF(pages, document.name);
+          await exportServiceRef.current.exportAsPDF(
+            pages,
+            document.name,
+            options,
+          );
         } else {
-          await exportServiceRef.current.exportAsImage(
+          const report = await exportServiceRef.current.exportAsImage(
             canvasRef.current,
             document.name,
             format,
+            options,
           );
+          sanitization = summarizeSanitizationReport(report);
         }
 
         // Track history
         addEntry(
           HistoryActionType.EXPORT_COMPLETED,
           `Exported as ${format.toUpperCase()}`,
-          { format, count: regions.length },
+          { format, count: regions.length, sanitization, verification },
         );
 
         completeProcessing("Export complete");
       } catch (err) {
         const message = err instanceof Error ? err.message : "Failed to export";
         errorProcessing(message);
+
+        // A blocked export must not fall back to an unverified screenshot
+        if (err instanceof ExportBlockedError) {
+          handleResidualPII(message, true);
+          return;
+        }
         handleExportError(message);
 
         // Try screenshot fallback
@@ -549,92 +1843,344 @@ export default function IndexPage() {
       completeProcessing,
       errorProcessing,
       handleExportError,
+      handleResidualPII,
+      handleExportAllPages,
+      handleExportRedactedPDF,
+      verifyExport,
       exportFormat,
+      pdfExportMode,
     ],
   );
 
   // Handle PII detection toggle
   const handleToggleDetection = useCallback(
     (detectionId: string, enabled: boolean) => {
-      const detectionIndex = Number.parseInt(
-        detectionId.split("-").pop() || "0",
-        10,
-      );
-      const detection = piiDetections[detectionIndex];
+      // Find the detection and its page by id; regions refer to it the same way
+      let page: number | undefined;
+      let detection: PIIDetection | undefined;
+      for (const [pageNumber, pageDetections] of detections) {
+        detection = pageDetections.find((d) => d.id === detectionId);
+        if (detection) {
+          page = pageNumber;
+          break;
+        }
+      }
 
-      if (!detection) return;
+      if (!detection || page === undefined) return;
+      const detectionPage = page;
+      const before = takeSnapshot([detectionPage]);
 
-      setEnabledDetections((prev) => {
-        const newSet = new Set(prev);
+      setEnabledDetectionsByPage((prev) => {
+        const newMap = new Map(prev);
+        const newSet = new Set(prev.get(detectionPage));
         if (enabled) {
           newSet.add(detectionId);
         } else {
           newSet.delete(detectionId);
         }
-        return newSet;
+        newMap.set(detectionPage, newSet);
+        return newMap;
       });
 
+      // Replace rather than add, so a repeated toggle never doubles regions
+      removeDetectionRegions(detectionId);
       if (enabled) {
-        // Add the detection back
-        addAutoDetectedRegions(currentPage, [detection]);
-        addEntry(
-          HistoryActionType.DETECTION_TOGGLED,
-          `Enabled ${detection.type} detection`,
-          { page: currentPage, piiType: detection.type },
-        );
-      } else {
-        // Remove all regions for this detection
-        // Since we can't match by detection ID, we need to remove by position/type
-        const regions = getRegionsForPage(currentPage);
-        const bbox = detection.words[0]?.bbox;
-
-        // Find and remove the region that matches this detection's position
-        const matchingRegion = regions.find(
-          (r) =>
-            Math.abs(r.x - (bbox?.x0 || 0)) < 5 &&
-            Math.abs(r.y - (bbox?.y0 || 0)) < 5 &&
-            r.piiType === detection.type,
-        );
-
-        if (matchingRegion) {
-          removeRegion(currentPage, matchingRegion.id);
-          addEntry(
-            HistoryActionType.DETECTION_TOGGLED,
-            `Disabled ${detection.type} detection`,
-            { page: currentPage, piiType: detection.type },
-          );
-        }
+        addAutoDetectedRegions(detectionPage, [detection]);
       }
 
+      addEditEntry(
+        before,
+        HistoryActionType.DETECTION_TOGGLED,
+        `${enabled ? "Enabled" : "Disabled"} ${detection.type} detection`,
+        { page: detectionPage, piiType: detection.type },
+      );
+
       // Trigger re-render to update canvas
       setRenderTrigger((prev) => prev + 1);
     },
     [
-      currentPage,
-      removeRegion,
-      piiDetections,
+      detections,
+      removeDetectionRegions,
       addAutoDetectedRegions,
-      getRegionsForPage,
-      addEntry,
+      takeSnapshot,
+      addEditEntry,
     ],
   );
 
-  // Handle region highlight
-  const handleHighlightDetection = useCallback(
-    (detectionId: string | null) => {
-      if (canvasControllerRef.current) {
-        if (detectionId) {
-          canvasControllerRef.current.highlightRegion(detectionId);
-        } else {
-          canvasControllerRef.current.clearHighlight();
-        }
+  // Handle removing regions; detections left without regions are
+  // unchecked in the detections list
+  const handleRemoveRegions = useCallback(
+    (page: number, regionIds: string[]) => {
+      const removedIds = new Set(regionIds);
+      const regions = getRegionsForPage(page);
+      const removed = regions.filter((r) => removedIds.has(r.id));
+      if (removed.length === 0) return;
+
+      const before = takeSnapshot([page]);
+      removeRegions(page, regionIds);
+
+      const orphaned = new Set(
+        removed.flatMap(({ detectionId }) =>
+          detectionId &&
+          !regions.some(
+            (r) => !removedIds.has(r.id) && r.detectionId === detectionId,
+          )
+            ? [detectionId]
+            : [],
+        ),
+      );
+      if (orphaned.size > 0) {
+        setEnabledDetectionsByPage((prev) => {
+          const newMap = new Map(prev);
+          const newSet = new Set(prev.get(page));
+          for (const detectionId of orphaned) {
+            newSet.delete(detectionId);
+          }
+          newMap.set(page, newSet);
+          return newMap;
+        });
+      }
+
+      addEditEntry(
+        before,
+        HistoryActionType.REDACTION_REMOVED,
+        removed.length === 1
+          ? "Removed redaction"
+          : `Removed ${removed.length} redactions`,
+        removed.length === 1
+          ? { page, piiType: removed[0].piiType }
+          : { page, count: removed.length },
+      );
+    },
+    [getRegionsForPage, removeRegions, takeSnapshot, addEditEntry],
+  );
+
+  const handleRemoveRegion = useCallback(
+    (page: number, regionId: string) => {
+      handleRemoveRegions(page, [regionId]);
+    },
+    [handleRemoveRegions],
+  );
+
+  const handleDeleteSelection = useCallback(() => {
+    handleRemoveRegions(currentPage, selectedRegionIds);
+  }, [currentPage, selectedRegionIds, handleRemoveRegions]);
+
+  // Handle setting the PII type of the selected regions
+  const handleChangeSelectionType = useCallback(
+    (piiType: PIIType) => {
+      if (selectedRegionIds.length === 0) return;
+
+      const before = takeSnapshot([currentPage]);
+      updateRegions(currentPage, selectedRegionIds, (region) => ({
+        ...region,
+        piiType,
+      }));
+      addEditEntry(
+        before,
+        HistoryActionType.REDACTION_EDITED,
+        `Changed ${selectedRegionIds.length} redaction${selectedRegionIds.length !== 1 ? "s" : ""} to ${PII_TYPE_LABELS[piiType]}`,
+        { page: currentPage, piiType, count: selectedRegionIds.length },
+      );
+    },
+    [currentPage, selectedRegionIds, updateRegions, takeSnapshot, addEditEntry],
+  );
+
+  // Handle replacing the selected regions with one box covering them all
+  const handleMergeSelection = useCallback(() => {
+    if (selectedRegionIds.length < 2) return;
+
+    const before = takeSnapshot([currentPage]);
+    if (!mergeRegions(currentPage, selectedRegionIds)) return;
+    addEditEntry(
+      before,
+      HistoryActionType.REDACTION_EDITED,
+      `Merged ${selectedRegionIds.length} redactions into one`,
+      { page: currentPage, count: selectedRegionIds.length },
+    );
+  }, [
+    currentPage,
+    selectedRegionIds,
+    mergeRegions,
+    takeSnapshot,
+    addEditEntry,
+  ]);
+
+  // Handle growing the selected regions by a margin in pixels of the page
+  // as rendered
+  const handleExpandSelection = useCallback(
+    (padding: number) => {
+      const canvas = canvasRef.current;
+      if (selectedRegionIds.length === 0 || !canvas) return;
+
+      const size = getCanvasSize(canvas);
+      const margin = { x: padding / size.width, y: padding / size.height };
+      const before = takeSnapshot([currentPage]);
+      updateRegions(currentPage, selectedRegionIds, (region) =>
+        setRegionRect(region, expandRect(region, margin)),
+      );
+      addEditEntry(
+        before,
+        HistoryActionType.REDACTION_EDITED,
+        `Expanded ${selectedRegionIds.length} redaction${selectedRegionIds.length !== 1 ? "s" : ""} by ${padding}px`,
+        { page: currentPage, count: selectedRegionIds.length },
+      );
+    },
+    [currentPage, selectedRegionIds, updateRegions, takeSnapshot, addEditEntry],
+  );
+
+  // Handle copying the selected regions to the same place on other pages
+  const handleCopySelection = useCallback(
+    (pages: number[]) => {
+      if (selectedRegionIds.length === 0 || pages.length === 0) return;
+
+      const before = takeSnapshot(pages);
+      copyRegionsToPages(currentPage, selectedRegionIds, pages);
+      addEditEntry(
+        before,
+        HistoryActionType.MANUAL_REDACTION_ADDED,
+        `Copied ${selectedRegionIds.length} redaction${selectedRegionIds.length !== 1 ? "s" : ""} to ${pages.length} page${pages.length !== 1 ? "s" : ""}`,
+        { page: currentPage, count: selectedRegionIds.length * pages.length },
+      );
+    },
+    [
+      currentPage,
+      selectedRegionIds,
+      copyRegionsToPages,
+      takeSnapshot,
+      addEditEntry,
+    ],
+  );
+
+  // Handle clearing every redaction and detection on the current page
+  const handleClearPage = useCallback(() => {
+    const count = getRegionsForPage(currentPage).length;
+    const before = takeSnapshot([currentPage]);
+    clearAllRegions(currentPage);
+    setEnabledDetectionsByPage((prev) => {
+      const newMap = new Map(prev);
+      newMap.delete(currentPage);
+      return newMap;
+    });
+    setDetectedPages((prev) => {
+      const newSet = new Set(prev);
+      newSet.delete(currentPage);
+      return newSet;
+    });
+    if (canvasControllerRef.current) {
+      canvasControllerRef.current.clearRegions();
+    }
+    addEditEntry(
+      before,
+      HistoryActionType.PAGE_CLEARED,
+      `Cleared ${count} redaction${count !== 1 ? "s" : ""} from page ${currentPage}`,
+      { page: currentPage, count },
+    );
+    setRenderTrigger((prev) => prev + 1);
+  }, [
+    currentPage,
+    getRegionsForPage,
+    clearAllRegions,
+    takeSnapshot,
+    addEditEntry,
+  ]);
+
+  // Handle clearing every redaction and detection on every page
+  const handleClearAllPages = useCallback(() => {
+    const pages = new Set<number>([
+      ...redactions.keys(),
+      ...detections.keys(),
+      ...enabledDetectionsByPage.keys(),
+      ...detectedPages,
+    ]);
+    const count = getAllRegions().length;
+    const before = takeSnapshot(Array.from(pages));
+
+    clearAllRegions();
+    setEnabledDetectionsByPage(new Map());
+    setDetectedPages(new Set());
+    if (canvasControllerRef.current) {
+      canvasControllerRef.current.clearRegions();
+    }
+    addEditEntry(
+      before,
+      HistoryActionType.ALL_CLEARED,
+      `Cleared ${count} redaction${count !== 1 ? "s" : ""} from all pages`,
+      { count },
+    );
+    setRenderTrigger((prev) => prev + 1);
+  }, [
+    redactions,
+    detections,
+    enabledDetectionsByPage,
+    detectedPages,
+    getAllRegions,
+    clearAllRegions,
+    takeSnapshot,
+    addEditEntry,
+  ]);
+
+  // Handle highlighting every region of a detection
+  const handleHighlightDetection = useCallback((detectionId: string | null) => {
+    if (canvasControllerRef.current) {
+      if (detectionId) {
+        canvasControllerRef.current.highlightDetection(detectionId);
+      } else {
+        canvasControllerRef.current.clearHighlight();
+      }
+    }
+  }, []);
+
+  const handleHighlightRegion = useCallback((regionId: string | null) => {
+    if (canvasControllerRef.current) {
+      if (regionId) {
+        canvasControllerRef.current.highlightRegion(regionId);
+      } else {
+        canvasControllerRef.current.clearHighlight();
+      }
+    }
+  }, []);
+
+  // Handle selecting a region from the layers list; an additive selection
+  // adds it or takes it out
+  const handleSelectRegion = useCallback(
+    (regionId: string, additive: boolean) => {
+      if (additive) {
+        toggleRegion(regionId);
+      } else {
+        selectRegion(regionId);
       }
-      selectRegion(detectionId);
     },
-    [selectRegion],
+    [toggleRegion, selectRegion],
+  );
+
+  // Handle selecting every region of a detection on the current page; an
+  // additive selection adds them, or takes them out if all are selected
+  const handleSelectDetection = useCallback(
+    (detectionId: string, additive: boolean) => {
+      const regionIds = getRegionsForPage(currentPage)
+        .filter((r) => r.detectionId === detectionId)
+        .map((r) => r.id);
+      if (!additive) {
+        selectRegions(regionIds);
+        return;
+      }
+
+      const selected = new Set(selectedRegionIds);
+      selectRegions(
+        regionIds.every((id) => selected.has(id))
+          ? selectedRegionIds.filter((id) => !regionIds.includes(id))
+          : [
+              ...selectedRegionIds,
+              ...regionIds.filter((id) => !selected.has(id)),
+            ],
+      );
+    },
+    [currentPage, getRegionsForPage, selectedRegionIds, selectRegions],
   );
 
-  // Keyboard shortcuts (page navigation only, delete is handled by CanvasController)
+  // Keyboard shortcuts for page navigation, undo/redo and editing the
+  // selected regions
   useEffect(() => {
     const handleKeyDown = (event: KeyboardEvent) => {
       // Ignore if user is typing in an input field
@@ -645,6 +2191,31 @@ export default function IndexPage() {
         return;
       }
 
+      // Arrow keys nudge the selected regions, by a larger step with Shift;
+      // with nothing selected, left and right turn pages
+      const direction = NUDGE_DIRECTIONS[event.key];
+      if (
+        direction &&
+        canvasControllerRef.current?.nudgeSelectedRegions(
+          direction,
+          event.shiftKey,
+        )
+      ) {
+        event.preventDefault();
+        return;
+      }
+
+      // Ctrl+Z undoes the last edit and Ctrl+Shift+Z redoes it (Cmd on macOS)
+      if ((event.ctrlKey || event.metaKey) && event.key.toLowerCase() === "z") {
+        if (event.shiftKey) {
+          redo();
+        } else {
+          undo();
+        }
+        event.preventDefault();
+        return;
+      }
+
       switch (event.key) {
         case "ArrowLeft": {
           // Previous page
@@ -664,6 +2235,31 @@ export default function IndexPage() {
           break;
         }
 
+        case "Delete":
+        case "Backspace": {
+          if (selectedRegionIds.length > 0) {
+            handleRemoveRegions(currentPage, selectedRegionIds);
+            event.preventDefault();
+          }
+          break;
+        }
+
+        case "Enter": {
+          // Close the polygon being drawn
+          if (canvasControllerRef.current?.finishPolygon()) {
+            event.preventDefault();
+          }
+          break;
+        }
+
+        case "Escape": {
+          // Drop a shape half drawn, or else the selection
+          if (!canvasControllerRef.current?.cancelDrawing()) {
+            selectRegion(null);
+          }
+          break;
+        }
+
         default:
           break;
       }
@@ -674,7 +2270,16 @@ export default function IndexPage() {
     return () => {
       window.removeEventListener("keydown", handleKeyDown);
     };
-  }, [document, currentPage, goToPage]);
+  }, [
+    document,
+    currentPage,
+    goToPage,
+    undo,
+    redo,
+    selectedRegionIds,
+    selectRegion,
+    handleRemoveRegions,
+  ]);
 
   return (
     <>
@@ -702,13 +2307,59 @@ export default function IndexPage() {
               enabledDetections={enabledDetections}
               onToggleDetection={handleToggleDetection}
               onHighlightDetection={handleHighlightDetection}
+              onHighlightRegion={handleHighlightRegion}
               getRegionsForPage={getRegionsForPage}
               currentPage={currentPage}
-              onRemoveRegion={(page, id) => removeRegion(page, id)}
+              selectedRegionIds={selectedRegionIds}
+              onSelectRegion={handleSelectRegion}
+              onSelectRegions={selectRegions}
+              onSelectDetection={handleSelectDetection}
+              onRemoveRegion={handleRemoveRegion}
+              documentId={document?.id ?? ""}
+              pageCount={document?.pageCount ?? 0}
+              onGetPageText={handleGetSearchPageText}
+              onRenderThumbnail={handleRenderThumbnail}
+              onGoToPage={goToPage}
+              onRedactSearchHits={handleRedactSearchHits}
+              onRedactAllOccurrences={handleRedactAllOccurrences}
+              linkedGroups={linkedGroupSummaries}
+              onAcceptLinkedGroup={handleAcceptLinkedGroup}
+              onRejectLinkedGroup={handleRejectLinkedGroup}
               history={history}
               onClearHistory={clearHistory}
+              canUndo={canUndo}
+              canRedo={canRedo}
+              onUndo={undo}
+              onRedo={redo}
+              revertibleEntryIds={revertibleEntryIds}
+              onRevertTo={revertTo}
               exportFormat={exportFormat}
               onChangeExportFormat={setExportFormat}
+              exportDpi={exportDpi}
+              pdfExportMode={pdfExportMode}
+              onChangePdfExportMode={setPdfExportMode}
+              canPreserveText={document?.type === DocumentType.PDF}
+              verificationMode={verificationMode}
+              onChangeVerificationMode={setVerificationMode}
+              piiLocales={piiLocales}
+              onChangePiiLocales={setPiiLocales}
+              detectors={detectors}
+              detectorStats={detectorStats}
+              onToggleDetector={handleToggleDetector}
+              customRules={customRules}
+              onSaveCustomRule={saveRule}
+              onRemoveCustomRule={removeRule}
+              onToggleCustomRule={toggleRule}
+              onImportCustomRules={handleImportCustomRules}
+              onExportCustomRules={exportRules}
+              onLoadRuleTestText={handleLoadRuleTestText}
+              onChangeExportDpi={setExportDpi}
+              autosaveEnabled={autosaveEnabled}
+              onChangeAutosaveEnabled={handleChangeAutosaveEnabled}
+              autosavePassphrase={autosavePassphrase}
+              onChangeAutosavePassphrase={setAutosavePassphrase}
+              lastAutosavedAt={lastSavedAt}
+              onPurgeSession={handlePurgeSession}
             />
           </ModalBody>
         </ModalContent>
@@ -716,11 +2367,24 @@ export default function IndexPage() {
 
       <div className="h-full w-full flex flex-col overflow-hidden">
         {/* Processing Status Overlay */}
-        {isProcessing && <ProcessingStatus status={processingStatus} />}
+        {isProcessing && (
+          <ProcessingStatus
+            status={processingStatus}
+            onCancel={cancelProcessing}
+          />
+        )}
 
         {/* Main Content */}
         {!document ? (
-          <div className="flex-1 flex items-center justify-center bg-default-50">
+          <div className="flex-1 flex flex-col items-center justify-center bg-default-50">
+            {savedSession && (
+              <ResumeSessionPrompt
+                session={savedSession}
+                onResume={handleResumeSession}
+                onDiscard={handlePurgeSession}
+                isResuming={isResuming}
+              />
+            )}
             <DocumentUpload
               onDocumentLoad={handleDocumentLoad}
               onError={(err) => handleFileError(err)}
@@ -735,23 +2399,12 @@ export default function IndexPage() {
                 <LeftRail
                   mode={mode}
                   onModeChange={setMode}
-                  onClearAll={() => {
-                    const count = getRegionsForPage(currentPage).length;
-                    clearAllRegions(currentPage);
-                    setPiiDetections([]);
-                    setEnabledDetections(new Set());
-                    setHasRunDetection(false);
-                    if (canvasControllerRef.current) {
-                      canvasControllerRef.current.clearRegions();
-                    }
-                    addEntry(
-                      HistoryActionType.PAGE_CLEARED,
-                      `Cleared ${count} redaction${count !== 1 ? "s" : ""} from page ${currentPage}`,
-                      { page: currentPage, count },
-                    );
-                    setRenderTrigger((prev) => prev + 1);
-                  }}
+                  drawTool={drawTool}
+                  onDrawToolChange={setDrawTool}
+                  onClearPage={handleClearPage}
+                  onClearAll={handleClearAllPages}
                   onUploadNew={handleUploadNew}
+                  onSaveProject={handleSaveProject}
                   isProcessing={isProcessing}
                   hasDocument={!!document}
                   manualOnlyMode={manualOnlyMode}
@@ -765,29 +2418,32 @@ export default function IndexPage() {
                   <MobileToolbar
                     mode={mode}
                     onModeChange={setMode}
-                    onClearAll={() => {
-                      const count = getRegionsForPage(currentPage).length;
-                      clearAllRegions(currentPage);
-                      setPiiDetections([]);
-                      setEnabledDetections(new Set());
-                      setHasRunDetection(false);
-                      if (canvasControllerRef.current) {
-                        canvasControllerRef.current.clearRegions();
-                      }
-                      addEntry(
-                        HistoryActionType.PAGE_CLEARED,
-                        `Cleared ${count} redaction${count !== 1 ? "s" : ""} from page ${currentPage}`,
-                        { page: currentPage, count },
-                      );
-                      setRenderTrigger((prev) => prev + 1);
-                    }}
+                    drawTool={drawTool}
+                    onDrawToolChange={setDrawTool}
+                    onClearPage={handleClearPage}
+                    onClearAll={handleClearAllPages}
                     onUploadNew={handleUploadNew}
+                    onSaveProject={handleSaveProject}
                     isProcessing={isProcessing}
                     hasDocument={!!document}
                     manualOnlyMode={manualOnlyMode}
                   />
                 )}
 
+                {selectedRegionIds.length > 0 && document && (
+                  <SelectionToolbar
+                    selectedCount={selectedRegionIds.length}
+                    currentPage={currentPage}
+                    pageCount={document.pageCount}
+                    onClearSelection={() => selectRegion(null)}
+                    onDelete={handleDeleteSelection}
+                    onChangeType={handleChangeSelectionType}
+                    onMerge={handleMergeSelection}
+                    onExpand={handleExpandSelection}
+                    onCopyToPages={handleCopySelection}
+                  />
+                )}
+
                 <div className="flex-1 flex flex-col">
                   <CanvasViewer
                     key={document?.id || "no-document"}
@@ -863,13 +2519,59 @@ export default function IndexPage() {
                   enabledDetections={enabledDetections}
                   onToggleDetection={handleToggleDetection}
                   onHighlightDetection={handleHighlightDetection}
+                  onHighlightRegion={handleHighlightRegion}
                   getRegionsForPage={getRegionsForPage}
                   currentPage={currentPage}
-                  onRemoveRegion={(page, id) => removeRegion(page, id)}
+                  selectedRegionIds={selectedRegionIds}
+                  onSelectRegion={handleSelectRegion}
+                  onSelectRegions={selectRegions}
+                  onSelectDetection={handleSelectDetection}
+                  onRemoveRegion={handleRemoveRegion}
+                  documentId={document?.id ?? ""}
+                  pageCount={document?.pageCount ?? 0}
+                  onGetPageText={handleGetSearchPageText}
+                  onRenderThumbnail={handleRenderThumbnail}
+                  onGoToPage={goToPage}
+                  onRedactSearchHits={handleRedactSearchHits}
+                  onRedactAllOccurrences={handleRedactAllOccurrences}
+                  linkedGroups={linkedGroupSummaries}
+                  onAcceptLinkedGroup={handleAcceptLinkedGroup}
+                  onRejectLinkedGroup={handleRejectLinkedGroup}
                   history={history}
                   onClearHistory={clearHistory}
+                  canUndo={canUndo}
+                  canRedo={canRedo}
+                  onUndo={undo}
+                  onRedo={redo}
+                  revertibleEntryIds={revertibleEntryIds}
+                  onRevertTo={revertTo}
                   exportFormat={exportFormat}
                   onChangeExportFormat={setExportFormat}
+                  exportDpi={exportDpi}
+                  pdfExportMode={pdfExportMode}
+                  onChangePdfExportMode={setPdfExportMode}
+                  canPreserveText={document?.type === DocumentType.PDF}
+                  verificationMode={verificationMode}
+                  onChangeVerificationMode={setVerificationMode}
+                  piiLocales={piiLocales}
+                  onChangePiiLocales={setPiiLocales}
+                  detectors={detectors}
+                  detectorStats={detectorStats}
+                  onToggleDetector={handleToggleDetector}
+                  customRules={customRules}
+                  onSaveCustomRule={saveRule}
+                  onRemoveCustomRule={removeRule}
+                  onToggleCustomRule={toggleRule}
+                  onImportCustomRules={handleImportCustomRules}
+                  onExportCustomRules={exportRules}
+                  onLoadRuleTestText={handleLoadRuleTestText}
+                  onChangeExportDpi={setExportDpi}
+                  autosaveEnabled={autosaveEnabled}
+                  onChangeAutosaveEnabled={handleChangeAutosaveEnabled}
+                  autosavePassphrase={autosavePassphrase}
+                  onChangeAutosavePassphrase={setAutosavePassphrase}
+                  lastAutosavedAt={lastSavedAt}
+                  onPurgeSession={handlePurgeSession}
                 />
               </div>
             </div>
@@ -883,9 +2585,14 @@ export default function IndexPage() {
             isProcessing={isProcessing}
             statusText={processingStatus.message}
             onDetectPII={handleDetectPII}
+            onDetectAllPages={handleDetectAllPages}
             onExport={() => handleExport()}
-            hasRedactions={getRegionsForPage(currentPage).length > 0}
+            hasRedactions={getAllRegions().length > 0}
             hasRunDetection={hasRunDetection}
+            isMultiPage={
+              document.type === DocumentType.PDF && document.pageCount > 1
+            }
+            hasRunDetectionAllPages={hasRunDetectionAllPages}
           />
         )}
       </div>
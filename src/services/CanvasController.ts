@@ -1,14 +1,91 @@
-import type {
-  CanvasController as ICanvasController,
-  Point,
-  RedactionRegion,
+import {
+  type BoundingBox,
+  DrawTool,
+  type CanvasController as ICanvasController,
+  type Point,
+  type RedactionRegion,
+  type ResizeHandle,
 } from "../types/redaction";
+import {
+  getCanvasSize,
+  type Rect,
+  rectFromPixels,
+  rectToPixels,
+} from "../utils/coordinates";
+import {
+  getHandleAtPoint,
+  getHandlePoint,
+  moveRect,
+  RESIZE_HANDLES,
+  rectsIntersect,
+  resizeRect,
+  snapMovedRect,
+  snapResizedRect,
+  unionRects,
+} from "../utils/regionEditing";
+import {
+  getShapeBounds,
+  isPointInRegion,
+  setRegionRect,
+  simplifyPath,
+  traceRegion,
+} from "../utils/regionShapes";
+
+// Minimum size of a manually drawn region, in canvas pixels
+const MIN_DRAW_SIZE = 5;
+
+// Lasso strokes keep a point only every this many screen pixels
+const LASSO_POINT_SPACING = 3;
+
+// Size of the resize handles on the selected region, in screen pixels
+const HANDLE_SIZE = 8;
+
+// How far a dragged edge jumps to line up with a word edge, in screen pixels
+const SNAP_DISTANCE = 6;
+
+// Arrow keys move the selected regions by this many canvas pixels, or by the
+// larger step with Shift held
+const NUDGE_STEP = 1;
+const LARGE_NUDGE_STEP = 10;
+
+// A modified click toggles a region's selection unless the mouse moved this
+// many screen pixels, which pans instead
+const CLICK_DISTANCE = 4;
+
+/**
+ * A region's new rectangle after it was moved or resized
+ */
+export interface RegionChange {
+  regionId: string;
+  rect: Rect;
+}
+
+/**
+ * The selected regions being moved together, or the one selected region
+ * being resized by one of its handles
+ */
+interface RegionDrag {
+  handle: ResizeHandle | null;
+  startPoint: Point;
+  startRects: RegionChange[];
+  rects: RegionChange[];
+}
+
+/**
+ * A rectangle dragged over empty space to select the regions it touches
+ */
+interface Marquee {
+  startPoint: Point;
+  rect: Rect;
+}
 
 export class CanvasController implements ICanvasController {
   private canvas: HTMLCanvasElement | null = null;
   private ctx: CanvasRenderingContext2D | null = null;
   private regions: RedactionRegion[] = [];
   private highlightedRegionId: string | null = null;
+  // Every region of this detection is highlighted, across line breaks
+  private highlightedDetectionId: string | null = null;
   private zoom = 1;
   private panOffset: Point = { x: 0, y: 0 };
   private devicePixelRatio: number;
@@ -18,9 +95,28 @@ export class CanvasController implements ICanvasController {
   private drawStartPoint: Point | null = null;
   private currentDrawRegion: RedactionRegion | null = null;
   private onRegionCreated?: (region: RedactionRegion) => void;
+  private drawTool: DrawTool = DrawTool.RECTANGLE;
+  // Corners of the polygon, or points of the lasso stroke, being drawn
+  private drawPath: Point[] = [];
+  // Where the pointer is, for the polygon's edge to it
+  private pointerPoint: Point | null = null;
 
   // Selection state
-  private selectedRegionId: string | null = null;
+  private selectedRegionIds: Set<string> = new Set();
+
+  // Move and resize state
+  private regionDrag: RegionDrag | null = null;
+  private marquee: Marquee | null = null;
+  private pendingToggle: {
+    regionId: string;
+    clientX: number;
+    clientY: number;
+  } | null = null;
+  private snapTargets: BoundingBox[] = [];
+  private onSelectionChanged?: (regionIds: string[]) => void;
+  private onRegionsChanged?: (changes: RegionChange[]) => void;
+  // The page whose cached rendering is repainted under the overlays
+  private currentPage: number | null = null;
 
   // Performance optimization: off-screen canvas and page cache
   private offscreenCanvas: HTMLCanvasElement | null = null;
@@ -92,6 +188,8 @@ export class CanvasController implements ICanvasController {
     // The actual page rendering is delegated to PDFRenderer or ImageRenderer
     // This method is responsible for rendering redaction overlays after the page is rendered
 
+    this.currentPage = pageNumber;
+
     // Try to use cached page data if available
     const cachedPage = this.pageCache.get(pageNumber);
     if (cachedPage && this.ctx && this.canvas) {
@@ -120,6 +218,7 @@ export class CanvasController implements ICanvasController {
 
       // Add to cache
       this.pageCache.set(pageNumber, imageData);
+      this.currentPage = pageNumber;
 
       // Limit cache size - remove oldest entries
       if (this.pageCache.size > this.MAX_CACHED_PAGES) {
@@ -177,17 +276,23 @@ export class CanvasController implements ICanvasController {
 
     // Render all redaction regions
     for (const region of this.regions) {
-      this.renderRegion(region, region.id === this.highlightedRegionId);
+      this.renderRegion(
+        region,
+        region.id === this.highlightedRegionId ||
+          (region.detectionId !== undefined &&
+            region.detectionId === this.highlightedDetectionId),
+      );
     }
   }
 
   private renderRegion(region: RedactionRegion, isHighlighted: boolean): void {
-    if (!this.ctx) return;
+    if (!this.ctx || !this.canvas) return;
 
-    const transformedRegion = this.transformRegionToCanvas(region);
-    const isSelected = region.id === this.selectedRegionId;
+    const size = getCanvasSize(this.canvas);
+    const isSelected = this.selectedRegionIds.has(region.id);
 
     this.ctx.save();
+    this.ctx.setTransform(1, 0, 0, 1, 0, 0);
 
     // Draw semi-transparent overlay with better contrast
     // Selected regions have blue tint, highlighted have red, normal are black
@@ -196,12 +301,8 @@ export class CanvasController implements ICanvasController {
       : isHighlighted
         ? "rgba(220, 38, 38, 0.5)" // Red-600 for highlighted
         : "rgba(0, 0, 0, 0.4)"; // Black for normal
-    this.ctx.fillRect(
-      transformedRegion.x,
-      transformedRegion.y,
-      transformedRegion.width,
-      transformedRegion.height,
-    );
+    traceRegion(this.ctx, region, size);
+    this.ctx.fill("evenodd");
 
     // Draw border with better contrast
     this.ctx.strokeStyle = isSelected
@@ -210,24 +311,123 @@ export class CanvasController implements ICanvasController {
         ? "#dc2626" // Red-600 for highlighted
         : "#1f2937"; // Gray-800 for normal
     this.ctx.lineWidth = isSelected ? 3 : isHighlighted ? 3 : 2;
-    this.ctx.strokeRect(
-      transformedRegion.x,
-      transformedRegion.y,
-      transformedRegion.width,
-      transformedRegion.height,
-    );
+    this.ctx.stroke();
+
+    this.ctx.restore();
+  }
+
+  /**
+   * Redraw the overlays over a clean copy of the page
+   * The cached rendering of the page is restored first, so overlays drawn
+   * before (a previous selection or drag preview) do not build up.
+   */
+  private repaint(): void {
+    if (!this.ctx) return;
+
+    const cachedPage =
+      this.currentPage !== null ? this.pageCache.get(this.currentPage) : null;
+    if (cachedPage) {
+      this.ctx.putImageData(cachedPage, 0, 0);
+    }
+
+    this.renderRedactionOverlays();
+    this.renderEditOverlay();
+  }
+
+  /**
+   * Draw the drag preview of the regions being moved or resized, the
+   * selection marquee, and the resize handles of a single selected region
+   */
+  private renderEditOverlay(): void {
+    if (!this.ctx || !this.canvas) return;
+
+    const size = getCanvasSize(this.canvas);
+
+    this.ctx.save();
+    this.ctx.setTransform(1, 0, 0, 1, 0, 0);
+
+    // Dragged regions are previewed with their outlines, the marquee as a
+    // plain rectangle
+    const previews: RedactionRegion[] = [
+      ...(this.regionDrag?.rects.flatMap(({ regionId, rect }) => {
+        const region = this.regions.find((r) => r.id === regionId);
+        return region ? [setRegionRect(region, rect)] : [];
+      }) ?? []),
+      ...(this.marquee
+        ? [{ id: "marquee", ...this.marquee.rect, isManual: false }]
+        : []),
+    ];
+    for (const preview of previews) {
+      traceRegion(this.ctx, preview, size);
+      this.ctx.fillStyle = "rgba(37, 99, 235, 0.2)";
+      this.ctx.fill("evenodd");
+      this.ctx.strokeStyle = "#2563eb";
+      this.ctx.lineWidth = 2;
+      this.ctx.setLineDash([5, 5]);
+      this.ctx.stroke();
+      this.ctx.setLineDash([]);
+    }
+
+    const selected = this.getSingleSelectedRegion();
+    const rect = this.regionDrag
+      ? this.regionDrag.rects.length === 1 && selected
+        ? this.regionDrag.rects[0].rect
+        : null
+      : selected;
+    if (!rect) {
+      this.ctx.restore();
+      return;
+    }
+
+    // Handles keep their size on screen whatever the zoom
+    const handleSize = HANDLE_SIZE * this.getScreenToCanvasScale();
+    this.ctx.fillStyle = "#ffffff";
+    this.ctx.strokeStyle = "#2563eb";
+    this.ctx.lineWidth = 1.5;
+    for (const handle of RESIZE_HANDLES) {
+      const point = getHandlePoint(rect, handle);
+      const x = point.x * size.width - handleSize / 2;
+      const y = point.y * size.height - handleSize / 2;
+      this.ctx.fillRect(x, y, handleSize, handleSize);
+      this.ctx.strokeRect(x, y, handleSize, handleSize);
+    }
 
     this.ctx.restore();
   }
 
+  /**
+   * Canvas pixels per screen pixel, which changes with zoom
+   */
+  private getScreenToCanvasScale(): number {
+    if (!this.canvas) return 1;
+
+    const rect = this.canvas.getBoundingClientRect();
+    return rect.width > 0 ? this.canvas.width / rect.width : 1;
+  }
+
+  /**
+   * A distance in screen pixels as normalized page extents
+   */
+  private getScreenTolerance(pixels: number): Point {
+    if (!this.canvas) return { x: 0, y: 0 };
+
+    const rect = this.canvas.getBoundingClientRect();
+    if (rect.width === 0 || rect.height === 0) return { x: 0, y: 0 };
+
+    return { x: pixels / rect.width, y: pixels / rect.height };
+  }
+
+  /**
+   * Convert a normalized region into canvas pixels
+   * Zoom and pan are applied by CSS transforms in CanvasViewer, so overlays
+   * are drawn at the canvas's native resolution without scaling them again
+   */
   private transformRegionToCanvas(region: RedactionRegion): RedactionRegion {
-    // Apply zoom and pan transformations
+    if (!this.canvas) return region;
+
     return {
       ...region,
-      x: (region.x + this.panOffset.x) * this.zoom,
-      y: (region.y + this.panOffset.y) * this.zoom,
-      width: region.width * this.zoom,
-      height: region.height * this.zoom,
+      ...rectToPixels(region, getCanvasSize(this.canvas)),
     };
   }
 
@@ -243,30 +443,56 @@ export class CanvasController implements ICanvasController {
 
   highlightRegion(regionId: string): void {
     this.highlightedRegionId = regionId;
-    this.renderRedactionOverlays();
+    this.highlightedDetectionId = null;
+    this.repaint();
+  }
+
+  highlightDetection(detectionId: string): void {
+    this.highlightedDetectionId = detectionId;
+    this.highlightedRegionId = null;
+    this.repaint();
   }
 
   clearHighlight(): void {
     this.highlightedRegionId = null;
-    this.renderRedactionOverlays();
+    this.highlightedDetectionId = null;
+    this.repaint();
   }
 
+  /**
+   * Convert screen coordinates to canvas backing-store pixels
+   */
   getCanvasCoordinates(x: number, y: number): Point {
     if (!this.canvas) {
       return { x: 0, y: 0 };
     }
 
-    const rect = this.canvas.getBoundingClientRect();
+    const point = this.getPageCoordinates(x, y);
 
-    // Convert from screen coordinates to canvas coordinates
-    const canvasX = x - rect.left;
-    const canvasY = y - rect.top;
+    return {
+      x: point.x * this.canvas.width,
+      y: point.y * this.canvas.height,
+    };
+  }
 
-    // Apply inverse transformations (zoom and pan)
-    const documentX = canvasX / this.zoom - this.panOffset.x;
-    const documentY = canvasY / this.zoom - this.panOffset.y;
+  /**
+   * Convert screen coordinates to normalized page coordinates (0–1)
+   * The bounding rect already reflects CSS zoom, pan and device pixel ratio
+   */
+  getPageCoordinates(x: number, y: number): Point {
+    if (!this.canvas) {
+      return { x: 0, y: 0 };
+    }
 
-    return { x: documentX, y: documentY };
+    const rect = this.canvas.getBoundingClientRect();
+    if (rect.width === 0 || rect.height === 0) {
+      return { x: 0, y: 0 };
+    }
+
+    return {
+      x: (x - rect.left) / rect.width,
+      y: (y - rect.top) / rect.height,
+    };
   }
 
   setZoom(scale: number): void {
@@ -305,17 +531,15 @@ export class CanvasController implements ICanvasController {
     return { ...this.panOffset };
   }
 
+  /**
+   * Find the top-most region containing a point in normalized page coordinates
+   */
   getRegionAtPoint(point: Point): RedactionRegion | null {
     // Check regions in reverse order (top to bottom in rendering)
     for (let i = this.regions.length - 1; i >= 0; i--) {
       const region = this.regions[i];
 
-      if (
-        point.x >= region.x &&
-        point.x <= region.x + region.width &&
-        point.y >= region.y &&
-        point.y <= region.y + region.height
-      ) {
+      if (isPointInRegion(point, region)) {
         return region;
       }
     }
@@ -325,9 +549,33 @@ export class CanvasController implements ICanvasController {
 
   clearRegions(): void {
     this.regions = [];
+    this.regionDrag = null;
+    this.marquee = null;
     this.renderRedactionOverlays();
   }
 
+  /**
+   * Replace the regions of the page shown, e.g. after it was re-rendered
+   * Selected regions that are gone are dropped from the selection.
+   */
+  setRegions(regions: RedactionRegion[]): void {
+    this.regions = [...regions];
+    const ids = new Set(this.regions.map((r) => r.id));
+    this.selectedRegionIds = new Set(
+      [...this.selectedRegionIds].filter((id) => ids.has(id)),
+    );
+    this.regionDrag = null;
+    this.repaint();
+  }
+
+  /**
+   * Set the word boxes of the page shown, which moved and resized regions
+   * snap to
+   */
+  setSnapTargets(boxes: BoundingBox[]): void {
+    this.snapTargets = boxes;
+  }
+
   getRegions(): RedactionRegion[] {
     return [...this.regions];
   }
@@ -344,13 +592,20 @@ export class CanvasController implements ICanvasController {
     this.onRegionCreated = onRegionCreated;
   }
 
-  getSelectedRegionId(): string | null {
-    return this.selectedRegionId;
+  getSelectedRegionIds(): string[] {
+    return [...this.selectedRegionIds];
   }
 
-  selectRegion(regionId: string | null): void {
-    this.selectedRegionId = regionId;
-    this.renderRedactionOverlays();
+  setSelection(regionIds: string[]): void {
+    if (
+      regionIds.length === this.selectedRegionIds.size &&
+      regionIds.every((id) => this.selectedRegionIds.has(id))
+    ) {
+      return;
+    }
+
+    this.selectedRegionIds = new Set(regionIds);
+    this.repaint();
   }
 
   disableManualDrawing(): void {
@@ -358,6 +613,356 @@ export class CanvasController implements ICanvasController {
     this.cancelDrawing();
   }
 
+  /**
+   * Choose what dragging or clicking on empty space draws, dropping any
+   * shape half drawn with the previous tool
+   */
+  setDrawTool(tool: DrawTool): void {
+    if (tool === this.drawTool) return;
+
+    this.drawTool = tool;
+    this.cancelDrawing();
+  }
+
+  /**
+   * Close the polygon being drawn, as with a double-click
+   * @returns Whether a polygon was being drawn
+   */
+  finishPolygon(): boolean {
+    if (this.drawTool !== DrawTool.POLYGON || this.drawPath.length === 0) {
+      return false;
+    }
+
+    this.createShapeRegion(this.drawPath);
+    return true;
+  }
+
+  /**
+   * Drop the region being drawn
+   * @returns Whether one was being drawn
+   */
+  cancelDrawing(): boolean {
+    const wasDrawing = this.isDrawing || this.drawPath.length > 0;
+
+    this.isDrawing = false;
+    this.currentDrawRegion = null;
+    this.drawStartPoint = null;
+    this.drawPath = [];
+    this.pointerPoint = null;
+    this.repaint();
+    return wasDrawing;
+  }
+
+  // Selecting, moving and resizing regions
+
+  /**
+   * Let regions be selected by clicking them, Shift/Ctrl/Cmd-clicking them
+   * or dragging a marquee over them, moved by dragging them, and resized by
+   * the handles of a single selected region
+   * @param onSelectionChanged - Called with the selected regions whenever the
+   * canvas changes the selection
+   * @param onRegionsChanged - Called with the regions' new rectangles once a
+   * drag or nudge ends
+   */
+  enableRegionEditing(
+    onSelectionChanged: (regionIds: string[]) => void,
+    onRegionsChanged: (changes: RegionChange[]) => void,
+  ): void {
+    this.onSelectionChanged = onSelectionChanged;
+    this.onRegionsChanged = onRegionsChanged;
+  }
+
+  disableRegionEditing(): void {
+    this.onSelectionChanged = undefined;
+    this.onRegionsChanged = undefined;
+    this.pendingToggle = null;
+    this.cancelRegionDrag();
+  }
+
+  /**
+   * Move the selected regions one step with the arrow keys
+   * @param direction - -1, 0 or 1 along each axis
+   * @param large - Whether to take the larger step
+   * @returns Whether any region was selected to move
+   */
+  nudgeSelectedRegions(direction: Point, large: boolean): boolean {
+    const selected = this.getSelectedRegions();
+    if (selected.length === 0 || !this.canvas || !this.onRegionsChanged) {
+      return false;
+    }
+
+    const step = rectFromPixels(
+      {
+        x: 0,
+        y: 0,
+        width: large ? LARGE_NUDGE_STEP : NUDGE_STEP,
+        height: large ? LARGE_NUDGE_STEP : NUDGE_STEP,
+      },
+      getCanvasSize(this.canvas),
+    );
+    const startRects = selected.map(toRegionChange);
+    const rects = this.moveRegionRects(
+      startRects,
+      direction.x * step.width,
+      direction.y * step.height,
+      false,
+    );
+
+    if (hasMoved(startRects, rects)) {
+      this.commitRegionRects(rects);
+    }
+    return true;
+  }
+
+  private getSelectedRegions(): RedactionRegion[] {
+    return this.regions.filter((r) => this.selectedRegionIds.has(r.id));
+  }
+
+  // The selected region, when exactly one is selected
+  private getSingleSelectedRegion(): RedactionRegion | null {
+    const selected = this.getSelectedRegions();
+    return selected.length === 1 ? selected[0] : null;
+  }
+
+  private changeSelection(regionIds: string[]): void {
+    this.selectedRegionIds = new Set(regionIds);
+    this.onSelectionChanged?.(regionIds);
+    this.repaint();
+  }
+
+  /**
+   * Move rectangles together by the same offset
+   * Their bounding box is kept on the page and snapped as one, so the
+   * regions keep their places relative to each other.
+   */
+  private moveRegionRects(
+    startRects: RegionChange[],
+    dx: number,
+    dy: number,
+    snap: boolean,
+  ): RegionChange[] {
+    const bounds = unionRects(startRects.map(({ rect }) => rect));
+    let moved = moveRect(bounds, dx, dy);
+    if (snap) {
+      moved = snapMovedRect(
+        moved,
+        this.snapTargets,
+        this.getScreenTolerance(SNAP_DISTANCE),
+      );
+    }
+
+    const offsetX = moved.x - bounds.x;
+    const offsetY = moved.y - bounds.y;
+    return startRects.map(({ regionId, rect }) => ({
+      regionId,
+      rect: { ...rect, x: rect.x + offsetX, y: rect.y + offsetY },
+    }));
+  }
+
+  private commitRegionRects(changes: RegionChange[]): void {
+    const rects = new Map(
+      changes.map(({ regionId, rect }) => [regionId, rect]),
+    );
+    this.regions = this.regions.map((r) => {
+      const rect = rects.get(r.id);
+      return rect ? setRegionRect(r, rect) : r;
+    });
+    this.onRegionsChanged?.(changes);
+  }
+
+  private cancelRegionDrag(): void {
+    if (!this.regionDrag && !this.marquee) return;
+
+    this.regionDrag = null;
+    this.marquee = null;
+    this.repaint();
+  }
+
+  private handleRegionMouseDown(event: MouseEvent): boolean {
+    if (!this.onRegionsChanged || event.button !== 0) return false;
+
+    const point = this.getPageCoordinates(event.clientX, event.clientY);
+
+    // Modified presses pan the canvas; one that ends where it started
+    // toggles the region under it in the selection
+    if (event.shiftKey || event.ctrlKey || event.metaKey) {
+      const region = this.getRegionAtPoint(point);
+      if (!region) return false;
+
+      this.pendingToggle = {
+        regionId: region.id,
+        clientX: event.clientX,
+        clientY: event.clientY,
+      };
+      return true;
+    }
+
+    const single = this.getSingleSelectedRegion();
+    const handle = single
+      ? getHandleAtPoint(single, point, this.getScreenTolerance(HANDLE_SIZE))
+      : null;
+    const region = handle ? single : this.getRegionAtPoint(point);
+
+    if (!region) {
+      // Empty space draws when drawing, and drags a marquee otherwise
+      if (this.onRegionCreated) return false;
+
+      this.marquee = {
+        startPoint: point,
+        rect: { x: point.x, y: point.y, width: 0, height: 0 },
+      };
+      return true;
+    }
+
+    if (!this.selectedRegionIds.has(region.id)) {
+      this.changeSelection([region.id]);
+    }
+
+    // A handle resizes its region; a region's body moves the whole selection
+    const startRects = (handle ? [region] : this.getSelectedRegions()).map(
+      toRegionChange,
+    );
+    this.regionDrag = {
+      handle,
+      startPoint: point,
+      startRects,
+      rects: startRects,
+    };
+    this.repaint();
+    return true;
+  }
+
+  private handleRegionDrag(event: MouseEvent): void {
+    if (!this.regionDrag || !this.canvas) return;
+
+    const { handle, startPoint, startRects } = this.regionDrag;
+    const point = this.getPageCoordinates(event.clientX, event.clientY);
+    // Alt drags freely, without snapping
+    const snap = !event.altKey && this.snapTargets.length > 0;
+
+    let rects: RegionChange[];
+    if (handle) {
+      const [{ regionId, rect: startRect }] = startRects;
+      const minSize = rectFromPixels(
+        { x: 0, y: 0, width: MIN_DRAW_SIZE, height: MIN_DRAW_SIZE },
+        getCanvasSize(this.canvas),
+      );
+      let rect = resizeRect(startRect, handle, point, {
+        x: minSize.width,
+        y: minSize.height,
+      });
+      if (snap) {
+        rect = snapResizedRect(
+          rect,
+          handle,
+          this.snapTargets,
+          this.getScreenTolerance(SNAP_DISTANCE),
+        );
+      }
+      rects = [{ regionId, rect }];
+    } else {
+      rects = this.moveRegionRects(
+        startRects,
+        point.x - startPoint.x,
+        point.y - startPoint.y,
+        snap,
+      );
+    }
+
+    this.regionDrag = { ...this.regionDrag, rects };
+    this.repaint();
+  }
+
+  private endRegionDrag(): void {
+    if (!this.regionDrag) return;
+
+    const { startRects, rects } = this.regionDrag;
+    this.regionDrag = null;
+
+    if (hasMoved(startRects, rects)) {
+      this.commitRegionRects(rects);
+    }
+    this.repaint();
+  }
+
+  private handleMarqueeDrag(event: MouseEvent): void {
+    if (!this.marquee) return;
+
+    const { startPoint } = this.marquee;
+    const point = this.getPageCoordinates(event.clientX, event.clientY);
+    this.marquee = {
+      startPoint,
+      rect: {
+        x: Math.min(point.x, startPoint.x),
+        y: Math.min(point.y, startPoint.y),
+        width: Math.abs(point.x - startPoint.x),
+        height: Math.abs(point.y - startPoint.y),
+      },
+    };
+    this.repaint();
+  }
+
+  /**
+   * Select the regions the marquee touches, or clear the selection if it
+   * was only a click
+   */
+  private endMarquee(): void {
+    if (!this.marquee || !this.canvas) return;
+
+    const { rect } = this.marquee;
+    this.marquee = null;
+
+    const pixels = rectToPixels(rect, getCanvasSize(this.canvas));
+    const isClick =
+      pixels.width < MIN_DRAW_SIZE && pixels.height < MIN_DRAW_SIZE;
+    const regionIds = isClick
+      ? []
+      : this.regions.filter((r) => rectsIntersect(r, rect)).map((r) => r.id);
+
+    if (regionIds.length > 0 || this.selectedRegionIds.size > 0) {
+      this.changeSelection(regionIds);
+    } else {
+      this.repaint();
+    }
+  }
+
+  private endPendingToggle(event: MouseEvent): void {
+    if (!this.pendingToggle) return;
+
+    const { regionId, clientX, clientY } = this.pendingToggle;
+    this.pendingToggle = null;
+
+    if (
+      Math.hypot(event.clientX - clientX, event.clientY - clientY) >=
+      CLICK_DISTANCE
+    ) {
+      return;
+    }
+
+    const selected = [...this.selectedRegionIds];
+    this.changeSelection(
+      this.selectedRegionIds.has(regionId)
+        ? selected.filter((id) => id !== regionId)
+        : [...selected, regionId],
+    );
+  }
+
+  /**
+   * The cursor for a point: a resize cursor over a handle of the single
+   * selected region, a move cursor over a region
+   */
+  private getEditCursor(point: Point): string | null {
+    if (!this.onRegionsChanged) return null;
+
+    const single = this.getSingleSelectedRegion();
+    const handle = single
+      ? getHandleAtPoint(single, point, this.getScreenTolerance(HANDLE_SIZE))
+      : null;
+    if (handle) return `${handle}-resize`;
+
+    return this.getRegionAtPoint(point) ? "move" : null;
+  }
+
   private attachEventListeners(): void {
     if (!this.canvas) return;
 
@@ -377,10 +982,28 @@ export class CanvasController implements ICanvasController {
   }
 
   private handleMouseDown = (event: MouseEvent): void => {
-    // Only handle drawing, no region selection
+    // A polygon being drawn takes every click, even over other regions
+    if (this.drawPath.length > 0 && this.drawTool === DrawTool.POLYGON) {
+      this.handlePolygonClick(event);
+      return;
+    }
+
+    // Pressing on a region or a handle edits it; anywhere else draws or
+    // selects
+    if (this.handleRegionMouseDown(event)) return;
     if (!this.onRegionCreated) return;
 
-    const point = this.getCanvasCoordinates(event.clientX, event.clientY);
+    const point = this.getPageCoordinates(event.clientX, event.clientY);
+
+    if (this.drawTool === DrawTool.POLYGON) {
+      this.handlePolygonClick(event);
+      return;
+    }
+    if (this.drawTool === DrawTool.LASSO) {
+      this.isDrawing = true;
+      this.drawPath = [point];
+      return;
+    }
 
     this.isDrawing = true;
     this.drawStartPoint = point;
@@ -397,11 +1020,34 @@ export class CanvasController implements ICanvasController {
   private handleMouseMove = (event: MouseEvent): void => {
     if (!this.canvas) return;
 
-    const point = this.getCanvasCoordinates(event.clientX, event.clientY);
+    if (this.regionDrag) {
+      this.handleRegionDrag(event);
+      return;
+    }
+    if (this.marquee) {
+      this.handleMarqueeDrag(event);
+      return;
+    }
+
+    const point = this.getPageCoordinates(event.clientX, event.clientY);
 
     // Only set cursor, no hover highlighting
-    if (!this.isDrawing) {
-      this.canvas.style.cursor = this.onRegionCreated ? "crosshair" : "default";
+    if (this.drawPath.length > 0) {
+      this.canvas.style.cursor = "crosshair";
+    } else if (!this.isDrawing) {
+      this.canvas.style.cursor =
+        this.getEditCursor(point) ??
+        (this.onRegionCreated ? "crosshair" : "default");
+    }
+
+    if (this.drawPath.length > 0) {
+      if (this.drawTool === DrawTool.LASSO) {
+        this.drawPath.push(point);
+      } else {
+        this.pointerPoint = point;
+      }
+      this.renderShapeFeedback();
+      return;
     }
 
     // Handle drawing
@@ -424,15 +1070,38 @@ export class CanvasController implements ICanvasController {
     }
   };
 
-  private handleMouseUp = (_event: MouseEvent): void => {
+  private handleMouseUp = (event: MouseEvent): void => {
+    if (this.pendingToggle) {
+      this.endPendingToggle(event);
+      return;
+    }
+    if (this.regionDrag) {
+      this.endRegionDrag();
+      return;
+    }
+    if (this.marquee) {
+      this.endMarquee();
+      return;
+    }
+    if (this.isDrawing && this.drawTool === DrawTool.LASSO) {
+      this.isDrawing = false;
+      this.createShapeRegion(
+        simplifyPath(
+          this.drawPath,
+          this.getScreenTolerance(LASSO_POINT_SPACING),
+        ),
+      );
+      return;
+    }
     if (!this.isDrawing || !this.currentDrawRegion) return;
 
     this.isDrawing = false;
 
-    // Only create region if it has meaningful size (at least 5x5 pixels)
+    // Only create region if it has meaningful size on screen
+    const pixelRegion = this.transformRegionToCanvas(this.currentDrawRegion);
     if (
-      this.currentDrawRegion.width >= 5 &&
-      this.currentDrawRegion.height >= 5
+      pixelRegion.width >= MIN_DRAW_SIZE &&
+      pixelRegion.height >= MIN_DRAW_SIZE
     ) {
       if (this.onRegionCreated) {
         this.onRegionCreated(this.currentDrawRegion);
@@ -445,23 +1114,138 @@ export class CanvasController implements ICanvasController {
   };
 
   private handleMouseLeave = (): void => {
+    // A polygon survives the pointer leaving; a stroke in progress does not
     if (this.isDrawing) {
       this.cancelDrawing();
+    } else if (this.pointerPoint) {
+      this.pointerPoint = null;
+      this.renderShapeFeedback();
     }
+    this.pendingToggle = null;
+    this.cancelRegionDrag();
   };
 
-  private cancelDrawing(): void {
-    this.isDrawing = false;
-    this.currentDrawRegion = null;
-    this.drawStartPoint = null;
-    this.renderRedactionOverlays();
+  /**
+   * Add a corner to the polygon being drawn, or close it on a double-click
+   * or a click on its first corner
+   */
+  private handlePolygonClick(event: MouseEvent): void {
+    // Modified presses pan the canvas
+    if (
+      event.button !== 0 ||
+      event.shiftKey ||
+      event.ctrlKey ||
+      event.metaKey
+    ) {
+      return;
+    }
+
+    const point = this.getPageCoordinates(event.clientX, event.clientY);
+    const [first] = this.drawPath;
+    const tolerance = this.getScreenTolerance(HANDLE_SIZE);
+    const closesPath =
+      first !== undefined &&
+      Math.abs(point.x - first.x) <= tolerance.x &&
+      Math.abs(point.y - first.y) <= tolerance.y;
+
+    // The first click of a double-click already added its corner
+    if (event.detail >= 2 || (closesPath && this.drawPath.length >= 3)) {
+      this.createShapeRegion(this.drawPath);
+      return;
+    }
+
+    this.drawPath = [...this.drawPath, point];
+    this.pointerPoint = point;
+    this.renderShapeFeedback();
+  }
+
+  /**
+   * Add a region outlined by a polygon or lasso stroke, if it is big enough
+   * to mean something, and stop drawing
+   */
+  private createShapeRegion(points: Point[]): void {
+    this.drawPath = [];
+    this.pointerPoint = null;
+
+    if (points.length >= 3 && this.canvas) {
+      const bounds = getShapeBounds(points);
+      const pixels = rectToPixels(bounds, getCanvasSize(this.canvas));
+
+      if (pixels.width >= MIN_DRAW_SIZE && pixels.height >= MIN_DRAW_SIZE) {
+        const region: RedactionRegion = {
+          id: `manual-${Date.now()}`,
+          ...bounds,
+          shape: points,
+          isManual: true,
+        };
+        this.onRegionCreated?.(region);
+        this.addRedactionRegion(region);
+      }
+    }
+
+    this.repaint();
+  }
+
+  /**
+   * Draw the polygon or lasso stroke being drawn, with the polygon's corners
+   * and an edge to the pointer
+   */
+  private renderShapeFeedback(): void {
+    if (!this.ctx || !this.canvas) return;
+
+    this.repaint();
+
+    const size = getCanvasSize(this.canvas);
+    const isPolygon = this.drawTool === DrawTool.POLYGON;
+    const points =
+      isPolygon && this.pointerPoint
+        ? [...this.drawPath, this.pointerPoint]
+        : this.drawPath;
+    if (points.length === 0) return;
+
+    this.ctx.save();
+    this.ctx.setTransform(1, 0, 0, 1, 0, 0);
+
+    this.ctx.beginPath();
+    for (const [index, point] of points.entries()) {
+      const x = point.x * size.width;
+      const y = point.y * size.height;
+      if (index === 0) {
+        this.ctx.moveTo(x, y);
+      } else {
+        this.ctx.lineTo(x, y);
+      }
+    }
+
+    this.ctx.fillStyle = "rgba(0, 102, 255, 0.2)";
+    this.ctx.fill("evenodd");
+    this.ctx.strokeStyle = "#0066ff";
+    this.ctx.lineWidth = 2;
+    this.ctx.setLineDash([5, 5]);
+    this.ctx.stroke();
+    this.ctx.setLineDash([]);
+
+    if (isPolygon) {
+      // Corners keep their size on screen whatever the zoom
+      const cornerSize = HANDLE_SIZE * this.getScreenToCanvasScale();
+      this.ctx.fillStyle = "#ffffff";
+      this.ctx.lineWidth = 1.5;
+      for (const corner of this.drawPath) {
+        const x = corner.x * size.width - cornerSize / 2;
+        const y = corner.y * size.height - cornerSize / 2;
+        this.ctx.fillRect(x, y, cornerSize, cornerSize);
+        this.ctx.strokeRect(x, y, cornerSize, cornerSize);
+      }
+    }
+
+    this.ctx.restore();
   }
 
   private renderDrawingFeedback(): void {
     if (!this.ctx || !this.currentDrawRegion) return;
 
     // Re-render everything to clear previous feedback
-    this.renderRedactionOverlays();
+    this.repaint();
 
     // Draw the current drawing region with distinct visual feedback
     const transformedRegion = this.transformRegionToCanvas(
@@ -469,6 +1253,7 @@ export class CanvasController implements ICanvasController {
     );
 
     this.ctx.save();
+    this.ctx.setTransform(1, 0, 0, 1, 0, 0);
 
     // Draw dashed border for drawing feedback
     this.ctx.strokeStyle = "#0066ff";
@@ -555,7 +1340,43 @@ export class CanvasController implements ICanvasController {
     this.offscreenCtx = null;
     this.regions = [];
     this.highlightedRegionId = null;
+    this.highlightedDetectionId = null;
     this.currentDrawRegion = null;
     this.drawStartPoint = null;
+    this.drawPath = [];
+    this.pointerPoint = null;
+    this.regionDrag = null;
+    this.marquee = null;
+    this.pendingToggle = null;
+    this.selectedRegionIds = new Set();
+    this.snapTargets = [];
+    this.onSelectionChanged = undefined;
+    this.onRegionsChanged = undefined;
+    this.currentPage = null;
   }
 }
+
+function toRegionChange(region: RedactionRegion): RegionChange {
+  return {
+    regionId: region.id,
+    rect: {
+      x: region.x,
+      y: region.y,
+      width: region.width,
+      height: region.height,
+    },
+  };
+}
+
+// Whether any rectangle differs from where it started
+function hasMoved(startRects: RegionChange[], rects: RegionChange[]): boolean {
+  return rects.some(({ rect }, index) => {
+    const start = startRects[index].rect;
+    return (
+      rect.x !== start.x ||
+      rect.y !== start.y ||
+      rect.width !== start.width ||
+      rect.height !== start.height
+    );
+  });
+}
@@ -0,0 +1,149 @@
+import {
+  CUSTOM_RULES_FILE_FORMAT,
+  CUSTOM_RULES_FILE_VERSION,
+  type CustomRule,
+  type CustomRulesFile,
+} from "../types/redaction";
+import { hasNestedQuantifier } from "../utils/regexSafety";
+
+const STORAGE_KEY = "redactor-pro:custom-rules";
+const RULES_FILE_NAME = "redaction-rules.json";
+
+/**
+ * CustomRuleService stores the user's custom detection rules and moves them
+ * in and out of JSON files
+ *
+ * Rules are settings rather than document state, so they live in
+ * localStorage and apply to every document. Teams share them as files.
+ */
+export class CustomRuleService {
+  /**
+   * Read the saved rules; unreadable storage yields no rules
+   */
+  load(): CustomRule[] {
+    try {
+      const json = localStorage.getItem(STORAGE_KEY);
+      return json ? this.validateRules(JSON.parse(json)) : [];
+    } catch (error) {
+      console.warn(
+        `Failed to load custom rules: ${error instanceof Error ? error.message : "Unknown error"}`,
+      );
+      return [];
+    }
+  }
+
+  /**
+   * Save the rules for future visits
+   */
+  save(rules: CustomRule[]): void {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(rules));
+    } catch (error) {
+      console.warn(
+        `Failed to save custom rules: ${error instanceof Error ? error.message : "Unknown error"}`,
+      );
+    }
+  }
+
+  /**
+   * Parse and validate a rules file
+   */
+  async readRulesFile(file: File): Promise<CustomRule[]> {
+    let parsed: unknown;
+
+    try {
+      parsed = JSON.parse(await file.text());
+    } catch {
+      throw new Error("Rules file is not valid JSON");
+    }
+
+    if (!parsed || typeof parsed !== "object") {
+      throw new Error("Rules file is empty or malformed");
+    }
+
+    const rulesFile = parsed as Partial<CustomRulesFile>;
+
+    if (rulesFile.format !== CUSTOM_RULES_FILE_FORMAT) {
+      throw new Error("File is not a Redactor Pro rules file");
+    }
+
+    if (rulesFile.version !== CUSTOM_RULES_FILE_VERSION) {
+      throw new Error(`Unsupported rules file version: ${rulesFile.version}`);
+    }
+
+    const rules = this.validateRules(rulesFile.rules);
+
+    // Checked on import only, so rules saved earlier are not all lost on load
+    const slowIndex = rules.findIndex(
+      (rule) => rule.kind === "regex" && hasNestedQuantifier(rule.pattern),
+    );
+    if (slowIndex !== -1) {
+      throw new Error(
+        `Rule ${slowIndex + 1} has a pattern that can take too long to match`,
+      );
+    }
+
+    return rules;
+  }
+
+  /**
+   * Download rules as a JSON file
+   */
+  saveRulesFile(rules: CustomRule[]): void {
+    const rulesFile: CustomRulesFile = {
+      format: CUSTOM_RULES_FILE_FORMAT,
+      version: CUSTOM_RULES_FILE_VERSION,
+      rules,
+    };
+    const json = JSON.stringify(rulesFile, null, 2);
+    const blob = new Blob([json], { type: "application/json" });
+
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = RULES_FILE_NAME;
+    link.style.display = "none";
+
+    document.body.appendChild(link);
+    link.click();
+
+    // Cleanup
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  }
+
+  /**
+   * Validate the shape of parsed rules
+   */
+  private validateRules(value: unknown): CustomRule[] {
+    if (!Array.isArray(value)) {
+      throw new Error("Rules file is missing its rules");
+    }
+
+    return value.map((rule: Partial<CustomRule>, index) => {
+      if (
+        !rule ||
+        typeof rule.id !== "string" ||
+        typeof rule.label !== "string" ||
+        (rule.kind !== "regex" && rule.kind !== "words") ||
+        typeof rule.pattern !== "string" ||
+        typeof rule.confidence !== "number"
+      ) {
+        throw new Error(`Rule ${index + 1} is invalid`);
+      }
+
+      return {
+        id: rule.id,
+        label: rule.label,
+        kind: rule.kind,
+        pattern: rule.pattern,
+        caseSensitive: rule.caseSensitive === true,
+        color: /^#[0-9a-f]{6}$/i.test(rule.color ?? "")
+          ? (rule.color as string)
+          : "#6366f1",
+        confidence: Math.min(Math.max(rule.confidence, 0), 1),
+        enabled: rule.enabled !== false,
+      };
+    });
+  }
+}
@@ -0,0 +1,134 @@
+import type {
+  Detector,
+  DetectorInfo,
+  DetectorSettings,
+  OCRWord,
+  PIIDetection,
+} from "../types/redaction";
+
+/**
+ * The detections one detector returned for a page, with its timing
+ */
+export interface DetectorRun {
+  id: string;
+  label: string;
+  priority: number;
+  detections: PIIDetection[];
+  durationMs: number;
+  error?: string;
+}
+
+interface RegisteredDetector extends DetectorSettings {
+  detector: Detector;
+}
+
+const DEFAULT_SETTINGS: DetectorSettings = { enabled: true, priority: 0 };
+
+/**
+ * DetectorRegistry holds the detectors run over each page, in run order
+ *
+ * Each enabled detector sees the detections of those that ran before it, so
+ * a pattern that needs a related detection nearby (e.g. a CVV next to a card
+ * number) must run after the detector that finds it. A failing detector is
+ * reported in its run and does not stop the others.
+ */
+export class DetectorRegistry {
+  private entries: RegisteredDetector[] = [];
+
+  /**
+   * Add a detector at the end of the run order
+   * @throws If a detector with the same id is already registered
+   */
+  register(detector: Detector, settings: Partial<DetectorSettings> = {}): void {
+    if (this.entries.some((entry) => entry.detector.id === detector.id)) {
+      throw new Error(`Detector already registered: ${detector.id}`);
+    }
+
+    this.entries.push({ detector, ...DEFAULT_SETTINGS, ...settings });
+  }
+
+  unregister(detectorId: string): void {
+    this.entries = this.entries.filter(
+      (entry) => entry.detector.id !== detectorId,
+    );
+  }
+
+  setEnabled(detectorId: string, enabled: boolean): void {
+    this.update(detectorId, { enabled });
+  }
+
+  setPriority(detectorId: string, priority: number): void {
+    this.update(detectorId, { priority });
+  }
+
+  /**
+   * Move a detector to a position in the run order
+   */
+  move(detectorId: string, index: number): void {
+    const entry = this.entries.find(
+      ({ detector }) => detector.id === detectorId,
+    );
+    if (!entry) return;
+
+    const rest = this.entries.filter((other) => other !== entry);
+    const target = Math.max(0, Math.min(index, rest.length));
+    this.entries = [...rest.slice(0, target), entry, ...rest.slice(target)];
+  }
+
+  list(): DetectorInfo[] {
+    return this.entries.map(({ detector, enabled, priority }) => ({
+      id: detector.id,
+      label: detector.label,
+      enabled,
+      priority,
+    }));
+  }
+
+  /**
+   * Run the enabled detectors over a page, in order
+   */
+  async run(text: string, words: OCRWord[]): Promise<DetectorRun[]> {
+    const runs: DetectorRun[] = [];
+    const previous: PIIDetection[] = [];
+
+    for (const { detector, enabled, priority } of this.entries) {
+      if (!enabled) continue;
+
+      const startTime = performance.now();
+      let detections: PIIDetection[] = [];
+      let error: string | undefined;
+
+      try {
+        detections = await detector.detect({
+          text,
+          words,
+          previous: [...previous],
+        });
+      } catch (detectorError) {
+        error =
+          detectorError instanceof Error
+            ? detectorError.message
+            : "Unknown error";
+        console.warn(`Detector ${detector.id} failed: ${error}`);
+      }
+
+      previous.push(...detections);
+      runs.push({
+        id: detector.id,
+        label: detector.label,
+        priority,
+        detections,
+        durationMs: performance.now() - startTime,
+        ...(error && { error }),
+      });
+    }
+
+    return runs;
+  }
+
+  private update(detectorId: string, changes: Partial<DetectorSettings>) {
+    this.entries = this.entries.map((entry) =>
+      entry.detector.id === detectorId ? { ...entry, ...changes } : entry,
+    );
+  }
+}
@@ -72,8 +72,9 @@ export class DocumentManager implements IDocumentManager {
 
     const documentType = this.getDocumentType(file);
 
-    // Read file data
+    // Read file data and fingerprint the original bytes
     const data = await this.readFileData(file, documentType);
+    const hash = await this.computeHash(file);
 
     // Create Document model
     const document: Document = {
@@ -82,11 +83,43 @@ export class DocumentManager implements IDocumentManager {
       name: file.name,
       pageCount: documentType === DocType.PDF ? 0 : 1, // PDF page count will be determined by PDFRenderer
       data,
+      hash,
     };
 
     return document;
   }
 
+  /**
+   * Computes the SHA-256 hash of a file's bytes as a hex string
+   */
+  async computeHash(file: Blob): Promise<string> {
+    const buffer = await file.arrayBuffer();
+    const digest = await crypto.subtle.digest("SHA-256", buffer);
+
+    return Array.from(new Uint8Array(digest))
+      .map((byte) => byte.toString(16).padStart(2, "0"))
+      .join("");
+  }
+
+  /**
+   * Recreates the original file from a loaded document
+   * Copies PDF bytes, since the renderer may take ownership of the buffer
+   */
+  async toFile(document: Document): Promise<File> {
+    if (document.type === DocType.PDF) {
+      return new File(
+        [(document.data as ArrayBuffer).slice(0)],
+        document.name,
+        {
+          type: SUPPORTED_PDF_TYPE,
+        },
+      );
+    }
+
+    const blob = await (await fetch(document.data as string)).blob();
+    return new File([blob], document.name, { type: blob.type });
+  }
+
   /**
    * Reads file data as ArrayBuffer for PDFs or base64 string for images
    */
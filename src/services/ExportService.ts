@@ -1,5 +1,16 @@
 import { jsPDF } from "jspdf";
-import type { ExportService as IExportService } from "../types/redaction";
+import type {
+  ExportOptions,
+  ExportPage,
+  ExportService as IExportService,
+  PDFRedactionReport,
+  RedactionRegion,
+  SanitizationReport,
+} from "../types/redaction";
+import { stripImageMetadata } from "../utils/imageMetadata";
+import { removeUnreachableObjects } from "../utils/pdfObjects";
+import { PDFContentRedactor } from "./PDFContentRedactor";
+import { PDFSanitizer } from "./PDFSanitizer";
 
 /**
  * ExportService handles exporting redacted documents as images or PDFs
@@ -8,44 +19,72 @@ import type { ExportService as IExportService } from "../types/redaction";
 export class ExportService implements IExportService {
   /**
    * Export a single canvas as an image file
+   * EXIF, XMP, ICC profiles and comments are stripped from the encoded file
    * @param canvas - The canvas element containing the redacted document
    * @param originalName - Original filename to base the export name on
    * @param format - Image format ('png' or 'jpg')
+   * @param options - Hook to verify the file before it is downloaded
+   * @returns The metadata that was removed
    */
   async exportAsImage(
     canvas: HTMLCanvasElement,
     originalName: string,
     format: "png" | "jpg" = "png",
-  ): Promise<void> {
-    return new Promise((resolve, reject) => {
-      const mimeType = format === "png" ? "image/png" : "image/jpeg";
-      const quality = format === "jpg" ? 0.95 : undefined;
+    options: ExportOptions = {},
+  ): Promise<SanitizationReport> {
+    const mimeType = format === "png" ? "image/png" : "image/jpeg";
+    const quality = format === "jpg" ? 0.95 : undefined;
 
+    const blob = await new Promise<Blob>((resolve, reject) => {
       canvas.toBlob(
-        (blob) => {
-          if (!blob) {
+        (result) => {
+          if (!result) {
             reject(new Error("Failed to create image blob"));
             return;
           }
-
-          const filename = this.generateFilename(originalName, format);
-          this.triggerDownload(blob, filename);
-          resolve();
+          resolve(result);
         },
         mimeType,
         quality,
       );
     });
+
+    const { bytes, removed } = stripImageMetadata(
+      new Uint8Array(await blob.arrayBuffer()),
+      format,
+    );
+
+    const filename = this.generateFilename(originalName, format);
+    await this.download(
+      new Blob([bytes as BlobPart], { type: mimeType }),
+      filename,
+      options,
+    );
+
+    return {
+      findings:
+        removed.length > 0
+          ? [
+              {
+                category: "image-metadata",
+                count: removed.length,
+                details: Array.from(new Set(removed)),
+              },
+            ]
+          : [],
+    };
   }
 
   /**
    * Export multiple canvases as a multi-page PDF
    * @param pages - Array of canvas elements, one per page
    * @param originalName - Original filename to base the export name on
+   * @param options - Hook to verify the file before it is downloaded
    */
   async exportAsPDF(
     pages: HTMLCanvasElement[],
     originalName: string,
+    options: ExportOptions = {},
   ): Promise<void> {
     if (pages.length === 0) {
       throw new Error("No pages to export");
@@ -86,7 +125,121 @@ export class ExportService implements IExportService {
     // Generate filename and trigger download
     const filename = this.generateFilename(originalName, "pdf");
     const blob = pdf.output("blob");
-    this.triggerDownload(blob, filename);
+    await this.download(blob, filename, options);
+  }
+
+  /**
+   * Export a document as a multi-page PDF by streaming pages one at a time
+   * Only one rendered page canvas is alive at any moment: each page is
+   * rendered, compressed into the PDF and released before the next one
+   * @param pageCount - Total number of pages to export
+   * @param renderPage - Renders a page (1-indexed) with redactions burned in
+   * @param originalName - Original filename to base the export name on
+   * @param options - Progress callback, cancellation signal and a hook to
+   * verify the file before it is downloaded
+   */
+  async exportPagesAsPDF(
+    pageCount: number,
+    renderPage: (pageNumber: number) => Promise<ExportPage>,
+    originalName: string,
+    options: ExportOptions = {},
+  ): Promise<void> {
+    if (pageCount === 0) {
+      throw new Error("No pages to export");
+    }
+
+    const { onProgress, signal } = options;
+    let pdf: jsPDF | null = null;
+
+    for (let pageNumber = 1; pageNumber <= pageCount; pageNumber++) {
+      if (signal?.aborted) {
+        throw new Error("Export cancelled");
+      }
+
+      onProgress?.(pageNumber, pageCount);
+
+      const { canvas, width, height } = await renderPage(pageNumber);
+      const orientation = width > height ? "landscape" : "portrait";
+
+      try {
+        // Page size is set in PDF points so each page keeps its own size,
+        // independent of the resolution it was rendered at
+        if (!pdf) {
+          pdf = new jsPDF({
+            orientation,
+            unit: "pt",
+            format: [width, height],
+          });
+        } else {
+          pdf.addPage([width, height], orientation);
+        }
+
+        const imgData = canvas.toDataURL("image/jpeg", 0.95);
+        pdf.addImage(imgData, "JPEG", 0, 0, width, height);
+      } finally {
+        // Release the canvas backing store before rendering the next page
+        canvas.width = 0;
+        canvas.height = 0;
+      }
+
+      // Yield to the event loop so progress updates can paint
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    }
+
+    if (signal?.aborted || !pdf) {
+      throw new Error("Export cancelled");
+    }
+
+    // Generate filename and trigger download
+    const filename = this.generateFilename(originalName, "pdf");
+    const blob = pdf.output("blob");
+    await this.download(blob, filename, options);
+  }
+
+  /**
+   * Export the original PDF with content under regions removed
+   * Text outside regions stays selectable vector text; pages that cannot be
+   * rewritten safely are flattened using renderPage. Metadata and hidden
+   * content (annotations, attachments, forms, scripts, bookmarks) are
+   * stripped before saving.
+   * @param source - Bytes of the original PDF
+   * @param regionsByPage - Regions in normalized page coordinates, per page
+   * @param renderPage - Renders a page (1-indexed) with redactions burned in
+   * @param originalName - Original filename to base the export name on
+   * @param options - Progress callback, cancellation signal and a hook to
+   * verify the file before it is downloaded
+   * @returns What was removed, which pages were flattened, and what hidden
+   * content was sanitized
+   */
+  async exportRedactedPDF(
+    source: ArrayBuffer,
+    regionsByPage: Map<number, RedactionRegion[]>,
+    renderPage: (pageNumber: number) => Promise<ExportPage>,
+    originalName: string,
+    options: ExportOptions = {},
+  ): Promise<PDFRedactionReport> {
+    const { pdfDoc, report } = await new PDFContentRedactor().redact(
+      source,
+      regionsByPage,
+      renderPage,
+      options,
+    );
+
+    if (options.signal?.aborted) {
+      throw new Error("Export cancelled");
+    }
+
+    report.sanitization = new PDFSanitizer().sanitize(pdfDoc);
+    removeUnreachableObjects(pdfDoc.context);
+
+    const bytes = await pdfDoc.save();
+
+    // Generate filename and trigger download
+    const filename = this.generateFilename(originalName, "pdf");
+    const blob = new Blob([bytes as BlobPart], { type: "application/pdf" });
+    await this.download(blob, filename, options);
+
+    return report;
   }
 
   /**
@@ -103,6 +256,24 @@ export class ExportService implements IExportService {
     return `${nameWithoutExt}_redacted.${extension}`;
   }
 
+  /**
+   * Run the beforeDownload hook, then download the file
+   * The hook may throw to stop the download
+   */
+  private async download(
+    blob: Blob,
+    filename: string,
+    options: ExportOptions,
+  ): Promise<void> {
+    await options.beforeDownload?.(blob);
+
+    if (options.signal?.aborted) {
+      throw new Error("Export cancelled");
+    }
+
+    this.triggerDownload(blob, filename);
+  }
+
   /**
    * Trigger browser download of a blob
    * @param blob - The blob to download
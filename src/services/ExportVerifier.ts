@@ -0,0 +1,274 @@
+import type {
+  BoundingBox,
+  ExportProgressOptions,
+  OCREngine,
+  OCRResult,
+  OCRWord,
+  PIIDetectionEngine,
+  Point,
+  RedactionRegion,
+  VerificationFinding,
+  VerificationReport,
+} from "../types/redaction";
+import {
+  getBoxArea,
+  getOverlapArea,
+  normalizeOCRResult,
+  unionBoxes,
+} from "../utils/coordinates";
+import { isPointInShape } from "../utils/regionShapes";
+import { joinWords } from "../utils/textOffsets";
+import { PDFRenderer } from "./PDFRenderer";
+
+// Render scale used to OCR exported PDF pages
+const OCR_RENDER_SCALE = 2.0;
+
+// A word counts as under a region when this much of it is covered
+const UNDER_REGION_OVERLAP = 0.3;
+
+// Re-detected PII within this distance of a region (fraction of the page)
+// suggests the region did not cover all of it
+const NEAR_REGION_MARGIN = 0.01;
+
+// OCR reads noise along the edges of black boxes; ignore words that are
+// too short or too uncertain to be real text
+const MIN_OCR_CONFIDENCE = 50;
+const MIN_OCR_ALPHANUMERICS = 2;
+
+/**
+ * Thrown to stop a download when verification finds recoverable text, or
+ * when the file could not be verified and verification is required
+ */
+export class ExportBlockedError extends Error {
+  constructor(
+    message: string,
+    readonly report: VerificationReport | null = null,
+  ) {
+    super(message);
+    this.name = "ExportBlockedError";
+  }
+}
+
+/**
+ * ExportVerifier checks an exported file for text that is still recoverable
+ * under or next to redaction regions
+ *
+ * The file is re-opened as a reader would open it: PDFs are checked through
+ * their text layer and through OCR of each rendered page, images through OCR.
+ * PII detection is run again on what was found, so partially covered values
+ * next to a region are reported too. Only pages with regions are checked.
+ */
+export class ExportVerifier {
+  constructor(
+    private readonly ocrEngine: OCREngine,
+    private readonly piiEngine: PIIDetectionEngine,
+  ) {}
+
+  /**
+   * Verify an exported PDF or image
+   * @param file - The exported file
+   * @param regionsByPage - Regions in normalized page coordinates, per page;
+   * an image export is page 1
+   * @param options - Progress callback and cancellation signal
+   */
+  async verify(
+    file: Blob,
+    regionsByPage: Map<number, RedactionRegion[]>,
+    options: ExportProgressOptions = {},
+  ): Promise<VerificationReport> {
+    return file.type === "application/pdf"
+      ? this.verifyPDF(file, regionsByPage, options)
+      : this.verifyImage(file, regionsByPage.get(1) ?? []);
+  }
+
+  // Private helper methods
+
+  private async verifyPDF(
+    file: Blob,
+    regionsByPage: Map<number, RedactionRegion[]>,
+    { onProgress, signal }: ExportProgressOptions,
+  ): Promise<VerificationReport> {
+    const renderer = new PDFRenderer();
+    const findings: VerificationFinding[] = [];
+
+    try {
+      await renderer.loadPDF(await file.arrayBuffer());
+      const pageCount = renderer.getPageCount();
+      const pages = Array.from(regionsByPage.keys())
+        .filter(
+          (page) =>
+            page >= 1 &&
+            page <= pageCount &&
+            (regionsByPage.get(page)?.length ?? 0) > 0,
+        )
+        .sort((a, b) => a - b);
+
+      for (const pageNumber of pages) {
+        if (signal?.aborted) {
+          throw new Error("Export cancelled");
+        }
+
+        onProgress?.(pageNumber, pageCount);
+        const regions = regionsByPage.get(pageNumber) ?? [];
+
+        const textLayer = await renderer.getTextContent(pageNumber);
+        findings.push(
+          ...(await this.check(textLayer, regions, pageNumber, "text-layer")),
+        );
+
+        const imageData = await renderer.extractPageAsImage(
+          pageNumber,
+          OCR_RENDER_SCALE,
+        );
+        const ocrResult = normalizeOCRResult(
+          await this.ocrEngine.extractText(imageData),
+          imageData,
+        );
+        findings.push(
+          ...(await this.check(ocrResult, regions, pageNumber, "ocr")),
+        );
+      }
+
+      return { pagesChecked: pages.length, findings };
+    } finally {
+      await renderer.dispose();
+    }
+  }
+
+  private async verifyImage(
+    file: Blob,
+    regions: RedactionRegion[],
+  ): Promise<VerificationReport> {
+    if (regions.length === 0) {
+      return { pagesChecked: 0, findings: [] };
+    }
+
+    const bitmap = await createImageBitmap(file);
+    const canvas = document.createElement("canvas");
+
+    try {
+      canvas.width = bitmap.width;
+      canvas.height = bitmap.height;
+      const context = canvas.getContext("2d");
+      if (!context) {
+        throw new Error("Failed to get canvas 2D context");
+      }
+
+      context.drawImage(bitmap, 0, 0);
+      const imageData = context.getImageData(0, 0, canvas.width, canvas.height);
+      const ocrResult = normalizeOCRResult(
+        await this.ocrEngine.extractText(imageData),
+        imageData,
+      );
+
+      return {
+        pagesChecked: 1,
+        findings: await this.check(ocrResult, regions, 1, "ocr"),
+      };
+    } finally {
+      bitmap.close();
+      canvas.width = 0;
+      canvas.height = 0;
+    }
+  }
+
+  /**
+   * Find words under regions, and re-detected PII touching regions
+   */
+  private async check(
+    result: OCRResult,
+    regions: RedactionRegion[],
+    pageNumber: number,
+    source: VerificationFinding["source"],
+  ): Promise<VerificationFinding[]> {
+    // Noise is dropped from OCR, so its words are re-joined into new text
+    const { text, words } =
+      source === "ocr" ? joinWords(result.words.filter(isLikelyText)) : result;
+    if (words.length === 0) return [];
+
+    const boxes = regions.map(regionToBox);
+    const findings: VerificationFinding[] = [];
+    const flagged = new Set<OCRWord>();
+
+    for (const word of words) {
+      // Under a polygon or lasso region, only words centred inside its
+      // outline are covered; the rest of its rectangle is left visible
+      const covered = regions.some(
+        (region, index) =>
+          getOverlapArea(boxes[index], word.bbox) >
+            getBoxArea(word.bbox) * UNDER_REGION_OVERLAP &&
+          (!region.shape || isPointInShape(getCenter(word.bbox), region.shape)),
+      );
+      if (covered) {
+        flagged.add(word);
+        findings.push({
+          pageNumber,
+          text: word.text,
+          source,
+          reason: "under-region",
+          bbox: word.bbox,
+        });
+      }
+    }
+
+    const detections = await this.piiEngine.detectPII(text, words);
+
+    for (const detection of detections) {
+      if (detection.words.length === 0) continue;
+      // Detection words are cropped copies, so compare by position
+      const isFlagged = detection.words.every((word) =>
+        [...flagged].some(
+          (other) => other.start <= word.start && word.end <= other.end,
+        ),
+      );
+      if (isFlagged) continue;
+
+      const bbox = unionBoxes(detection.words.map((word) => word.bbox));
+      const near = boxes.some(
+        (box) => getOverlapArea(expand(box, NEAR_REGION_MARGIN), bbox) > 0,
+      );
+      if (near) {
+        findings.push({
+          pageNumber,
+          text: detection.text,
+          source,
+          reason: "near-region",
+          piiType: detection.type,
+          bbox,
+        });
+      }
+    }
+
+    return findings;
+  }
+}
+
+function isLikelyText(word: OCRWord): boolean {
+  const alphanumerics = word.text.match(/[\p{L}\p{N}]/gu)?.length ?? 0;
+  return (
+    word.confidence >= MIN_OCR_CONFIDENCE &&
+    alphanumerics >= MIN_OCR_ALPHANUMERICS
+  );
+}
+
+function regionToBox(region: RedactionRegion): BoundingBox {
+  return {
+    x0: region.x,
+    y0: region.y,
+    x1: region.x + region.width,
+    y1: region.y + region.height,
+  };
+}
+
+function getCenter(box: BoundingBox): Point {
+  return { x: (box.x0 + box.x1) / 2, y: (box.y0 + box.y1) / 2 };
+}
+
+function expand(box: BoundingBox, margin: number): BoundingBox {
+  return {
+    x0: box.x0 - margin,
+    y0: box.y0 - margin,
+    x1: box.x1 + margin,
+    y1: box.y1 + margin,
+  };
+}
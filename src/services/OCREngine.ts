@@ -3,7 +3,12 @@ import {
   PSM,
   type Worker as TesseractWorker,
 } from "tesseract.js";
-import type { OCREngine, OCRResult, OCRWord } from "../types/redaction";
+import type {
+  BoundingBox,
+  OCREngine,
+  OCRResult,
+  OCRWord,
+} from "../types/redaction";
 
 /**
  * OCREngine service for extracting text from images using Tesseract.js
@@ -58,6 +63,8 @@ export class OCREngineImpl implements OCREngine {
 
   /**
    * Extract text from an image with word-level bounding boxes
+   * The text is built from the recognized words (one line per OCR line, a
+   * blank line between paragraphs), so each word's offsets point into it.
    * Automatically initializes the worker if not already initialized (lazy loading)
    */
   async extractText(imageData: ImageData): Promise<OCRResult> {
@@ -104,6 +111,7 @@ export class OCREngineImpl implements OCREngine {
       }
 
       const words: OCRWord[] = [];
+      let text = "";
 
       // Extract words from blocks structure (Tesseract v6 format)
       if (result.data.blocks && Array.isArray(result.data.blocks)) {
@@ -116,7 +124,7 @@ export class OCREngineImpl implements OCREngine {
                     // Get line baseline for more accurate bounding boxes
                     const lineBaseline = line.baseline?.y0 || null;
 
-                    for (const word of line.words) {
+                    line.words.forEach((word, index) => {
                       let bbox = {
                         x0: word.bbox.x0,
                         y0: word.bbox.y0,
@@ -143,15 +151,25 @@ export class OCREngineImpl implements OCREngine {
                         };
                       }
 
+                      if (index > 0) text += " ";
+                      const start = text.length;
+                      text += word.text;
+
+                      const symbols = this.getSymbolBoxes(word, bbox);
                       words.push({
                         text: word.text,
                         bbox,
                         confidence: word.confidence,
+                        start,
+                        end: text.length,
+                        ...(symbols && { symbols }),
                       });
-                    }
+                    });
                   }
+                  text += "\n";
                 }
               }
+              text += "\n";
             }
           }
         }
@@ -160,7 +178,7 @@ export class OCREngineImpl implements OCREngine {
       this.updateProgress(100, "Text extraction complete");
 
       return {
-        text: result.data.text || "",
+        text: words.length > 0 ? text : result.data.text || "",
         words,
         confidence: result.data.confidence || 0,
       };
@@ -172,6 +190,35 @@ export class OCREngineImpl implements OCREngine {
     }
   }
 
+  /**
+   * One box per character of a word from its recognized symbols, kept
+   * within the word's (possibly corrected) box
+   * Returns undefined when the symbols do not spell out the word
+   */
+  private getSymbolBoxes(
+    word: {
+      text: string;
+      symbols?: Array<{ text: string; bbox: BoundingBox }>;
+    },
+    bbox: BoundingBox,
+  ): BoundingBox[] | undefined {
+    if (!word.symbols || word.symbols.length === 0) return undefined;
+
+    const boxes: BoundingBox[] = [];
+    for (const symbol of word.symbols) {
+      const box = {
+        x0: symbol.bbox.x0,
+        y0: Math.max(symbol.bbox.y0, bbox.y0),
+        x1: symbol.bbox.x1,
+        y1: Math.min(symbol.bbox.y1, bbox.y1),
+      };
+      // A surrogate pair repeats its box for both code units
+      for (let i = 0; i < symbol.text.length; i++) boxes.push(box);
+    }
+
+    return boxes.length === word.text.length ? boxes : undefined;
+  }
+
   /**
    * Terminate the Tesseract worker and free resources
    */
@@ -0,0 +1,1540 @@
+import {
+  decodePDFRawStream,
+  PDFArray,
+  type PDFContext,
+  PDFDict,
+  PDFDocument,
+  PDFName,
+  PDFNumber,
+  type PDFObject,
+  type PDFPage,
+  PDFRawStream,
+  PDFRef,
+  PDFStream,
+  StandardFontEmbedder,
+  StandardFonts,
+} from "pdf-lib";
+import type {
+  ExportPage,
+  ExportProgressOptions,
+  PDFRedactionReport,
+  RedactionRegion,
+} from "../types/redaction";
+import {
+  type ContentOperand,
+  formatNumber,
+  parseContentStream,
+  serializeOperation,
+} from "../utils/pdfContentStream";
+
+// [a b c d e f], applied to row vectors as in the PDF specification
+type Matrix = [number, number, number, number, number, number];
+
+// Axis-aligned box in PDF user space
+interface Box {
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+}
+
+// Rectangle as fractions of an image, measured from its top-left corner
+interface ImageRect {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+interface FontInfo {
+  bytesPerCode: 1 | 2;
+  fontMatrix: Matrix;
+  ascent: number; // glyph space units
+  descent: number; // glyph space units
+  widthOf: (code: number) => number; // glyph space units
+}
+
+interface GraphicsState {
+  ctm: Matrix;
+  font: FontInfo | null;
+  fontSize: number;
+  charSpacing: number;
+  wordSpacing: number;
+  horizontalScale: number;
+  leading: number;
+  rise: number;
+}
+
+interface MarkedContent {
+  chunkIndex: number;
+  operands: ContentOperand[];
+  tainted: boolean;
+}
+
+/**
+ * Thrown for content that cannot be redacted in place; the page is then
+ * flattened to an image instead
+ */
+class UnsupportedContentError extends Error {}
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+const DEFAULT_FONT_MATRIX: Matrix = [0.001, 0, 0, 0.001, 0, 0];
+
+// Share of a glyph (or of a small region) that must be covered to remove it
+const GLYPH_OVERLAP_THRESHOLD = 0.25;
+
+// Nested form XObjects deeper than this are treated as unsupported
+const MAX_FORM_DEPTH = 12;
+
+// Marked-content properties that can carry a copy of the redacted text
+const TEXT_BEARING_PROPERTIES = ["ActualText", "Alt", "E"];
+
+const STANDARD_FONT_NAMES = new Set<string>(Object.values(StandardFonts));
+
+// Common non-embedded fonts that viewers substitute with a standard font
+const STANDARD_FONT_ALIASES: Record<string, StandardFonts> = {
+  Arial: StandardFonts.Helvetica,
+  "Arial-Bold": StandardFonts.HelveticaBold,
+  "Arial-Italic": StandardFonts.HelveticaOblique,
+  "Arial-BoldItalic": StandardFonts.HelveticaBoldOblique,
+  TimesNewRoman: StandardFonts.TimesRoman,
+  "TimesNewRoman-Bold": StandardFonts.TimesRomanBold,
+  "TimesNewRoman-Italic": StandardFonts.TimesRomanItalic,
+  "TimesNewRoman-BoldItalic": StandardFonts.TimesRomanBoldItalic,
+  CourierNew: StandardFonts.Courier,
+  "CourierNew-Bold": StandardFonts.CourierBold,
+};
+
+/**
+ * PDFContentRedactor removes content under redaction regions from the
+ * original PDF while keeping everything else as vector content
+ *
+ * Text-showing operators are rewritten glyph by glyph: glyphs under a region
+ * are replaced by an equivalent positioning offset, so surrounding text keeps
+ * its exact layout and stays searchable. This applies to invisible OCR text
+ * layers as well. Image pixels under regions are blacked out, overlapping
+ * annotations are removed, and a black box is drawn over each region. Pages
+ * with content that cannot be rewritten safely are flattened to an image, as
+ * are pages with polygon or lasso regions: content is removed by rectangle,
+ * which would take out text beside the outline without covering its place.
+ */
+export class PDFContentRedactor {
+  private fontCache = new Map<PDFDict, FontInfo>();
+
+  /**
+   * Redact a PDF by rewriting its content streams
+   * Replaced objects stay in the document until removeUnreachableObjects runs
+   * @param source - Bytes of the original PDF
+   * @param regionsByPage - Regions in normalized page coordinates, per page
+   * @param renderPage - Renders a page with redactions burned in, used for
+   * pages that have to be flattened
+   * @param options - Progress callback and cancellation signal
+   */
+  async redact(
+    source: ArrayBuffer,
+    regionsByPage: Map<number, RedactionRegion[]>,
+    renderPage: (pageNumber: number) => Promise<ExportPage>,
+    options: ExportProgressOptions = {},
+  ): Promise<{ pdfDoc: PDFDocument; report: PDFRedactionReport }> {
+    const { onProgress, signal } = options;
+
+    let pdfDoc: PDFDocument;
+    try {
+      pdfDoc = await PDFDocument.load(source, { updateMetadata: false });
+    } catch (error) {
+      throw new Error(
+        `Failed to open PDF for redaction: ${error instanceof Error ? error.message : "Unknown error"}`,
+      );
+    }
+
+    const report = createReport();
+    const pages = pdfDoc.getPages();
+    this.fontCache.clear();
+
+    for (let index = 0; index < pages.length; index++) {
+      if (signal?.aborted) {
+        throw new Error("Export cancelled");
+      }
+
+      const pageNumber = index + 1;
+      onProgress?.(pageNumber, pages.length);
+
+      const regions = regionsByPage.get(pageNumber) ?? [];
+      if (regions.some((region) => region.shape)) {
+        await this.flattenPage(pdfDoc, index, await renderPage(pageNumber));
+        report.rasterizedPages.push(pageNumber);
+      } else if (regions.length > 0) {
+        const page = pages[index];
+        const boxes = regions.map((region) =>
+          this.regionToUserSpace(region, page),
+        );
+        // Counted separately so a page that ends up flattened adds nothing
+        const pageReport = createReport();
+
+        try {
+          await this.redactPage(pdfDoc.context, page, boxes, pageReport);
+          report.glyphsRemoved += pageReport.glyphsRemoved;
+          report.imagesRedacted += pageReport.imagesRedacted;
+          report.imagesRemoved += pageReport.imagesRemoved;
+          report.annotationsRemoved += pageReport.annotationsRemoved;
+        } catch (error) {
+          if (!(error instanceof UnsupportedContentError)) {
+            console.warn(`Flattening page ${pageNumber}:`, error);
+          }
+          await this.flattenPage(pdfDoc, index, await renderPage(pageNumber));
+          report.rasterizedPages.push(pageNumber);
+        }
+      }
+
+      // Yield to the event loop so progress updates can paint
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    }
+
+    return { pdfDoc, report };
+  }
+
+  /**
+   * Convert a normalized region, measured on the rendered (rotated) page,
+   * into PDF user space
+   */
+  private regionToUserSpace(region: RedactionRegion, page: PDFPage): Box {
+    const crop = page.getCropBox();
+    const media = page.getMediaBox();
+    const x0 = Math.max(crop.x, media.x);
+    const y0 = Math.max(crop.y, media.y);
+    const x1 = Math.min(crop.x + crop.width, media.x + media.width);
+    const y1 = Math.min(crop.y + crop.height, media.y + media.height);
+    const width = x1 - x0;
+    const height = y1 - y0;
+    const rotation = (((page.getRotation().angle % 360) + 360) % 360) as
+      | 0
+      | 90
+      | 180
+      | 270;
+
+    const toUser = (nx: number, ny: number): [number, number] => {
+      switch (rotation) {
+        case 90:
+          return [x0 + ny * width, y0 + nx * height];
+        case 180:
+          return [x1 - nx * width, y0 + ny * height];
+        case 270:
+          return [x1 - ny * width, y1 - nx * height];
+        default:
+          return [x0 + nx * width, y1 - ny * height];
+      }
+    };
+
+    const [ax, ay] = toUser(region.x, region.y);
+    const [bx, by] = toUser(region.x + region.width, region.y + region.height);
+
+    return {
+      x0: Math.min(ax, bx),
+      y0: Math.min(ay, by),
+      x1: Math.max(ax, bx),
+      y1: Math.max(ay, by),
+    };
+  }
+
+  /**
+   * Rewrite one page. Nothing on the page is changed unless every part of it
+   * could be redacted
+   */
+  private async redactPage(
+    context: PDFContext,
+    page: PDFPage,
+    boxes: Box[],
+    report: PDFRedactionReport,
+  ): Promise<void> {
+    const node = page.node;
+    const resources = this.cloneResources(
+      context,
+      node.Resources() ?? context.obj({}),
+    );
+    const content = this.readContents(context, node.Contents());
+    const taintedMCIDs = new Set<number>();
+    const redacted = await this.redactContent(
+      context,
+      content,
+      resources,
+      IDENTITY,
+      boxes,
+      report,
+      taintedMCIDs,
+      0,
+    );
+
+    // Restore the default graphics state before drawing the black boxes
+    const cover = boxes
+      .map(
+        (box) =>
+          `${formatNumber(box.x0)} ${formatNumber(box.y0)} ${formatNumber(box.x1 - box.x0)} ${formatNumber(box.y1 - box.y0)} re`,
+      )
+      .join("\n");
+    const body = concatBytes([
+      encodeAscii("q\n"),
+      redacted,
+      encodeAscii(`\nQ\nq 0 g\n${cover}\nf\nQ\n`),
+    ]);
+
+    const annots = node.Annots();
+    const keptAnnots: PDFObject[] = [];
+    if (annots) {
+      for (let i = 0; i < annots.size(); i++) {
+        const annot = annots.lookupMaybe(i, PDFDict);
+        const rect = annot?.lookupMaybe(PDFName.of("Rect"), PDFArray);
+        const annotBox = rect ? this.arrayToBox(rect) : null;
+
+        if (annotBox && boxes.some((box) => overlapArea(box, annotBox) > 0)) {
+          report.annotationsRemoved++;
+        } else {
+          keptAnnots.push(annots.get(i));
+        }
+      }
+    }
+
+    // Commit the rewritten page
+    node.set(
+      PDFName.of("Contents"),
+      context.register(context.flateStream(body)),
+    );
+    node.set(PDFName.of("Resources"), resources);
+    if (annots) {
+      node.set(PDFName.of("Annots"), context.obj(keptAnnots));
+    }
+    if (taintedMCIDs.size > 0) {
+      this.stripStructureText(context, page.ref, taintedMCIDs);
+    }
+  }
+
+  /**
+   * Interpret a content stream and return it with redacted content removed
+   * @param taintedMCIDs - Collects the marked-content identifiers of tagged
+   * content that lost glyphs
+   */
+  private async redactContent(
+    context: PDFContext,
+    content: Uint8Array,
+    resources: PDFDict,
+    baseMatrix: Matrix,
+    boxes: Box[],
+    report: PDFRedactionReport,
+    taintedMCIDs: Set<number>,
+    depth: number,
+  ): Promise<Uint8Array> {
+    if (depth > MAX_FORM_DEPTH) {
+      throw new UnsupportedContentError("Form XObjects are nested too deeply");
+    }
+
+    const operations = parseContentStream(content);
+    const chunks: Array<Uint8Array | string> = [];
+    const stack: GraphicsState[] = [];
+    const markedContent: MarkedContent[] = [];
+    const tainted: MarkedContent[] = [];
+    // XObject names drawn as-is, and names replaced by a redacted copy
+    const keptXObjects = new Set<string>();
+    const replacedXObjects = new Set<string>();
+    let state: GraphicsState = {
+      ctm: baseMatrix,
+      font: null,
+      fontSize: 0,
+      charSpacing: 0,
+      wordSpacing: 0,
+      horizontalScale: 1,
+      leading: 0,
+      rise: 0,
+    };
+    let textMatrix: Matrix = IDENTITY;
+    let lineMatrix: Matrix = IDENTITY;
+
+    const num = (operand: ContentOperand | undefined): number =>
+      operand?.type === "number" ? operand.value : 0;
+
+    const moveToNextLine = (tx: number, ty: number) => {
+      lineMatrix = multiply([1, 0, 0, 1, tx, ty], lineMatrix);
+      textMatrix = lineMatrix;
+    };
+
+    const showText = (items: ContentOperand[]): ContentOperand[] | null => {
+      const output: ContentOperand[] = [];
+      let removed = 0;
+
+      const pushString = (codes: number[]) => {
+        const last = output[output.length - 1];
+        if (last?.type === "string") {
+          last.bytes = Uint8Array.from([...last.bytes, ...codes]);
+        } else {
+          output.push({ type: "string", bytes: Uint8Array.from(codes) });
+        }
+      };
+      const pushOffset = (value: number) => {
+        const last = output[output.length - 1];
+        if (last?.type === "number") {
+          last.value += value;
+        } else {
+          output.push({ type: "number", value });
+        }
+      };
+
+      for (const item of items) {
+        if (item.type === "number") {
+          const tx =
+            -(item.value / 1000) * state.fontSize * state.horizontalScale;
+          textMatrix = multiply([1, 0, 0, 1, tx, 0], textMatrix);
+          pushOffset(item.value);
+          continue;
+        }
+        if (item.type !== "string") continue;
+
+        const font = state.font;
+        if (!font) {
+          throw new UnsupportedContentError("Text shown without a font");
+        }
+
+        const { bytes } = item;
+        for (let i = 0; i + font.bytesPerCode <= bytes.length; ) {
+          const codeBytes = Array.from(
+            bytes.subarray(i, i + font.bytesPerCode),
+          );
+          const code =
+            font.bytesPerCode === 2 ? (bytes[i] << 8) | bytes[i + 1] : bytes[i];
+          i += font.bytesPerCode;
+
+          const width = font.widthOf(code);
+          const wordSpacing =
+            font.bytesPerCode === 1 && code === 32 ? state.wordSpacing : 0;
+          const advance =
+            (width * font.fontMatrix[0] * state.fontSize +
+              state.charSpacing +
+              wordSpacing) *
+            state.horizontalScale;
+
+          const renderMatrix = multiply(
+            multiply(
+              font.fontMatrix,
+              multiply(
+                [
+                  state.fontSize * state.horizontalScale,
+                  0,
+                  0,
+                  state.fontSize,
+                  0,
+                  state.rise,
+                ],
+                textMatrix,
+              ),
+            ),
+            state.ctm,
+          );
+          const glyphBox = transformBox(
+            { x0: 0, y0: font.descent, x1: width, y1: font.ascent },
+            renderMatrix,
+          );
+
+          if (boxes.some((box) => isCovered(glyphBox, box))) {
+            removed++;
+            if (state.fontSize !== 0) {
+              pushOffset(
+                (-(advance / state.horizontalScale) * 1000) / state.fontSize,
+              );
+            }
+          } else {
+            pushString(codeBytes);
+          }
+
+          textMatrix = multiply([1, 0, 0, 1, advance, 0], textMatrix);
+        }
+      }
+
+      if (removed === 0) return null;
+
+      report.glyphsRemoved += removed;
+      for (const entry of markedContent) {
+        if (!entry.tainted) {
+          entry.tainted = true;
+          tainted.push(entry);
+        }
+      }
+      return output;
+    };
+
+    for (const op of operations) {
+      const raw = content.subarray(op.start, op.end);
+      const { operator, operands } = op;
+      let replacement: string | null = null;
+
+      switch (operator) {
+        case "q":
+          stack.push({ ...state });
+          break;
+        case "Q":
+          state = stack.pop() ?? state;
+          break;
+        case "cm":
+          state.ctm = multiply(
+            operands.slice(0, 6).map(num) as Matrix,
+            state.ctm,
+          );
+          break;
+        case "BT":
+          textMatrix = IDENTITY;
+          lineMatrix = IDENTITY;
+          break;
+        case "Tc":
+          state.charSpacing = num(operands[0]);
+          break;
+        case "Tw":
+          state.wordSpacing = num(operands[0]);
+          break;
+        case "Tz":
+          state.horizontalScale = num(operands[0]) / 100;
+          break;
+        case "TL":
+          state.leading = num(operands[0]);
+          break;
+        case "Ts":
+          state.rise = num(operands[0]);
+          break;
+        case "Tf": {
+          const name = operands[0];
+          state.font =
+            name?.type === "name" ? this.getFont(resources, name.value) : null;
+          state.fontSize = num(operands[1]);
+          break;
+        }
+        case "Td":
+          moveToNextLine(num(operands[0]), num(operands[1]));
+          break;
+        case "TD":
+          state.leading = -num(operands[1]);
+          moveToNextLine(num(operands[0]), num(operands[1]));
+          break;
+        case "Tm":
+          lineMatrix = operands.slice(0, 6).map(num) as Matrix;
+          textMatrix = lineMatrix;
+          break;
+        case "T*":
+          moveToNextLine(0, -state.leading);
+          break;
+        case "Tj":
+        case "TJ": {
+          const items =
+            operator === "TJ" && operands[0]?.type === "array"
+              ? operands[0].items
+              : operands.slice(0, 1);
+          const output = showText(items);
+          if (output) {
+            replacement = serializeOperation("TJ", [
+              { type: "array", items: output },
+            ]);
+          }
+          break;
+        }
+        case "'":
+        case '"': {
+          const prefix: string[] = [];
+          if (operator === '"') {
+            state.wordSpacing = num(operands[0]);
+            state.charSpacing = num(operands[1]);
+            prefix.push(
+              serializeOperation("Tw", [operands[0]]),
+              serializeOperation("Tc", [operands[1]]),
+            );
+          }
+          moveToNextLine(0, -state.leading);
+          const output = showText(operands.slice(operator === '"' ? 2 : 0));
+          if (output) {
+            replacement = [
+              ...prefix,
+              "T*",
+              serializeOperation("TJ", [{ type: "array", items: output }]),
+            ].join("\n");
+          }
+          break;
+        }
+        case "Do": {
+          const name = operands[0];
+          if (name?.type === "name") {
+            const newName = await this.redactXObject(
+              context,
+              resources,
+              name.value,
+              state.ctm,
+              boxes,
+              report,
+              taintedMCIDs,
+              depth,
+            );
+            if (newName) {
+              replacedXObjects.add(name.value);
+              replacement = serializeOperation("Do", [
+                { type: "name", value: newName },
+              ]);
+            } else {
+              keptXObjects.add(name.value);
+            }
+          }
+          break;
+        }
+        case "BI": {
+          const imageBox = transformBox(
+            { x0: 0, y0: 0, x1: 1, y1: 1 },
+            state.ctm,
+          );
+          if (boxes.some((box) => overlapArea(box, imageBox) > 0)) {
+            report.imagesRemoved++;
+            replacement = "";
+          }
+          break;
+        }
+        case "BMC":
+        case "BDC":
+          markedContent.push({
+            chunkIndex: chunks.length,
+            operands,
+            tainted: false,
+          });
+          break;
+        case "EMC":
+          markedContent.pop();
+          break;
+      }
+
+      chunks.push(replacement ?? raw);
+    }
+
+    // Unreferenced originals must not stay reachable from the resources
+    const xObjects = resources.lookupMaybe(PDFName.of("XObject"), PDFDict);
+    for (const name of replacedXObjects) {
+      if (!keptXObjects.has(name)) {
+        xObjects?.delete(PDFName.of(name));
+      }
+    }
+
+    // Drop alternate text copies from marked content around removed glyphs
+    for (const entry of tainted) {
+      const [tag, properties] = entry.operands;
+      let mcid: number | undefined;
+
+      if (properties?.type === "dict") {
+        const entries = new Map(properties.entries);
+        for (const key of TEXT_BEARING_PROPERTIES) {
+          entries.delete(key);
+        }
+        chunks[entry.chunkIndex] = serializeOperation("BDC", [
+          tag,
+          { type: "dict", entries },
+        ]);
+        const value = properties.entries.get("MCID");
+        mcid = value?.type === "number" ? value.value : undefined;
+      } else if (properties?.type === "name") {
+        mcid = this.stripNamedProperties(context, resources, properties.value);
+      }
+
+      if (mcid !== undefined) {
+        // Structure elements find tagged form content through the original
+        // stream, which is replaced by a copy
+        if (depth > 0) {
+          throw new UnsupportedContentError("Tagged content in a form XObject");
+        }
+        taintedMCIDs.add(mcid);
+      }
+    }
+
+    const newline = encodeAscii("\n");
+    return concatBytes(
+      chunks.flatMap((chunk) => [
+        typeof chunk === "string" ? encodeAscii(chunk) : chunk,
+        newline,
+      ]),
+    );
+  }
+
+  /**
+   * Replace a named marked-content property list with a copy that has no
+   * alternate text
+   * @returns The list's marked-content identifier, if it has one
+   */
+  private stripNamedProperties(
+    context: PDFContext,
+    resources: PDFDict,
+    name: string,
+  ): number | undefined {
+    const propertyLists = resources.lookupMaybe(
+      PDFName.of("Properties"),
+      PDFDict,
+    );
+    const properties = propertyLists?.lookupMaybe(PDFName.of(name), PDFDict);
+    if (!propertyLists || !properties) return undefined;
+
+    // Lists without alternate text, such as optional content groups, are
+    // left as they are, as viewers match those by reference
+    if (
+      TEXT_BEARING_PROPERTIES.some((key) => properties.has(PDFName.of(key)))
+    ) {
+      const listsClone = context.obj({});
+      copyDictEntries(propertyLists, listsClone, []);
+      const clone = context.obj({});
+      copyDictEntries(properties, clone, TEXT_BEARING_PROPERTIES);
+      listsClone.set(PDFName.of(name), clone);
+      resources.set(PDFName.of("Properties"), listsClone);
+    }
+
+    return properties.lookupMaybe(PDFName.of("MCID"), PDFNumber)?.asNumber();
+  }
+
+  /**
+   * Drop alternate text from the structure elements that contain the given
+   * marked content of a page, and from their ancestors
+   */
+  private stripStructureText(
+    context: PDFContext,
+    pageRef: PDFRef,
+    mcids: Set<number>,
+  ): void {
+    const root = this.getStructTreeRoot(context);
+    if (!root) return;
+
+    const visited = new Set<PDFDict>();
+    // Walks a /K entry; the page of a kid is inherited unless it has a /Pg
+    const visit = (
+      kid: PDFObject | undefined,
+      page: PDFObject | undefined,
+      elements: PDFDict[],
+    ) => {
+      const value = kid instanceof PDFRef ? context.lookup(kid) : kid;
+
+      if (value instanceof PDFNumber) {
+        if (page === pageRef && mcids.has(value.asNumber())) {
+          stripTextProperties(elements);
+        }
+      } else if (value instanceof PDFArray) {
+        for (let i = 0; i < value.size(); i++) {
+          visit(value.get(i), page, elements);
+        }
+      } else if (value instanceof PDFDict && !visited.has(value)) {
+        visited.add(value);
+        const type = value.lookup(PDFName.of("Type"));
+        const kidPage = value.get(PDFName.of("Pg")) ?? page;
+
+        if (type === PDFName.of("MCR")) {
+          const mcid = value.lookup(PDFName.of("MCID"));
+          if (
+            !value.has(PDFName.of("Stm")) &&
+            kidPage === pageRef &&
+            mcid instanceof PDFNumber &&
+            mcids.has(mcid.asNumber())
+          ) {
+            stripTextProperties(elements);
+          }
+        } else if (type !== PDFName.of("OBJR")) {
+          visit(value.get(PDFName.of("K")), kidPage, [...elements, value]);
+        }
+      }
+    };
+
+    visit(root.get(PDFName.of("K")), undefined, []);
+  }
+
+  /**
+   * Point the structure of a replaced page at its replacement
+   * Marked content and annotations of the old page no longer exist, so
+   * references to them are dropped, along with the alternate text of every
+   * element on the page and of its ancestors.
+   */
+  private moveStructure(
+    context: PDFContext,
+    fromRef: PDFRef,
+    toRef: PDFRef,
+  ): void {
+    const root = this.getStructTreeRoot(context);
+    if (!root) return;
+
+    const visited = new Set<PDFDict>();
+    // Walks a /K entry; returns false for a kid to drop from its parent
+    const visit = (
+      kid: PDFObject | undefined,
+      page: PDFObject | undefined,
+      elements: PDFDict[],
+    ): boolean => {
+      const value = kid instanceof PDFRef ? context.lookup(kid) : kid;
+
+      if (value instanceof PDFNumber) {
+        if (page !== fromRef) return true;
+        stripTextProperties(elements);
+        return false;
+      }
+      if (value instanceof PDFArray) {
+        for (let i = value.size() - 1; i >= 0; i--) {
+          if (!visit(value.get(i), page, elements)) value.remove(i);
+        }
+        return true;
+      }
+      if (!(value instanceof PDFDict) || visited.has(value)) return true;
+
+      visited.add(value);
+      const ownPage = value.get(PDFName.of("Pg"));
+      const kidPage = ownPage ?? page;
+      if (ownPage === fromRef) {
+        value.set(PDFName.of("Pg"), toRef);
+      }
+
+      const type = value.lookup(PDFName.of("Type"));
+      if (type === PDFName.of("MCR") || type === PDFName.of("OBJR")) {
+        if (kidPage !== fromRef || value.has(PDFName.of("Stm"))) return true;
+        stripTextProperties(elements);
+        return false;
+      }
+
+      const path = [...elements, value];
+      if (kidPage === fromRef) stripTextProperties(path);
+      if (!visit(value.get(PDFName.of("K")), kidPage, path)) {
+        value.delete(PDFName.of("K"));
+      }
+      return true;
+    };
+
+    visit(root.get(PDFName.of("K")), undefined, []);
+  }
+
+  private getStructTreeRoot(context: PDFContext): PDFDict | undefined {
+    const catalog = context.lookup(context.trailerInfo.Root);
+    const root =
+      catalog instanceof PDFDict
+        ? catalog.lookup(PDFName.of("StructTreeRoot"))
+        : undefined;
+    return root instanceof PDFDict ? root : undefined;
+  }
+
+  /**
+   * Redact an XObject drawn under the given CTM
+   * @returns The resource name of a redacted copy, or null if unaffected
+   */
+  private async redactXObject(
+    context: PDFContext,
+    resources: PDFDict,
+    name: string,
+    ctm: Matrix,
+    boxes: Box[],
+    report: PDFRedactionReport,
+    taintedMCIDs: Set<number>,
+    depth: number,
+  ): Promise<string | null> {
+    const xObjects = resources.lookupMaybe(PDFName.of("XObject"), PDFDict);
+    const stream = xObjects?.lookupMaybe(PDFName.of(name), PDFStream);
+    if (!xObjects || !(stream instanceof PDFRawStream)) return null;
+
+    const subtype = stream.dict.lookupMaybe(PDFName.of("Subtype"), PDFName);
+
+    if (subtype === PDFName.of("Image")) {
+      const imageBox = transformBox({ x0: 0, y0: 0, x1: 1, y1: 1 }, ctm);
+      const overlapping = boxes.filter((box) => overlapArea(box, imageBox) > 0);
+      if (overlapping.length === 0) return null;
+
+      const rects = overlapping.map((box) => boxToImageRect(box, ctm));
+      const redacted = await this.redactImage(context, stream, rects, "black");
+      if (!redacted) {
+        throw new UnsupportedContentError("Unsupported image encoding");
+      }
+
+      report.imagesRedacted++;
+      return this.addXObject(context, xObjects, redacted, "RdxIm");
+    }
+
+    if (subtype === PDFName.of("Form")) {
+      const matrixArray = stream.dict.lookupMaybe(
+        PDFName.of("Matrix"),
+        PDFArray,
+      );
+      const formMatrix = matrixArray
+        ? (matrixArray
+            .asArray()
+            .map((value) =>
+              value instanceof PDFNumber ? value.asNumber() : 0,
+            ) as Matrix)
+        : IDENTITY;
+      const matrix = multiply(formMatrix, ctm);
+
+      const bboxArray = stream.dict.lookupMaybe(PDFName.of("BBox"), PDFArray);
+      const formBox = bboxArray
+        ? transformBox(this.arrayToBox(bboxArray), matrix)
+        : null;
+      if (formBox && !boxes.some((box) => overlapArea(box, formBox) > 0)) {
+        return null;
+      }
+
+      const formResources = this.cloneResources(
+        context,
+        stream.dict.lookupMaybe(PDFName.of("Resources"), PDFDict) ?? resources,
+      );
+      const content = decodePDFRawStream(stream).decode();
+      const redacted = await this.redactContent(
+        context,
+        content,
+        formResources,
+        matrix,
+        boxes,
+        report,
+        taintedMCIDs,
+        depth + 1,
+      );
+
+      const form = context.flateStream(redacted);
+      copyDictEntries(stream.dict, form.dict, [
+        "Filter",
+        "DecodeParms",
+        "Length",
+      ]);
+      form.dict.set(PDFName.of("Resources"), formResources);
+      return this.addXObject(context, xObjects, form, "RdxFm");
+    }
+
+    return null;
+  }
+
+  /**
+   * Fill image pixels under the given rectangles
+   * @param fill - "black" for colour images, "opaque" for soft masks
+   * @returns A redacted copy of the image, or null if its encoding is not
+   * supported
+   */
+  private async redactImage(
+    context: PDFContext,
+    image: PDFRawStream,
+    rects: ImageRect[],
+    fill: "black" | "opaque",
+  ): Promise<PDFRawStream | null> {
+    const dict = image.dict;
+    const width = dict.lookupMaybe(PDFName.of("Width"), PDFNumber)?.asNumber();
+    const height = dict
+      .lookupMaybe(PDFName.of("Height"), PDFNumber)
+      ?.asNumber();
+    if (!width || !height) return null;
+    if (dict.lookup(PDFName.of("ImageMask"))?.toString() === "true")
+      return null;
+
+    const filters = this.getFilters(dict);
+    let redacted: PDFRawStream | null = null;
+
+    if (
+      filters.length === 1 &&
+      filters[0] === "DCTDecode" &&
+      fill === "black"
+    ) {
+      const jpeg = await this.redactJpeg(image.contents, rects);
+      redacted = context.stream(jpeg);
+      copyDictEntries(dict, redacted.dict, [
+        "Filter",
+        "DecodeParms",
+        "Length",
+        "ColorSpace",
+        "Decode",
+        "BitsPerComponent",
+      ]);
+      redacted.dict.set(PDFName.of("Filter"), PDFName.of("DCTDecode"));
+      redacted.dict.set(PDFName.of("ColorSpace"), PDFName.of("DeviceRGB"));
+      redacted.dict.set(PDFName.of("BitsPerComponent"), PDFNumber.of(8));
+    } else if (filters.every((filter) => filter !== "DCTDecode")) {
+      const components = this.getColorComponents(dict);
+      const bitsPerComponent = dict
+        .lookupMaybe(PDFName.of("BitsPerComponent"), PDFNumber)
+        ?.asNumber();
+      const params = dict.lookup(PDFName.of("DecodeParms"));
+      const predictor =
+        params instanceof PDFDict
+          ? params.lookupMaybe(PDFName.of("Predictor"), PDFNumber)?.asNumber()
+          : undefined;
+
+      if (
+        !components ||
+        bitsPerComponent !== 8 ||
+        dict.has(PDFName.of("Decode")) ||
+        (predictor !== undefined && predictor > 1)
+      ) {
+        return null;
+      }
+
+      let pixels: Uint8Array;
+      try {
+        pixels = decodePDFRawStream(image).decode();
+      } catch {
+        return null;
+      }
+      if (pixels.length < width * height * components) return null;
+
+      const value =
+        fill === "opaque"
+          ? [255]
+          : components === 4
+            ? [0, 0, 0, 255]
+            : new Array(components).fill(0);
+
+      for (const rect of rects) {
+        const { x0, y0, x1, y1 } = toPixelRect(rect, width, height);
+        for (let y = y0; y < y1; y++) {
+          for (let x = x0; x < x1; x++) {
+            pixels.set(value, (y * width + x) * components);
+          }
+        }
+      }
+
+      redacted = context.flateStream(pixels);
+      copyDictEntries(dict, redacted.dict, ["Filter", "DecodeParms", "Length"]);
+    } else {
+      return null;
+    }
+
+    // The soft mask can carry the same shapes as the image itself
+    const smask = dict.lookupMaybe(PDFName.of("SMask"), PDFStream);
+    if (smask instanceof PDFRawStream) {
+      const redactedMask = await this.redactImage(
+        context,
+        smask,
+        rects,
+        "opaque",
+      );
+      if (redactedMask) {
+        redacted.dict.set(PDFName.of("SMask"), context.register(redactedMask));
+      } else {
+        redacted.dict.delete(PDFName.of("SMask"));
+      }
+    }
+
+    return redacted;
+  }
+
+  /**
+   * Black out rectangles of a JPEG using the browser's decoder
+   */
+  private async redactJpeg(
+    data: Uint8Array,
+    rects: ImageRect[],
+  ): Promise<Uint8Array> {
+    const bitmap = await createImageBitmap(
+      new Blob([data as BlobPart], { type: "image/jpeg" }),
+    );
+    const canvas = document.createElement("canvas");
+    canvas.width = bitmap.width;
+    canvas.height = bitmap.height;
+
+    try {
+      const ctx = canvas.getContext("2d");
+      if (!ctx) {
+        throw new Error("Failed to get canvas context");
+      }
+
+      ctx.drawImage(bitmap, 0, 0);
+      ctx.fillStyle = "#000000";
+      for (const rect of rects) {
+        const { x0, y0, x1, y1 } = toPixelRect(
+          rect,
+          canvas.width,
+          canvas.height,
+        );
+        ctx.fillRect(x0, y0, x1 - x0, y1 - y0);
+      }
+
+      return await canvasToJpeg(canvas);
+    } finally {
+      bitmap.close();
+      canvas.width = 0;
+      canvas.height = 0;
+    }
+  }
+
+  /**
+   * Replace a page with a flattened image of itself
+   * The old page is emptied as well as removed: structure elements and
+   * destinations still point at it, which would keep its original content
+   * in the file.
+   */
+  private async flattenPage(
+    pdfDoc: PDFDocument,
+    index: number,
+    { canvas, width, height }: ExportPage,
+  ): Promise<void> {
+    try {
+      const image = await pdfDoc.embedJpg(await canvasToJpeg(canvas));
+      const page = pdfDoc.insertPage(index, [width, height]);
+      page.drawImage(image, { x: 0, y: 0, width, height });
+
+      const oldPage = pdfDoc.getPage(index + 1);
+      for (const key of [
+        "Contents",
+        "Resources",
+        "Annots",
+        "Thumb",
+        "StructParents",
+      ]) {
+        oldPage.node.delete(PDFName.of(key));
+      }
+      this.moveStructure(pdfDoc.context, oldPage.ref, page.ref);
+      pdfDoc.removePage(index + 1);
+    } finally {
+      // Release the canvas backing store
+      canvas.width = 0;
+      canvas.height = 0;
+    }
+  }
+
+  // Private helper methods
+
+  private readContents(
+    context: PDFContext,
+    contents: PDFStream | PDFArray | undefined,
+  ): Uint8Array {
+    if (!contents) return new Uint8Array();
+
+    const streams =
+      contents instanceof PDFArray
+        ? contents.asArray().map((ref) => context.lookup(ref))
+        : [contents];
+
+    // Separate streams so tokens cannot merge across stream boundaries
+    return concatBytes(
+      streams.flatMap((stream) => {
+        if (!(stream instanceof PDFRawStream)) {
+          throw new UnsupportedContentError("Unexpected page content stream");
+        }
+        return [decodePDFRawStream(stream).decode(), encodeAscii("\n")];
+      }),
+    );
+  }
+
+  /**
+   * Shallow-copy a resource dictionary so new XObjects can be added without
+   * affecting other pages that share it
+   */
+  private cloneResources(context: PDFContext, resources: PDFDict): PDFDict {
+    const clone = context.obj({});
+    copyDictEntries(resources, clone, []);
+
+    const xObjects = resources.lookupMaybe(PDFName.of("XObject"), PDFDict);
+    if (xObjects) {
+      const xObjectsClone = context.obj({});
+      copyDictEntries(xObjects, xObjectsClone, []);
+      clone.set(PDFName.of("XObject"), xObjectsClone);
+    }
+
+    return clone;
+  }
+
+  private addXObject(
+    context: PDFContext,
+    xObjects: PDFDict,
+    stream: PDFRawStream,
+    prefix: string,
+  ): string {
+    let index = 0;
+    while (xObjects.has(PDFName.of(`${prefix}${index}`))) index++;
+
+    const name = `${prefix}${index}`;
+    xObjects.set(PDFName.of(name), context.register(stream));
+    return name;
+  }
+
+  private getFilters(dict: PDFDict): string[] {
+    const filter = dict.lookup(PDFName.of("Filter"));
+    if (filter instanceof PDFName) return [filter.decodeText()];
+    if (filter instanceof PDFArray) {
+      return filter
+        .asArray()
+        .map((item) => (item instanceof PDFName ? item.decodeText() : ""));
+    }
+    return [];
+  }
+
+  private getColorComponents(dict: PDFDict): number | null {
+    const colorSpace = dict.lookup(PDFName.of("ColorSpace"));
+    const family =
+      colorSpace instanceof PDFArray
+        ? colorSpace.lookupMaybe(0, PDFName)
+        : colorSpace instanceof PDFName
+          ? colorSpace
+          : undefined;
+
+    switch (family?.decodeText()) {
+      case "DeviceGray":
+      case "CalGray":
+        return 1;
+      case "DeviceRGB":
+      case "CalRGB":
+        return 3;
+      case "DeviceCMYK":
+        return 4;
+      case "ICCBased": {
+        const profile = (colorSpace as PDFArray).lookupMaybe(1, PDFStream);
+        const n = profile?.dict
+          .lookupMaybe(PDFName.of("N"), PDFNumber)
+          ?.asNumber();
+        return n === 1 || n === 3 || n === 4 ? n : null;
+      }
+      default:
+        return null;
+    }
+  }
+
+  private getFont(resources: PDFDict, name: string): FontInfo | null {
+    const fonts = resources.lookupMaybe(PDFName.of("Font"), PDFDict);
+    const font = fonts?.lookupMaybe(PDFName.of(name), PDFDict);
+    if (!font) return null;
+
+    const cached = this.fontCache.get(font);
+    if (cached) return cached;
+
+    const info = this.readFont(font);
+    this.fontCache.set(font, info);
+    return info;
+  }
+
+  /**
+   * Read the metrics needed to position glyphs of a font
+   */
+  private readFont(font: PDFDict): FontInfo {
+    const subtype = font
+      .lookupMaybe(PDFName.of("Subtype"), PDFName)
+      ?.decodeText();
+    const numberAt = (dict: PDFDict | undefined, key: string) =>
+      dict?.lookupMaybe(PDFName.of(key), PDFNumber)?.asNumber();
+
+    if (subtype === "Type0") {
+      // Other CMaps use codes of varying length, or write vertically, so
+      // glyphs cannot be told apart or placed
+      const encoding = font.lookup(PDFName.of("Encoding"));
+      if (
+        !(encoding instanceof PDFName) ||
+        encoding.decodeText() !== "Identity-H"
+      ) {
+        throw new UnsupportedContentError("Unsupported CMap for Type0 font");
+      }
+
+      const descendants = font.lookupMaybe(
+        PDFName.of("DescendantFonts"),
+        PDFArray,
+      );
+      const cidFont = descendants?.lookupMaybe(0, PDFDict);
+      const descriptor = cidFont?.lookupMaybe(
+        PDFName.of("FontDescriptor"),
+        PDFDict,
+      );
+      const defaultWidth = numberAt(cidFont, "DW") ?? 1000;
+      const widths = this.readCIDWidths(
+        cidFont?.lookupMaybe(PDFName.of("W"), PDFArray),
+      );
+
+      return {
+        bytesPerCode: 2,
+        fontMatrix: DEFAULT_FONT_MATRIX,
+        ...this.readVerticalMetrics(descriptor),
+        widthOf: (code) => widths.get(code) ?? defaultWidth,
+      };
+    }
+
+    const descriptor = font.lookupMaybe(PDFName.of("FontDescriptor"), PDFDict);
+    const firstChar = numberAt(font, "FirstChar") ?? 0;
+    const widthsArray = font.lookupMaybe(PDFName.of("Widths"), PDFArray);
+    const widths = widthsArray
+      ? widthsArray
+          .asArray()
+          .map((_, i) => widthsArray.lookupMaybe(i, PDFNumber)?.asNumber() ?? 0)
+      : null;
+    const fallbackWidth = widths
+      ? (numberAt(descriptor, "MissingWidth") ?? 0)
+      : null;
+    const standardWidth = this.standardFontWidths(font);
+
+    let fontMatrix = DEFAULT_FONT_MATRIX;
+    let verticalMetrics = this.readVerticalMetrics(descriptor);
+
+    if (subtype === "Type3") {
+      const matrix = font.lookupMaybe(PDFName.of("FontMatrix"), PDFArray);
+      if (matrix) {
+        fontMatrix = matrix
+          .asArray()
+          .map(
+            (_, i) => matrix.lookupMaybe(i, PDFNumber)?.asNumber() ?? 0,
+          ) as Matrix;
+      }
+      const bbox = font.lookupMaybe(PDFName.of("FontBBox"), PDFArray);
+      const box = bbox ? this.arrayToBox(bbox) : null;
+      verticalMetrics =
+        box && box.y1 > box.y0
+          ? { ascent: box.y1, descent: box.y0 }
+          : { ascent: 0.8 / fontMatrix[3], descent: -0.2 / fontMatrix[3] };
+    }
+
+    return {
+      bytesPerCode: 1,
+      fontMatrix,
+      ...verticalMetrics,
+      widthOf: (code) =>
+        widths?.[code - firstChar] ?? fallbackWidth ?? standardWidth(code),
+    };
+  }
+
+  private readVerticalMetrics(descriptor: PDFDict | undefined): {
+    ascent: number;
+    descent: number;
+  } {
+    const ascent = descriptor
+      ?.lookupMaybe(PDFName.of("Ascent"), PDFNumber)
+      ?.asNumber();
+    const descent = descriptor
+      ?.lookupMaybe(PDFName.of("Descent"), PDFNumber)
+      ?.asNumber();
+
+    return {
+      ascent: ascent && ascent > 0 ? ascent : 800,
+      descent: descent && descent < 0 ? descent : -200,
+    };
+  }
+
+  /**
+   * Parse a CID font /W array: `c [w1 w2 ...]` or `cFirst cLast w`
+   */
+  private readCIDWidths(array: PDFArray | undefined): Map<number, number> {
+    const widths = new Map<number, number>();
+    if (!array) return widths;
+
+    const items = array.asArray().map((_, i) => array.lookup(i));
+    for (let i = 0; i < items.length; ) {
+      const first = items[i];
+      const next = items[i + 1];
+      if (!(first instanceof PDFNumber)) break;
+
+      if (next instanceof PDFArray) {
+        next.asArray().forEach((_, j) => {
+          const width = next.lookupMaybe(j, PDFNumber)?.asNumber();
+          if (width !== undefined) widths.set(first.asNumber() + j, width);
+        });
+        i += 2;
+      } else {
+        const last =
+          next instanceof PDFNumber ? next.asNumber() : first.asNumber();
+        const width = items[i + 2];
+        if (width instanceof PDFNumber) {
+          for (let cid = first.asNumber(); cid <= last; cid++) {
+            widths.set(cid, width.asNumber());
+          }
+        }
+        i += 3;
+      }
+    }
+
+    return widths;
+  }
+
+  /**
+   * Widths for non-embedded standard fonts, which may omit /Widths
+   */
+  private standardFontWidths(font: PDFDict): (code: number) => number {
+    const baseFont = font
+      .lookupMaybe(PDFName.of("BaseFont"), PDFName)
+      ?.decodeText()
+      .replace(/^[A-Z]{6}\+/, "")
+      .replace(/(MT|PS)$/, "")
+      .replace(",", "-");
+    const standardName =
+      baseFont && STANDARD_FONT_NAMES.has(baseFont)
+        ? baseFont
+        : baseFont
+          ? STANDARD_FONT_ALIASES[baseFont]
+          : undefined;
+
+    if (!standardName) {
+      return () => 500;
+    }
+
+    const embedder = StandardFontEmbedder.for(
+      standardName as Parameters<typeof StandardFontEmbedder.for>[0],
+    );
+    return (code) => {
+      try {
+        return embedder.widthOfTextAtSize(String.fromCharCode(code), 1000);
+      } catch {
+        return 500;
+      }
+    };
+  }
+
+  private arrayToBox(array: PDFArray): Box {
+    const [x0, y0, x1, y1] = array
+      .asArray()
+      .map((_, i) => array.lookupMaybe(i, PDFNumber)?.asNumber() ?? 0);
+    return {
+      x0: Math.min(x0, x1),
+      y0: Math.min(y0, y1),
+      x1: Math.max(x0, x1),
+      y1: Math.max(y0, y1),
+    };
+  }
+}
+
+function createReport(): PDFRedactionReport {
+  return {
+    glyphsRemoved: 0,
+    imagesRedacted: 0,
+    imagesRemoved: 0,
+    annotationsRemoved: 0,
+    rasterizedPages: [],
+    sanitization: { findings: [] },
+  };
+}
+
+function multiply(m1: Matrix, m2: Matrix): Matrix {
+  return [
+    m1[0] * m2[0] + m1[1] * m2[2],
+    m1[0] * m2[1] + m1[1] * m2[3],
+    m1[2] * m2[0] + m1[3] * m2[2],
+    m1[2] * m2[1] + m1[3] * m2[3],
+    m1[4] * m2[0] + m1[5] * m2[2] + m2[4],
+    m1[4] * m2[1] + m1[5] * m2[3] + m2[5],
+  ];
+}
+
+function invert(m: Matrix): Matrix | null {
+  const det = m[0] * m[3] - m[1] * m[2];
+  if (Math.abs(det) < 1e-12) return null;
+
+  return [
+    m[3] / det,
+    -m[1] / det,
+    -m[2] / det,
+    m[0] / det,
+    (m[2] * m[5] - m[3] * m[4]) / det,
+    (m[1] * m[4] - m[0] * m[5]) / det,
+  ];
+}
+
+/**
+ * Transform a box and return the axis-aligned bounds of the result
+ */
+function transformBox(box: Box, m: Matrix): Box {
+  const points = [
+    [box.x0, box.y0],
+    [box.x1, box.y0],
+    [box.x0, box.y1],
+    [box.x1, box.y1],
+  ].map(([x, y]) => [x * m[0] + y * m[2] + m[4], x * m[1] + y * m[3] + m[5]]);
+  const xs = points.map((p) => p[0]);
+  const ys = points.map((p) => p[1]);
+
+  return {
+    x0: Math.min(...xs),
+    y0: Math.min(...ys),
+    x1: Math.max(...xs),
+    y1: Math.max(...ys),
+  };
+}
+
+function overlapArea(a: Box, b: Box): number {
+  const width = Math.min(a.x1, b.x1) - Math.max(a.x0, b.x0);
+  const height = Math.min(a.y1, b.y1) - Math.max(a.y0, b.y0);
+  return width > 0 && height > 0 ? width * height : 0;
+}
+
+/**
+ * Decide whether a glyph is covered by a region. Compares against the smaller
+ * of the two areas, so small regions over large glyphs also count
+ */
+function isCovered(glyph: Box, region: Box): boolean {
+  const glyphArea = (glyph.x1 - glyph.x0) * (glyph.y1 - glyph.y0);
+  const regionArea = (region.x1 - region.x0) * (region.y1 - region.y0);
+
+  // Zero-width glyphs are judged by their origin
+  if (glyphArea <= 0) {
+    return (
+      glyph.x0 >= region.x0 &&
+      glyph.x0 <= region.x1 &&
+      glyph.y0 >= region.y0 &&
+      glyph.y0 <= region.y1
+    );
+  }
+
+  return (
+    overlapArea(glyph, region) >=
+    GLYPH_OVERLAP_THRESHOLD * Math.min(glyphArea, regionArea)
+  );
+}
+
+/**
+ * Map a user-space box into fractions of an image drawn under the given CTM
+ */
+function boxToImageRect(box: Box, ctm: Matrix): ImageRect {
+  const inverse = invert(ctm);
+  if (!inverse) return { left: 0, top: 0, right: 1, bottom: 1 };
+
+  // Image space is the unit square with its origin at the bottom-left
+  const unit = transformBox(box, inverse);
+  return {
+    left: Math.max(0, unit.x0),
+    top: Math.max(0, 1 - unit.y1),
+    right: Math.min(1, unit.x1),
+    bottom: Math.min(1, 1 - unit.y0),
+  };
+}
+
+/**
+ * Convert an image rectangle into whole pixels, rounding outwards
+ */
+function toPixelRect(rect: ImageRect, width: number, height: number): Box {
+  return {
+    x0: Math.max(0, Math.floor(rect.left * width)),
+    y0: Math.max(0, Math.floor(rect.top * height)),
+    x1: Math.min(width, Math.ceil(rect.right * width)),
+    y1: Math.min(height, Math.ceil(rect.bottom * height)),
+  };
+}
+
+/**
+ * Remove the entries that can carry a copy of the text from structure
+ * elements or property lists
+ */
+function stripTextProperties(dicts: PDFDict[]): void {
+  for (const dict of dicts) {
+    for (const key of TEXT_BEARING_PROPERTIES) {
+      dict.delete(PDFName.of(key));
+    }
+  }
+}
+
+function copyDictEntries(from: PDFDict, to: PDFDict, skip: string[]): void {
+  for (const [key, value] of from.entries()) {
+    if (!skip.includes(key.decodeText())) {
+      to.set(key, value);
+    }
+  }
+}
+
+function encodeAscii(text: string): Uint8Array {
+  return new TextEncoder().encode(text);
+}
+
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+function canvasToJpeg(canvas: HTMLCanvasElement): Promise<Uint8Array> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => {
+        if (!blob) {
+          reject(new Error("Failed to create image blob"));
+          return;
+        }
+        blob
+          .arrayBuffer()
+          .then((buffer) => resolve(new Uint8Array(buffer)))
+          .catch(reject);
+      },
+      "image/jpeg",
+      0.95,
+    );
+  });
+}
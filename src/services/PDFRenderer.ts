@@ -1,10 +1,24 @@
-import type { PDFDocumentProxy, RenderTask } from "pdfjs-dist";
+import type { PageViewport, PDFDocumentProxy, RenderTask } from "pdfjs-dist";
 import * as pdfjsLib from "pdfjs-dist";
 import type {
+  BoundingBox,
   PDFRenderer as IPDFRenderer,
+  OCRResult,
+  OCRWord,
   PageDimensions,
 } from "../types/redaction";
 
+// Fallbacks when a font does not report its metrics, as fractions of font size
+const DEFAULT_ASCENT = 0.8;
+const DEFAULT_DESCENT = -0.2;
+
+// Images smaller than this fraction of the page (logos, icons, bullets) are
+// not worth running OCR for
+const MIN_IMAGE_AREA = 0.01;
+
+// [a b c d e f], applied to row vectors as in the PDF specification
+type Matrix = [number, number, number, number, number, number];
+
 // Configure PDF.js worker
 pdfjsLib.GlobalWorkerOptions.workerSrc = new URL(
   "pdfjs-dist/build/pdf.worker.min.mjs",
@@ -190,11 +204,16 @@ export class PDFRenderer implements IPDFRenderer {
   }
 
   /**
-   * Extract a page as ImageData for OCR processing
+   * Render a page to a new off-screen canvas at the given scale
+   * The caller owns the returned canvas and should release it when done
    * @param pageNumber - Page number (1-indexed)
-   * @returns ImageData object
+   * @param scale - Render scale (1.0 = 72 DPI, PDF points to pixels)
+   * @returns Off-screen canvas containing the rendered page
    */
-  async extractPageAsImage(pageNumber: number): Promise<ImageData> {
+  async renderPageToCanvas(
+    pageNumber: number,
+    scale: number,
+  ): Promise<HTMLCanvasElement> {
     if (!this.pdfDocument) {
       throw new Error("No PDF document loaded");
     }
@@ -205,18 +224,22 @@ export class PDFRenderer implements IPDFRenderer {
 
     try {
       const page = await this.pdfDocument.getPage(pageNumber);
-      const viewport = page.getViewport({ scale: 2.0 }); // Higher scale for better OCR
+      const viewport = page.getViewport({ scale });
 
       // Create off-screen canvas
       const canvas = document.createElement("canvas");
-      canvas.width = viewport.width;
-      canvas.height = viewport.height;
+      canvas.width = Math.floor(viewport.width);
+      canvas.height = Math.floor(viewport.height);
 
       const context = canvas.getContext("2d");
       if (!context) {
         throw new Error("Failed to get canvas 2D context");
       }
 
+      // Fill with white background so transparent areas don't turn black
+      context.fillStyle = "#ffffff";
+      context.fillRect(0, 0, canvas.width, canvas.height);
+
       const renderContext = {
         canvasContext: context,
         viewport: viewport,
@@ -225,12 +248,304 @@ export class PDFRenderer implements IPDFRenderer {
       // @ts-expect-error - pdfjs-dist types may not match runtime API
       await page.render(renderContext).promise;
 
+      return canvas;
+    } catch (error) {
+      throw new Error(
+        `Failed to render page ${pageNumber} off-screen: ${error instanceof Error ? error.message : "Unknown error"}`,
+      );
+    }
+  }
+
+  /**
+   * Extract a page as ImageData for OCR processing
+   * @param pageNumber - Page number (1-indexed)
+   * @param scale - Render scale (higher scale gives better OCR accuracy)
+   * @returns ImageData object
+   */
+  async extractPageAsImage(
+    pageNumber: number,
+    scale = 2.0,
+  ): Promise<ImageData> {
+    const canvas = await this.renderPageToCanvas(pageNumber, scale);
+
+    try {
+      const context = canvas.getContext("2d");
+      if (!context) {
+        throw new Error("Failed to get canvas 2D context");
+      }
+
       // Extract ImageData
       return context.getImageData(0, 0, canvas.width, canvas.height);
     } catch (error) {
       throw new Error(
         `Failed to extract page as image: ${error instanceof Error ? error.message : "Unknown error"}`,
       );
+    } finally {
+      // Release the canvas backing store
+      canvas.width = 0;
+      canvas.height = 0;
     }
   }
+
+  /**
+   * Extract the page's native text layer as words with exact boxes
+   * Words are split at whitespace; glyph positions within a text item are
+   * interpolated by character. Boxes are in normalized page coordinates and
+   * confidence is 100. Scanned pages return no words.
+   * @param pageNumber - Page number (1-indexed)
+   * @returns Text and words in reading order of the content stream
+   */
+  async getTextContent(pageNumber: number): Promise<OCRResult> {
+    if (!this.pdfDocument) {
+      throw new Error("No PDF document loaded");
+    }
+
+    if (pageNumber < 1 || pageNumber > this.pdfDocument.numPages) {
+      throw new Error(`Invalid page number: ${pageNumber}`);
+    }
+
+    try {
+      const page = await this.pdfDocument.getPage(pageNumber);
+      const viewport = page.getViewport({ scale: 1.0 });
+      const content = await page.getTextContent();
+
+      // One box per character of text; null for inserted line breaks
+      let text = "";
+      const charBoxes: Array<BoundingBox | null> = [];
+
+      for (const item of content.items) {
+        if (!("str" in item)) continue;
+
+        const style = content.styles[item.fontName];
+        const [a, b, c, d, e, f] = item.transform as Matrix;
+        const fontSize = Math.hypot(c, d);
+        const length = Array.from(item.str).length;
+
+        if (fontSize > 0 && length > 0) {
+          const ascent = style?.ascent || DEFAULT_ASCENT;
+          const descent = style?.descent || DEFAULT_DESCENT;
+          // Unit vectors along the baseline and towards the top of the glyphs
+          const along = this.unitVector(a, b);
+          const up = this.unitVector(c, d);
+          const advance = style?.vertical ? item.height : item.width;
+
+          Array.from(item.str).forEach((char, index) => {
+            const box = style?.vertical
+              ? this.glyphBox(
+                  viewport,
+                  [e, f],
+                  up,
+                  along,
+                  [
+                    -(index + 1) * (advance / length),
+                    -index * (advance / length),
+                  ],
+                  [-fontSize / 2, fontSize / 2],
+                )
+              : this.glyphBox(
+                  viewport,
+                  [e, f],
+                  along,
+                  up,
+                  [
+                    index * (advance / length),
+                    (index + 1) * (advance / length),
+                  ],
+                  [descent * fontSize, ascent * fontSize],
+                );
+            text += char;
+            charBoxes.push(box);
+          });
+        }
+
+        if (item.hasEOL) {
+          text += "\n";
+          charBoxes.push(null);
+        }
+      }
+
+      return this.buildWords(text, charBoxes);
+    } catch (error) {
+      throw new Error(
+        `Failed to read text layer of page ${pageNumber}: ${error instanceof Error ? error.message : "Unknown error"}`,
+      );
+    }
+  }
+
+  /**
+   * Find where images are drawn on a page, including inside form XObjects
+   * Used to decide which parts of a page with a text layer still need OCR
+   * @param pageNumber - Page number (1-indexed)
+   * @returns Bounding boxes of the images in normalized page coordinates
+   */
+  async getImageRegions(pageNumber: number): Promise<BoundingBox[]> {
+    if (!this.pdfDocument) {
+      throw new Error("No PDF document loaded");
+    }
+
+    if (pageNumber < 1 || pageNumber > this.pdfDocument.numPages) {
+      throw new Error(`Invalid page number: ${pageNumber}`);
+    }
+
+    try {
+      const page = await this.pdfDocument.getPage(pageNumber);
+      const viewport = page.getViewport({ scale: 1.0 });
+      const { fnArray, argsArray } = await page.getOperatorList();
+      const { OPS } = pdfjsLib;
+
+      const regions: BoundingBox[] = [];
+      const stack: Matrix[] = [];
+      let ctm: Matrix = [1, 0, 0, 1, 0, 0];
+
+      fnArray.forEach((fn, index) => {
+        const args = argsArray[index];
+
+        switch (fn) {
+          case OPS.save:
+            stack.push(ctm);
+            break;
+          case OPS.restore:
+            ctm = stack.pop() ?? ctm;
+            break;
+          case OPS.transform:
+            ctm = this.multiply(args as Matrix, ctm);
+            break;
+          case OPS.paintFormXObjectBegin:
+            stack.push(ctm);
+            if (args?.[0]) ctm = this.multiply(args[0] as Matrix, ctm);
+            break;
+          case OPS.paintFormXObjectEnd:
+            ctm = stack.pop() ?? ctm;
+            break;
+          case OPS.paintImageXObject:
+          case OPS.paintInlineImageXObject:
+          case OPS.paintImageMaskXObject: {
+            // Images fill the unit square of the current transformation
+            const box = this.glyphBox(
+              viewport,
+              [ctm[4], ctm[5]],
+              [ctm[0], ctm[1]],
+              [ctm[2], ctm[3]],
+              [0, 1],
+              [0, 1],
+            );
+            const area = (box.x1 - box.x0) * (box.y1 - box.y0);
+            if (area >= MIN_IMAGE_AREA) regions.push(box);
+            break;
+          }
+        }
+      });
+
+      return regions;
+    } catch (error) {
+      throw new Error(
+        `Failed to find images on page ${pageNumber}: ${error instanceof Error ? error.message : "Unknown error"}`,
+      );
+    }
+  }
+
+  /**
+   * Group characters into whitespace-separated words, keeping each
+   * character's box as a symbol
+   */
+  private buildWords(
+    text: string,
+    charBoxes: Array<BoundingBox | null>,
+  ): OCRResult {
+    const chars = Array.from(text);
+    const words: OCRWord[] = [];
+    let current: OCRWord | null = null;
+    // Offset of the character in text, which counts UTF-16 code units
+    let offset = 0;
+
+    for (let index = 0; index < chars.length; index++) {
+      const char = chars[index];
+      const box = charBoxes[index];
+
+      if (/\s/.test(char) || !box) {
+        if (current) words.push(current);
+        current = null;
+      } else if (!current) {
+        current = {
+          text: char,
+          bbox: { ...box },
+          confidence: 100,
+          start: offset,
+          end: offset + char.length,
+          symbols: Array(char.length).fill(box),
+        };
+      } else {
+        current.text += char;
+        current.end += char.length;
+        current.symbols?.push(...Array(char.length).fill(box));
+        current.bbox = {
+          x0: Math.min(current.bbox.x0, box.x0),
+          y0: Math.min(current.bbox.y0, box.y0),
+          x1: Math.max(current.bbox.x1, box.x1),
+          y1: Math.max(current.bbox.y1, box.y1),
+        };
+      }
+
+      offset += char.length;
+    }
+
+    if (current) words.push(current);
+
+    return {
+      text,
+      words,
+      confidence: words.length > 0 ? 100 : 0,
+    };
+  }
+
+  /**
+   * Map a parallelogram in PDF user space to a normalized page box
+   * The parallelogram starts at origin and spans the given ranges along two
+   * (not necessarily unit) axis vectors
+   */
+  private glyphBox(
+    viewport: PageViewport,
+    origin: [number, number],
+    axisU: [number, number],
+    axisV: [number, number],
+    [u0, u1]: [number, number],
+    [v0, v1]: [number, number],
+  ): BoundingBox {
+    const xs: number[] = [];
+    const ys: number[] = [];
+
+    for (const u of [u0, u1]) {
+      for (const v of [v0, v1]) {
+        const [x, y] = viewport.convertToViewportPoint(
+          origin[0] + axisU[0] * u + axisV[0] * v,
+          origin[1] + axisU[1] * u + axisV[1] * v,
+        );
+        xs.push(x);
+        ys.push(y);
+      }
+    }
+
+    return {
+      x0: Math.max(0, Math.min(...xs) / viewport.width),
+      y0: Math.max(0, Math.min(...ys) / viewport.height),
+      x1: Math.min(1, Math.max(...xs) / viewport.width),
+      y1: Math.min(1, Math.max(...ys) / viewport.height),
+    };
+  }
+
+  private unitVector(x: number, y: number): [number, number] {
+    const length = Math.hypot(x, y) || 1;
+    return [x / length, y / length];
+  }
+
+  private multiply(m1: Matrix, m2: Matrix): Matrix {
+    return [
+      m1[0] * m2[0] + m1[1] * m2[2],
+      m1[0] * m2[1] + m1[1] * m2[3],
+      m1[2] * m2[0] + m1[3] * m2[2],
+      m1[2] * m2[1] + m1[3] * m2[3],
+      m1[4] * m2[0] + m1[5] * m2[2] + m2[4],
+      m1[4] * m2[1] + m1[5] * m2[3] + m2[5],
+    ];
+  }
 }
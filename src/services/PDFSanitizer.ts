@@ -0,0 +1,304 @@
+import {
+  PDFArray,
+  PDFDict,
+  type PDFDocument,
+  PDFName,
+  PDFStream,
+} from "pdf-lib";
+import type {
+  SanitizationCategory,
+  SanitizationFinding,
+  SanitizationReport,
+} from "../types/redaction";
+import { decodePDFText } from "../utils/pdfObjects";
+
+// Stop walking outline and field trees that are unreasonably deep or cyclic
+const MAX_TREE_NODES = 10000;
+
+/**
+ * PDFSanitizer removes metadata and hidden content from a PDF before export
+ *
+ * Strips the document info dictionary, XMP metadata streams, annotations,
+ * embedded files, form fields and their values, JavaScript and other
+ * automatic actions, bookmarks and page thumbnails. Removed objects stay in
+ * the document until removeUnreachableObjects runs.
+ */
+export class PDFSanitizer {
+  private findings = new Map<SanitizationCategory, SanitizationFinding>();
+
+  /**
+   * Sanitize a document in place
+   * @returns What was found and removed, by category
+   */
+  sanitize(pdfDoc: PDFDocument): SanitizationReport {
+    this.findings.clear();
+
+    this.removeDocumentInfo(pdfDoc);
+    this.removeXmpMetadata(pdfDoc);
+    this.removeEmbeddedFiles(pdfDoc);
+    this.removeFormFields(pdfDoc);
+    this.removeJavaScript(pdfDoc);
+    this.removeBookmarks(pdfDoc);
+    this.sanitizePages(pdfDoc);
+
+    return { findings: Array.from(this.findings.values()) };
+  }
+
+  // Private helper methods
+
+  private record(category: SanitizationCategory, detail?: string): void {
+    let finding = this.findings.get(category);
+    if (!finding) {
+      finding = { category, count: 0, details: [] };
+      this.findings.set(category, finding);
+    }
+
+    finding.count++;
+    if (detail && !finding.details.includes(detail)) {
+      finding.details.push(detail);
+    }
+  }
+
+  /**
+   * Only key names are reported, since the values themselves may be sensitive
+   */
+  private removeDocumentInfo(pdfDoc: PDFDocument): void {
+    const { context } = pdfDoc;
+    const info = context.lookupMaybe(context.trailerInfo.Info, PDFDict);
+
+    if (info) {
+      for (const [key] of info.entries()) {
+        this.record("document-info", key.decodeText());
+      }
+    }
+
+    context.trailerInfo.Info = undefined;
+  }
+
+  /**
+   * Remove /Metadata from the catalog, pages, images, fonts and any other
+   * object that carries an XMP packet
+   */
+  private removeXmpMetadata(pdfDoc: PDFDocument): void {
+    const metadataKey = PDFName.of("Metadata");
+
+    for (const [, object] of pdfDoc.context.enumerateIndirectObjects()) {
+      const dict =
+        object instanceof PDFStream
+          ? object.dict
+          : object instanceof PDFDict
+            ? object
+            : undefined;
+
+      if (dict?.has(metadataKey)) {
+        const type = dict.lookupMaybe(PDFName.of("Type"), PDFName);
+        const subtype = dict.lookupMaybe(PDFName.of("Subtype"), PDFName);
+        if (type?.decodeText() === "Metadata") continue;
+
+        dict.delete(metadataKey);
+        this.record(
+          "xmp-metadata",
+          (subtype ?? type)?.decodeText() ?? "Object",
+        );
+      }
+    }
+  }
+
+  private removeEmbeddedFiles(pdfDoc: PDFDocument): void {
+    const { catalog } = pdfDoc;
+    const names = catalog.lookupMaybe(PDFName.of("Names"), PDFDict);
+    const embeddedFiles = names?.lookupMaybe(
+      PDFName.of("EmbeddedFiles"),
+      PDFDict,
+    );
+
+    const fileNames = new Set<string>();
+    if (names && embeddedFiles) {
+      for (const fileName of this.collectNameTreeKeys(embeddedFiles)) {
+        fileNames.add(fileName);
+        this.record("embedded-files", fileName);
+      }
+      names.delete(PDFName.of("EmbeddedFiles"));
+    }
+
+    // Associated files (PDF 2.0) hang off the catalog directly, and often
+    // repeat files that are also in the name tree
+    const associated = catalog.lookupMaybe(PDFName.of("AF"), PDFArray);
+    if (associated) {
+      for (let i = 0; i < associated.size(); i++) {
+        const spec = associated.lookupMaybe(i, PDFDict);
+        const fileName =
+          decodePDFText(spec?.get(PDFName.of("UF"))) ??
+          decodePDFText(spec?.get(PDFName.of("F")));
+        if (fileName && fileNames.has(fileName)) continue;
+        this.record("embedded-files", fileName ?? undefined);
+      }
+      catalog.delete(PDFName.of("AF"));
+    }
+
+    this.removeEmptyNames(pdfDoc);
+  }
+
+  /**
+   * Remove the interactive form; widget annotations go with the page
+   * annotations. Only field names are reported, not their values.
+   */
+  private removeFormFields(pdfDoc: PDFDocument): void {
+    const { catalog } = pdfDoc;
+    const acroForm = catalog.lookupMaybe(PDFName.of("AcroForm"), PDFDict);
+    if (!acroForm) return;
+
+    const queue: PDFDict[] = [];
+    const fields = acroForm.lookupMaybe(PDFName.of("Fields"), PDFArray);
+    for (let i = 0; i < (fields?.size() ?? 0); i++) {
+      const field = fields?.lookupMaybe(i, PDFDict);
+      if (field) queue.push(field);
+    }
+
+    for (let visited = 0; queue.length > 0 && visited < MAX_TREE_NODES; ) {
+      const field = queue.shift() as PDFDict;
+      visited++;
+
+      const kids = field.lookupMaybe(PDFName.of("Kids"), PDFArray);
+      const name = decodePDFText(field.get(PDFName.of("T")));
+      let hasFieldKids = false;
+
+      for (let i = 0; i < (kids?.size() ?? 0); i++) {
+        const kid = kids?.lookupMaybe(i, PDFDict);
+        if (kid?.has(PDFName.of("T"))) {
+          hasFieldKids = true;
+          queue.push(kid);
+        }
+      }
+
+      if (!hasFieldKids) {
+        this.record("form-fields", name ?? undefined);
+      }
+    }
+
+    catalog.delete(PDFName.of("AcroForm"));
+  }
+
+  private removeJavaScript(pdfDoc: PDFDocument): void {
+    const { catalog } = pdfDoc;
+    const names = catalog.lookupMaybe(PDFName.of("Names"), PDFDict);
+    const scripts = names?.lookupMaybe(PDFName.of("JavaScript"), PDFDict);
+
+    if (names && scripts) {
+      for (const scriptName of this.collectNameTreeKeys(scripts)) {
+        this.record("javascript", scriptName);
+      }
+      names.delete(PDFName.of("JavaScript"));
+      this.removeEmptyNames(pdfDoc);
+    }
+
+    // Destinations (arrays) are harmless; only action dictionaries can run
+    // scripts or launch files when the document opens
+    if (catalog.lookupMaybe(PDFName.of("OpenAction"), PDFDict)) {
+      catalog.delete(PDFName.of("OpenAction"));
+      this.record("javascript", "Open action");
+    }
+
+    if (catalog.has(PDFName.of("AA"))) {
+      catalog.delete(PDFName.of("AA"));
+      this.record("javascript", "Document actions");
+    }
+  }
+
+  private removeBookmarks(pdfDoc: PDFDocument): void {
+    const { catalog } = pdfDoc;
+    const outlines = catalog.lookupMaybe(PDFName.of("Outlines"), PDFDict);
+
+    if (outlines) {
+      const queue: PDFDict[] = [];
+      const first = outlines.lookupMaybe(PDFName.of("First"), PDFDict);
+      if (first) queue.push(first);
+
+      const seen = new Set<PDFDict>();
+      while (queue.length > 0 && seen.size < MAX_TREE_NODES) {
+        const item = queue.pop() as PDFDict;
+        if (seen.has(item)) continue;
+        seen.add(item);
+
+        this.record(
+          "bookmarks",
+          decodePDFText(item.get(PDFName.of("Title"))) ?? undefined,
+        );
+
+        const next = item.lookupMaybe(PDFName.of("Next"), PDFDict);
+        const child = item.lookupMaybe(PDFName.of("First"), PDFDict);
+        if (next) queue.push(next);
+        if (child) queue.push(child);
+      }
+
+      catalog.delete(PDFName.of("Outlines"));
+    }
+
+    const pageMode = catalog.lookupMaybe(PDFName.of("PageMode"), PDFName);
+    if (pageMode?.decodeText() === "UseOutlines") {
+      catalog.delete(PDFName.of("PageMode"));
+    }
+  }
+
+  private sanitizePages(pdfDoc: PDFDocument): void {
+    pdfDoc.getPages().forEach((page, index) => {
+      const pageNumber = index + 1;
+      const { node } = page;
+
+      const annots = node.lookupMaybe(PDFName.of("Annots"), PDFArray);
+      for (let i = 0; i < (annots?.size() ?? 0); i++) {
+        const subtype = annots
+          ?.lookupMaybe(i, PDFDict)
+          ?.lookupMaybe(PDFName.of("Subtype"), PDFName);
+        this.record(
+          "annotations",
+          `Page ${pageNumber}: ${subtype?.decodeText() ?? "Unknown"}`,
+        );
+      }
+      node.delete(PDFName.of("Annots"));
+
+      if (node.has(PDFName.of("Thumb"))) {
+        node.delete(PDFName.of("Thumb"));
+        this.record("thumbnails", `Page ${pageNumber}`);
+      }
+
+      if (node.has(PDFName.of("AA"))) {
+        node.delete(PDFName.of("AA"));
+        this.record("javascript", `Page ${pageNumber} actions`);
+      }
+    });
+  }
+
+  /**
+   * Collect the keys of a name tree, following /Kids
+   */
+  private collectNameTreeKeys(root: PDFDict): string[] {
+    const keys: string[] = [];
+    const queue: PDFDict[] = [root];
+
+    for (let visited = 0; queue.length > 0 && visited < MAX_TREE_NODES; ) {
+      const node = queue.pop() as PDFDict;
+      visited++;
+
+      const names = node.lookupMaybe(PDFName.of("Names"), PDFArray);
+      for (let i = 0; i < (names?.size() ?? 0); i += 2) {
+        keys.push(decodePDFText(names?.get(i)) ?? "Unnamed");
+      }
+
+      const kids = node.lookupMaybe(PDFName.of("Kids"), PDFArray);
+      for (let i = 0; i < (kids?.size() ?? 0); i++) {
+        const kid = kids?.lookupMaybe(i, PDFDict);
+        if (kid) queue.push(kid);
+      }
+    }
+
+    return keys;
+  }
+
+  private removeEmptyNames(pdfDoc: PDFDocument): void {
+    const names = pdfDoc.catalog.lookupMaybe(PDFName.of("Names"), PDFDict);
+    if (names && names.keys().length === 0) {
+      pdfDoc.catalog.delete(PDFName.of("Names"));
+    }
+  }
+}
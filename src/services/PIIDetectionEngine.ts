@@ -1,44 +1,38 @@
 import * as ort from "onnxruntime-web";
+import { type NERModelConfig, nerModelConfig } from "../config/ner";
+import {
+  COMMON_PII_PATTERNS,
+  DEFAULT_PII_LOCALES,
+  getRegionalPIIPatterns,
+  type PIIPattern,
+} from "../config/piiPatterns";
 import type {
+  CustomRule,
+  Detector,
+  DetectorInfo,
+  DetectorInput,
+  DetectorRunStats,
+  DetectorSettings,
   OCRWord,
   PIIDetection,
   PIIDetectionEngine,
+  PIILocale,
 } from "../types/redaction";
 import { PIIType } from "../types/redaction";
+import {
+  MIN_DETECTION_CONFIDENCE,
+  scoreContext,
+} from "../utils/contextScoring";
+import { getCustomRulePatterns } from "../utils/customRules";
+import { findNameAndAddressSpans } from "../utils/nameAddressDetection";
+import { resolveSpans } from "../utils/spanResolution";
+import { getWordsInRange } from "../utils/textOffsets";
+import { DetectorRegistry } from "./DetectorRegistry";
+import { type Token, WordPieceTokenizer } from "./WordPieceTokenizer";
 
-/**
- * Regex patterns for detecting common PII types
- */
-const PII_PATTERNS = {
-  // Email: standard email format
-  email: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Z|a-z]{2,}\b/g,
-
-  // Phone: Various US phone formats
-  // Matches: (123) 456-7890, 123-456-7890, 123.456.7890, 1234567890
-  phone:
-    /\b(?:\+?1[-.\s]?)?\(?([0-9]{3})\)?[-.\s]?([0-9]{3})[-.\s]?([0-9]{4})\b/g,
-
-  // SSN: XXX-XX-XXXX format
-  ssn: /\b\d{3}-\d{2}-\d{4}\b/g,
-
-  // Credit Card: 13-19 digits with optional spaces or dashes
-  // Matches major card formats (Visa, MasterCard, Amex, Discover)
-  creditCard: /\b(?:\d{4}[-\s]?){3}\d{4}|\b\d{13,19}\b/g,
-
-  // Date of Birth: Various date formats
-  // Matches: MM/DD/YYYY, MM-DD-YYYY, Month DD, YYYY
-  dateOfBirth:
-    /\b(?:\d{1,2}[-/]\d{1,2}[-/]\d{2,4}|\b(?:Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec)[a-z]*\s+\d{1,2},?\s+\d{4})\b/gi,
-};
-
-/**
- * PIIDetectionEngine implementation using regex patterns
- * Provides fallback detection when ONNX models are not available
- */
 /**
  * NER label mapping to PII types
- * Used for mapping ONNX model entity labels to our PII types
- * TODO: Implement in detectWithONNX when model-specific decoding is added
+ * Used for mapping ONNX model entity labels (without B-/I- prefix) to our PII types
  */
 const NER_LABEL_TO_PII_TYPE: Record<string, PIIType> = {
   PER: PIIType.NAME,
@@ -54,13 +48,122 @@ const NER_LABEL_TO_PII_TYPE: Record<string, PIIType> = {
   CREDIT_CARD: PIIType.CREDIT_CARD,
 };
 
-// Prevent unused variable warning - this will be used when ONNX decoding is implemented
-void NER_LABEL_TO_PII_TYPE;
+/**
+ * Default BIO label order (CoNLL-03 style models such as bert-base-NER)
+ * Used when the model config does not provide an id2label mapping
+ */
+const DEFAULT_NER_LABELS = [
+  "O",
+  "B-MISC",
+  "I-MISC",
+  "B-PER",
+  "I-PER",
+  "B-ORG",
+  "I-ORG",
+  "B-LOC",
+  "I-LOC",
+];
+
+// Hugging Face model types whose tokenizers use a WordPiece vocab.txt
+const WORDPIECE_MODEL_TYPES = new Set([
+  "bert",
+  "convbert",
+  "distilbert",
+  "electra",
+  "funnel",
+  "layoutlm",
+  "megatron-bert",
+  "mobilebert",
+  "squeezebert",
+]);
+
+/**
+ * Merge priority of the model and custom rules
+ * Their labels win over equally specific pattern and word list matches,
+ * which run at the default priority of 0
+ */
+const MODEL_PRIORITY = 1;
+const CUSTOM_RULE_PRIORITY = 1;
+
+/**
+ * Per-token prediction after running the model over all windows
+ */
+interface TokenPrediction {
+  label: string;
+  score: number;
+}
+
+/**
+ * Entity span decoded from BIO tags, in character offsets of the input text
+ */
+interface EntitySpan {
+  entity: string;
+  start: number;
+  end: number;
+  score: number;
+}
 
+/**
+ * PIIDetectionEngine implementation using an ONNX NER model and regex patterns
+ * Regex detection provides fallback when ONNX models are not available, and
+ * name and address heuristics stand in for the model's PER and LOC entities
+ *
+ * Each source is a detector in a registry, run in order: the model, common
+ * patterns, regional patterns, names and addresses, then custom rules. More
+ * detectors can be registered alongside the built-in ones.
+ */
 export class PIIDetectionEngineImpl implements PIIDetectionEngine {
   private isInitialized = false;
   private onnxSession: ort.InferenceSession | null = null;
+  private tokenizer: WordPieceTokenizer | null = null;
+  private nerLabels: string[] = DEFAULT_NER_LABELS;
   private useONNX = false;
+  private config: NERModelConfig;
+  private regionalPatterns: PIIPattern[] =
+    getRegionalPIIPatterns(DEFAULT_PII_LOCALES);
+  private customPatterns: PIIPattern[] = [];
+  private registry = new DetectorRegistry();
+  private lastRunStats: DetectorRunStats[] = [];
+
+  constructor(config: NERModelConfig = nerModelConfig) {
+    this.config = config;
+
+    this.registry.register(
+      {
+        id: "ner-model",
+        label: "NER model",
+        detect: ({ text, words }) =>
+          this.useONNX && this.onnxSession
+            ? this.detectWithONNX(text, words)
+            : Promise.resolve([]),
+      },
+      { priority: MODEL_PRIORITY },
+    );
+    this.registry.register({
+      id: "common-patterns",
+      label: "Common patterns",
+      detect: (input) => this.detectWithRegex(COMMON_PII_PATTERNS, input),
+    });
+    this.registry.register({
+      id: "regional-patterns",
+      label: "Regional patterns",
+      detect: (input) => this.detectWithRegex(this.regionalPatterns, input),
+    });
+    this.registry.register({
+      id: "names-addresses",
+      label: "Names & addresses",
+      detect: ({ text, words }) =>
+        Promise.resolve(this.detectWithHeuristics(text, words)),
+    });
+    this.registry.register(
+      {
+        id: "custom-rules",
+        label: "Custom rules",
+        detect: (input) => this.detectWithRegex(this.customPatterns, input),
+      },
+      { priority: CUSTOM_RULE_PRIORITY },
+    );
+  }
 
   /**
    * Initialize the PII detection engine
@@ -82,6 +185,11 @@ export class PIIDetectionEngineImpl implements PIIDetectionEngine {
       this.onnxSession = await ort.InferenceSession.create(modelPath, {
         executionProviders: ["wasm"],
       });
+      this.nerLabels = await this.loadLabels(this.config.configPath);
+      this.tokenizer = await WordPieceTokenizer.fromVocabFile(
+        this.config.vocabPath,
+        { doLowerCase: this.config.doLowerCase },
+      );
       this.useONNX = true;
       console.log("ONNX model loaded successfully");
     } catch (error) {
@@ -90,13 +198,108 @@ export class PIIDetectionEngineImpl implements PIIDetectionEngine {
       );
       console.log("Falling back to regex-only PII detection");
       this.useONNX = false;
+      if (this.onnxSession) {
+        await this.onnxSession.release().catch(() => undefined);
+      }
       this.onnxSession = null;
+      this.tokenizer = null;
+    }
+  }
+
+  /**
+   * Choose the regional pattern packs used by regex detection
+   * Common patterns (email, credit card, dates) always apply
+   */
+  setLocales(locales: PIILocale[]): void {
+    this.regionalPatterns = getRegionalPIIPatterns(locales);
+  }
+
+  /**
+   * Replace the user-defined rules run after the built-in patterns
+   * Disabled rules and rules that fail to compile are skipped
+   */
+  setCustomRules(rules: CustomRule[]): void {
+    this.customPatterns = getCustomRulePatterns(rules);
+  }
+
+  /**
+   * Add a detector after those already registered
+   * @throws If a detector with the same id is already registered
+   */
+  registerDetector(
+    detector: Detector,
+    settings?: Partial<DetectorSettings>,
+  ): void {
+    this.registry.register(detector, settings);
+  }
+
+  /**
+   * List the registered detectors in run order
+   */
+  getDetectors(): DetectorInfo[] {
+    return this.registry.list();
+  }
+
+  setDetectorEnabled(detectorId: string, enabled: boolean): void {
+    this.registry.setEnabled(detectorId, enabled);
+  }
+
+  setDetectorPriority(detectorId: string, priority: number): void {
+    this.registry.setPriority(detectorId, priority);
+  }
+
+  /**
+   * Move a detector to a position in the run order
+   */
+  moveDetector(detectorId: string, index: number): void {
+    this.registry.move(detectorId, index);
+  }
+
+  /**
+   * Timing and counts of each detector on the last detectPII call
+   */
+  getLastRunStats(): DetectorRunStats[] {
+    return this.lastRunStats;
+  }
+
+  /**
+   * Load the id2label mapping from a Hugging Face style config.json
+   * Falls back to the default CoNLL label order if unavailable, and throws
+   * if the config names a model whose tokenizer is not WordPiece
+   */
+  private async loadLabels(configPath: string): Promise<string[]> {
+    let config: { id2label?: Record<string, string>; model_type?: string };
+    try {
+      const response = await fetch(configPath);
+      if (!response.ok) {
+        return DEFAULT_NER_LABELS;
+      }
+      config = await response.json();
+    } catch {
+      return DEFAULT_NER_LABELS;
+    }
+
+    if (config.model_type && !WORDPIECE_MODEL_TYPES.has(config.model_type)) {
+      throw new Error(
+        `Model type ${config.model_type} needs a BPE or SentencePiece tokenizer; only WordPiece models are supported`,
+      );
+    }
+    if (!config.id2label) {
+      return DEFAULT_NER_LABELS;
     }
+
+    const labels: string[] = [];
+    for (const [id, label] of Object.entries(config.id2label)) {
+      labels[Number.parseInt(id, 10)] = label;
+    }
+    return labels;
   }
 
   /**
-   * Detect PII in extracted text using ONNX model or regex patterns
-   * Maps detected patterns to OCR words and calculates bounding boxes
+   * Detect PII in extracted text by running the enabled detectors
+   * Maps detected patterns to OCR words and calculates bounding boxes,
+   * rescores each detection by its surrounding keywords, then resolves
+   * overlapping spans across detectors
    * Automatically initializes if not already initialized (lazy loading)
    */
   async detectPII(
@@ -106,116 +309,312 @@ export class PIIDetectionEngineImpl implements PIIDetectionEngine {
   ): Promise<PIIDetection[]> {
     // Lazy initialization: initialize on first use
     if (!this.isInitialized) {
-      await this.initialize(modelPath || "");
+      await this.initialize(modelPath ?? this.config.modelPath);
     }
 
-    let detections: PIIDetection[] = [];
-
-    // Try ONNX model first if available
-    if (this.useONNX && this.onnxSession) {
-      try {
-        const onnxDetections = await this.detectWithONNX(text, words);
-        detections = [...onnxDetections];
-      } catch (error) {
-        console.warn(
-          `ONNX detection failed: ${error instanceof Error ? error.message : "Unknown error"}`,
-        );
-        console.log("Falling back to regex detection");
-      }
-    }
-
-    // Always run regex detection (either as primary or supplementary)
-    const regexDetections = await this.detectWithRegex(text, words);
-
-    // Merge detections, avoiding duplicates
-    detections = this.mergeDetections(detections, regexDetections);
+    // A failing detector (e.g. the model) leaves the others' results intact
+    const runs = await this.registry.run(text, words);
+
+    // Boost or suppress each detector's spans by the labels around them
+    // before resolving overlaps, so context against one span cannot drop
+    // another it overlaps
+    const scoredRuns = runs.map((run) => ({
+      ...run,
+      detections: run.detections
+        .map((detection) => ({
+          ...detection,
+          confidence: scoreContext(detection, text),
+        }))
+        .filter(
+          (detection) => detection.confidence >= MIN_DETECTION_CONFIDENCE,
+        ),
+    }));
+    const detections = resolveSpans(scoredRuns, text);
+
+    this.lastRunStats = runs.map((run) => ({
+      id: run.id,
+      label: run.label,
+      durationMs: run.durationMs,
+      found: run.detections.length,
+      kept: detections.filter(({ detectors }) => detectors?.includes(run.id))
+        .length,
+      ...(run.error && { error: run.error }),
+    }));
 
     return detections;
   }
 
   /**
    * Detect PII using ONNX NER model
-   * TODO: Implement word mapping when model-specific decoding is added
+   * Tokenizes the page, runs the model over overlapping windows, decodes BIO
+   * tags into entity spans and maps the spans back to OCR words
    */
   private async detectWithONNX(
     text: string,
-    _words: OCRWord[],
+    words: OCRWord[],
   ): Promise<PIIDetection[]> {
-    if (!this.onnxSession) {
+    if (!this.onnxSession || !this.tokenizer) {
       throw new Error("ONNX session not initialized");
     }
 
-    // Tokenize text (simplified - real implementation would use model's tokenizer)
-    const tokens = text.split(/\s+/);
+    const tokens = this.tokenizer.encode(text);
+    if (tokens.length === 0) {
+      return [];
+    }
 
-    // For a real NER model, you would:
-    // 1. Tokenize using the model's tokenizer (e.g., BERT tokenizer)
-    // 2. Convert tokens to input IDs
-    // 3. Create attention masks
-    // 4. Run inference
-    // 5. Decode predictions to entity labels
+    const predictions = await this.predictTokens(tokens);
+    const spans = this.decodeBIOSpans(tokens, predictions);
 
-    // This is a placeholder for the actual ONNX inference
-    // The actual implementation depends on the specific model being used
     const detections: PIIDetection[] = [];
 
-    // Example inference structure (would need to be adapted to actual model)
-    try {
-      // Create input tensors (this is model-specific)
-      const inputIds = new ort.Tensor(
-        "int64",
-        new BigInt64Array(tokens.length),
-        [1, tokens.length],
-      );
+    for (const span of spans) {
+      const type = NER_LABEL_TO_PII_TYPE[span.entity];
+      if (!type) continue;
 
-      // Run inference
-      const feeds = { input_ids: inputIds };
-      const results = await this.onnxSession.run(feeds);
+      const matchedWords = getWordsInRange(words, span.start, span.end);
+      if (matchedWords.length === 0) continue;
 
-      // Process results (this is model-specific)
-      // The output format depends on the NER model architecture
-      const predictions = results.logits?.data as Float32Array;
+      // Blend model confidence with OCR confidence
+      const avgOCRConfidence =
+        matchedWords.reduce((sum, w) => sum + w.confidence, 0) /
+        matchedWords.length;
+      const confidence = span.score * 0.7 + (avgOCRConfidence / 100) * 0.3;
+
+      detections.push({
+        id: crypto.randomUUID(),
+        text: text.slice(span.start, span.end),
+        type,
+        confidence: Math.min(confidence, 1.0),
+        startIndex: span.start,
+        endIndex: span.end,
+        words: matchedWords,
+      });
+    }
 
-      if (predictions) {
-        // Convert model predictions to PII detections
-        // This would involve:
-        // 1. Decoding entity labels from predictions
-        // 2. Mapping entities to text positions
-        // 3. Finding corresponding OCR words
-        // 4. Creating PIIDetection objects
+    return detections;
+  }
 
-        // Placeholder - actual implementation depends on model output format
-        console.log("ONNX predictions received, length:", predictions.length);
+  /**
+   * Run the model over sliding windows of tokens
+   * Tokens covered by more than one window keep their most confident prediction
+   */
+  private async predictTokens(tokens: Token[]): Promise<TokenPrediction[]> {
+    const session = this.onnxSession!;
+    const tokenizer = this.tokenizer!;
+
+    // Reserve room for [CLS] and [SEP]
+    const windowSize = this.config.maxSequenceLength - 2;
+    const step = Math.max(1, windowSize - this.config.stride);
+    const predictions: TokenPrediction[] = new Array(tokens.length);
+
+    for (
+      let windowStart = 0;
+      windowStart < tokens.length;
+      windowStart += step
+    ) {
+      const windowTokens = tokens.slice(windowStart, windowStart + windowSize);
+      const sequenceLength = windowTokens.length + 2;
+
+      const inputIds = new BigInt64Array(sequenceLength);
+      inputIds[0] = BigInt(tokenizer.clsTokenId);
+      windowTokens.forEach((token, i) => {
+        inputIds[i + 1] = BigInt(token.id);
+      });
+      inputIds[sequenceLength - 1] = BigInt(tokenizer.sepTokenId);
+
+      // No padding is used, so every position is attended to
+      const attentionMask = new BigInt64Array(sequenceLength).fill(1n);
+
+      const dims = [1, sequenceLength];
+      const feeds: Record<string, ort.Tensor> = {
+        input_ids: new ort.Tensor("int64", inputIds, dims),
+        attention_mask: new ort.Tensor("int64", attentionMask, dims),
+      };
+      if (session.inputNames.includes("token_type_ids")) {
+        feeds.token_type_ids = new ort.Tensor(
+          "int64",
+          new BigInt64Array(sequenceLength),
+          dims,
+        );
+      }
+
+      const results = await session.run(feeds);
+      const logits = results.logits ?? results[session.outputNames[0]];
+      if (!logits) {
+        throw new Error("ONNX model returned no logits");
+      }
+
+      const data = logits.data as Float32Array;
+      const numLabels = logits.dims[2];
+
+      windowTokens.forEach((_token, i) => {
+        // Skip the [CLS] position
+        const offset = (i + 1) * numLabels;
+        const prediction = this.softmaxArgmax(data, offset, numLabels);
+        const tokenIndex = windowStart + i;
+        const existing = predictions[tokenIndex];
+
+        if (!existing || prediction.score > existing.score) {
+          predictions[tokenIndex] = prediction;
+        }
+      });
+
+      if (windowStart + windowSize >= tokens.length) {
+        break;
       }
-    } catch (error) {
-      console.error("ONNX inference error:", error);
-      throw error;
     }
 
-    return detections;
+    return predictions;
+  }
+
+  /**
+   * Pick the most likely label for one token and its softmax probability
+   */
+  private softmaxArgmax(
+    logits: Float32Array,
+    offset: number,
+    numLabels: number,
+  ): TokenPrediction {
+    let maxIndex = 0;
+    let maxLogit = Number.NEGATIVE_INFINITY;
+
+    for (let j = 0; j < numLabels; j++) {
+      if (logits[offset + j] > maxLogit) {
+        maxLogit = logits[offset + j];
+        maxIndex = j;
+      }
+    }
+
+    let sumExp = 0;
+    for (let j = 0; j < numLabels; j++) {
+      sumExp += Math.exp(logits[offset + j] - maxLogit);
+    }
+
+    return {
+      label: this.nerLabels[maxIndex] ?? "O",
+      score: 1 / sumExp,
+    };
   }
 
   /**
-   * Detect PII using regex patterns
+   * Decode BIO tags into entity spans
+   * Sub-word pieces follow the label of the word they belong to, and an I- tag
+   * without a preceding B- or I- tag of the same entity starts a new span
+   */
+  private decodeBIOSpans(
+    tokens: Token[],
+    predictions: TokenPrediction[],
+  ): EntitySpan[] {
+    const spans: EntitySpan[] = [];
+    let current: (EntitySpan & { tokenCount: number }) | null = null;
+
+    const closeSpan = () => {
+      if (current) {
+        spans.push({
+          entity: current.entity,
+          start: current.start,
+          end: current.end,
+          score: current.score / current.tokenCount,
+        });
+        current = null;
+      }
+    };
+
+    tokens.forEach((token, i) => {
+      const { label, score } = predictions[i] ?? { label: "O", score: 0 };
+
+      if (token.isSubword && current) {
+        current.end = token.end;
+        current.score += score;
+        current.tokenCount++;
+        return;
+      }
+
+      if (label === "O") {
+        closeSpan();
+        return;
+      }
+
+      // Labels without a B-/I- prefix (IO scheme) continue matching spans
+      const hasPrefix = /^[BI]-/.test(label);
+      const entity = (hasPrefix ? label.slice(2) : label).toUpperCase();
+      const isContinuation =
+        (!hasPrefix || label.startsWith("I-")) &&
+        current !== null &&
+        current.entity === entity;
+
+      if (isContinuation && current) {
+        current.end = token.end;
+        current.score += score;
+        current.tokenCount++;
+      } else {
+        closeSpan();
+        current = {
+          entity,
+          start: token.start,
+          end: token.end,
+          score,
+          tokenCount: 1,
+        };
+      }
+    });
+
+    closeSpan();
+    return spans;
+  }
+
+  /**
+   * Detect PII using a set of regex patterns
+   * Matches failing a strict pattern's checksum are dropped, as are matches
+   * of a context pattern (e.g. a CVV) with no related detection nearby. A
+   * match is skipped if an earlier pattern or detector already found the
+   * same type there, or if it fails its checksum and overlaps any earlier
+   * detection.
    */
   private async detectWithRegex(
-    text: string,
-    words: OCRWord[],
+    patterns: PIIPattern[],
+    { text, words, previous }: DetectorInput,
   ): Promise<PIIDetection[]> {
     const detections: PIIDetection[] = [];
 
-    // Process each PII type
-    for (const [type, pattern] of Object.entries(PII_PATTERNS)) {
-      const matches = this.findMatches(text, pattern);
+    for (const pattern of patterns) {
+      const matches = this.findMatches(text, pattern.pattern);
 
       for (const match of matches) {
+        const earlier = [...previous, ...detections];
+        const { near } = pattern;
+        if (
+          near &&
+          !earlier.some(
+            (existing) =>
+              near.types.includes(existing.type) &&
+              existing.startIndex - near.distance < match.endIndex &&
+              existing.endIndex + near.distance > match.startIndex,
+          )
+        ) {
+          continue;
+        }
+
+        const isValid = (await pattern.validate?.(match.text)) ?? true;
+        if (!isValid && pattern.strict) continue;
+
+        const isDuplicate = earlier.some(
+          (existing) =>
+            ((existing.type === pattern.type &&
+              existing.customRule?.id === pattern.customRule?.id) ||
+              !isValid) &&
+            existing.startIndex < match.endIndex &&
+            existing.endIndex > match.startIndex,
+        );
+        if (isDuplicate) continue;
+
         const detection = this.mapMatchToWords(
           match.text,
           match.startIndex,
           match.endIndex,
-          type as PIIType,
+          pattern,
+          isValid,
           words,
-          text,
         );
 
         if (detection) {
@@ -228,33 +627,33 @@ export class PIIDetectionEngineImpl implements PIIDetectionEngine {
   }
 
   /**
-   * Merge ONNX and regex detections, removing duplicates
+   * Detect names and addresses from word lists and address grammars
+   * Confidence is blended with OCR confidence as for model spans
    */
-  private mergeDetections(
-    onnxDetections: PIIDetection[],
-    regexDetections: PIIDetection[],
-  ): PIIDetection[] {
-    const merged = [...onnxDetections];
-
-    for (const regexDetection of regexDetections) {
-      // Check if this detection overlaps with any ONNX detection
-      const hasOverlap = onnxDetections.some((onnxDet) =>
-        this.detectionsOverlap(onnxDet, regexDetection),
-      );
+  private detectWithHeuristics(text: string, words: OCRWord[]): PIIDetection[] {
+    const detections: PIIDetection[] = [];
 
-      if (!hasOverlap) {
-        merged.push(regexDetection);
-      }
-    }
+    for (const span of findNameAndAddressSpans(text, words)) {
+      const matchedWords = getWordsInRange(words, span.start, span.end);
+      if (matchedWords.length === 0) continue;
 
-    return merged;
-  }
+      const avgOCRConfidence =
+        matchedWords.reduce((sum, w) => sum + w.confidence, 0) /
+        matchedWords.length;
+      const confidence = span.confidence * 0.7 + (avgOCRConfidence / 100) * 0.3;
+
+      detections.push({
+        id: crypto.randomUUID(),
+        text: text.slice(span.start, span.end),
+        type: span.type,
+        confidence: Math.min(confidence, 1.0),
+        startIndex: span.start,
+        endIndex: span.end,
+        words: matchedWords,
+      });
+    }
 
-  /**
-   * Check if two detections overlap
-   */
-  private detectionsOverlap(det1: PIIDetection, det2: PIIDetection): boolean {
-    return det1.startIndex < det2.endIndex && det1.endIndex > det2.startIndex;
+    return detections;
   }
 
   /**
@@ -275,6 +674,13 @@ export class PIIDetectionEngineImpl implements PIIDetectionEngine {
 
     let match: RegExpExecArray | null = pattern.exec(text);
     while (match !== null) {
+      // Step past empty matches (possible with custom rules) to avoid looping
+      if (match[0].length === 0) {
+        pattern.lastIndex++;
+        match = pattern.exec(text);
+        continue;
+      }
+
       matches.push({
         text: match[0],
         startIndex: match.index,
@@ -293,97 +699,42 @@ export class PIIDetectionEngineImpl implements PIIDetectionEngine {
     matchText: string,
     startIndex: number,
     endIndex: number,
-    type: PIIType,
+    pattern: PIIPattern,
+    isValid: boolean,
     words: OCRWord[],
-    fullText: string,
   ): PIIDetection | null {
-    // Find OCR words that overlap with the matched text range
-    const matchedWords = this.findOverlappingWords(
-      startIndex,
-      endIndex,
-      words,
-      fullText,
-    );
+    // Crop the words to the matched characters
+    const matchedWords = getWordsInRange(words, startIndex, endIndex);
 
     if (matchedWords.length === 0) {
       return null;
     }
 
     // Calculate confidence based on pattern type and match quality
-    const confidence = this.calculateConfidence(type, matchText, matchedWords);
+    const confidence = this.calculateConfidence(pattern, isValid, matchedWords);
 
     return {
+      id: crypto.randomUUID(),
       text: matchText,
-      type,
+      type: pattern.type,
       confidence,
       startIndex,
       endIndex,
       words: matchedWords,
+      ...(pattern.customRule && { customRule: pattern.customRule }),
     };
   }
 
-  /**
-   * Find OCR words that overlap with a text range
-   */
-  private findOverlappingWords(
-    startIndex: number,
-    endIndex: number,
-    words: OCRWord[],
-    fullText: string,
-  ): OCRWord[] {
-    const matchedWords: OCRWord[] = [];
-    let currentIndex = 0;
-
-    for (const word of words) {
-      // Find the word's position in the full text
-      const wordStart = fullText.indexOf(word.text, currentIndex);
-
-      if (wordStart === -1) {
-        continue;
-      }
-
-      const wordEnd = wordStart + word.text.length;
-      currentIndex = wordEnd;
-
-      // More strict overlap check: word must be substantially within the match range
-      // A word is included if at least 50% of it falls within the match range
-      const overlapStart = Math.max(wordStart, startIndex);
-      const overlapEnd = Math.min(wordEnd, endIndex);
-      const overlapLength = Math.max(0, overlapEnd - overlapStart);
-      const wordLength = wordEnd - wordStart;
-
-      // Include word only if more than 50% of it overlaps with the match
-      if (overlapLength > wordLength * 0.5) {
-        matchedWords.push(word);
-      }
-
-      // Stop if we've passed the match range
-      if (wordStart >= endIndex) {
-        break;
-      }
-    }
-
-    return matchedWords;
-  }
-
   /**
    * Calculate confidence score for a PII detection
    */
   private calculateConfidence(
-    type: PIIType,
-    matchText: string,
+    pattern: PIIPattern,
+    isValid: boolean,
     words: OCRWord[],
   ): number {
-    // Base confidence by pattern type (more specific patterns = higher confidence)
-    const baseConfidence: Record<string, number> = {
-      email: 0.95,
-      ssn: 0.98,
-      creditCard: 0.9,
-      phone: 0.85,
-      dateOfBirth: 0.75,
-    };
-
-    let confidence = baseConfidence[type] || 0.7;
+    // Base confidence by pattern (more specific patterns = higher confidence)
+    let confidence = pattern.confidence;
 
     // Adjust based on OCR word confidence
     if (words.length > 0) {
@@ -393,49 +744,14 @@ export class PIIDetectionEngineImpl implements PIIDetectionEngine {
       confidence = confidence * 0.7 + (avgOCRConfidence / 100) * 0.3;
     }
 
-    // Additional validation for specific types
-    if (type === PIIType.CREDIT_CARD) {
-      // Luhn algorithm check for credit cards
-      if (!this.isValidCreditCard(matchText)) {
-        confidence *= 0.5; // Reduce confidence if Luhn check fails
-      }
+    // Reduce confidence if a checksum (e.g. Luhn for credit cards) fails
+    if (!isValid) {
+      confidence *= 0.5;
     }
 
     return Math.min(confidence, 1.0);
   }
 
-  /**
-   * Validate credit card number using Luhn algorithm
-   */
-  private isValidCreditCard(cardNumber: string): boolean {
-    // Remove spaces and dashes
-    const digits = cardNumber.replace(/[\s-]/g, "");
-
-    if (!/^\d{13,19}$/.test(digits)) {
-      return false;
-    }
-
-    let sum = 0;
-    let isEven = false;
-
-    // Loop through digits from right to left
-    for (let i = digits.length - 1; i >= 0; i--) {
-      let digit = Number.parseInt(digits[i], 10);
-
-      if (isEven) {
-        digit *= 2;
-        if (digit > 9) {
-          digit -= 9;
-        }
-      }
-
-      sum += digit;
-      isEven = !isEven;
-    }
-
-    return sum % 10 === 0;
-  }
-
   /**
    * Dispose of resources and clean up ONNX session
    */
@@ -449,6 +765,7 @@ export class PIIDetectionEngineImpl implements PIIDetectionEngine {
       }
       this.onnxSession = null;
     }
+    this.tokenizer = null;
     this.isInitialized = false;
     this.useONNX = false;
   }
@@ -0,0 +1,259 @@
+import { DEFAULT_PII_LOCALES, PII_PATTERN_PACKS } from "../config/piiPatterns";
+import {
+  type Document,
+  DocumentType,
+  type HistoryEntry,
+  PROJECT_FILE_FORMAT,
+  PROJECT_FILE_VERSION,
+  type ProjectPage,
+  type ProjectState,
+  type RedactionProject,
+} from "../types/redaction";
+
+const PROJECT_FILE_EXTENSION = ".redact.json";
+
+// Tolerance when linking a legacy region to its detection's first word on a
+// line, as a fraction of the page
+const LEGACY_REGION_TOLERANCE = 0.005;
+
+/**
+ * ProjectService saves and restores redaction projects
+ *
+ * A project is a JSON file holding regions, detections, toggles and history
+ * per page, plus a SHA-256 hash of the source document. The document itself is
+ * never embedded, so a project is only applied to the exact file it came from.
+ */
+export class ProjectService {
+  /**
+   * Check whether a file looks like a project file rather than a document
+   */
+  isProjectFile(file: File): boolean {
+    return (
+      file.name.toLowerCase().endsWith(".json") ||
+      file.type === "application/json"
+    );
+  }
+
+  /**
+   * Build a project from the current review state
+   */
+  createProject(document: Document, state: ProjectState): RedactionProject {
+    const pageNumbers = new Set<number>([
+      ...state.redactions.keys(),
+      ...state.detections.keys(),
+      ...state.enabledDetections.keys(),
+      ...state.detectedPages,
+    ]);
+
+    const pages: ProjectPage[] = Array.from(pageNumbers)
+      .sort((a, b) => a - b)
+      .map((page) => ({
+        page,
+        regions: state.redactions.get(page) || [],
+        detections: state.detections.get(page) || [],
+        enabledDetections: Array.from(state.enabledDetections.get(page) || []),
+        detectionRun: state.detectedPages.has(page),
+      }));
+
+    return {
+      format: PROJECT_FILE_FORMAT,
+      version: PROJECT_FILE_VERSION,
+      savedAt: new Date().toISOString(),
+      document: {
+        name: document.name,
+        type: document.type,
+        pageCount: document.pageCount,
+        sha256: document.hash,
+      },
+      pages,
+      locales: state.locales,
+      history: state.history.map((entry) => ({
+        ...entry,
+        timestamp: entry.timestamp.toISOString(),
+      })),
+    };
+  }
+
+  /**
+   * Convert a project back into review state
+   */
+  restoreState(project: RedactionProject): ProjectState {
+    const state: ProjectState = {
+      redactions: new Map(),
+      detections: new Map(),
+      enabledDetections: new Map(),
+      detectedPages: new Set(),
+      history: [],
+      // Unknown locales come from newer versions and are ignored
+      locales: project.locales
+        ? project.locales.filter((locale) => locale in PII_PATTERN_PACKS)
+        : DEFAULT_PII_LOCALES,
+    };
+
+    for (const page of project.pages) {
+      const { regions, detections } = this.linkLegacyDetections(page);
+      if (regions.length > 0) {
+        state.redactions.set(page.page, regions);
+      }
+      if (detections.length > 0) {
+        state.detections.set(page.page, detections);
+      }
+      state.enabledDetections.set(page.page, new Set(page.enabledDetections));
+      if (page.detectionRun) {
+        state.detectedPages.add(page.page);
+      }
+    }
+
+    state.history = project.history.map(
+      (entry): HistoryEntry => ({
+        ...entry,
+        timestamp: new Date(entry.timestamp),
+      }),
+    );
+
+    return state;
+  }
+
+  /**
+   * Check that a project belongs to a document
+   * @returns An error message if the project must not be applied, else null
+   */
+  verifyDocument(project: RedactionProject, document: Document): string | null {
+    if (project.document.sha256 !== document.hash) {
+      return `Project "${project.document.name}" was saved for a different document. Open the original file to restore it.`;
+    }
+
+    if (project.document.pageCount !== document.pageCount) {
+      return `Project expects ${project.document.pageCount} pages but the document has ${document.pageCount}.`;
+    }
+
+    return null;
+  }
+
+  /**
+   * Parse and validate a project file
+   */
+  async readProjectFile(file: File): Promise<RedactionProject> {
+    let parsed: unknown;
+
+    try {
+      parsed = JSON.parse(await file.text());
+    } catch {
+      throw new Error("Project file is not valid JSON");
+    }
+
+    return this.validateProject(parsed);
+  }
+
+  /**
+   * Download a project as a JSON file
+   */
+  saveProjectFile(project: RedactionProject): void {
+    const json = JSON.stringify(project, null, 2);
+    const blob = new Blob([json], { type: "application/json" });
+    const nameWithoutExt = project.document.name.replace(/\.[^/.]+$/, "");
+
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `${nameWithoutExt}${PROJECT_FILE_EXTENSION}`;
+    link.style.display = "none";
+
+    document.body.appendChild(link);
+    link.click();
+
+    // Cleanup
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  }
+
+  /**
+   * Validate the shape of a parsed project file
+   */
+  private validateProject(value: unknown): RedactionProject {
+    if (!value || typeof value !== "object") {
+      throw new Error("Project file is empty or malformed");
+    }
+
+    const project = value as Partial<RedactionProject>;
+
+    if (project.format !== PROJECT_FILE_FORMAT) {
+      throw new Error("File is not a Redactor Pro project");
+    }
+
+    if (project.version !== PROJECT_FILE_VERSION) {
+      throw new Error(`Unsupported project version: ${project.version}`);
+    }
+
+    const doc = project.document;
+    if (
+      !doc ||
+      typeof doc.sha256 !== "string" ||
+      typeof doc.pageCount !== "number" ||
+      !Object.values(DocumentType).includes(doc.type)
+    ) {
+      throw new Error("Project file is missing source document information");
+    }
+
+    if (!Array.isArray(project.pages) || !Array.isArray(project.history)) {
+      throw new Error("Project file is missing page or history data");
+    }
+
+    if (
+      project.locales !== undefined &&
+      (!Array.isArray(project.locales) ||
+        !project.locales.every((locale) => typeof locale === "string"))
+    ) {
+      throw new Error("Project file contains invalid detection locales");
+    }
+
+    for (const page of project.pages) {
+      if (
+        typeof page.page !== "number" ||
+        !Array.isArray(page.regions) ||
+        !Array.isArray(page.detections) ||
+        !Array.isArray(page.enabledDetections)
+      ) {
+        throw new Error("Project file contains invalid page data");
+      }
+    }
+
+    return project as RedactionProject;
+  }
+
+  /**
+   * Give detections saved before detections had ids the ids their toggles
+   * were saved under, and link their regions back to them by position
+   */
+  private linkLegacyDetections(
+    page: ProjectPage,
+  ): Pick<ProjectPage, "regions" | "detections"> {
+    if (page.detections.every((detection) => detection.id)) return page;
+
+    const detections = page.detections.map((detection, index) =>
+      detection.id
+        ? detection
+        : {
+            ...detection,
+            id: `${detection.type}-${detection.startIndex}-${index}`,
+          },
+    );
+
+    const regions = page.regions.map((region) => {
+      if (region.isManual || region.detectionId) return region;
+
+      const detection = detections.find(
+        (candidate) =>
+          candidate.type === region.piiType &&
+          candidate.words.some(
+            ({ bbox }) =>
+              Math.abs(bbox.x0 - region.x) < LEGACY_REGION_TOLERANCE &&
+              Math.abs(bbox.y0 - region.y) < LEGACY_REGION_TOLERANCE,
+          ),
+      );
+      return detection ? { ...region, detectionId: detection.id } : region;
+    });
+
+    return { regions, detections };
+  }
+}
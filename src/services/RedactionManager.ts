@@ -4,6 +4,8 @@ import type {
   PIIType,
   RedactionRegion,
 } from "../types/redaction";
+import { getCanvasSize } from "../utils/coordinates";
+import { traceRegion } from "../utils/regionShapes";
 
 /**
  * RedactionManager
@@ -125,7 +127,8 @@ export class RedactionManager implements IRedactionManager {
   }
 
   /**
-   * Apply redactions to a canvas by drawing black boxes
+   * Apply redactions to a canvas by filling each region's box or outline
+   * in black
    */
   applyRedactions(canvas: HTMLCanvasElement): void {
     const ctx = canvas.getContext("2d");
@@ -133,23 +136,23 @@ export class RedactionManager implements IRedactionManager {
       throw new Error("Cannot get canvas context");
     }
 
-    const regions = this.getRegions();
-
-    // Save the current canvas state
-    ctx.save();
+    this.fillRegions(canvas, ctx, this.getRegions());
+  }
 
-    // Draw black boxes over each redaction region
-    ctx.fillStyle = "#000000";
-    for (const region of regions) {
-      ctx.fillRect(region.x, region.y, region.width, region.height);
+  /**
+   * Replace all redaction regions for a specific page
+   */
+  setRegionsForPage(pageNumber: number, regions: RedactionRegion[]): void {
+    if (regions.length === 0) {
+      this.redactionsByPage.delete(pageNumber);
+    } else {
+      this.redactionsByPage.set(pageNumber, [...regions]);
     }
-
-    // Restore the canvas state
-    ctx.restore();
   }
 
   /**
    * Apply redactions to a specific page's canvas
+   * Regions are scaled to the canvas size, so any render resolution works
    */
   applyRedactionsToPage(canvas: HTMLCanvasElement, pageNumber: number): void {
     const ctx = canvas.getContext("2d");
@@ -157,19 +160,7 @@ export class RedactionManager implements IRedactionManager {
       throw new Error("Cannot get canvas context");
     }
 
-    const regions = this.getRegionsForPage(pageNumber);
-
-    // Save the current canvas state
-    ctx.save();
-
-    // Draw black boxes over each redaction region
-    ctx.fillStyle = "#000000";
-    for (const region of regions) {
-      ctx.fillRect(region.x, region.y, region.width, region.height);
-    }
-
-    // Restore the canvas state
-    ctx.restore();
+    this.fillRegions(canvas, ctx, this.getRegionsForPage(pageNumber));
   }
 
   /**
@@ -192,6 +183,32 @@ export class RedactionManager implements IRedactionManager {
 
   // Private helper methods
 
+  /**
+   * Fill normalized regions in black in the canvas's pixel space
+   * Polygon and lasso regions are filled along their outline only.
+   */
+  private fillRegions(
+    canvas: HTMLCanvasElement,
+    ctx: CanvasRenderingContext2D,
+    regions: RedactionRegion[],
+  ): void {
+    const size = getCanvasSize(canvas);
+
+    // Save the current canvas state
+    ctx.save();
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+
+    // Fill each redaction region in black
+    ctx.fillStyle = "#000000";
+    for (const region of regions) {
+      traceRegion(ctx, region, size);
+      ctx.fill("evenodd");
+    }
+
+    // Restore the canvas state
+    ctx.restore();
+  }
+
   private addRegionsToPage(
     pageNumber: number,
     regions: RedactionRegion[],
@@ -0,0 +1,249 @@
+import type {
+  AutosaveSession,
+  AutosaveSummary,
+  RedactionProject,
+} from "../types/redaction";
+
+const DB_NAME = "redactor-pro";
+const DB_VERSION = 1;
+const STORE_NAME = "sessions";
+const SESSION_KEY = "current";
+const PBKDF2_ITERATIONS = 250000;
+
+interface StoredSessionRecord {
+  id: string;
+  savedAt: string; // ISO 8601
+  encrypted: boolean;
+  documentName?: string;
+  salt?: Uint8Array;
+  iv?: Uint8Array;
+  payload: ArrayBuffer;
+}
+
+interface SessionPayloadHeader {
+  project: RedactionProject;
+  currentPage: number;
+  fileName: string;
+  fileType: string;
+}
+
+/**
+ * SessionStore persists the in-progress session in the browser's IndexedDB
+ *
+ * Data never leaves the device. When a passphrase is given, the whole session
+ * (review state and original file bytes) is encrypted with AES-GCM using a
+ * PBKDF2-derived key, and only the save time is stored in the clear.
+ */
+export class SessionStore {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  /**
+   * Check whether IndexedDB is available in this browser
+   */
+  isSupported(): boolean {
+    return typeof indexedDB !== "undefined";
+  }
+
+  /**
+   * Save the session, replacing any previously stored one
+   * @param passphrase - Optional passphrase to encrypt the session with
+   */
+  async save(session: AutosaveSession, passphrase?: string): Promise<void> {
+    const payload = await this.encodePayload(session);
+    const record: StoredSessionRecord = {
+      id: SESSION_KEY,
+      savedAt: new Date().toISOString(),
+      encrypted: !!passphrase,
+      payload,
+    };
+
+    if (passphrase) {
+      const salt = crypto.getRandomValues(new Uint8Array(16));
+      const iv = crypto.getRandomValues(new Uint8Array(12));
+      const key = await this.deriveKey(passphrase, salt);
+
+      record.salt = salt;
+      record.iv = iv;
+      record.payload = await crypto.subtle.encrypt(
+        { name: "AES-GCM", iv },
+        key,
+        payload,
+      );
+    } else {
+      record.documentName = session.file.name;
+    }
+
+    const db = await this.openDatabase();
+    const store = db
+      .transaction(STORE_NAME, "readwrite")
+      .objectStore(STORE_NAME);
+    await this.request(store.put(record));
+  }
+
+  /**
+   * Get metadata about the stored session without decrypting it
+   * @returns Summary of the stored session, or null if there is none
+   */
+  async getSummary(): Promise<AutosaveSummary | null> {
+    const record = await this.getRecord();
+    if (!record) return null;
+
+    return {
+      savedAt: new Date(record.savedAt),
+      encrypted: record.encrypted,
+      documentName: record.documentName,
+    };
+  }
+
+  /**
+   * Load the stored session
+   * @param passphrase - Passphrase the session was encrypted with, if any
+   */
+  async load(passphrase?: string): Promise<AutosaveSession> {
+    const record = await this.getRecord();
+    if (!record) {
+      throw new Error("No saved session found");
+    }
+
+    let payload = record.payload;
+
+    if (record.encrypted) {
+      if (!passphrase || !record.salt || !record.iv) {
+        throw new Error("This session is encrypted. Enter its passphrase.");
+      }
+
+      try {
+        const key = await this.deriveKey(passphrase, record.salt);
+        payload = await crypto.subtle.decrypt(
+          { name: "AES-GCM", iv: record.iv as BufferSource },
+          key,
+          record.payload,
+        );
+      } catch {
+        throw new Error("Incorrect passphrase");
+      }
+    }
+
+    return this.decodePayload(payload);
+  }
+
+  /**
+   * Permanently delete the stored session
+   */
+  async purge(): Promise<void> {
+    const db = await this.openDatabase();
+    const store = db
+      .transaction(STORE_NAME, "readwrite")
+      .objectStore(STORE_NAME);
+    await this.request(store.delete(SESSION_KEY));
+  }
+
+  // Private helper methods
+
+  private async getRecord(): Promise<StoredSessionRecord | null> {
+    const db = await this.openDatabase();
+    const store = db
+      .transaction(STORE_NAME, "readonly")
+      .objectStore(STORE_NAME);
+    const record = await this.request<StoredSessionRecord | undefined>(
+      store.get(SESSION_KEY),
+    );
+    return record ?? null;
+  }
+
+  private openDatabase(): Promise<IDBDatabase> {
+    if (!this.isSupported()) {
+      return Promise.reject(new Error("IndexedDB is not available"));
+    }
+
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(STORE_NAME)) {
+            db.createObjectStore(STORE_NAME, { keyPath: "id" });
+          }
+        };
+
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          this.dbPromise = null;
+          reject(new Error("Failed to open session storage"));
+        };
+      });
+    }
+
+    return this.dbPromise;
+  }
+
+  private request<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () =>
+        reject(request.error ?? new Error("Session storage request failed"));
+    });
+  }
+
+  private async deriveKey(
+    passphrase: string,
+    salt: Uint8Array,
+  ): Promise<CryptoKey> {
+    const baseKey = await crypto.subtle.importKey(
+      "raw",
+      new TextEncoder().encode(passphrase),
+      "PBKDF2",
+      false,
+      ["deriveKey"],
+    );
+
+    return crypto.subtle.deriveKey(
+      {
+        name: "PBKDF2",
+        salt: salt as BufferSource,
+        iterations: PBKDF2_ITERATIONS,
+        hash: "SHA-256",
+      },
+      baseKey,
+      { name: "AES-GCM", length: 256 },
+      false,
+      ["encrypt", "decrypt"],
+    );
+  }
+
+  /**
+   * Pack the session into one buffer: [header length][JSON header][file bytes]
+   */
+  private async encodePayload(session: AutosaveSession): Promise<ArrayBuffer> {
+    const header: SessionPayloadHeader = {
+      project: session.project,
+      currentPage: session.currentPage,
+      fileName: session.file.name,
+      fileType: session.file.type,
+    };
+    const headerBytes = new TextEncoder().encode(JSON.stringify(header));
+    const fileBytes = new Uint8Array(await session.file.arrayBuffer());
+
+    const buffer = new Uint8Array(4 + headerBytes.length + fileBytes.length);
+    new DataView(buffer.buffer).setUint32(0, headerBytes.length);
+    buffer.set(headerBytes, 4);
+    buffer.set(fileBytes, 4 + headerBytes.length);
+
+    return buffer.buffer;
+  }
+
+  private decodePayload(payload: ArrayBuffer): AutosaveSession {
+    const headerLength = new DataView(payload).getUint32(0);
+    const header = JSON.parse(
+      new TextDecoder().decode(new Uint8Array(payload, 4, headerLength)),
+    ) as SessionPayloadHeader;
+    const fileBytes = payload.slice(4 + headerLength);
+
+    return {
+      project: header.project,
+      currentPage: header.currentPage,
+      file: new File([fileBytes], header.fileName, { type: header.fileType }),
+    };
+  }
+}
@@ -0,0 +1,257 @@
+/**
+ * WordPiece tokenizer compatible with BERT-style `vocab.txt` files
+ * Produces sub-word token IDs together with character offsets into the
+ * original text, so model predictions can be mapped back to OCR words
+ */
+
+export interface WordPieceTokenizerOptions {
+  doLowerCase: boolean;
+  stripAccents: boolean;
+  unknownToken: string;
+  clsToken: string;
+  sepToken: string;
+  padToken: string;
+  maxInputCharsPerWord: number;
+}
+
+export interface Token {
+  id: number;
+  text: string;
+  start: number; // character offset in the original text (inclusive)
+  end: number; // character offset in the original text (exclusive)
+  isSubword: boolean; // true for "##" continuation pieces
+}
+
+// stripAccents follows doLowerCase unless given, as in BERT's tokenizer:
+// cased models keep their accents
+const DEFAULT_OPTIONS: Omit<WordPieceTokenizerOptions, "stripAccents"> = {
+  doLowerCase: true,
+  unknownToken: "[UNK]",
+  clsToken: "[CLS]",
+  sepToken: "[SEP]",
+  padToken: "[PAD]",
+  maxInputCharsPerWord: 100,
+};
+
+const SUBWORD_PREFIX = "##";
+
+export class WordPieceTokenizer {
+  private vocab: Map<string, number>;
+  private options: WordPieceTokenizerOptions;
+
+  constructor(
+    vocab: Map<string, number>,
+    options: Partial<WordPieceTokenizerOptions> = {},
+  ) {
+    this.vocab = vocab;
+    this.options = {
+      ...DEFAULT_OPTIONS,
+      stripAccents: options.doLowerCase ?? DEFAULT_OPTIONS.doLowerCase,
+      ...options,
+    };
+
+    for (const token of [
+      this.options.unknownToken,
+      this.options.clsToken,
+      this.options.sepToken,
+    ]) {
+      if (!this.vocab.has(token)) {
+        throw new Error(`Vocabulary is missing special token ${token}`);
+      }
+    }
+  }
+
+  /**
+   * Load a tokenizer from a local vocab file (one token per line)
+   * @param vocabPath - URL of the vocab.txt file served with the app
+   */
+  static async fromVocabFile(
+    vocabPath: string,
+    options: Partial<WordPieceTokenizerOptions> = {},
+  ): Promise<WordPieceTokenizer> {
+    const response = await fetch(vocabPath);
+    if (!response.ok) {
+      throw new Error(
+        `Failed to load vocab file: ${response.status} ${response.statusText}`,
+      );
+    }
+
+    const lines = (await response.text()).split(/\r?\n/);
+    const vocab = new Map<string, number>();
+    lines.forEach((line, index) => {
+      if (line.length > 0 && !vocab.has(line)) {
+        vocab.set(line, index);
+      }
+    });
+
+    return new WordPieceTokenizer(vocab, options);
+  }
+
+  get clsTokenId(): number {
+    return this.vocab.get(this.options.clsToken)!;
+  }
+
+  get sepTokenId(): number {
+    return this.vocab.get(this.options.sepToken)!;
+  }
+
+  get padTokenId(): number {
+    return this.vocab.get(this.options.padToken) ?? 0;
+  }
+
+  /**
+   * Tokenize text into WordPiece tokens with character offsets
+   * Special tokens ([CLS], [SEP]) are not added here
+   */
+  encode(text: string): Token[] {
+    const tokens: Token[] = [];
+
+    for (const word of this.basicTokenize(text)) {
+      tokens.push(...this.wordPieceTokenize(word));
+    }
+
+    return tokens;
+  }
+
+  /**
+   * Split text on whitespace and punctuation, normalizing each character
+   * while remembering which original character it came from
+   */
+  private basicTokenize(
+    text: string,
+  ): Array<{ normalized: string; offsets: number[] }> {
+    const words: Array<{ normalized: string; offsets: number[] }> = [];
+    let current = { normalized: "", offsets: [] as number[] };
+
+    const flush = () => {
+      if (current.normalized.length > 0) {
+        words.push(current);
+      }
+      current = { normalized: "", offsets: [] };
+    };
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+
+      if (/\s/.test(char) || this.isControl(char)) {
+        flush();
+        continue;
+      }
+
+      const normalized = this.normalizeChar(char);
+      if (normalized.length === 0) continue;
+
+      // Punctuation and CJK characters become their own tokens
+      if (this.isPunctuation(char) || this.isCJK(char)) {
+        flush();
+        words.push({
+          normalized,
+          offsets: Array.from(normalized, () => i),
+        });
+        continue;
+      }
+
+      current.normalized += normalized;
+      for (let j = 0; j < normalized.length; j++) {
+        current.offsets.push(i);
+      }
+    }
+
+    flush();
+    return words;
+  }
+
+  /**
+   * Greedy longest-match-first WordPiece split of a single word
+   */
+  private wordPieceTokenize(word: {
+    normalized: string;
+    offsets: number[];
+  }): Token[] {
+    const { normalized, offsets } = word;
+    const wordStart = offsets[0];
+    const wordEnd = offsets[offsets.length - 1] + 1;
+
+    if (normalized.length > this.options.maxInputCharsPerWord) {
+      return [this.unknownToken(wordStart, wordEnd)];
+    }
+
+    const pieces: Token[] = [];
+    let start = 0;
+
+    while (start < normalized.length) {
+      let end = normalized.length;
+      let match: Token | null = null;
+
+      while (start < end) {
+        const substr = normalized.slice(start, end);
+        const candidate = start > 0 ? `${SUBWORD_PREFIX}${substr}` : substr;
+        const id = this.vocab.get(candidate);
+
+        if (id !== undefined) {
+          match = {
+            id,
+            text: candidate,
+            start: offsets[start],
+            end: offsets[end - 1] + 1,
+            isSubword: start > 0,
+          };
+          break;
+        }
+        end--;
+      }
+
+      // Any unmatched piece makes the whole word unknown
+      if (!match) {
+        return [this.unknownToken(wordStart, wordEnd)];
+      }
+
+      pieces.push(match);
+      start = end;
+    }
+
+    return pieces;
+  }
+
+  private unknownToken(start: number, end: number): Token {
+    return {
+      id: this.vocab.get(this.options.unknownToken)!,
+      text: this.options.unknownToken,
+      start,
+      end,
+      isSubword: false,
+    };
+  }
+
+  private normalizeChar(char: string): string {
+    let normalized = this.options.doLowerCase ? char.toLowerCase() : char;
+
+    if (this.options.stripAccents) {
+      normalized = normalized.normalize("NFD").replace(/\p{Mn}/gu, "");
+    }
+
+    return normalized;
+  }
+
+  private isControl(char: string): boolean {
+    return /\p{Cc}|\p{Cf}/u.test(char) && !/[\t\n\r]/.test(char);
+  }
+
+  private isPunctuation(char: string): boolean {
+    const code = char.charCodeAt(0);
+    // Treat all non-letter/number ASCII as punctuation, as BERT does
+    if (
+      (code >= 33 && code <= 47) ||
+      (code >= 58 && code <= 64) ||
+      (code >= 91 && code <= 96) ||
+      (code >= 123 && code <= 126)
+    ) {
+      return true;
+    }
+    return /\p{P}/u.test(char);
+  }
+
+  private isCJK(char: string): boolean {
+    return /[一-鿿㐀-䶿豈-﫿]/.test(char);
+  }
+}
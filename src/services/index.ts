@@ -1,9 +1,15 @@
 export { CanvasController } from "./CanvasController";
+export { CustomRuleService } from "./CustomRuleService";
+export { DetectorRegistry } from "./DetectorRegistry";
 export { DocumentManager } from "./DocumentManager";
 export { ExportService } from "./ExportService";
+export { ExportBlockedError, ExportVerifier } from "./ExportVerifier";
 export { ImageRenderer } from "./ImageRenderer";
 export { OCREngineImpl } from "./OCREngine";
 export { OCREngineWorker } from "./OCREngineWorker";
 export { PDFRenderer } from "./PDFRenderer";
+export { PDFSanitizer } from "./PDFSanitizer";
 export { PIIDetectionEngineImpl } from "./PIIDetectionEngine";
+export { ProjectService } from "./ProjectService";
 export { RedactionManager } from "./RedactionManager";
+export { SessionStore } from "./SessionStore";
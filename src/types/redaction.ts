@@ -13,9 +13,42 @@ export enum PIIType {
   ADDRESS = "address",
   DATE_OF_BIRTH = "date_of_birth",
   CREDIT_CARD = "credit_card",
+  UK_NINO = "uk_nino",
+  UK_NHS = "uk_nhs",
+  DE_TAX_ID = "de_tax_id",
+  FR_INSEE = "fr_insee",
+  ES_DNI = "es_dni",
+  ES_NIE = "es_nie",
+  IN_AADHAAR = "in_aadhaar",
+  IN_PAN = "in_pan",
+  CA_SIN = "ca_sin",
+  AU_TFN = "au_tfn",
+  IBAN = "iban",
+  SWIFT_BIC = "swift_bic",
+  ABA_ROUTING = "aba_routing",
+  BANK_ACCOUNT = "bank_account",
+  CRYPTO_ADDRESS = "crypto_address",
+  CARD_CVV = "card_cvv",
+  CARD_EXPIRY = "card_expiry",
+  CUSTOM = "custom", // matched by a user-defined rule, see PIIDetection.customRule
   OTHER = "other",
 }
 
+/**
+ * Regional pattern packs used by regex detection, chosen per document
+ * Email, date and financial patterns apply regardless of locale
+ */
+export type PIILocale =
+  | "us"
+  | "uk"
+  | "de"
+  | "fr"
+  | "es"
+  | "in"
+  | "ca"
+  | "au"
+  | "international";
+
 export enum ErrorType {
   INVALID_FILE_FORMAT = "INVALID_FILE_FORMAT",
   FILE_TOO_LARGE = "FILE_TOO_LARGE",
@@ -24,6 +57,10 @@ export enum ErrorType {
   PII_DETECTION_FAILED = "PII_DETECTION_FAILED",
   EXPORT_FAILED = "EXPORT_FAILED",
   CANVAS_ERROR = "CANVAS_ERROR",
+  SESSION_RESTORE_FAILED = "SESSION_RESTORE_FAILED",
+  INVALID_CUSTOM_RULES = "INVALID_CUSTOM_RULES",
+  RESIDUAL_PII_FOUND = "RESIDUAL_PII_FOUND",
+  NO_TEXT_IN_REGION = "NO_TEXT_IN_REGION",
 }
 
 export enum InteractionMode {
@@ -32,6 +69,12 @@ export enum InteractionMode {
   REVIEW = "review",
 }
 
+export enum DrawTool {
+  RECTANGLE = "rectangle",
+  POLYGON = "polygon", // click each corner, double-click or Enter to close
+  LASSO = "lasso", // drag around the area
+}
+
 // Core Interfaces
 
 export interface Document {
@@ -40,6 +83,7 @@ export interface Document {
   name: string;
   pageCount: number;
   data: ArrayBuffer | string;
+  hash: string; // SHA-256 of the original file bytes (hex)
 }
 
 export interface ValidationResult {
@@ -52,6 +96,17 @@ export interface Point {
   y: number;
 }
 
+/**
+ * A handle for resizing a region, named by the compass direction of the
+ * corner or edge it sits on
+ */
+export type ResizeHandle = "nw" | "n" | "ne" | "e" | "se" | "s" | "sw" | "w";
+
+/**
+ * A rectangular redaction area on a page
+ * x, y, width and height are normalized fractions (0–1) of the page size,
+ * independent of zoom, device pixel ratio and render resolution
+ */
 export interface RedactionRegion {
   id: string;
   x: number;
@@ -61,6 +116,19 @@ export interface RedactionRegion {
   piiType?: PIIType;
   confidence?: number;
   isManual: boolean;
+  linkGroupId?: string; // set while the region awaits review in a LinkedRegionGroup
+  detectionId?: string; // the PIIDetection the region was created for
+  shape?: Point[]; // outline within the rectangle, for polygon and lasso regions
+}
+
+/**
+ * Regions added by redacting every occurrence of a manually boxed phrase.
+ * They are accepted or rejected together from the detections list.
+ */
+export interface LinkedRegionGroup {
+  id: string;
+  text: string; // the phrase read from the source region
+  sourcePage: number;
 }
 
 export interface PageDimensions {
@@ -80,10 +148,30 @@ export interface BoundingBox {
   y1: number;
 }
 
+/**
+ * A recognized word. The OCR engine reports boxes in pixels of the recognized
+ * image; results are normalized to page fractions before detection.
+ * start and end are the word's character offsets in its OCRResult's text.
+ */
 export interface OCRWord {
   text: string;
   bbox: BoundingBox;
   confidence: number;
+  start: number;
+  end: number; // exclusive
+  // One box per character (UTF-16 code unit) of text, when the source knows
+  // where each glyph sits; the two halves of a surrogate pair share a box
+  symbols?: BoundingBox[];
+}
+
+/**
+ * A stretch of page text holding PII, before it is mapped to OCR words
+ */
+export interface PIISpan {
+  type: PIIType;
+  start: number;
+  end: number;
+  confidence: number;
 }
 
 export interface OCRResult {
@@ -92,13 +180,129 @@ export interface OCRResult {
   confidence: number;
 }
 
+/**
+ * Where a page's words came from: the PDF's own text layer, OCR of the
+ * rendered page, or the text layer plus OCR of the images on the page
+ */
+export type TextSource = "text-layer" | "ocr" | "mixed";
+
 export interface PIIDetection {
+  // Unique across pages and runs; a detection's regions refer to it by this
+  id: string;
   text: string;
   type: PIIType;
   confidence: number;
   startIndex: number;
   endIndex: number;
   words: OCRWord[];
+  // Snapshot of the rule behind a CUSTOM detection, kept so the detection
+  // still reads correctly if the rule is later edited or deleted
+  customRule?: Pick<CustomRule, "id" | "label" | "color">;
+  // Ids of the detectors whose overlapping spans were resolved into this one
+  detectors?: string[];
+}
+
+/**
+ * A user-defined detection rule for identifiers no built-in pattern knows,
+ * such as employee IDs or project codenames
+ */
+export interface CustomRule {
+  id: string;
+  label: string; // shown as the detection's type
+  kind: "regex" | "words";
+  pattern: string; // a regular expression, or one word or phrase per line
+  caseSensitive: boolean;
+  color: string; // hex color of the rule's chip in the review list
+  confidence: number; // 0-1, before OCR quality is blended in
+  enabled: boolean;
+}
+
+/**
+ * What a detector is given for one page
+ */
+export interface DetectorInput {
+  text: string;
+  words: OCRWord[];
+  // Detections of the detectors that ran earlier on the page, in run order
+  previous: PIIDetection[];
+}
+
+/**
+ * A source of detections (regex pack, checksum validator, model, word list
+ * or rule set) run by the detection engine's registry
+ */
+export interface Detector {
+  id: string;
+  label: string;
+  detect(input: DetectorInput): Promise<PIIDetection[]>;
+}
+
+/**
+ * How the registry runs a detector
+ * Overlapping detections are resolved into one span labelled with the most
+ * specific type; between equally specific types, the higher priority
+ * detector's wins.
+ */
+export interface DetectorSettings {
+  enabled: boolean;
+  priority: number;
+}
+
+/**
+ * A registered detector as listed to the UI, in run order
+ */
+export interface DetectorInfo extends DetectorSettings {
+  id: string;
+  label: string;
+}
+
+/**
+ * How one detector did on the last detection run
+ */
+export interface DetectorRunStats {
+  id: string;
+  label: string;
+  durationMs: number;
+  found: number; // detections returned by the detector
+  kept: number; // detections left after merging and context scoring
+  error?: string;
+}
+
+/**
+ * How a document search matches its query: as literal text, as a regular
+ * expression, or fuzzily, tolerating OCR errors within an edit distance
+ */
+export type SearchMode = "text" | "regex" | "fuzzy";
+
+export interface SearchOptions {
+  mode: SearchMode;
+  matchCase: boolean;
+  wholeWord: boolean; // fuzzy search always matches whole words
+}
+
+/**
+ * One occurrence of a search query, in normalized page coordinates
+ */
+export interface SearchHit {
+  id: string;
+  pageNumber: number;
+  text: string;
+  boxes: BoundingBox[]; // one per line the hit spans
+  before: string; // page text leading up to the hit, for display
+  after: string;
+  edits?: number; // edit distance from the query, for fuzzy hits
+}
+
+export const CUSTOM_RULES_FILE_FORMAT = "redactor-pro-rules";
+export const CUSTOM_RULES_FILE_VERSION = 1;
+
+/**
+ * Custom rules exported for sharing with a team
+ */
+export interface CustomRulesFile {
+  format: typeof CUSTOM_RULES_FILE_FORMAT;
+  version: typeof CUSTOM_RULES_FILE_VERSION;
+  rules: CustomRule[];
 }
 
 export interface AppError {
@@ -112,6 +316,9 @@ export interface ProcessingStatus {
   stage: "loading" | "ocr" | "pii-detection" | "complete" | "error";
   progress: number;
   message: string;
+  currentPage?: number; // page being processed in multi-page jobs
+  totalPages?: number;
+  cancellable?: boolean;
 }
 
 export interface AppState {
@@ -144,11 +351,18 @@ export interface CanvasController {
   addRedactionRegion(region: RedactionRegion): void;
   removeRedactionRegion(regionId: string): void;
   highlightRegion(regionId: string): void;
+  highlightDetection(detectionId: string): void;
   clearHighlight(): void;
   getCanvasCoordinates(x: number, y: number): Point;
   setZoom(scale: number): void;
   getHighlightedRegionId(): string | null;
   getRegions(): RedactionRegion[];
+  setRegions(regions: RedactionRegion[]): void;
+  setSelection(regionIds: string[]): void;
+  nudgeSelectedRegions(direction: Point, large: boolean): boolean;
+  setDrawTool(tool: DrawTool): void;
+  finishPolygon(): boolean;
+  cancelDrawing(): boolean;
 }
 
 export interface PDFRenderer {
@@ -160,7 +374,13 @@ export interface PDFRenderer {
     scale: number,
   ): Promise<void>;
   getPageDimensions(pageNumber: number): Promise<PageDimensions>;
-  extractPageAsImage(pageNumber: number): Promise<ImageData>;
+  renderPageToCanvas(
+    pageNumber: number,
+    scale: number,
+  ): Promise<HTMLCanvasElement>;
+  extractPageAsImage(pageNumber: number, scale?: number): Promise<ImageData>;
+  getTextContent(pageNumber: number): Promise<OCRResult>;
+  getImageRegions(pageNumber: number): Promise<BoundingBox[]>;
 }
 
 export interface ImageRenderer {
@@ -178,7 +398,18 @@ export interface OCREngine {
 
 export interface PIIDetectionEngine {
   initialize(modelPath: string): Promise<void>;
+  setLocales(locales: PIILocale[]): void;
+  setCustomRules(rules: CustomRule[]): void;
   detectPII(text: string, words: OCRWord[]): Promise<PIIDetection[]>;
+  registerDetector(
+    detector: Detector,
+    settings?: Partial<DetectorSettings>,
+  ): void;
+  getDetectors(): DetectorInfo[];
+  setDetectorEnabled(detectorId: string, enabled: boolean): void;
+  setDetectorPriority(detectorId: string, priority: number): void;
+  moveDetector(detectorId: string, index: number): void;
+  getLastRunStats(): DetectorRunStats[];
   dispose(): Promise<void>;
 }
 
@@ -192,13 +423,105 @@ export interface RedactionManager {
   applyRedactions(canvas: HTMLCanvasElement): void;
 }
 
+export interface ExportPage {
+  canvas: HTMLCanvasElement;
+  width: number; // page width in PDF points
+  height: number; // page height in PDF points
+}
+
+export interface ExportProgressOptions {
+  onProgress?: (pageNumber: number, totalPages: number) => void;
+  signal?: AbortSignal;
+}
+
+export interface ExportOptions extends ExportProgressOptions {
+  // Called with the finished file before it is downloaded; throw to cancel
+  beforeDownload?: (file: Blob) => Promise<void>;
+}
+
+/**
+ * What to do when verification finds text left in an exported file
+ */
+export type VerificationMode = "off" | "warn" | "block";
+
+export interface VerificationFinding {
+  pageNumber: number;
+  text: string;
+  source: Exclude<TextSource, "mixed">;
+  reason: "under-region" | "near-region"; // near: re-detected PII touching a region
+  piiType?: PIIType;
+  bbox: BoundingBox; // normalized page coordinates
+}
+
+export interface VerificationReport {
+  pagesChecked: number;
+  findings: VerificationFinding[];
+}
+
+/**
+ * How PDFs are exported: flattened page images, or the original PDF with
+ * content under regions removed and everything else kept as vector text
+ */
+export type PDFExportMode = "flatten" | "preserve-text";
+
+export interface PDFRedactionReport {
+  glyphsRemoved: number;
+  imagesRedacted: number; // images with pixels under regions blacked out
+  imagesRemoved: number; // inline images under regions dropped entirely
+  annotationsRemoved: number;
+  rasterizedPages: number[]; // pages flattened because they could not be rewritten safely
+  sanitization: SanitizationReport;
+}
+
+/**
+ * Kinds of hidden content and metadata removed from exported files
+ */
+export type SanitizationCategory =
+  | "document-info"
+  | "xmp-metadata"
+  | "annotations"
+  | "embedded-files"
+  | "form-fields"
+  | "javascript"
+  | "bookmarks"
+  | "thumbnails"
+  | "image-metadata";
+
+export interface SanitizationFinding {
+  category: SanitizationCategory;
+  count: number;
+  details: string[]; // e.g. info keys, field names, file names
+}
+
+export interface SanitizationReport {
+  findings: SanitizationFinding[]; // only categories that were found
+}
+
 export interface ExportService {
-  exportAsPDF(pages: HTMLCanvasElement[], originalName: string): Promise<void>;
+  exportAsPDF(
+    pages: HTMLCanvasElement[],
+    originalName: string,
+    options?: ExportOptions,
+  ): Promise<void>;
+  exportRedactedPDF(
+    source: ArrayBuffer,
+    regionsByPage: Map<number, RedactionRegion[]>,
+    renderPage: (pageNumber: number) => Promise<ExportPage>,
+    originalName: string,
+    options?: ExportOptions,
+  ): Promise<PDFRedactionReport>;
+  exportPagesAsPDF(
+    pageCount: number,
+    renderPage: (pageNumber: number) => Promise<ExportPage>,
+    originalName: string,
+    options?: ExportOptions,
+  ): Promise<void>;
   exportAsImage(
     canvas: HTMLCanvasElement,
     originalName: string,
     format: "png" | "jpg",
-  ): Promise<void>;
+    options?: ExportOptions,
+  ): Promise<SanitizationReport>;
 }
 
 // History tracking
@@ -208,11 +531,16 @@ export enum HistoryActionType {
   PII_DETECTION_RUN = "pii_detection_run",
   MANUAL_REDACTION_ADDED = "manual_redaction_added",
   REDACTION_REMOVED = "redaction_removed",
+  REDACTION_EDITED = "redaction_edited",
   DETECTION_TOGGLED = "detection_toggled",
   EXPORT_COMPLETED = "export_completed",
   MODE_CHANGED = "mode_changed",
   PAGE_CLEARED = "page_cleared",
   ALL_CLEARED = "all_cleared",
+  PROJECT_SAVED = "project_saved",
+  PROJECT_OPENED = "project_opened",
+  SEARCH_REDACTED = "search_redacted",
+  OCCURRENCES_REDACTED = "occurrences_redacted",
 }
 
 export interface HistoryEntry {
@@ -226,6 +554,94 @@ export interface HistoryEntry {
     format?: string;
     mode?: InteractionMode;
     piiType?: PIIType;
+    sanitization?: string; // summary of metadata removed on export
+    verification?: string; // summary of the post-export verification
     [key: string]: unknown;
   };
+  undone?: boolean; // set while the entry's edit is undone
+}
+
+/**
+ * Reverts and reapplies an edit logged in the history
+ */
+export interface UndoableEdit {
+  undo: () => void;
+  redo: () => void;
+}
+
+// Project files
+
+export const PROJECT_FILE_FORMAT = "redactor-pro-project";
+export const PROJECT_FILE_VERSION = 1;
+
+export interface ProjectPage {
+  page: number;
+  regions: RedactionRegion[];
+  detections: PIIDetection[];
+  enabledDetections: string[];
+  detectionRun: boolean;
+}
+
+export interface ProjectHistoryEntry extends Omit<HistoryEntry, "timestamp"> {
+  timestamp: string; // ISO 8601
+}
+
+/**
+ * Saved redaction project. Holds all review state but never the document
+ * itself; the SHA-256 hash ties the project to its source document.
+ */
+export interface RedactionProject {
+  format: typeof PROJECT_FILE_FORMAT;
+  version: typeof PROJECT_FILE_VERSION;
+  savedAt: string; // ISO 8601
+  document: {
+    name: string;
+    type: DocumentType;
+    pageCount: number;
+    sha256: string;
+  };
+  pages: ProjectPage[];
+  history: ProjectHistoryEntry[];
+  locales?: PIILocale[]; // absent in projects saved before locale packs
+}
+
+/**
+ * Review state captured into and restored from a project
+ */
+export interface ProjectState {
+  redactions: Map<number, RedactionRegion[]>;
+  detections: Map<number, PIIDetection[]>;
+  enabledDetections: Map<number, Set<string>>;
+  detectedPages: Set<number>;
+  history: HistoryEntry[];
+  locales: PIILocale[];
+}
+
+/**
+ * The review state of some pages, with the linked groups pending review,
+ * as kept to undo or redo an edit of them
+ */
+export interface ReviewSnapshot {
+  pages: ProjectPage[];
+  linkedGroups: LinkedRegionGroup[];
+}
+
+// Autosave
+
+/**
+ * An in-progress session persisted locally in IndexedDB
+ */
+export interface AutosaveSession {
+  project: RedactionProject;
+  currentPage: number;
+  file: File; // original document bytes
+}
+
+/**
+ * Unencrypted metadata about the stored session, used for the resume prompt
+ */
+export interface AutosaveSummary {
+  savedAt: Date;
+  encrypted: boolean;
+  documentName?: string; // omitted for encrypted sessions
 }
@@ -0,0 +1,437 @@
+/**
+ * Checksum and format validators for national and financial identifiers
+ *
+ * Each validator takes the matched text, strips separators itself, and
+ * returns whether the identifier is well formed (asynchronously where hashing
+ * is involved). They are used to reject regex matches that only look like an
+ * identifier.
+ */
+
+const digitsOf = (value: string): number[] =>
+  Array.from(value.replace(/\D/g, ""), Number);
+
+/**
+ * Luhn (mod 10) check, used by payment cards and Canadian SINs
+ */
+export function isValidLuhn(value: string): boolean {
+  const digits = digitsOf(value);
+  if (digits.length === 0) return false;
+
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = digits[digits.length - 1 - i];
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+
+  return sum % 10 === 0;
+}
+
+const VERHOEFF_MULTIPLY = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9],
+  [1, 2, 3, 4, 0, 6, 7, 8, 9, 5],
+  [2, 3, 4, 0, 1, 7, 8, 9, 5, 6],
+  [3, 4, 0, 1, 2, 8, 9, 5, 6, 7],
+  [4, 0, 1, 2, 3, 9, 5, 6, 7, 8],
+  [5, 9, 8, 7, 6, 0, 4, 3, 2, 1],
+  [6, 5, 9, 8, 7, 1, 0, 4, 3, 2],
+  [7, 6, 5, 9, 8, 2, 1, 0, 4, 3],
+  [8, 7, 6, 5, 9, 3, 2, 1, 0, 4],
+  [9, 8, 7, 6, 5, 4, 3, 2, 1, 0],
+];
+
+const VERHOEFF_PERMUTE = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9],
+  [1, 5, 7, 6, 2, 8, 3, 0, 9, 4],
+  [5, 8, 0, 3, 7, 9, 6, 1, 4, 2],
+  [8, 9, 1, 6, 0, 4, 3, 5, 2, 7],
+  [9, 4, 5, 3, 1, 2, 6, 8, 7, 0],
+  [4, 2, 8, 6, 5, 7, 3, 9, 0, 1],
+  [2, 7, 9, 3, 8, 0, 6, 4, 1, 5],
+  [7, 0, 4, 6, 9, 1, 3, 2, 5, 8],
+];
+
+/**
+ * Verhoeff check, used by Indian Aadhaar numbers
+ */
+export function isValidVerhoeff(value: string): boolean {
+  const digits = digitsOf(value).reverse();
+  let check = 0;
+
+  digits.forEach((digit, i) => {
+    check = VERHOEFF_MULTIPLY[check][VERHOEFF_PERMUTE[i % 8][digit]];
+  });
+
+  return digits.length > 0 && check === 0;
+}
+
+/**
+ * Aadhaar: 12 digits, not starting with 0 or 1, with a Verhoeff check digit
+ */
+export function isValidAadhaar(value: string): boolean {
+  const digits = value.replace(/\D/g, "");
+  return /^[2-9]\d{11}$/.test(digits) && isValidVerhoeff(digits);
+}
+
+/**
+ * UK National Insurance number: prefix letters follow HMRC allocation rules
+ */
+export function isValidNINO(value: string): boolean {
+  const nino = value.replace(/\s/g, "").toUpperCase();
+  if (!/^[A-CEGHJ-PR-TW-Z][A-CEGHJ-NPR-TW-Z]\d{6}[A-D]$/.test(nino)) {
+    return false;
+  }
+
+  return !["BG", "GB", "KN", "NK", "NT", "TN", "ZZ"].includes(nino.slice(0, 2));
+}
+
+/**
+ * NHS number: 10 digits with a mod 11 check digit
+ */
+export function isValidNHSNumber(value: string): boolean {
+  const digits = digitsOf(value);
+  if (digits.length !== 10) return false;
+
+  const sum = digits
+    .slice(0, 9)
+    .reduce((total, digit, i) => total + digit * (10 - i), 0);
+  const check = 11 - (sum % 11);
+
+  if (check === 10) return false;
+  return (check === 11 ? 0 : check) === digits[9];
+}
+
+/**
+ * German tax ID (Steuerliche Identifikationsnummer): 11 digits, no leading
+ * zero, one digit repeated in the first ten, ISO 7064 MOD 11,10 check digit
+ */
+export function isValidSteuerId(value: string): boolean {
+  const digits = digitsOf(value);
+  if (digits.length !== 11 || digits[0] === 0) return false;
+
+  const counts = new Map<number, number>();
+  for (const digit of digits.slice(0, 10)) {
+    counts.set(digit, (counts.get(digit) ?? 0) + 1);
+  }
+  const repeated = Array.from(counts.values()).filter((count) => count > 1);
+  if (repeated.length !== 1 || repeated[0] > 3) return false;
+
+  let product = 10;
+  for (const digit of digits.slice(0, 10)) {
+    let sum = (digit + product) % 10;
+    if (sum === 0) sum = 10;
+    product = (sum * 2) % 11;
+  }
+  const check = 11 - product;
+
+  return (check === 10 ? 0 : check) === digits[10];
+}
+
+/**
+ * French social security number (NIR / INSEE): 13 characters plus a 2-digit
+ * key equal to 97 minus the number mod 97. Corsican departments 2A and 2B
+ * count as 19 and 18.
+ */
+export function isValidINSEE(value: string): boolean {
+  const nir = value.replace(/\s/g, "").toUpperCase();
+  if (!/^[1-478]\d{4}(?:\d{2}|2[AB])\d{8}$/.test(nir)) return false;
+
+  const body = nir
+    .slice(0, 13)
+    .replace(/^(\d{5})2A/, "$119")
+    .replace(/^(\d{5})2B/, "$118");
+  if (!/^\d{13}$/.test(body)) return false;
+
+  const key = Number(nir.slice(13));
+  return key === 97 - (Number(body) % 97);
+}
+
+const SPANISH_ID_LETTERS = "TRWAGMYFPDXBNJZSQVHLCKE";
+
+/**
+ * Spanish DNI: 8 digits and a check letter (number mod 23)
+ */
+export function isValidDNI(value: string): boolean {
+  const dni = value.replace(/[\s-]/g, "").toUpperCase();
+  if (!/^\d{8}[A-Z]$/.test(dni)) return false;
+
+  return SPANISH_ID_LETTERS[Number(dni.slice(0, 8)) % 23] === dni[8];
+}
+
+/**
+ * Spanish NIE: X, Y or Z (read as 0, 1, 2), 7 digits and a DNI check letter
+ */
+export function isValidNIE(value: string): boolean {
+  const nie = value.replace(/[\s-]/g, "").toUpperCase();
+  if (!/^[XYZ]\d{7}[A-Z]$/.test(nie)) return false;
+
+  const number = Number(`${"XYZ".indexOf(nie[0])}${nie.slice(1, 8)}`);
+  return SPANISH_ID_LETTERS[number % 23] === nie[8];
+}
+
+/**
+ * Indian PAN: 5 letters, 4 digits, 1 letter; the 4th letter is the holder type
+ */
+export function isValidPAN(value: string): boolean {
+  return /^[A-Z]{3}[ABCFGHJLPT][A-Z]\d{4}[A-Z]$/.test(value.toUpperCase());
+}
+
+/**
+ * Canadian Social Insurance Number: 9 digits with a Luhn check; numbers
+ * starting with 0 or 8 are never issued
+ */
+export function isValidSIN(value: string): boolean {
+  const digits = value.replace(/\D/g, "");
+  return /^[1-79]\d{8}$/.test(digits) && isValidLuhn(digits);
+}
+
+/**
+ * Australian Tax File Number: 8 or 9 digits with a weighted mod 11 check
+ */
+export function isValidTFN(value: string): boolean {
+  const digits = digitsOf(value);
+  const weights =
+    digits.length === 9
+      ? [1, 4, 3, 7, 5, 8, 6, 9, 10]
+      : digits.length === 8
+        ? [10, 7, 8, 4, 6, 3, 5, 1]
+        : null;
+  if (!weights) return false;
+
+  const sum = digits.reduce((total, digit, i) => total + digit * weights[i], 0);
+  return sum % 11 === 0;
+}
+
+/**
+ * E.164 phone number: "+", a country code not starting with 0, and at most
+ * 15 digits in total
+ */
+export function isValidE164(value: string): boolean {
+  const digits = value.replace(/\D/g, "");
+  return (
+    value.trim().startsWith("+") &&
+    digits.length >= 8 &&
+    digits.length <= 15 &&
+    digits[0] !== "0"
+  );
+}
+
+// IBAN length by country (SWIFT IBAN registry)
+const IBAN_LENGTHS: Record<string, number> = {
+  AD: 24,
+  AE: 23,
+  AL: 28,
+  AT: 20,
+  AZ: 28,
+  BA: 20,
+  BE: 16,
+  BG: 22,
+  BH: 22,
+  BR: 29,
+  BY: 28,
+  CH: 21,
+  CR: 22,
+  CY: 28,
+  CZ: 24,
+  DE: 22,
+  DK: 18,
+  DO: 28,
+  EE: 20,
+  EG: 29,
+  ES: 24,
+  FI: 18,
+  FO: 18,
+  FR: 27,
+  GB: 22,
+  GE: 22,
+  GI: 23,
+  GL: 18,
+  GR: 27,
+  GT: 28,
+  HR: 21,
+  HU: 28,
+  IE: 22,
+  IL: 23,
+  IQ: 23,
+  IS: 26,
+  IT: 27,
+  JO: 30,
+  KW: 30,
+  KZ: 20,
+  LB: 28,
+  LC: 32,
+  LI: 21,
+  LT: 20,
+  LU: 20,
+  LV: 21,
+  MC: 27,
+  MD: 24,
+  ME: 22,
+  MK: 19,
+  MR: 27,
+  MT: 31,
+  MU: 30,
+  NL: 18,
+  NO: 15,
+  PK: 24,
+  PL: 28,
+  PS: 29,
+  PT: 25,
+  QA: 29,
+  RO: 24,
+  RS: 22,
+  SA: 24,
+  SC: 31,
+  SE: 24,
+  SI: 19,
+  SK: 24,
+  SM: 27,
+  ST: 25,
+  SV: 28,
+  TL: 23,
+  TN: 24,
+  TR: 26,
+  UA: 29,
+  VA: 22,
+  VG: 24,
+  XK: 20,
+};
+
+/**
+ * IBAN: registered country length and ISO 7064 mod 97 check digits
+ */
+export function isValidIBAN(value: string): boolean {
+  const iban = value.replace(/\s/g, "").toUpperCase();
+  if (!/^[A-Z]{2}\d{2}[A-Z0-9]+$/.test(iban)) return false;
+  if (IBAN_LENGTHS[iban.slice(0, 2)] !== iban.length) return false;
+
+  // Move the country code and check digits to the end, letters become 10-35
+  const rearranged = iban.slice(4) + iban.slice(0, 4);
+  let remainder = 0;
+  for (const char of rearranged) {
+    const code = Number.parseInt(char, 36);
+    remainder = (remainder * (code > 9 ? 100 : 10) + code) % 97;
+  }
+
+  return remainder === 1;
+}
+
+/**
+ * SWIFT/BIC: bank code, country code, location and optional branch
+ */
+export function isValidBIC(value: string): boolean {
+  return /^[A-Z]{4}[A-Z]{2}[A-Z0-9]{2}(?:[A-Z0-9]{3})?$/.test(value);
+}
+
+/**
+ * US ABA routing number: 9 digits, a Federal Reserve prefix and a 3-7-1
+ * weighted check digit
+ */
+export function isValidABA(value: string): boolean {
+  const digits = digitsOf(value);
+  if (digits.length !== 9) return false;
+
+  const prefix = digits[0] * 10 + digits[1];
+  const validPrefix =
+    prefix <= 12 ||
+    (prefix >= 21 && prefix <= 32) ||
+    (prefix >= 61 && prefix <= 72) ||
+    prefix === 80;
+  if (!validPrefix) return false;
+
+  const weights = [3, 7, 1];
+  const sum = digits.reduce(
+    (total, digit, i) => total + digit * weights[i % 3],
+    0,
+  );
+  return sum % 10 === 0;
+}
+
+const BASE58_ALPHABET =
+  "123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz";
+
+/**
+ * Base58Check, used by legacy Bitcoin addresses: a version byte, a 20 byte
+ * hash and the first 4 bytes of a double SHA-256 of both
+ */
+export async function isValidBase58Check(value: string): Promise<boolean> {
+  const bytes: number[] = [];
+  for (const char of value) {
+    let carry = BASE58_ALPHABET.indexOf(char);
+    if (carry < 0) return false;
+    for (let i = 0; i < bytes.length; i++) {
+      carry += bytes[i] * 58;
+      bytes[i] = carry & 0xff;
+      carry >>= 8;
+    }
+    while (carry > 0) {
+      bytes.push(carry & 0xff);
+      carry >>= 8;
+    }
+  }
+  // Each leading "1" is a leading zero byte
+  for (const char of value) {
+    if (char !== "1") break;
+    bytes.push(0);
+  }
+  bytes.reverse();
+
+  if (bytes.length !== 25) return false;
+
+  const payload = new Uint8Array(bytes.slice(0, 21));
+  const hash = new Uint8Array(
+    await crypto.subtle.digest(
+      "SHA-256",
+      await crypto.subtle.digest("SHA-256", payload),
+    ),
+  );
+
+  return hash.slice(0, 4).every((byte, i) => byte === bytes[21 + i]);
+}
+
+const BECH32_CHARSET = "qpzry9x8gf2tvdw0s3jn54khce6mua7l";
+const BECH32_GENERATOR = [
+  0x3b6a57b2, 0x26508e6d, 0x1ea119fa, 0x3d4233dd, 0x2a1462b3,
+];
+
+/**
+ * Bech32 and bech32m (BIP 173 / BIP 350), used by SegWit Bitcoin addresses
+ */
+export function isValidBech32(value: string): boolean {
+  if (value !== value.toLowerCase() && value !== value.toUpperCase()) {
+    return false;
+  }
+
+  const address = value.toLowerCase();
+  const separator = address.lastIndexOf("1");
+  if (separator < 1 || address.length - separator - 1 < 6) return false;
+
+  const hrp = address.slice(0, separator);
+  const data = Array.from(address.slice(separator + 1), (char) =>
+    BECH32_CHARSET.indexOf(char),
+  );
+  if (data.some((value) => value < 0)) return false;
+
+  const values = [
+    ...Array.from(hrp, (char) => char.charCodeAt(0) >> 5),
+    0,
+    ...Array.from(hrp, (char) => char.charCodeAt(0) & 31),
+    ...data,
+  ];
+
+  let checksum = 1;
+  for (const value of values) {
+    const top = checksum >>> 25;
+    checksum = ((checksum & 0x1ffffff) << 5) ^ value;
+    BECH32_GENERATOR.forEach((generator, i) => {
+      if ((top >>> i) & 1) checksum ^= generator;
+    });
+  }
+  checksum >>>= 0;
+
+  // Bech32 for SegWit v0, bech32m for v1+ (Taproot)
+  return checksum === 1 || checksum === 0x2bc830a3;
+}
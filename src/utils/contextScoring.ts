@@ -0,0 +1,136 @@
+/**
+ * Utility functions for scoring PII detections by the text around them
+ *
+ * Labels such as "DOB" or "Tel" next to a match raise its confidence, and
+ * labels such as "Invoice date" lower it. When both kinds are nearby, the
+ * keyword closest to the match wins.
+ */
+
+import {
+  CONTEXT_CHARS_AFTER,
+  CONTEXT_CHARS_BEFORE,
+  PII_CONTEXT_RULES,
+} from "@/config/piiContext";
+import type { PIIDetection } from "@/types/redaction";
+
+// A positive keyword closes this share of the gap to full confidence
+const POSITIVE_CONTEXT_BOOST = 0.5;
+
+// Confidence is multiplied by these when context argues against the type
+const NEGATIVE_CONTEXT_FACTOR = 0.3;
+const MISSING_CONTEXT_FACTOR = 0.6;
+
+// Detections scored below this are dropped rather than listed for review
+export const MIN_DETECTION_CONFIDENCE = 0.3;
+
+const keywordPatterns = new Map<string, RegExp>();
+
+/**
+ * Adjust a detection's confidence for the keywords around it
+ * @param detection - A detection whose indices point into text
+ * @param text - The page text the detection was found in
+ * @returns The adjusted confidence, between 0 and 1
+ */
+export function scoreContext(detection: PIIDetection, text: string): number {
+  const rule = PII_CONTEXT_RULES[detection.type];
+  if (!rule) return detection.confidence;
+
+  const { before, after } = getContext(
+    text,
+    detection.startIndex,
+    detection.endIndex,
+  );
+  const positive = findNearestKeyword(rule.positive, before, after);
+  const negative = findNearestKeyword(rule.negative, before, after);
+
+  if (positive !== null && (negative === null || positive <= negative)) {
+    return (
+      detection.confidence + (1 - detection.confidence) * POSITIVE_CONTEXT_BOOST
+    );
+  }
+
+  if (negative !== null) {
+    return detection.confidence * NEGATIVE_CONTEXT_FACTOR;
+  }
+
+  return rule.requiresContext
+    ? detection.confidence * MISSING_CONTEXT_FACTOR
+    : detection.confidence;
+}
+
+/**
+ * Text before a match on its line, and after it to the end of the line. A
+ * match starting its line also gets the previous line, since labels are
+ * often printed above a value.
+ */
+function getContext(
+  text: string,
+  startIndex: number,
+  endIndex: number,
+): { before: string; after: string } {
+  const lineStart = text.lastIndexOf("\n", startIndex - 1) + 1;
+  const startsLine = text.slice(lineStart, startIndex).trim() === "";
+  const contextStart =
+    startsLine && lineStart > 0
+      ? text.lastIndexOf("\n", lineStart - 2) + 1
+      : lineStart;
+  const lineEnd = text.indexOf("\n", endIndex);
+
+  return {
+    before: text.slice(
+      Math.max(contextStart, startIndex - CONTEXT_CHARS_BEFORE),
+      startIndex,
+    ),
+    after: text.slice(
+      endIndex,
+      Math.min(
+        lineEnd === -1 ? text.length : lineEnd,
+        endIndex + CONTEXT_CHARS_AFTER,
+      ),
+    ),
+  };
+}
+
+/**
+ * Distance in characters from the match to the closest keyword, or null
+ */
+function findNearestKeyword(
+  keywords: string[],
+  before: string,
+  after: string,
+): number | null {
+  let nearest: number | null = null;
+
+  for (const keyword of keywords) {
+    const pattern = getKeywordPattern(keyword);
+
+    for (const match of before.matchAll(pattern)) {
+      const distance = before.length - (match.index + match[0].length);
+      if (nearest === null || distance < nearest) nearest = distance;
+    }
+
+    const match = pattern.exec(after);
+    pattern.lastIndex = 0;
+    if (match && (nearest === null || match.index < nearest)) {
+      nearest = match.index;
+    }
+  }
+
+  return nearest;
+}
+
+/**
+ * Whole-word, case-insensitive pattern for a keyword, cached
+ */
+function getKeywordPattern(keyword: string): RegExp {
+  let pattern = keywordPatterns.get(keyword);
+  if (!pattern) {
+    const escaped = keyword.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    pattern = new RegExp(
+      `(?<![\\p{L}\\p{N}])${escaped}(?![\\p{L}\\p{N}])`,
+      "giu",
+    );
+    keywordPatterns.set(keyword, pattern);
+  }
+  return pattern;
+}
@@ -0,0 +1,129 @@
+/**
+ * Utility functions for converting between pixel spaces and normalized page
+ * coordinates
+ *
+ * Redaction regions and OCR word boxes are stored as fractions (0–1) of the
+ * page width and height, so they stay aligned regardless of zoom, HiDPI
+ * scaling, OCR render scale or export resolution. Convert to pixels only at
+ * the point of drawing, using the size of the target canvas.
+ */
+
+import type {
+  BoundingBox,
+  OCRResult,
+  OCRWord,
+  PageDimensions,
+} from "@/types/redaction";
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Convert a pixel bounding box into normalized page coordinates
+ * @param bbox - Bounding box in pixels of the source image
+ * @param size - Pixel size of the source image
+ */
+export function normalizeBoundingBox(
+  bbox: BoundingBox,
+  size: PageDimensions,
+): BoundingBox {
+  return {
+    x0: bbox.x0 / size.width,
+    y0: bbox.y0 / size.height,
+    x1: bbox.x1 / size.width,
+    y1: bbox.y1 / size.height,
+  };
+}
+
+/**
+ * Convert every word of an OCR result into normalized page coordinates
+ * @param result - OCR result with boxes in pixels of the recognized image
+ * @param size - Pixel size of the recognized image
+ */
+export function normalizeOCRResult(
+  result: OCRResult,
+  size: PageDimensions,
+): OCRResult {
+  return {
+    ...result,
+    words: result.words.map(
+      (word): OCRWord => ({
+        ...word,
+        bbox: normalizeBoundingBox(word.bbox, size),
+        ...(word.symbols && {
+          symbols: word.symbols.map((box) => normalizeBoundingBox(box, size)),
+        }),
+      }),
+    ),
+  };
+}
+
+/**
+ * Convert a normalized rectangle into pixels of a target canvas
+ * @param rect - Rectangle in normalized page coordinates
+ * @param size - Pixel size of the target canvas
+ */
+export function rectToPixels(rect: Rect, size: PageDimensions): Rect {
+  return {
+    x: rect.x * size.width,
+    y: rect.y * size.height,
+    width: rect.width * size.width,
+    height: rect.height * size.height,
+  };
+}
+
+/**
+ * Convert a pixel rectangle of a source canvas into normalized page coordinates
+ * @param rect - Rectangle in pixels
+ * @param size - Pixel size of the source canvas
+ */
+export function rectFromPixels(rect: Rect, size: PageDimensions): Rect {
+  return {
+    x: rect.x / size.width,
+    y: rect.y / size.height,
+    width: rect.width / size.width,
+    height: rect.height / size.height,
+  };
+}
+
+/**
+ * Area of a bounding box, zero if it is empty
+ */
+export function getBoxArea(bbox: BoundingBox): number {
+  return Math.max(0, bbox.x1 - bbox.x0) * Math.max(0, bbox.y1 - bbox.y0);
+}
+
+/**
+ * Area of the intersection of two bounding boxes
+ */
+export function getOverlapArea(a: BoundingBox, b: BoundingBox): number {
+  return getBoxArea({
+    x0: Math.max(a.x0, b.x0),
+    y0: Math.max(a.y0, b.y0),
+    x1: Math.min(a.x1, b.x1),
+    y1: Math.min(a.y1, b.y1),
+  });
+}
+
+/**
+ * Smallest box containing all of the given boxes
+ */
+export function unionBoxes(boxes: BoundingBox[]): BoundingBox {
+  return {
+    x0: Math.min(...boxes.map((box) => box.x0)),
+    y0: Math.min(...boxes.map((box) => box.y0)),
+    x1: Math.max(...boxes.map((box) => box.x1)),
+    y1: Math.max(...boxes.map((box) => box.y1)),
+  };
+}
+
+/**
+ * Get the pixel size of a canvas backing store
+ */
+export function getCanvasSize(canvas: HTMLCanvasElement): PageDimensions {
+  return { width: canvas.width, height: canvas.height };
+}
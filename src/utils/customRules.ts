@@ -0,0 +1,134 @@
+/**
+ * Utility functions for compiling and testing user-defined detection rules
+ */
+
+import type { PIIPattern } from "@/config/piiPatterns";
+import { type CustomRule, PIIType } from "@/types/redaction";
+import {
+  hasNestedQuantifier,
+  NESTED_QUANTIFIER_ERROR,
+} from "@/utils/regexSafety";
+
+// Shown in the live test; more matches are only counted
+const MAX_TEST_MATCHES = 50;
+
+/**
+ * Create an empty rule for the editor
+ */
+export function createCustomRule(): CustomRule {
+  return {
+    id: crypto.randomUUID(),
+    label: "",
+    kind: "words",
+    pattern: "",
+    caseSensitive: false,
+    color: "#6366f1",
+    confidence: 0.9,
+    enabled: true,
+  };
+}
+
+/**
+ * Compile a rule into a global regular expression
+ * Word lists match whole words or phrases, one per line.
+ * @throws If the rule is empty, or its regular expression is invalid or
+ * could take too long to match
+ */
+export function compileCustomRule(rule: CustomRule): RegExp {
+  const flags = rule.caseSensitive ? "gu" : "giu";
+
+  if (rule.kind === "words") {
+    const words = rule.pattern
+      .split("\n")
+      .map((word) => word.trim())
+      .filter((word) => word.length > 0)
+      // Longest first, so a phrase wins over a word it starts with
+      .sort((a, b) => b.length - a.length)
+      .map((word) => word.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"));
+    if (words.length === 0) {
+      throw new Error("Add at least one word or phrase");
+    }
+
+    return new RegExp(
+      `(?<![\\p{L}\\p{N}])(?:${words.join("|")})(?![\\p{L}\\p{N}])`,
+      flags,
+    );
+  }
+
+  if (rule.pattern.trim().length === 0) {
+    throw new Error("Enter a regular expression");
+  }
+  if (hasNestedQuantifier(rule.pattern)) {
+    throw new Error(NESTED_QUANTIFIER_ERROR);
+  }
+
+  try {
+    // Without the u flag, so patterns written for other tools keep working
+    return new RegExp(rule.pattern, rule.caseSensitive ? "g" : "gi");
+  } catch (error) {
+    // The engine's message already reads "Invalid regular expression: ..."
+    throw new Error(
+      error instanceof Error ? error.message : "Invalid regular expression",
+    );
+  }
+}
+
+/**
+ * Turn enabled, valid rules into patterns for the detection engine
+ */
+export function getCustomRulePatterns(rules: CustomRule[]): PIIPattern[] {
+  const patterns: PIIPattern[] = [];
+
+  for (const rule of rules) {
+    if (!rule.enabled) continue;
+
+    try {
+      patterns.push({
+        type: PIIType.CUSTOM,
+        pattern: compileCustomRule(rule),
+        confidence: rule.confidence,
+        customRule: { id: rule.id, label: rule.label, color: rule.color },
+      });
+    } catch {
+      // The editor reports invalid rules; detection skips them
+    }
+  }
+
+  return patterns;
+}
+
+/**
+ * Run a rule against sample text for the editor's live test
+ * @returns The first matches and the total count, or the compile error
+ */
+export function testCustomRule(
+  rule: CustomRule,
+  text: string,
+): {
+  matches: Array<{ text: string; index: number }>;
+  total: number;
+  error: string | null;
+} {
+  let pattern: RegExp;
+  try {
+    pattern = compileCustomRule(rule);
+  } catch (error) {
+    return {
+      matches: [],
+      total: 0,
+      error: error instanceof Error ? error.message : "Invalid rule",
+    };
+  }
+
+  const matches: Array<{ text: string; index: number }> = [];
+  let total = 0;
+  for (const match of text.matchAll(pattern)) {
+    if (match[0].length === 0) continue;
+    total++;
+    if (matches.length < MAX_TEST_MATCHES) {
+      matches.push({ text: match[0], index: match.index });
+    }
+  }
+
+  return { matches, total, error: null };
+}
@@ -0,0 +1,160 @@
+/**
+ * Strip metadata segments from exported PNG and JPEG files
+ *
+ * Only the chunks and segments needed to decode the pixels are kept, so EXIF,
+ * XMP, ICC profiles, text chunks and comments never leave with an export.
+ */
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+// Chunks that affect how pixels decode; everything else is dropped
+const PNG_KEPT_CHUNKS = new Set([
+  "IHDR",
+  "PLTE",
+  "tRNS",
+  "IDAT",
+  "IEND",
+  "gAMA",
+  "cHRM",
+  "sRGB",
+  "pHYs",
+]);
+
+const PNG_CHUNK_LABELS: Record<string, string> = {
+  eXIf: "EXIF",
+  iCCP: "ICC profile",
+  tEXt: "Text",
+  zTXt: "Text",
+  iTXt: "Text/XMP",
+  tIME: "Timestamp",
+};
+
+export interface StrippedImage {
+  bytes: Uint8Array;
+  removed: string[]; // labels of the removed metadata, one per chunk/segment
+}
+
+/**
+ * Remove metadata from an encoded image
+ * @throws Error if the bytes are not a well-formed PNG or JPEG
+ */
+export function stripImageMetadata(
+  bytes: Uint8Array,
+  format: "png" | "jpg",
+): StrippedImage {
+  return format === "png" ? stripPng(bytes) : stripJpeg(bytes);
+}
+
+function stripPng(bytes: Uint8Array): StrippedImage {
+  if (!PNG_SIGNATURE.every((byte, i) => bytes[i] === byte)) {
+    throw new Error("Not a PNG file");
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const parts: Uint8Array[] = [bytes.subarray(0, PNG_SIGNATURE.length)];
+  const removed: string[] = [];
+  let pos = PNG_SIGNATURE.length;
+
+  while (pos + 8 <= bytes.length) {
+    const length = view.getUint32(pos);
+    const type = String.fromCharCode(...bytes.subarray(pos + 4, pos + 8));
+    const end = pos + 12 + length; // length, type, data, CRC
+
+    if (end > bytes.length) {
+      throw new Error(`Truncated PNG chunk ${type}`);
+    }
+
+    if (PNG_KEPT_CHUNKS.has(type)) {
+      parts.push(bytes.subarray(pos, end));
+    } else {
+      removed.push(PNG_CHUNK_LABELS[type] ?? type);
+    }
+
+    pos = end;
+    if (type === "IEND") break;
+  }
+
+  return { bytes: concat(parts), removed };
+}
+
+function stripJpeg(bytes: Uint8Array): StrippedImage {
+  if (bytes[0] !== 0xff || bytes[1] !== 0xd8) {
+    throw new Error("Not a JPEG file");
+  }
+
+  const parts: Uint8Array[] = [bytes.subarray(0, 2)];
+  const removed: string[] = [];
+  let pos = 2;
+
+  while (pos + 4 <= bytes.length) {
+    if (bytes[pos] !== 0xff) {
+      throw new Error(`Invalid JPEG marker at offset ${pos}`);
+    }
+
+    const marker = bytes[pos + 1];
+
+    // Fill bytes may pad before a marker
+    if (marker === 0xff) {
+      pos++;
+      continue;
+    }
+
+    // Start of scan: the entropy-coded data and everything after is kept
+    if (marker === 0xda) {
+      parts.push(bytes.subarray(pos));
+      break;
+    }
+
+    const end = pos + 2 + ((bytes[pos + 2] << 8) | bytes[pos + 3]);
+    const label = jpegMetadataLabel(bytes, pos, marker);
+
+    if (label) {
+      removed.push(label);
+    } else {
+      parts.push(bytes.subarray(pos, end));
+    }
+
+    pos = end;
+  }
+
+  return { bytes: concat(parts), removed };
+}
+
+/**
+ * Label a JPEG segment as metadata, or return null if it is needed to decode
+ * APP0 (JFIF) and APP14 (Adobe color transform) are kept
+ */
+function jpegMetadataLabel(
+  bytes: Uint8Array,
+  pos: number,
+  marker: number,
+): string | null {
+  if (marker === 0xfe) return "Comment";
+  if (marker < 0xe0 || marker > 0xef || marker === 0xe0 || marker === 0xee) {
+    return null;
+  }
+
+  const identifier = String.fromCharCode(
+    ...bytes.subarray(pos + 4, Math.min(pos + 16, bytes.length)),
+  );
+
+  if (marker === 0xe1) {
+    return identifier.startsWith("Exif") ? "EXIF" : "XMP";
+  }
+  if (marker === 0xe2 && identifier.startsWith("ICC_PROFILE")) {
+    return "ICC profile";
+  }
+  if (marker === 0xed) return "IPTC";
+
+  return `APP${marker - 0xe0}`;
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
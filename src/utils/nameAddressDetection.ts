@@ -0,0 +1,462 @@
+/**
+ * Heuristic detection of personal names and postal addresses
+ *
+ * Used alongside (or instead of) the NER model. Names are found from
+ * honorifics and bundled name lists; addresses from street and postcode
+ * grammars, with lines that sit together on the page joined into one
+ * address block.
+ */
+
+import {
+  FIRST_NAMES,
+  HONORIFICS,
+  LAST_NAMES,
+  NAME_STOPWORDS,
+  STREET_NAME_ENDINGS,
+  STREET_PREFIXES,
+  STREET_SUFFIXES,
+  US_STATE_CODES,
+} from "@/config/piiLexicon";
+import {
+  type BoundingBox,
+  type OCRWord,
+  type PIISpan,
+  PIIType,
+} from "@/types/redaction";
+
+// Base confidences, before OCR quality and context are taken into account
+const CONFIDENCE = {
+  nameAfterHonorific: 0.8,
+  knownFirstAndLastName: 0.75,
+  surnameFirst: 0.65,
+  nameAboveAddress: 0.6,
+  knownFirstName: 0.55,
+  addressBlock: 0.8,
+  streetLine: 0.6,
+  usCityLine: 0.55,
+  postcode: 0.5,
+};
+
+// Most words a name may run to, initials included
+const MAX_NAME_WORDS = 4;
+
+// Honorifics that are also street types: "Dr. Roe" but "12 Oak Dr"
+const STREET_HONORIFICS = new Set(
+  STREET_SUFFIXES.map((suffix) => suffix.toLowerCase()),
+);
+
+// Most lines from a street line to its postcode line, e.g. a "Suite" line
+const MAX_BLOCK_LINES = 2;
+
+// Lines of an address block are short; longer lines are running text
+const MAX_BLOCK_LINE_LENGTH = 50;
+
+const escapeRegExp = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Capitalized words, written out and in capitals
+const STREET_SUFFIX_PATTERN = STREET_SUFFIXES.flatMap((suffix) => [
+  suffix,
+  suffix.toUpperCase(),
+]).join("|");
+
+const STREET_LINE_PATTERNS = [
+  // 221B Baker Street, 1600 Pennsylvania Ave NW, 12 Oak Dr. Apt 4
+  new RegExp(
+    `\\b\\d{1,6}[A-Za-z]?(?:-\\d{1,6})?[ \\t]+(?:[NSEW]\\.?[ \\t]+)?(?:(?:\\p{Lu}[\\p{L}'’.-]*|\\d+(?:st|nd|rd|th))[ \\t]+){1,4}(?:${STREET_SUFFIX_PATTERN})\\b\\.?(?:[ \\t]+[NS]?[EW]\\b)?(?:,?[ \\t]+(?:Apt|Apartment|Suite|Ste|Unit|Flat|Floor|Fl|#)\\.?[ \\t]*[\\w-]+)?`,
+    "gu",
+  ),
+  // Hauptstraße 5, Keizersgracht 123a
+  new RegExp(
+    `\\p{Lu}[\\p{L}-]*(?:${STREET_NAME_ENDINGS.map(escapeRegExp).join("|")})[ \\t]+\\d{1,4}[a-z]?\\b`,
+    "gu",
+  ),
+  // 12 rue de la Paix, Calle Mayor 10
+  new RegExp(
+    `(?:\\b\\d{1,4}(?:[ \\t]?(?:bis|ter))?,?[ \\t]+)?\\b(?:${STREET_PREFIXES.map(escapeRegExp).join("|")})[ \\t]+(?:[\\p{L}'’-]+[ \\t]+){0,4}[\\p{L}'’-]+(?:,?[ \\t]+\\d{1,4}[a-z]?\\b)?`,
+    "giu",
+  ),
+  // PO Box 1234
+  /\bP\.?[ \t]?O\.?[ \t]?Box[ \t]+\d+\b/gi,
+];
+
+const POSTAL_LINE_PATTERNS: Array<{ pattern: RegExp; confidence: number }> = [
+  {
+    // Springfield, IL 62704
+    pattern: new RegExp(
+      `\\p{Lu}[\\p{L} .'-]*,[ \\t]*(?:${US_STATE_CODES.join("|")})[ \\t]+\\d{5}(?:-\\d{4})?\\b`,
+      "gu",
+    ),
+    confidence: CONFIDENCE.usCityLine,
+  },
+  {
+    // SW1A 1AA
+    pattern: /\b[A-Z]{1,2}\d[A-Z\d]?[ \t]?\d[ABD-HJLNP-UW-Z]{2}\b/g,
+    confidence: CONFIDENCE.postcode,
+  },
+  {
+    // K1A 0B1
+    pattern:
+      /\b[ABCEGHJ-NPRSTVXY]\d[ABCEGHJ-NPRSTV-Z][ \t]?\d[ABCEGHJ-NPRSTV-Z]\d\b/g,
+    confidence: CONFIDENCE.postcode,
+  },
+  {
+    // 10115 Berlin, 75002 Paris; too common to report on its own
+    pattern: /\b\d{4,5}[ \t]+\p{Lu}[\p{L}-]+(?:[ \t]+\p{Lu}[\p{L}-]+)?/gu,
+    confidence: 0,
+  },
+];
+
+interface Token {
+  text: string;
+  start: number;
+  end: number;
+}
+
+interface TextLine {
+  start: number;
+  end: number;
+  box: BoundingBox | null;
+}
+
+/**
+ * Find personal names and addresses in page text
+ * Overlapping spans of the same type keep the most confident one.
+ */
+export function findNameAndAddressSpans(
+  text: string,
+  words: OCRWord[],
+): PIISpan[] {
+  const spans = [...findNameSpans(text), ...findAddressSpans(text, words)];
+
+  spans.sort((a, b) => b.confidence - a.confidence || a.start - b.start);
+  const kept: PIISpan[] = [];
+  for (const span of spans) {
+    const overlaps = kept.some(
+      (other) =>
+        other.type === span.type &&
+        other.start < span.end &&
+        other.end > span.start,
+    );
+    if (!overlaps) kept.push(span);
+  }
+
+  return kept.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Find names: capitalized words after an honorific ("Dr. Jane Roe"), a known
+ * given name followed by capitalized words ("Priya Raman"), or a known
+ * surname before a comma and a known given name ("Smith, John")
+ */
+function findNameSpans(text: string): PIISpan[] {
+  const tokens = tokenize(text);
+  const spans: PIISpan[] = [];
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    const key = normalizeWord(token.text);
+
+    if (HONORIFICS.has(key) && /^\p{Lu}/u.test(token.text)) {
+      const next = tokens[i + 1];
+      // A house number and street name before it
+      const isStreetType =
+        STREET_HONORIFICS.has(key) &&
+        /\d[A-Za-z]?(?:[ \t]+\p{Lu}[\p{L}'’.-]*){1,4}[ \t]+$/u.test(
+          text.slice(Math.max(0, token.start - 80), token.start),
+        );
+      if (
+        isStreetType ||
+        !next ||
+        !/^[ \t]+$/.test(text.slice(token.end, next.start))
+      ) {
+        continue;
+      }
+
+      const end = collectNameWords(text, tokens, i + 1);
+      if (end > i + 1) {
+        spans.push(
+          toSpan(tokens, i + 1, end - 1, CONFIDENCE.nameAfterHonorific),
+        );
+        i = end - 1;
+      }
+      continue;
+    }
+
+    if (!isCapitalized(token.text)) continue;
+
+    if (FIRST_NAMES.has(key)) {
+      const end = collectNameWords(text, tokens, i);
+      if (end - i >= 2) {
+        const last = normalizeWord(tokens[end - 1].text);
+        spans.push(
+          toSpan(
+            tokens,
+            i,
+            end - 1,
+            LAST_NAMES.has(last)
+              ? CONFIDENCE.knownFirstAndLastName
+              : CONFIDENCE.knownFirstName,
+          ),
+        );
+        i = end - 1;
+        continue;
+      }
+    }
+
+    // Smith, John
+    const next = tokens[i + 1];
+    if (
+      LAST_NAMES.has(key) &&
+      next &&
+      /^,[ \t]*$/.test(text.slice(token.end, next.start)) &&
+      isCapitalized(next.text) &&
+      FIRST_NAMES.has(normalizeWord(next.text))
+    ) {
+      spans.push(toSpan(tokens, i, i + 1, CONFIDENCE.surnameFirst));
+      i++;
+    }
+  }
+
+  return spans;
+}
+
+/**
+ * Index just past the run of name words starting at `from`: capitalized
+ * words and initials on the same line, up to a stopword
+ */
+function collectNameWords(text: string, tokens: Token[], from: number): number {
+  let end = from;
+
+  while (end < tokens.length && end - from < MAX_NAME_WORDS) {
+    const token = tokens[end];
+    if (
+      end > from &&
+      !/^[ \t]+$/.test(text.slice(tokens[end - 1].end, token.start))
+    ) {
+      break;
+    }
+
+    const isInitial = /^\p{Lu}\.?$/u.test(token.text);
+    if (
+      (!isCapitalized(token.text) && !isInitial) ||
+      NAME_STOPWORDS.has(normalizeWord(token.text)) ||
+      HONORIFICS.has(normalizeWord(token.text))
+    ) {
+      break;
+    }
+    end++;
+  }
+
+  // A name does not end on an initial
+  while (end > from && /^\p{Lu}\.?$/u.test(tokens[end - 1].text)) end--;
+
+  return end;
+}
+
+/**
+ * Find addresses: street lines, PO boxes and postcode lines. A street line
+ * followed by a postcode line in the same block of lines becomes one address,
+ * and a short capitalized line just above it is taken as the addressee.
+ */
+function findAddressSpans(text: string, words: OCRWord[]): PIISpan[] {
+  const lines = getLines(text, words);
+  const spans: PIISpan[] = [];
+  const usedPostal = new Set<number>();
+
+  const streets = findAll(text, STREET_LINE_PATTERNS).filter(({ match }) =>
+    /\d/.test(match),
+  );
+  const postals = POSTAL_LINE_PATTERNS.flatMap(({ pattern, confidence }) =>
+    findAll(text, [pattern]).map((found) => ({ ...found, confidence })),
+  );
+
+  for (const street of streets) {
+    const lineIndex = lines.findIndex(
+      (line) => street.start >= line.start && street.start <= line.end,
+    );
+
+    // The postcode may follow on the same line or on the next lines
+    let postal: (typeof postals)[number] | undefined;
+    for (
+      let i = lineIndex;
+      i >= 0 && i < lines.length && i <= lineIndex + MAX_BLOCK_LINES;
+      i++
+    ) {
+      if (i > lineIndex) {
+        const previous = lines[i - 1];
+        if (
+          previous.end - previous.start > MAX_BLOCK_LINE_LENGTH ||
+          !isSameBlock(previous, lines[i])
+        ) {
+          break;
+        }
+      }
+
+      postal = postals.find(
+        (candidate) =>
+          candidate.start >= Math.max(lines[i].start, street.end) &&
+          candidate.end <= lines[i].end,
+      );
+      if (postal) break;
+    }
+
+    if (postal) {
+      usedPostal.add(postal.start);
+      spans.push({
+        type: PIIType.ADDRESS,
+        start: street.start,
+        end: postal.end,
+        confidence: CONFIDENCE.addressBlock,
+      });
+    } else {
+      spans.push({
+        type: PIIType.ADDRESS,
+        start: street.start,
+        end: street.end,
+        confidence: CONFIDENCE.streetLine,
+      });
+    }
+
+    // Addressee line just above the street line
+    const above = lines[lineIndex - 1];
+    if (above && lineIndex >= 0 && isSameBlock(above, lines[lineIndex])) {
+      const addressee = findAddressee(text, above);
+      if (addressee) spans.push(addressee);
+    }
+  }
+
+  for (const postal of postals) {
+    if (postal.confidence === 0 || usedPostal.has(postal.start)) continue;
+    // Postcodes inside a street match are house numbers or unit codes
+    if (streets.some((s) => s.start < postal.end && s.end > postal.start)) {
+      continue;
+    }
+    spans.push({
+      type: PIIType.ADDRESS,
+      start: postal.start,
+      end: postal.end,
+      confidence: postal.confidence,
+    });
+  }
+
+  return spans;
+}
+
+/**
+ * A line holding only a short capitalized name, e.g. "Ms. Jane Roe"
+ */
+function findAddressee(text: string, line: TextLine): PIISpan | null {
+  const tokens = tokenize(text.slice(line.start, line.end)).map((token) => ({
+    ...token,
+    start: token.start + line.start,
+    end: token.end + line.start,
+  }));
+
+  const from = HONORIFICS.has(normalizeWord(tokens[0]?.text ?? "")) ? 1 : 0;
+  if (tokens.length - from < 2) return null;
+
+  const end = collectNameWords(text, tokens, from);
+  if (end !== tokens.length) return null;
+
+  // Nothing but the name on the line
+  const rest = text.slice(tokens[end - 1].end, line.end).trim();
+  if (rest.length > 0) return null;
+
+  return toSpan(tokens, from, end - 1, CONFIDENCE.nameAboveAddress);
+}
+
+/**
+ * Split the text into lines, with each line's box from its words
+ */
+function getLines(text: string, words: OCRWord[]): TextLine[] {
+  const lines: TextLine[] = [];
+  let start = 0;
+
+  for (const segment of text.split("\n")) {
+    lines.push({ start, end: start + segment.length, box: null });
+    start += segment.length + 1;
+  }
+
+  let lineIndex = 0;
+  for (const word of words) {
+    while (lineIndex < lines.length - 1 && word.start > lines[lineIndex].end) {
+      lineIndex++;
+    }
+
+    const line = lines[lineIndex];
+    line.box = line.box
+      ? {
+          x0: Math.min(line.box.x0, word.bbox.x0),
+          y0: Math.min(line.box.y0, word.bbox.y0),
+          x1: Math.max(line.box.x1, word.bbox.x1),
+          y1: Math.max(line.box.y1, word.bbox.y1),
+        }
+      : { ...word.bbox };
+  }
+
+  return lines;
+}
+
+/**
+ * Whether two consecutive lines belong to one block: left-aligned and no
+ * more than a line apart. Lines without boxes are assumed to be.
+ */
+function isSameBlock(upper: TextLine, lower: TextLine): boolean {
+  if (!upper.box || !lower.box) return true;
+
+  const lineHeight = upper.box.y1 - upper.box.y0;
+  const gap = lower.box.y0 - upper.box.y1;
+
+  return (
+    Math.abs(upper.box.x0 - lower.box.x0) < lineHeight * 2 &&
+    gap > -lineHeight / 2 &&
+    gap < lineHeight
+  );
+}
+
+function findAll(
+  text: string,
+  patterns: RegExp[],
+): Array<{ match: string; start: number; end: number }> {
+  return patterns.flatMap((pattern) =>
+    [...text.matchAll(pattern)].map((match) => ({
+      match: match[0],
+      start: match.index,
+      end: match.index + match[0].length,
+    })),
+  );
+}
+
+function tokenize(text: string): Token[] {
+  return [...text.matchAll(/\p{L}[\p{L}'’-]*\.?/gu)].map((match) => ({
+    text: match[0],
+    start: match.index,
+    end: match.index + match[0].length,
+  }));
+}
+
+// Span from the first to the last token, leaving out a trailing dot
+function toSpan(
+  tokens: Token[],
+  first: number,
+  last: number,
+  confidence: number,
+): PIISpan {
+  const lastToken = tokens[last];
+  const end =
+    lastToken.text.endsWith(".") && lastToken.text.length > 2
+      ? lastToken.end - 1
+      : lastToken.end;
+
+  return { type: PIIType.NAME, start: tokens[first].start, end, confidence };
+}
+
+function normalizeWord(word: string): string {
+  return word.replace(/\.$/, "").toLowerCase();
+}
+
+// "Jane", "JANE" or "O'Brien", but not "jane"
+function isCapitalized(word: string): boolean {
+  return /^\p{Lu}/u.test(word) && word.replace(/\.$/, "").length > 1;
+}
@@ -0,0 +1,39 @@
+/**
+ * Utility functions for reading lists of pages typed by the user
+ *
+ * A list is a comma-separated mix of single pages and ranges ("2-4, 7"), or
+ * "all" for every page of the document.
+ */
+
+/**
+ * Parse a list of pages into sorted, unique page numbers
+ * @param input - The list as typed, e.g. "1, 3-5" or "all"
+ * @param pageCount - Number of pages in the document
+ * @returns The pages, or null if any part is not a page or range of pages
+ * within the document
+ */
+export function parsePageRanges(
+  input: string,
+  pageCount: number,
+): number[] | null {
+  const trimmed = input.trim().toLowerCase();
+  if (trimmed === "all") {
+    return Array.from({ length: pageCount }, (_, index) => index + 1);
+  }
+
+  const pages = new Set<number>();
+  for (const part of trimmed.split(",")) {
+    const match = part.trim().match(/^(\d+)(?:\s*-\s*(\d+))?$/);
+    if (!match) return null;
+
+    const start = Number(match[1]);
+    const end = match[2] ? Number(match[2]) : start;
+    if (start < 1 || end > pageCount || end < start) return null;
+
+    for (let page = start; page <= end; page++) {
+      pages.add(page);
+    }
+  }
+
+  return Array.from(pages).sort((a, b) => a - b);
+}
@@ -0,0 +1,390 @@
+/**
+ * Minimal parser and serializer for PDF content streams
+ *
+ * Each operation keeps the byte range it was parsed from, so untouched
+ * operations can be copied through verbatim and only rewritten operations
+ * need to be serialized again.
+ */
+
+export type ContentOperand =
+  | { type: "number"; value: number }
+  | { type: "string"; bytes: Uint8Array }
+  | { type: "name"; value: string }
+  | { type: "array"; items: ContentOperand[] }
+  | { type: "dict"; entries: Map<string, ContentOperand> }
+  | { type: "boolean"; value: boolean }
+  | { type: "null" };
+
+export interface ContentOperation {
+  operator: string;
+  operands: ContentOperand[];
+  start: number; // byte offset of the first operand (inclusive)
+  end: number; // byte offset after the operator (exclusive)
+}
+
+const WHITESPACE = new Set([0x00, 0x09, 0x0a, 0x0c, 0x0d, 0x20]);
+const DELIMITERS = new Set([
+  0x28, 0x29, 0x3c, 0x3e, 0x5b, 0x5d, 0x7b, 0x7d, 0x2f, 0x25,
+]);
+
+const isRegular = (byte: number) =>
+  !WHITESPACE.has(byte) && !DELIMITERS.has(byte);
+
+type Token =
+  | { kind: "operand"; operand: ContentOperand }
+  | { kind: "keyword"; value: string }
+  | { kind: "arrayStart" | "arrayEnd" | "dictStart" | "dictEnd" };
+
+class ContentLexer {
+  pos = 0;
+
+  constructor(private readonly bytes: Uint8Array) {}
+
+  get done(): boolean {
+    this.skipWhitespace();
+    return this.pos >= this.bytes.length;
+  }
+
+  skipWhitespace(): void {
+    const { bytes } = this;
+    while (this.pos < bytes.length) {
+      const byte = bytes[this.pos];
+      if (WHITESPACE.has(byte)) {
+        this.pos++;
+      } else if (byte === 0x25) {
+        // Comment runs to the end of the line
+        while (
+          this.pos < bytes.length &&
+          bytes[this.pos] !== 0x0a &&
+          bytes[this.pos] !== 0x0d
+        ) {
+          this.pos++;
+        }
+      } else {
+        break;
+      }
+    }
+  }
+
+  next(): Token {
+    this.skipWhitespace();
+    const { bytes } = this;
+    const byte = bytes[this.pos];
+
+    switch (byte) {
+      case 0x5b:
+        this.pos++;
+        return { kind: "arrayStart" };
+      case 0x5d:
+        this.pos++;
+        return { kind: "arrayEnd" };
+      case 0x28:
+        return { kind: "operand", operand: this.readLiteralString() };
+      case 0x2f:
+        return { kind: "operand", operand: this.readName() };
+      case 0x3c:
+        if (bytes[this.pos + 1] === 0x3c) {
+          this.pos += 2;
+          return { kind: "dictStart" };
+        }
+        return { kind: "operand", operand: this.readHexString() };
+      case 0x3e:
+        if (bytes[this.pos + 1] === 0x3e) {
+          this.pos += 2;
+          return { kind: "dictEnd" };
+        }
+        throw new Error(`Unexpected ">" at offset ${this.pos}`);
+      case 0x7b:
+      case 0x7d:
+        // PostScript calculator braces only appear in functions; skip them
+        this.pos++;
+        return this.next();
+    }
+
+    const start = this.pos;
+    while (this.pos < bytes.length && isRegular(bytes[this.pos])) {
+      this.pos++;
+    }
+    if (this.pos === start) {
+      throw new Error(`Unexpected byte ${byte} at offset ${start}`);
+    }
+
+    const word = String.fromCharCode(...bytes.subarray(start, this.pos));
+    if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(word)) {
+      return {
+        kind: "operand",
+        operand: { type: "number", value: Number.parseFloat(word) },
+      };
+    }
+    if (word === "true" || word === "false") {
+      return {
+        kind: "operand",
+        operand: { type: "boolean", value: word === "true" },
+      };
+    }
+    if (word === "null") {
+      return { kind: "operand", operand: { type: "null" } };
+    }
+
+    return { kind: "keyword", value: word };
+  }
+
+  private readName(): ContentOperand {
+    const { bytes } = this;
+    this.pos++; // skip "/"
+    let value = "";
+
+    while (this.pos < bytes.length && isRegular(bytes[this.pos])) {
+      const byte = bytes[this.pos];
+      if (byte === 0x23 && this.pos + 2 < bytes.length) {
+        const hex = String.fromCharCode(
+          bytes[this.pos + 1],
+          bytes[this.pos + 2],
+        );
+        value += String.fromCharCode(Number.parseInt(hex, 16));
+        this.pos += 3;
+      } else {
+        value += String.fromCharCode(byte);
+        this.pos++;
+      }
+    }
+
+    return { type: "name", value };
+  }
+
+  private readHexString(): ContentOperand {
+    const { bytes } = this;
+    this.pos++; // skip "<"
+    let digits = "";
+
+    while (this.pos < bytes.length && bytes[this.pos] !== 0x3e) {
+      const char = String.fromCharCode(bytes[this.pos]);
+      if (/[0-9a-fA-F]/.test(char)) digits += char;
+      this.pos++;
+    }
+    this.pos++; // skip ">"
+
+    if (digits.length % 2 === 1) digits += "0";
+    const out = new Uint8Array(digits.length / 2);
+    for (let i = 0; i < out.length; i++) {
+      out[i] = Number.parseInt(digits.slice(i * 2, i * 2 + 2), 16);
+    }
+
+    return { type: "string", bytes: out };
+  }
+
+  private readLiteralString(): ContentOperand {
+    const { bytes } = this;
+    this.pos++; // skip "("
+    const out: number[] = [];
+    let depth = 1;
+
+    while (this.pos < bytes.length) {
+      const byte = bytes[this.pos++];
+
+      if (byte === 0x5c) {
+        const escaped = bytes[this.pos++];
+        switch (escaped) {
+          case 0x6e:
+            out.push(0x0a);
+            break;
+          case 0x72:
+            out.push(0x0d);
+            break;
+          case 0x74:
+            out.push(0x09);
+            break;
+          case 0x62:
+            out.push(0x08);
+            break;
+          case 0x66:
+            out.push(0x0c);
+            break;
+          case 0x0d:
+            // Line continuation; swallow an optional LF after CR
+            if (bytes[this.pos] === 0x0a) this.pos++;
+            break;
+          case 0x0a:
+            break;
+          default:
+            if (escaped >= 0x30 && escaped <= 0x37) {
+              let octal = escaped - 0x30;
+              for (let i = 0; i < 2; i++) {
+                const digit = bytes[this.pos];
+                if (digit < 0x30 || digit > 0x37) break;
+                octal = octal * 8 + (digit - 0x30);
+                this.pos++;
+              }
+              out.push(octal & 0xff);
+            } else {
+              out.push(escaped);
+            }
+        }
+        continue;
+      }
+
+      if (byte === 0x28) depth++;
+      if (byte === 0x29 && --depth === 0) break;
+      out.push(byte);
+    }
+
+    return { type: "string", bytes: Uint8Array.from(out) };
+  }
+}
+
+/**
+ * Parse a decoded content stream into operations
+ * Inline images (BI ... ID ... EI) become a single "BI" operation whose
+ * operands hold the image dictionary; the image data is kept in the byte range
+ * @throws Error if the stream is malformed
+ */
+export function parseContentStream(bytes: Uint8Array): ContentOperation[] {
+  const lexer = new ContentLexer(bytes);
+  const operations: ContentOperation[] = [];
+  let operands: ContentOperand[] = [];
+  let start = -1;
+
+  const readValue = (token: Token): ContentOperand => {
+    if (token.kind === "operand") return token.operand;
+
+    if (token.kind === "arrayStart") {
+      const items: ContentOperand[] = [];
+      for (;;) {
+        if (lexer.done) throw new Error("Unterminated array");
+        const next = lexer.next();
+        if (next.kind === "arrayEnd") break;
+        items.push(readValue(next));
+      }
+      return { type: "array", items };
+    }
+
+    if (token.kind === "dictStart") {
+      const entries = new Map<string, ContentOperand>();
+      for (;;) {
+        if (lexer.done) throw new Error("Unterminated dictionary");
+        const key = lexer.next();
+        if (key.kind === "dictEnd") break;
+        if (key.kind !== "operand" || key.operand.type !== "name") {
+          throw new Error("Dictionary key must be a name");
+        }
+        entries.set(key.operand.value, readValue(lexer.next()));
+      }
+      return { type: "dict", entries };
+    }
+
+    throw new Error(`Unexpected token in operand: ${token.kind}`);
+  };
+
+  while (!lexer.done) {
+    const tokenStart = lexer.pos;
+    const token = lexer.next();
+    if (start < 0) start = tokenStart;
+
+    if (token.kind !== "keyword") {
+      operands.push(readValue(token));
+      continue;
+    }
+
+    if (token.value === "BI") {
+      operands = [readInlineImageDict(lexer, readValue)];
+      skipInlineImageData(bytes, lexer);
+    }
+
+    operations.push({ operator: token.value, operands, start, end: lexer.pos });
+    operands = [];
+    start = -1;
+  }
+
+  return operations;
+}
+
+function readInlineImageDict(
+  lexer: ContentLexer,
+  readValue: (token: Token) => ContentOperand,
+): ContentOperand {
+  const entries = new Map<string, ContentOperand>();
+
+  for (;;) {
+    if (lexer.done) throw new Error("Unterminated inline image dictionary");
+    const key = lexer.next();
+    if (key.kind === "keyword" && key.value === "ID") break;
+    if (key.kind !== "operand" || key.operand.type !== "name") {
+      throw new Error("Malformed inline image dictionary");
+    }
+    entries.set(key.operand.value, readValue(lexer.next()));
+  }
+
+  return { type: "dict", entries };
+}
+
+/**
+ * Advance past inline image data to just after the closing "EI"
+ */
+function skipInlineImageData(bytes: Uint8Array, lexer: ContentLexer): void {
+  let pos = lexer.pos + 1; // single whitespace byte after ID
+
+  while (pos + 1 < bytes.length) {
+    if (
+      bytes[pos] === 0x45 &&
+      bytes[pos + 1] === 0x49 &&
+      WHITESPACE.has(bytes[pos - 1]) &&
+      (pos + 2 >= bytes.length || !isRegular(bytes[pos + 2]))
+    ) {
+      lexer.pos = pos + 2;
+      return;
+    }
+    pos++;
+  }
+
+  throw new Error("Unterminated inline image");
+}
+
+/**
+ * Serialize one operand in content stream syntax
+ * Strings are always written as hex to avoid escaping issues
+ */
+export function serializeOperand(operand: ContentOperand): string {
+  switch (operand.type) {
+    case "number":
+      return formatNumber(operand.value);
+    case "string":
+      return `<${Array.from(operand.bytes, (b) => b.toString(16).padStart(2, "0")).join("")}>`;
+    case "name":
+      return `/${Array.from(operand.value, (char) => {
+        const code = char.charCodeAt(0);
+        return code > 0x20 && code < 0x7f && isRegular(code) && char !== "#"
+          ? char
+          : `#${code.toString(16).padStart(2, "0")}`;
+      }).join("")}`;
+    case "array":
+      return `[${operand.items.map(serializeOperand).join(" ")}]`;
+    case "dict":
+      return `<<${Array.from(
+        operand.entries,
+        ([key, value]) =>
+          `${serializeOperand({ type: "name", value: key })} ${serializeOperand(value)}`,
+      ).join(" ")}>>`;
+    case "boolean":
+      return operand.value ? "true" : "false";
+    case "null":
+      return "null";
+  }
+}
+
+/**
+ * Serialize an operation in content stream syntax
+ */
+export function serializeOperation(
+  operator: string,
+  operands: ContentOperand[],
+): string {
+  return [...operands.map(serializeOperand), operator].join(" ");
+}
+
+/**
+ * Format a number compactly, without exponent notation
+ */
+export function formatNumber(value: number): string {
+  if (Number.isInteger(value)) return value.toString();
+  return value.toFixed(4).replace(/0+$/, "").replace(/\.$/, "");
+}
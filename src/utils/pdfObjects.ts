@@ -0,0 +1,58 @@
+/**
+ * Utility functions for working with pdf-lib object graphs
+ */
+
+import {
+  PDFArray,
+  type PDFContext,
+  PDFDict,
+  PDFHexString,
+  type PDFObject,
+  PDFRef,
+  PDFStream,
+  PDFString,
+} from "pdf-lib";
+
+/**
+ * Delete indirect objects that are no longer referenced from the trailer
+ *
+ * pdf-lib writes every object in the context, so replaced content streams,
+ * images and removed metadata would otherwise still end up in the saved file.
+ */
+export function removeUnreachableObjects(context: PDFContext): void {
+  const reachable = new Set<string>();
+  const { Root, Info, Encrypt } = context.trailerInfo;
+  const queue: Array<PDFObject | undefined> = [Root, Info, Encrypt];
+
+  while (queue.length > 0) {
+    const object = queue.pop();
+
+    if (object instanceof PDFRef) {
+      if (reachable.has(object.tag)) continue;
+      reachable.add(object.tag);
+      queue.push(context.lookup(object));
+    } else if (object instanceof PDFDict) {
+      queue.push(...object.values());
+    } else if (object instanceof PDFArray) {
+      queue.push(...object.asArray());
+    } else if (object instanceof PDFStream) {
+      queue.push(object.dict);
+    }
+  }
+
+  for (const [ref] of context.enumerateIndirectObjects()) {
+    if (!reachable.has(ref.tag)) {
+      context.delete(ref);
+    }
+  }
+}
+
+/**
+ * Decode a PDF text string (PDFString or PDFHexString), if the object is one
+ */
+export function decodePDFText(object: PDFObject | undefined): string | null {
+  if (object instanceof PDFString || object instanceof PDFHexString) {
+    return object.decodeText();
+  }
+  return null;
+}
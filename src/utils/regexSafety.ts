@@ -0,0 +1,89 @@
+/**
+ * Utility functions for checking user-written regular expressions before
+ * they run on page text
+ *
+ * Matching runs on the main thread, so a pattern that backtracks
+ * catastrophically would freeze the app. The common cause is a repeated
+ * group that itself repeats something of varying length, as in (a+)+$.
+ */
+
+export const NESTED_QUANTIFIER_ERROR =
+  "Repeated groups that contain + or * can take too long to match; repeat only fixed-length parts";
+
+interface Quantifier {
+  length: number;
+  min: number;
+  max: number;
+}
+
+/**
+ * Read the quantifier starting at an index of a pattern, if any
+ * "?" is left out, as it never repeats.
+ */
+function readQuantifier(source: string, index: number): Quantifier | null {
+  const match = source.slice(index).match(/^(?:([*+])|\{(\d+)(,(\d*))?\})/);
+  if (!match) return null;
+
+  const [text, symbol, min, comma, max] = match;
+  if (symbol) {
+    return {
+      length: text.length,
+      min: symbol === "+" ? 1 : 0,
+      max: Number.POSITIVE_INFINITY,
+    };
+  }
+
+  return {
+    length: text.length,
+    min: Number(min),
+    max: !comma ? Number(min) : max ? Number(max) : Number.POSITIVE_INFINITY,
+  };
+}
+
+/**
+ * Whether a pattern repeats a group that contains a variable-length
+ * repetition, such as (a+)+ or (?:\w*\s?){2,}
+ * @param source - The pattern as written, without delimiters or flags
+ */
+export function hasNestedQuantifier(source: string): boolean {
+  // For each open group, whether it contains a variable-length repetition
+  const groups: boolean[] = [false];
+  let index = 0;
+
+  while (index < source.length) {
+    const char = source[index];
+
+    if (char === "\\") {
+      index += 2;
+    } else if (char === "[") {
+      // Quantifier characters are literals inside a class
+      index++;
+      while (index < source.length && source[index] !== "]") {
+        index += source[index] === "\\" ? 2 : 1;
+      }
+      index++;
+    } else if (char === "(") {
+      groups.push(false);
+      index++;
+    } else if (char === ")") {
+      const repeatsInside = groups.length > 1 && groups.pop() === true;
+      const quantifier = readQuantifier(source, index + 1);
+      if (repeatsInside && quantifier && quantifier.max > 1) return true;
+
+      groups[groups.length - 1] ||= repeatsInside;
+      index++;
+    } else {
+      const quantifier = readQuantifier(source, index);
+      if (quantifier) {
+        if (quantifier.max > quantifier.min) {
+          groups[groups.length - 1] = true;
+        }
+        index += quantifier.length;
+      } else {
+        index++;
+      }
+    }
+  }
+
+  return false;
+}
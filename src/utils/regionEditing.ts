@@ -0,0 +1,235 @@
+/**
+ * Utility functions for moving, resizing and snapping redaction regions
+ *
+ * Rectangles, points and tolerances are all in normalized page coordinates.
+ * Tolerances have separate x and y extents, as a distance on screen is a
+ * different fraction of the page width than of its height.
+ */
+
+import type { BoundingBox, Point, ResizeHandle } from "@/types/redaction";
+import type { Rect } from "@/utils/coordinates";
+
+export const RESIZE_HANDLES: ResizeHandle[] = [
+  "nw",
+  "n",
+  "ne",
+  "e",
+  "se",
+  "s",
+  "sw",
+  "w",
+];
+
+/**
+ * Where a handle sits on a rectangle
+ */
+export function getHandlePoint(rect: Rect, handle: ResizeHandle): Point {
+  return {
+    x: handle.includes("w")
+      ? rect.x
+      : handle.includes("e")
+        ? rect.x + rect.width
+        : rect.x + rect.width / 2,
+    y: handle.includes("n")
+      ? rect.y
+      : handle.includes("s")
+        ? rect.y + rect.height
+        : rect.y + rect.height / 2,
+  };
+}
+
+/**
+ * The handle of a rectangle within a tolerance of a point, if any
+ */
+export function getHandleAtPoint(
+  rect: Rect,
+  point: Point,
+  tolerance: Point,
+): ResizeHandle | null {
+  return (
+    RESIZE_HANDLES.find((handle) => {
+      const handlePoint = getHandlePoint(rect, handle);
+      return (
+        Math.abs(handlePoint.x - point.x) <= tolerance.x &&
+        Math.abs(handlePoint.y - point.y) <= tolerance.y
+      );
+    }) ?? null
+  );
+}
+
+/**
+ * Move a rectangle, keeping it on the page
+ */
+export function moveRect(rect: Rect, dx: number, dy: number): Rect {
+  return {
+    ...rect,
+    x: clamp(rect.x + dx, 0, 1 - rect.width),
+    y: clamp(rect.y + dy, 0, 1 - rect.height),
+  };
+}
+
+/**
+ * Drag a rectangle's handle to a point, keeping the opposite edges in place
+ * The rectangle never flips or shrinks below the minimum size, and stays on
+ * the page.
+ */
+export function resizeRect(
+  rect: Rect,
+  handle: ResizeHandle,
+  point: Point,
+  minSize: Point,
+): Rect {
+  let x0 = rect.x;
+  let y0 = rect.y;
+  let x1 = rect.x + rect.width;
+  let y1 = rect.y + rect.height;
+
+  if (handle.includes("w")) x0 = Math.min(clamp(point.x, 0, 1), x1 - minSize.x);
+  if (handle.includes("e")) x1 = Math.max(clamp(point.x, 0, 1), x0 + minSize.x);
+  if (handle.includes("n")) y0 = Math.min(clamp(point.y, 0, 1), y1 - minSize.y);
+  if (handle.includes("s")) y1 = Math.max(clamp(point.y, 0, 1), y0 + minSize.y);
+
+  return { x: x0, y: y0, width: x1 - x0, height: y1 - y0 };
+}
+
+/**
+ * Shift a moved rectangle so its nearest edges line up with word edges
+ * Only words beside the rectangle are considered for each axis: words on the
+ * same line for its left and right edges, words in the same column for its
+ * top and bottom.
+ * @param rect - The rectangle where it was dragged to
+ * @param boxes - Word boxes on the page
+ * @param tolerance - How far an edge may jump to snap
+ */
+export function snapMovedRect(
+  rect: Rect,
+  boxes: BoundingBox[],
+  tolerance: Point,
+): Rect {
+  const { xs, ys } = getSnapLines(rect, boxes, tolerance);
+
+  return moveRect(
+    rect,
+    findSnapOffset([rect.x, rect.x + rect.width], xs, tolerance.x),
+    findSnapOffset([rect.y, rect.y + rect.height], ys, tolerance.y),
+  );
+}
+
+/**
+ * Line up the edges a resize handle moves with nearby word edges
+ * @param rect - The rectangle as resized
+ * @param handle - The handle that was dragged
+ * @param boxes - Word boxes on the page
+ * @param tolerance - How far an edge may jump to snap
+ */
+export function snapResizedRect(
+  rect: Rect,
+  handle: ResizeHandle,
+  boxes: BoundingBox[],
+  tolerance: Point,
+): Rect {
+  const { xs, ys } = getSnapLines(rect, boxes, tolerance);
+  let x0 = rect.x;
+  let y0 = rect.y;
+  let x1 = rect.x + rect.width;
+  let y1 = rect.y + rect.height;
+
+  if (handle.includes("w")) x0 += findSnapOffset([x0], xs, tolerance.x);
+  if (handle.includes("e")) x1 += findSnapOffset([x1], xs, tolerance.x);
+  if (handle.includes("n")) y0 += findSnapOffset([y0], ys, tolerance.y);
+  if (handle.includes("s")) y1 += findSnapOffset([y1], ys, tolerance.y);
+
+  // Snapping both edges to the same word edge would collapse the rectangle
+  if (x1 <= x0 || y1 <= y0) return rect;
+
+  return { x: x0, y: y0, width: x1 - x0, height: y1 - y0 };
+}
+
+/**
+ * Smallest rectangle containing all of the given rectangles
+ */
+export function unionRects(rects: Rect[]): Rect {
+  const x0 = Math.min(...rects.map((rect) => rect.x));
+  const y0 = Math.min(...rects.map((rect) => rect.y));
+  const x1 = Math.max(...rects.map((rect) => rect.x + rect.width));
+  const y1 = Math.max(...rects.map((rect) => rect.y + rect.height));
+
+  return { x: x0, y: y0, width: x1 - x0, height: y1 - y0 };
+}
+
+/**
+ * Whether two rectangles overlap or touch
+ */
+export function rectsIntersect(a: Rect, b: Rect): boolean {
+  return (
+    a.x <= b.x + b.width &&
+    b.x <= a.x + a.width &&
+    a.y <= b.y + b.height &&
+    b.y <= a.y + a.height
+  );
+}
+
+/**
+ * Grow a rectangle by a margin on every side, keeping it on the page
+ */
+export function expandRect(rect: Rect, padding: Point): Rect {
+  const x0 = clamp(rect.x - padding.x, 0, 1);
+  const y0 = clamp(rect.y - padding.y, 0, 1);
+  const x1 = clamp(rect.x + rect.width + padding.x, 0, 1);
+  const y1 = clamp(rect.y + rect.height + padding.y, 0, 1);
+
+  return { x: x0, y: y0, width: x1 - x0, height: y1 - y0 };
+}
+
+// Word edges a rectangle's vertical and horizontal edges may snap to
+function getSnapLines(
+  rect: Rect,
+  boxes: BoundingBox[],
+  tolerance: Point,
+): { xs: number[]; ys: number[] } {
+  const xs: number[] = [];
+  const ys: number[] = [];
+
+  for (const box of boxes) {
+    if (
+      box.y1 >= rect.y - tolerance.y &&
+      box.y0 <= rect.y + rect.height + tolerance.y
+    ) {
+      xs.push(box.x0, box.x1);
+    }
+    if (
+      box.x1 >= rect.x - tolerance.x &&
+      box.x0 <= rect.x + rect.width + tolerance.x
+    ) {
+      ys.push(box.y0, box.y1);
+    }
+  }
+
+  return { xs, ys };
+}
+
+// The smallest shift within the tolerance that puts any of the values on a
+// line, or 0 if none is close enough
+function findSnapOffset(
+  values: number[],
+  lines: number[],
+  tolerance: number,
+): number {
+  let offset = 0;
+  let distance = tolerance;
+
+  for (const value of values) {
+    for (const line of lines) {
+      if (Math.abs(line - value) <= distance) {
+        offset = line - value;
+        distance = Math.abs(offset);
+      }
+    }
+  }
+
+  return offset;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value));
+}
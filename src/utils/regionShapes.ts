@@ -0,0 +1,144 @@
+/**
+ * Utility functions for redaction regions outlined by a polygon
+ *
+ * A shaped region still records its bounding rectangle in x, y, width and
+ * height, so code that only needs a region's extent can ignore the outline.
+ * Outline points are in normalized page coordinates, like the rectangle.
+ */
+
+import type { PageDimensions, Point, RedactionRegion } from "@/types/redaction";
+import type { Rect } from "@/utils/coordinates";
+
+/**
+ * Smallest rectangle containing all of the points
+ */
+export function getShapeBounds(points: Point[]): Rect {
+  const x0 = Math.min(...points.map((point) => point.x));
+  const y0 = Math.min(...points.map((point) => point.y));
+  const x1 = Math.max(...points.map((point) => point.x));
+  const y1 = Math.max(...points.map((point) => point.y));
+
+  return { x: x0, y: y0, width: x1 - x0, height: y1 - y0 };
+}
+
+/**
+ * Whether a point lies inside a closed outline, by the even-odd rule
+ * Outlines are filled with the same rule, so a self-crossing lasso covers
+ * exactly the parts this reports as inside.
+ */
+export function isPointInShape(point: Point, points: Point[]): boolean {
+  let inside = false;
+
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    const a = points[i];
+    const b = points[j];
+    if (
+      a.y > point.y !== b.y > point.y &&
+      point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x
+    ) {
+      inside = !inside;
+    }
+  }
+
+  return inside;
+}
+
+/**
+ * Whether a point lies inside a region's outline, or its rectangle if it
+ * has none
+ */
+export function isPointInRegion(
+  point: Point,
+  region: RedactionRegion,
+): boolean {
+  const inRect =
+    point.x >= region.x &&
+    point.x <= region.x + region.width &&
+    point.y >= region.y &&
+    point.y <= region.y + region.height;
+
+  return inRect && (!region.shape || isPointInShape(point, region.shape));
+}
+
+/**
+ * Give a region a new rectangle, stretching its outline to fit
+ */
+export function setRegionRect(
+  region: RedactionRegion,
+  rect: Rect,
+): RedactionRegion {
+  if (!region.shape) return { ...region, ...rect };
+
+  const scaleX = region.width > 0 ? rect.width / region.width : 1;
+  const scaleY = region.height > 0 ? rect.height / region.height : 1;
+
+  return {
+    ...region,
+    ...rect,
+    shape: region.shape.map((point) => ({
+      x: rect.x + (point.x - region.x) * scaleX,
+      y: rect.y + (point.y - region.y) * scaleY,
+    })),
+  };
+}
+
+/**
+ * Drop points closer than a minimum distance to the last point kept
+ * Freehand strokes record a point for every mouse move; most add nothing to
+ * the outline.
+ * @param points - The stroke, in order
+ * @param minDistance - Distance along each axis a point must move to be kept
+ */
+export function simplifyPath(points: Point[], minDistance: Point): Point[] {
+  const kept: Point[] = [];
+
+  for (const point of points) {
+    const last = kept[kept.length - 1];
+    if (
+      !last ||
+      Math.abs(point.x - last.x) >= minDistance.x ||
+      Math.abs(point.y - last.y) >= minDistance.y
+    ) {
+      kept.push(point);
+    }
+  }
+
+  return kept;
+}
+
+/**
+ * Start a new path on a canvas following a region's outline, or its
+ * rectangle if it has none
+ * Fill it with the "evenodd" rule, to match isPointInShape.
+ * @param ctx - Context to trace on, with no transform applied
+ * @param region - Region in normalized page coordinates
+ * @param size - Pixel size of the canvas
+ */
+export function traceRegion(
+  ctx: CanvasRenderingContext2D,
+  region: RedactionRegion,
+  size: PageDimensions,
+): void {
+  ctx.beginPath();
+
+  if (!region.shape) {
+    ctx.rect(
+      region.x * size.width,
+      region.y * size.height,
+      region.width * size.width,
+      region.height * size.height,
+    );
+    return;
+  }
+
+  region.shape.forEach((point, index) => {
+    const x = point.x * size.width;
+    const y = point.y * size.height;
+    if (index === 0) {
+      ctx.moveTo(x, y);
+    } else {
+      ctx.lineTo(x, y);
+    }
+  });
+  ctx.closePath();
+}
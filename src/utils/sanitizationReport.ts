@@ -0,0 +1,39 @@
+/**
+ * Utility functions for presenting export sanitization reports
+ */
+
+import type {
+  SanitizationCategory,
+  SanitizationReport,
+} from "@/types/redaction";
+
+const CATEGORY_LABELS: Record<SanitizationCategory, string> = {
+  "document-info": "document info field",
+  "xmp-metadata": "XMP metadata stream",
+  annotations: "annotation",
+  "embedded-files": "embedded file",
+  "form-fields": "form field",
+  javascript: "JavaScript action",
+  bookmarks: "bookmark",
+  thumbnails: "page thumbnail",
+  "image-metadata": "image metadata block",
+};
+
+/**
+ * Summarize a sanitization report in one line, e.g.
+ * "Removed 3 document info fields, 1 embedded file"
+ */
+export function summarizeSanitizationReport(
+  report: SanitizationReport,
+): string {
+  if (report.findings.length === 0) {
+    return "No hidden metadata found";
+  }
+
+  const parts = report.findings.map(({ category, count }) => {
+    const label = CATEGORY_LABELS[category];
+    return `${count} ${label}${count !== 1 ? "s" : ""}`;
+  });
+
+  return `Removed ${parts.join(", ")}`;
+}
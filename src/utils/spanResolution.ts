@@ -0,0 +1,172 @@
+/**
+ * Utility functions for resolving overlapping detections into single spans
+ *
+ * Detectors often find the same text: a card number also matches the phone
+ * pattern, and the model's LOC entity sits inside an address block. The most
+ * specific span keeps the text it covers; a span found inside it is folded
+ * into it, and one running past it keeps only its own words.
+ */
+
+import { type OCRWord, type PIIDetection, PIIType } from "@/types/redaction";
+import { unionBoxes } from "@/utils/coordinates";
+
+/**
+ * How specific each type is; a higher rank labels a resolved span
+ * Checksummed identifiers beat loose formats such as phone numbers, which
+ * beat names and addresses. Custom rules rank first, as the user asked for
+ * exactly that label.
+ */
+const TYPE_SPECIFICITY: Record<PIIType, number> = {
+  [PIIType.CUSTOM]: 5,
+  [PIIType.CREDIT_CARD]: 4,
+  [PIIType.SSN]: 4,
+  [PIIType.IBAN]: 4,
+  [PIIType.ABA_ROUTING]: 4,
+  [PIIType.CRYPTO_ADDRESS]: 4,
+  [PIIType.UK_NINO]: 4,
+  [PIIType.UK_NHS]: 4,
+  [PIIType.DE_TAX_ID]: 4,
+  [PIIType.FR_INSEE]: 4,
+  [PIIType.ES_DNI]: 4,
+  [PIIType.ES_NIE]: 4,
+  [PIIType.IN_AADHAAR]: 4,
+  [PIIType.IN_PAN]: 4,
+  [PIIType.CA_SIN]: 4,
+  [PIIType.AU_TFN]: 4,
+  [PIIType.EMAIL]: 3,
+  [PIIType.SWIFT_BIC]: 3,
+  [PIIType.BANK_ACCOUNT]: 3,
+  [PIIType.CARD_CVV]: 3,
+  [PIIType.CARD_EXPIRY]: 3,
+  [PIIType.PHONE]: 2,
+  [PIIType.DATE_OF_BIRTH]: 2,
+  [PIIType.NAME]: 1,
+  [PIIType.ADDRESS]: 1,
+  [PIIType.OTHER]: 0,
+};
+
+interface Candidate {
+  detectorId: string;
+  priority: number;
+  detection: PIIDetection;
+}
+
+interface ResolvedSpan {
+  best: Candidate;
+  detectorIds: Set<string>;
+  startIndex: number;
+  endIndex: number;
+  words: OCRWord[];
+}
+
+/**
+ * Resolve the detections of several detectors into non-overlapping spans
+ * Spans are taken from the most specific type down; ties go to the higher
+ * priority detector, then the more confident detection. A span whose words
+ * all lie in spans already taken joins the first one it overlaps, with the
+ * words of both joined where they overlap. Otherwise it keeps the words
+ * outside them as its own detection, so an address running into a phone
+ * number is not relabelled as part of the phone number.
+ * @param runs - Each detector's detections and merge priority
+ * @param text - The page text the detections' indices point into
+ * @returns Detections in text order, each listing its contributing detectors
+ */
+export function resolveSpans(
+  runs: Array<{ id: string; priority: number; detections: PIIDetection[] }>,
+  text: string,
+): PIIDetection[] {
+  const candidates: Candidate[] = runs
+    .flatMap(({ id, priority, detections }) =>
+      detections.map((detection) => ({
+        detectorId: id,
+        priority,
+        detection,
+      })),
+    )
+    .sort(
+      (a, b) =>
+        TYPE_SPECIFICITY[b.detection.type] -
+          TYPE_SPECIFICITY[a.detection.type] ||
+        b.priority - a.priority ||
+        b.detection.confidence - a.detection.confidence,
+    );
+
+  const spans: ResolvedSpan[] = [];
+  const overlaps = (span: ResolvedSpan, start: number, end: number) =>
+    start < span.endIndex && end > span.startIndex;
+
+  for (const candidate of candidates) {
+    const { detection } = candidate;
+    const freeWords = detection.words.filter(
+      (word) => !spans.some((span) => overlaps(span, word.start, word.end)),
+    );
+    const overlapped = spans.filter((span) =>
+      overlaps(span, detection.startIndex, detection.endIndex),
+    );
+    for (const span of overlapped) {
+      span.detectorIds.add(candidate.detectorId);
+    }
+
+    if (overlapped.length > 0 && freeWords.length === 0) {
+      const [span] = overlapped;
+      span.startIndex = Math.min(span.startIndex, detection.startIndex);
+      span.endIndex = Math.max(span.endIndex, detection.endIndex);
+      span.words = mergeWords([...span.words, ...detection.words], text);
+      continue;
+    }
+
+    const words = overlapped.length > 0 ? freeWords : detection.words;
+    spans.push({
+      best: candidate,
+      detectorIds: new Set([candidate.detectorId]),
+      startIndex:
+        overlapped.length > 0
+          ? Math.min(...words.map((word) => word.start))
+          : detection.startIndex,
+      endIndex:
+        overlapped.length > 0
+          ? Math.max(...words.map((word) => word.end))
+          : detection.endIndex,
+      words,
+    });
+  }
+
+  return spans
+    .sort((a, b) => a.startIndex - b.startIndex)
+    .map(({ best, detectorIds, startIndex, endIndex, words }) => ({
+      ...best.detection,
+      text: text.slice(startIndex, endIndex),
+      startIndex,
+      endIndex,
+      words,
+      detectors: [...detectorIds],
+    }));
+}
+
+/**
+ * Join words whose character ranges overlap, as when two detectors cropped
+ * the same word differently, and sort them into page order
+ */
+function mergeWords(words: OCRWord[], text: string): OCRWord[] {
+  const merged: OCRWord[] = [];
+
+  for (const word of [...words].sort((a, b) => a.start - b.start)) {
+    const previous = merged[merged.length - 1];
+    if (!previous || word.start >= previous.end) {
+      merged.push(word);
+      continue;
+    }
+
+    const start = previous.start;
+    const end = Math.max(previous.end, word.end);
+    merged[merged.length - 1] = {
+      text: text.slice(start, end),
+      bbox: unionBoxes([previous.bbox, word.bbox]),
+      confidence: Math.min(previous.confidence, word.confidence),
+      start,
+      end,
+    };
+  }
+
+  return merged;
+}
@@ -0,0 +1,74 @@
+/**
+ * Utility functions for combining a PDF's native text layer with OCR results
+ *
+ * Both inputs must be in normalized page coordinates.
+ */
+
+import type { BoundingBox, OCRResult, OCRWord } from "@/types/redaction";
+import { getBoxArea, getOverlapArea } from "@/utils/coordinates";
+
+// OCR words covered this much by a text layer word are duplicates of it
+const DUPLICATE_OVERLAP = 0.5;
+
+/**
+ * Add OCR words found inside image regions to a page's text layer
+ * OCR words outside the images, or that repeat text layer words (e.g. text
+ * drawn over a scanned page), are dropped. The OCR text is appended after the
+ * text layer text, one line per OCR line.
+ * @param textLayer - Words from the PDF's text layer
+ * @param ocr - Words from OCR of the whole rendered page
+ * @param imageRegions - Where images are drawn on the page
+ */
+export function mergeOCRWords(
+  textLayer: OCRResult,
+  ocr: OCRResult,
+  imageRegions: BoundingBox[],
+): OCRResult {
+  const imageWords = ocr.words.filter(
+    (word) =>
+      imageRegions.some((region) => containsCenter(region, word.bbox)) &&
+      !textLayer.words.some(
+        (native) =>
+          getOverlapArea(native.bbox, word.bbox) >
+          getBoxArea(word.bbox) * DUPLICATE_OVERLAP,
+      ),
+  );
+
+  if (imageWords.length === 0) return textLayer;
+
+  let text = textLayer.text.endsWith("\n")
+    ? textLayer.text
+    : `${textLayer.text}\n`;
+  // The OCR words move to the appended text, so their offsets change
+  const appendedWords = imageWords.map((word, index) => {
+    const previous = imageWords[index - 1];
+    if (previous) {
+      text += startsNewLine(previous, word) ? "\n" : " ";
+    }
+    const start = text.length;
+    text += word.text;
+    return { ...word, start, end: text.length };
+  });
+
+  const words = [...textLayer.words, ...appendedWords];
+
+  return {
+    text,
+    words,
+    confidence: words.reduce((sum, w) => sum + w.confidence, 0) / words.length,
+  };
+}
+
+function containsCenter(region: BoundingBox, bbox: BoundingBox): boolean {
+  const x = (bbox.x0 + bbox.x1) / 2;
+  const y = (bbox.y0 + bbox.y1) / 2;
+  return x >= region.x0 && x <= region.x1 && y >= region.y0 && y <= region.y1;
+}
+
+/**
+ * OCR words arrive in reading order; a word starting below the previous
+ * word's vertical center begins a new line
+ */
+function startsNewLine(previous: OCRWord, word: OCRWord): boolean {
+  return word.bbox.y0 > (previous.bbox.y0 + previous.bbox.y1) / 2;
+}
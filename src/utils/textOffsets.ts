@@ -0,0 +1,113 @@
+/**
+ * Utility functions for mapping character ranges of page text to word boxes
+ *
+ * Every word records where it sits in its page's text, so a match is mapped
+ * to exactly the words it covers, even when a word repeats or a match starts
+ * or ends inside a word ("email:john@x.com"). Words are cropped to the
+ * covered characters, using per-glyph boxes where the source provides them.
+ */
+
+import type { BoundingBox, OCRWord } from "@/types/redaction";
+
+/**
+ * The parts of the words covering a character range, in page order
+ * @param words - The page's words, with offsets into the page text
+ * @param start - First character of the range
+ * @param end - Character just past the range
+ */
+export function getWordsInRange(
+  words: OCRWord[],
+  start: number,
+  end: number,
+): OCRWord[] {
+  return words.flatMap((word) => {
+    const cropped = cropWord(word, start, end);
+    return cropped ? [cropped] : [];
+  });
+}
+
+/**
+ * The part of a word within a character range, or null if none of it is
+ * Horizontal words are cropped across, vertical words down; the other
+ * extent stays the word's, so a crop is as tall as its word.
+ */
+export function cropWord(
+  word: OCRWord,
+  start: number,
+  end: number,
+): OCRWord | null {
+  const from = Math.max(start, word.start) - word.start;
+  const to = Math.min(end, word.end) - word.start;
+  if (to <= from) return null;
+
+  const length = word.end - word.start;
+  if (from === 0 && to === length) return word;
+
+  const { bbox } = word;
+  const isHorizontal = bbox.x1 - bbox.x0 >= bbox.y1 - bbox.y0;
+  // Glyph boxes are only trusted when there is one per character
+  const glyphs =
+    word.symbols?.length === length ? word.symbols.slice(from, to) : null;
+
+  let cropped: BoundingBox;
+  if (glyphs) {
+    cropped = isHorizontal
+      ? {
+          ...bbox,
+          x0: Math.min(...glyphs.map((glyph) => glyph.x0)),
+          x1: Math.max(...glyphs.map((glyph) => glyph.x1)),
+        }
+      : {
+          ...bbox,
+          y0: Math.min(...glyphs.map((glyph) => glyph.y0)),
+          y1: Math.max(...glyphs.map((glyph) => glyph.y1)),
+        };
+  } else {
+    // Without glyph boxes, assume evenly spaced characters, padded by one
+    // character on each side within the word: proportional fonts put wide
+    // glyphs where the estimate would leave part of one uncovered
+    const padFrom = Math.max(from - 1, 0);
+    const padTo = Math.min(to + 1, length);
+    const width = bbox.x1 - bbox.x0;
+    const height = bbox.y1 - bbox.y0;
+    cropped = isHorizontal
+      ? {
+          ...bbox,
+          x0: bbox.x0 + (width * padFrom) / length,
+          x1: bbox.x0 + (width * padTo) / length,
+        }
+      : {
+          ...bbox,
+          y0: bbox.y0 + (height * padFrom) / length,
+          y1: bbox.y0 + (height * padTo) / length,
+        };
+  }
+
+  return {
+    text: word.text.slice(from, to),
+    bbox: cropped,
+    confidence: word.confidence,
+    start: word.start + from,
+    end: word.start + to,
+    ...(glyphs && { symbols: glyphs }),
+  };
+}
+
+/**
+ * Join words into one line of text separated by spaces, with offsets
+ * pointing into the new text
+ */
+export function joinWords(words: OCRWord[]): {
+  text: string;
+  words: OCRWord[];
+} {
+  let text = "";
+  const joined = words.map((word, index) => {
+    if (index > 0) text += " ";
+    const start = text.length;
+    text += word.text;
+    return { ...word, start, end: text.length };
+  });
+
+  return { text, words: joined };
+}
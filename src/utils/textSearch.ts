@@ -0,0 +1,263 @@
+/**
+ * Utility functions for searching a page's words for a query
+ *
+ * Pages are searched through their extracted text (text layer or OCR), and
+ * each hit is mapped back to boxes on the page so it can be redacted.
+ */
+
+import type {
+  BoundingBox,
+  OCRResult,
+  OCRWord,
+  SearchHit,
+  SearchOptions,
+} from "@/types/redaction";
+import {
+  hasNestedQuantifier,
+  NESTED_QUANTIFIER_ERROR,
+} from "@/utils/regexSafety";
+import { getWordsInRange } from "@/utils/textOffsets";
+
+// Characters of page text shown on each side of a hit
+const CONTEXT_LENGTH = 30;
+
+// Stop collecting hits on a page past this many (e.g. a regex matching "a")
+export const MAX_HITS_PER_PAGE = 500;
+
+/**
+ * Find a query on one page
+ * @param result - The page's text and words, in normalized coordinates
+ * @param query - Text, regular expression or fuzzy query
+ * @param options - Search mode and flags
+ * @param pageNumber - Page the result belongs to, recorded on each hit
+ * @throws If the query is an invalid regular expression, or one that could
+ * take too long to match
+ */
+export function searchPage(
+  result: OCRResult,
+  query: string,
+  options: SearchOptions,
+  pageNumber: number,
+): SearchHit[] {
+  if (query.trim().length === 0) return [];
+
+  const ranges =
+    options.mode === "fuzzy"
+      ? findFuzzyRanges(result.words, query, options.matchCase)
+      : findPatternRanges(result.text, buildPattern(query, options));
+
+  const hits: SearchHit[] = [];
+  for (const { start, end, edits } of ranges) {
+    const boxes = getRangeBoxes(result.words, start, end);
+    if (boxes.length === 0) continue;
+
+    hits.push({
+      id: `${pageNumber}-${start}-${end}`,
+      pageNumber,
+      text: result.text.slice(start, end),
+      boxes,
+      before: result.text
+        .slice(Math.max(0, start - CONTEXT_LENGTH), start)
+        .replace(/\s+/g, " "),
+      after: result.text.slice(end, end + CONTEXT_LENGTH).replace(/\s+/g, " "),
+      ...(edits !== undefined && { edits }),
+    });
+  }
+
+  return hits;
+}
+
+/**
+ * Read the words whose centers fall inside a box, in reading order
+ * Punctuation at either end is dropped, so a box drawn over "Doe," finds
+ * "Doe." and "Doe" elsewhere.
+ */
+export function getTextInBox(result: OCRResult, box: BoundingBox): string {
+  const text = result.words
+    .filter(({ bbox }) => {
+      const centerX = (bbox.x0 + bbox.x1) / 2;
+      const centerY = (bbox.y0 + bbox.y1) / 2;
+      return (
+        centerX >= box.x0 &&
+        centerX <= box.x1 &&
+        centerY >= box.y0 &&
+        centerY <= box.y1
+      );
+    })
+    .map(({ text }) => text)
+    .join(" ");
+
+  return text.replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, "");
+}
+
+/**
+ * Build the regular expression for a text or regex search
+ */
+function buildPattern(query: string, options: SearchOptions): RegExp {
+  const flags = options.matchCase ? "gu" : "giu";
+
+  if (options.mode === "regex") {
+    if (hasNestedQuantifier(query)) {
+      throw new Error(NESTED_QUANTIFIER_ERROR);
+    }
+    // Without the u flag, so patterns written for other tools keep working
+    const source = options.wholeWord ? `\\b(?:${query})\\b` : query;
+    return new RegExp(source, options.matchCase ? "g" : "gi");
+  }
+
+  const escaped = query.trim().replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  // Any run of whitespace in the query matches any run on the page
+  const source = escaped.replace(/\s+/g, "\\s+");
+
+  return new RegExp(
+    options.wholeWord
+      ? `(?<![\\p{L}\\p{N}])${source}(?![\\p{L}\\p{N}])`
+      : source,
+    flags,
+  );
+}
+
+function findPatternRanges(
+  text: string,
+  pattern: RegExp,
+): Array<{ start: number; end: number; edits?: number }> {
+  const ranges: Array<{ start: number; end: number }> = [];
+
+  for (const match of text.matchAll(pattern)) {
+    if (match[0].length === 0) continue;
+    ranges.push({ start: match.index, end: match.index + match[0].length });
+    if (ranges.length >= MAX_HITS_PER_PAGE) break;
+  }
+
+  return ranges;
+}
+
+/**
+ * Find runs of words within an edit distance of the query
+ * The allowed distance grows with the query (one edit per five characters),
+ * so "Acme Corp" also finds "Acrne Corp" and "Acme Corp." in OCR output.
+ * Runs one word shorter or longer than the query catch split and merged
+ * words. Overlapping runs keep the closest match.
+ */
+function findFuzzyRanges(
+  words: OCRWord[],
+  query: string,
+  matchCase: boolean,
+): Array<{ start: number; end: number; edits: number }> {
+  const normalize = (value: string) => {
+    const stripped = value.replace(/[^\p{L}\p{N}\s]/gu, "").trim();
+    return matchCase ? stripped : stripped.toLowerCase();
+  };
+
+  const target = normalize(query).replace(/\s+/g, " ");
+  if (target.length === 0) return [];
+
+  const maxEdits = Math.floor(target.length / 5);
+  const queryWords = target.split(" ").length;
+
+  const candidates: Array<{
+    first: number;
+    last: number;
+    edits: number;
+  }> = [];
+
+  for (let first = 0; first < words.length; first++) {
+    for (
+      let size = Math.max(1, queryWords - 1);
+      size <= queryWords + 1 && first + size <= words.length;
+      size++
+    ) {
+      const candidate = normalize(
+        words
+          .slice(first, first + size)
+          .map((word) => word.text)
+          .join(" "),
+      ).replace(/\s+/g, " ");
+      if (Math.abs(candidate.length - target.length) > maxEdits) continue;
+
+      const edits = getEditDistance(candidate, target, maxEdits);
+      if (edits <= maxEdits) {
+        candidates.push({ first, last: first + size - 1, edits });
+      }
+    }
+  }
+
+  // Best matches first, then keep those not overlapping a better one
+  candidates.sort((a, b) => a.edits - b.edits || a.first - b.first);
+  const taken = new Set<number>();
+  const ranges: Array<{ start: number; end: number; edits: number }> = [];
+
+  for (const { first, last, edits } of candidates) {
+    let overlaps = false;
+    for (let i = first; i <= last; i++) {
+      if (taken.has(i)) overlaps = true;
+    }
+    if (overlaps) continue;
+
+    for (let i = first; i <= last; i++) taken.add(i);
+    ranges.push({ start: words[first].start, end: words[last].end, edits });
+    if (ranges.length >= MAX_HITS_PER_PAGE) break;
+  }
+
+  return ranges.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Levenshtein distance, giving up once it must exceed maxEdits
+ */
+function getEditDistance(a: string, b: string, maxEdits: number): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+      rowMin = Math.min(rowMin, current[j]);
+    }
+
+    if (rowMin > maxEdits) return rowMin;
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * Boxes covering a text range: the covered part of each word, merged into
+ * one box per line
+ */
+function getRangeBoxes(
+  words: OCRWord[],
+  start: number,
+  end: number,
+): BoundingBox[] {
+  const boxes: BoundingBox[] = [];
+
+  for (const { bbox: box } of getWordsInRange(words, start, end)) {
+    const previous = boxes[boxes.length - 1];
+    if (previous && isSameLine(previous, box)) {
+      boxes[boxes.length - 1] = {
+        x0: Math.min(previous.x0, box.x0),
+        y0: Math.min(previous.y0, box.y0),
+        x1: Math.max(previous.x1, box.x1),
+        y1: Math.max(previous.y1, box.y1),
+      };
+    } else {
+      boxes.push(box);
+    }
+  }
+
+  return boxes;
+}
+
+function isSameLine(a: BoundingBox, b: BoundingBox): boolean {
+  const centerA = (a.y0 + a.y1) / 2;
+  const centerB = (b.y0 + b.y1) / 2;
+  return Math.abs(centerA - centerB) < (a.y1 - a.y0) / 2;
+}
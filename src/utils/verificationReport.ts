@@ -0,0 +1,43 @@
+/**
+ * Utility functions for presenting export verification reports
+ */
+
+import type { VerificationReport } from "@/types/redaction";
+
+/**
+ * Summarize a verification report in one line, e.g.
+ * "2 words under redactions, 1 PII item next to a redaction (pages 1, 3)"
+ */
+export function summarizeVerificationReport(
+  report: VerificationReport,
+): string {
+  if (report.findings.length === 0) {
+    return report.pagesChecked > 0
+      ? `Verified: no recoverable text under redactions (${report.pagesChecked} page${report.pagesChecked !== 1 ? "s" : ""} checked)`
+      : "Verified: nothing to check";
+  }
+
+  // The text layer and OCR often report the same leak; count distinct texts
+  const distinct = (reason: string) =>
+    new Set(
+      report.findings
+        .filter((finding) => finding.reason === reason)
+        .map((finding) => `${finding.pageNumber}:${finding.text}`),
+    ).size;
+  const under = distinct("under-region");
+  const near = distinct("near-region");
+
+  const parts: string[] = [];
+  if (under > 0) {
+    parts.push(`${under} word${under !== 1 ? "s" : ""} under redactions`);
+  }
+  if (near > 0) {
+    parts.push(`${near} PII item${near !== 1 ? "s" : ""} next to a redaction`);
+  }
+
+  const pages = Array.from(
+    new Set(report.findings.map((finding) => finding.pageNumber)),
+  ).sort((a, b) => a - b);
+
+  return `${parts.join(", ")} (page${pages.length !== 1 ? "s" : ""} ${pages.join(", ")})`;
+}